@@ -28,6 +28,7 @@ export default [
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
         performance: 'readonly',
+        structuredClone: 'readonly',
         // Node.js globals
         process: 'readonly',
         global: 'readonly',
@@ -12,7 +12,28 @@
  * ```
  */
 import { CanvasLensCore } from './components/CanvasLensCore';
-import type { Annotation, CustomImageData, ToolConfig } from './types';
+import { DEFAULT_ADJUSTMENTS } from './modules/image-viewer/Adjustments';
+import type {
+  Annotation,
+  AnnotationSerializer,
+  CropAspectRatio,
+  CropOptions,
+  CropResult,
+  CustomImageData,
+  FlipAxis,
+  GalleryItem,
+  ImageAdjustments,
+  ImageExportOptions,
+  Point,
+  Rectangle,
+  RegisterShortcutOptions,
+  ShortcutAction,
+  SvgExportOptions,
+  TileSource,
+  ToolConfig,
+  ViewOrientation,
+  ZoomToRectOptions
+} from './types';
 import { ErrorType } from './types';
 import { ErrorHandler } from './utils/core/error-handler';
 
@@ -22,7 +43,9 @@ export class CanvasLens extends HTMLElement {
   static get observedAttributes() {
     return [
       'src', 'width', 'height', 'background-color', 
-      'tools', 'max-zoom', 'min-zoom', 'image-type', 'file-name'
+      'tools', 'max-zoom', 'min-zoom', 'image-type', 'file-name',
+      'animation-duration', 'animation-easing', 'navigator', 'pan-constraint',
+      'shortcuts', 'gallery'
     ];
   }
 
@@ -88,6 +111,21 @@ export class CanvasLens extends HTMLElement {
     );
   }
 
+  /**
+   * Load a tiled image; only the tiles in view are fetched
+   * @param source - Tile source, e.g. from DeepZoomTileSource.load or IiifTileSource.load
+   * @param fileName - File name (optional)
+   */
+  async loadTileSource(source: TileSource, fileName?: string): Promise<void> {
+    if (this.core) {
+      return this.core.loadTileSource(source, fileName);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
   /**
    * Load image from File object
    * @param file - File object
@@ -157,9 +195,180 @@ export class CanvasLens extends HTMLElement {
     }
   }
 
+  /**
+   * Zoom and pan so a region of the image fills the view
+   * @param rect - Region in image pixels
+   * @param options - Padding around the region in screen pixels (default: 20) and whether to animate (default: true)
+   */
+  zoomToRect(rect: Rectangle, options?: ZoomToRectOptions): void {
+    if (this.core) {
+      this.core.zoomToRect(rect, options);
+    }
+  }
+
+  /**
+   * Zoom and pan so an annotation fills the view
+   * @param id - Annotation ID
+   * @param options - Padding around the annotation in screen pixels (default: 20) and whether to animate (default: true)
+   * @returns false if the annotation does not exist or no image is loaded
+   */
+  zoomToAnnotation(id: string, options?: ZoomToRectOptions): boolean {
+    if (this.core) {
+      return this.core.zoomToAnnotation(id, options);
+    }
+    return false;
+  }
+
+  /**
+   * Pan so a point is at the center of the view, keeping the zoom level
+   * @param point - Point in image pixels
+   * @param animate - Animate the transition (default: true)
+   */
+  centerOn(point: Point, animate?: boolean): void {
+    if (this.core) {
+      this.core.centerOn(point, animate);
+    }
+  }
+
+  /**
+   * Rotate the image view clockwise, e.g. by 90 to turn a sideways photo
+   * @param degrees - Angle in degrees; negative values rotate counterclockwise
+   */
+  rotate(degrees: number): void {
+    if (this.core) {
+      this.core.rotate(degrees);
+    }
+  }
+
+  /**
+   * Mirror the image view
+   * @param axis - 'x' to swap left and right, 'y' to swap top and bottom
+   */
+  flip(axis: FlipAxis): void {
+    if (this.core) {
+      this.core.flip(axis);
+    }
+  }
+
+  /**
+   * Get the rotation and mirroring of the view
+   * @returns Rotation in degrees (0 up to 360) and whether the image is mirrored along x and y
+   */
+  getOrientation(): ViewOrientation {
+    if (this.core) {
+      return this.core.getOrientation();
+    }
+    return { rotation: 0, flipX: false, flipY: false };
+  }
+
+  /**
+   * Adjust how the image is displayed without changing it or the annotations
+   * @param adjustments - Brightness, contrast, saturation, gamma, invert and grayscale; omitted ones are kept
+   */
+  setAdjustments(adjustments: Partial<ImageAdjustments>): void {
+    if (this.core) {
+      this.core.setAdjustments(adjustments);
+    }
+  }
+
+  /**
+   * Show the image without adjustments
+   */
+  resetAdjustments(): void {
+    if (this.core) {
+      this.core.resetAdjustments();
+    }
+  }
+
+  /**
+   * Get the current image adjustments
+   * @returns Brightness, contrast, saturation, gamma, invert and grayscale settings
+   */
+  getAdjustments(): ImageAdjustments {
+    if (this.core) {
+      return this.core.getAdjustments();
+    }
+    return { ...DEFAULT_ADJUSTMENTS };
+  }
+
+  /**
+   * Enter crop mode: drag the crop rectangle or its handles, then apply or cancel
+   * @param options - Aspect ratio and initial rectangle in image pixels
+   */
+  startCrop(options?: CropOptions): void {
+    if (this.core) {
+      this.core.startCrop(options);
+    }
+  }
+
+  /**
+   * Constrain the crop rectangle to an aspect ratio
+   * @param aspectRatio - Preset such as '16:9', 'original', 'free', or width divided by height
+   */
+  setCropAspectRatio(aspectRatio: CropAspectRatio): void {
+    if (this.core) {
+      this.core.setCropAspectRatio(aspectRatio);
+    }
+  }
+
+  /**
+   * Get the crop rectangle
+   * @returns Rectangle in natural image pixels, or null outside crop mode
+   */
+  getCropRect(): Rectangle | null {
+    if (this.core) {
+      return this.core.getCropRect();
+    }
+    return null;
+  }
+
+  /**
+   * Set the crop rectangle
+   * @param rect - Rectangle in natural image pixels; clamped to the image
+   */
+  setCropRect(rect: Rectangle): void {
+    if (this.core) {
+      this.core.setCropRect(rect);
+    }
+  }
+
+  /**
+   * Replace the image with the cropped region and move the annotations along
+   * @returns The cropped region, new image data and IDs of removed annotations
+   */
+  async applyCrop(): Promise<CropResult> {
+    if (this.core) {
+      return this.core.applyCrop();
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Leave crop mode without changing the image
+   */
+  cancelCrop(): void {
+    if (this.core) {
+      this.core.cancelCrop();
+    }
+  }
+
+  /**
+   * Check whether crop mode is on
+   * @returns True while cropping
+   */
+  isCropping(): boolean {
+    if (this.core) {
+      return this.core.isCropping();
+    }
+    return false;
+  }
+
   /**
    * Activate a specific annotation or interaction tool
-   * @param toolType - Tool type to activate ('rect', 'arrow', 'text', 'circle', 'line')
+   * @param toolType - Tool type to activate ('rect', 'arrow', 'text', 'circle', 'line', 'freehand', 'highlighter', 'polygon', 'polyline')
    * @returns true if tool was activated successfully, false if tool type is invalid or unavailable
    */
   activateTool(toolType: string): boolean {
@@ -257,6 +466,199 @@ export class CanvasLens extends HTMLElement {
     return [];
   }
 
+  /**
+   * Get selected annotations
+   * @returns Array of selected annotations in drawing order
+   */
+  getSelectedAnnotations(): Annotation[] {
+    if (this.core) {
+      return this.core.getSelectedAnnotations();
+    }
+    return [];
+  }
+
+  /**
+   * Replace the selection with the given annotation IDs
+   * @param ids - Annotation IDs to select (unknown IDs are ignored)
+   */
+  setSelection(ids: string[]): void {
+    if (this.core) {
+      this.core.setSelection(ids);
+    }
+  }
+
+  /**
+   * Export the image with annotations at its natural resolution,
+   * independent of the current zoom/pan and device pixel ratio
+   * @param options - Format, quality, scale, region and output type
+   * @returns Blob, or data URL string when `output` is 'dataURL'
+   */
+  exportImage(options: ImageExportOptions & { output: 'dataURL' }): Promise<string>;
+  exportImage(options?: ImageExportOptions & { output?: 'blob' }): Promise<Blob>;
+  exportImage(options: ImageExportOptions): Promise<Blob | string>;
+  async exportImage(options: ImageExportOptions = {}): Promise<Blob | string> {
+    if (this.core) {
+      return this.core.exportImage(options);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Export annotations in an external format
+   * @param format - Format name, e.g. 'coco'
+   * @returns Serialized annotations
+   */
+  exportAnnotationsAs(format: string): string {
+    if (this.core) {
+      return this.core.exportAnnotationsAs(format);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Replace all annotations with annotations in an external format
+   * @param format - Format name, e.g. 'coco'
+   * @param data - Serialized annotations
+   */
+  importAnnotationsFrom(format: string, data: string): void {
+    if (this.core) {
+      this.core.importAnnotationsFrom(format, data);
+      return;
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Add a serializer for a custom annotation format, replacing any with the same name
+   * @param serializer - Serializer whose `format` is used as the format name
+   */
+  registerSerializer(serializer: AnnotationSerializer): void {
+    if (this.core) {
+      this.core.registerSerializer(serializer);
+      return;
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Get the serializer used for an external annotation format, e.g. to read
+   * the class list of the built-in YOLO serializer after an export
+   * @param format - Format name, e.g. 'yolo'
+   */
+  getSerializer(format: string): AnnotationSerializer {
+    if (this.core) {
+      return this.core.getSerializer(format);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Bind a built-in action or a callback to a key combination. Shortcuts only
+   * apply while focus is inside the component
+   * @param combo - Combination such as 'Mod+Shift+Z' (Mod is Cmd on macOS, Ctrl elsewhere)
+   * @param action - Action such as 'zoomIn' or 'tool:rect', or a callback receiving the key event
+   * @param options - Set `replace` to overwrite an existing binding instead of throwing
+   */
+  registerShortcut(combo: string, action: ShortcutAction, options?: RegisterShortcutOptions): void {
+    if (this.core) {
+      this.core.registerShortcut(combo, action, options);
+      return;
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Remove the binding of a key combination
+   * @returns true if the combination was bound
+   */
+  unregisterShortcut(combo: string): boolean {
+    return this.core ? this.core.unregisterShortcut(combo) : false;
+  }
+
+  /**
+   * Get the current shortcuts keyed by normalized combination, e.g. 'ctrl+shift+z'
+   */
+  getShortcuts(): Record<string, ShortcutAction> {
+    return this.core ? this.core.getShortcuts() : {};
+  }
+
+  /**
+   * Export annotations as an SVG document sized to the image's natural resolution
+   * @param options - Set `includeImage` to embed the image as base64
+   * @returns SVG markup
+   */
+  exportAnnotationsAsSVG(options: SvgExportOptions = {}): string {
+    if (this.core) {
+      return this.core.exportAnnotationsAsSVG(options);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Undo the last annotation change (add, remove, move, clear)
+   * @returns true if a change was undone
+   */
+  undo(): boolean {
+    if (this.core) {
+      return this.core.undo();
+    }
+    return false;
+  }
+
+  /**
+   * Redo the last undone annotation change
+   * @returns true if a change was redone
+   */
+  redo(): boolean {
+    if (this.core) {
+      return this.core.redo();
+    }
+    return false;
+  }
+
+  /**
+   * Check if there is an annotation change to undo
+   * @returns true if undo is available
+   */
+  canUndo(): boolean {
+    if (this.core) {
+      return this.core.canUndo();
+    }
+    return false;
+  }
+
+  /**
+   * Check if there is an annotation change to redo
+   * @returns true if redo is available
+   */
+  canRedo(): boolean {
+    if (this.core) {
+      return this.core.canRedo();
+    }
+    return false;
+  }
+
   /**
    * Toggle comparison mode
    * Switches between normal view and comparison view with slider
@@ -288,6 +690,91 @@ export class CanvasLens extends HTMLElement {
     return false;
   }
 
+  /**
+   * Show a list of images one at a time with a filmstrip of thumbnails. Each
+   * image keeps its own annotations, keyed by source
+   * @param items - Image URLs or gallery items; an empty list removes the gallery
+   * @param startIndex - Index of the image to show first (default: 0)
+   */
+  async setGallery(items: Array<string | GalleryItem>, startIndex?: number): Promise<void> {
+    if (this.core) {
+      return this.core.setGallery(items, startIndex);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Show the gallery image at an index
+   * @param index - Index in the gallery
+   */
+  async goToImage(index: number): Promise<void> {
+    if (this.core) {
+      return this.core.goToImage(index);
+    }
+    throw ErrorHandler.createError(
+      ErrorType.INITIALIZATION,
+      'CanvasLens is not initialized'
+    );
+  }
+
+  /**
+   * Show the next gallery image
+   * @returns false on the last image or without a gallery
+   */
+  async nextImage(): Promise<boolean> {
+    if (this.core) {
+      return this.core.nextImage();
+    }
+    return false;
+  }
+
+  /**
+   * Show the previous gallery image
+   * @returns false on the first image or without a gallery
+   */
+  async previousImage(): Promise<boolean> {
+    if (this.core) {
+      return this.core.previousImage();
+    }
+    return false;
+  }
+
+  /**
+   * Get the index of the shown gallery image
+   * @returns Index, or -1 without a gallery
+   */
+  getGalleryIndex(): number {
+    if (this.core) {
+      return this.core.getGalleryIndex();
+    }
+    return -1;
+  }
+
+  /**
+   * Get the images of the gallery
+   * @returns Gallery items in order
+   */
+  getGalleryItems(): GalleryItem[] {
+    if (this.core) {
+      return this.core.getGalleryItems();
+    }
+    return [];
+  }
+
+  /**
+   * Get the annotations of every gallery image
+   * @returns Annotations in natural image pixels keyed by image source
+   */
+  getGalleryAnnotations(): Record<string, Annotation[]> {
+    if (this.core) {
+      return this.core.getGalleryAnnotations();
+    }
+    return {};
+  }
+
   /**
    * Open overlay mode for full-screen editing experience
    * Provides a professional editing interface with toolbar and enhanced controls
@@ -0,0 +1,50 @@
+import { Engine } from '../core/Engine';
+import type { CanvasLensOptions } from '../types';
+
+/**
+ * Loaded 1600x1200 image; the 800x600 test viewer fits it at half size, so
+ * one screen pixel is two image pixels
+ */
+export const createTestImage = (init: Partial<HTMLImageElement> = {}): HTMLImageElement =>
+  ({ complete: true, naturalWidth: 1600, naturalHeight: 1200, ...init } as HTMLImageElement);
+
+/**
+ * 800x600 engine with zoom, pan and the rectangle tool, without transitions
+ */
+export const createTestEngine = (container: HTMLElement, options: Partial<CanvasLensOptions> = {}): Engine => {
+  const engine = new Engine({
+    container,
+    width: 800,
+    height: 600,
+    tools: { zoom: true, pan: true, annotation: { rect: true } },
+    animationDuration: 0,
+    ...options
+  });
+  // Let the debounced canvas resize apply before the image is fitted
+  jest.advanceTimersByTime(20);
+  return engine;
+};
+
+/**
+ * Dispatch a pointer event of the primary mouse pointer at client coordinates;
+ * moves carry no button, as in browsers
+ */
+export const dispatchPointer = (
+  target: EventTarget,
+  type: string,
+  x: number,
+  y: number,
+  init: PointerEventInit = {}
+): void => {
+  target.dispatchEvent(new PointerEvent(type, {
+    clientX: x,
+    clientY: y,
+    button: type === 'pointermove' ? -1 : 0,
+    pointerId: 1,
+    pointerType: 'mouse',
+    isPrimary: true,
+    bubbles: true,
+    cancelable: true,
+    ...init
+  }));
+};
@@ -0,0 +1,110 @@
+import type { Engine } from '../../../core/Engine';
+import { describeAnnotation } from '../../../modules/accessibility';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('Accessibility Layer', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let canvas: HTMLCanvasElement;
+
+  const createEngine = () => {
+    engine = createTestEngine(container, { tools: { zoom: true, pan: true, annotation: { rect: true, text: true } } });
+    canvas = engine.getImageViewer().getCanvas().getElement();
+    engine.loadImageElement(createTestImage());
+  };
+
+  const layer = () => engine.getImageViewer().getAccessibilityLayer();
+  const buttons = () => Array.from(layer().getList().querySelectorAll('button'));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should mirror the annotations in a labelled list', () => {
+    createEngine();
+    expect(layer().getList().getAttribute('aria-label')).toBe('Annotations');
+    expect(buttons()).toHaveLength(0);
+
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 100, y: 100 }, { x: 200, y: 150 }], style });
+    engine.addAnnotation({ id: 'b', type: 'text', points: [{ x: 10, y: 20 }], style, data: { text: 'Note' } });
+
+    expect(buttons().map(button => button.textContent)).toEqual([
+      'Rectangle at x 100, y 100, 100 by 50 pixels',
+      'Text "Note" at x 10, y 20'
+    ]);
+
+    engine.removeAnnotation('a');
+    expect(buttons().map(button => button.dataset['annotationId'])).toEqual(['b']);
+  });
+
+  it('should reflect and announce the selection', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 100, y: 100 }, { x: 200, y: 150 }], style });
+    engine.addAnnotation({ id: 'b', type: 'rect', points: [{ x: 300, y: 300 }, { x: 400, y: 400 }], style });
+
+    engine.setSelection(['b']);
+
+    expect(buttons().map(button => button.getAttribute('aria-pressed'))).toEqual(['false', 'true']);
+    expect(layer().getLiveRegion().textContent).toBe('Selected Rectangle at x 300, y 300, 100 by 100 pixels');
+  });
+
+  it('should select an annotation when its list item is activated', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 100, y: 100 }, { x: 200, y: 150 }], style });
+
+    buttons()[0]?.click();
+
+    expect(engine.getSelectedAnnotations().map(annotation => annotation.id)).toEqual(['a']);
+    expect(buttons()[0]?.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('should announce the zoom level once it settles', () => {
+    createEngine();
+    const liveRegion = layer().getLiveRegion();
+    expect(liveRegion.getAttribute('aria-live')).toBe('polite');
+
+    engine.zoomIn();
+    engine.zoomIn();
+    expect(liveRegion.textContent).toBe('');
+
+    jest.advanceTimersByTime(300);
+    expect(liveRegion.textContent).toBe('Zoom 144%');
+  });
+
+  it('should announce tool changes', () => {
+    createEngine();
+
+    engine.activateTool('rect');
+    expect(layer().getLiveRegion().textContent).toBe('Rectangle tool on');
+
+    engine.deactivateTool();
+    expect(layer().getLiveRegion().textContent).toBe('Rectangle tool off');
+  });
+
+  it('should describe highlighter strokes and remove its elements on destroy', () => {
+    createEngine();
+    const highlight = {
+      id: 'h',
+      type: 'freehand' as const,
+      points: [{ x: 0, y: 0 }, { x: 40, y: 10 }],
+      style,
+      data: { highlighter: true }
+    };
+
+    expect(describeAnnotation(highlight)).toBe('Highlighter at x 0, y 0, 40 by 10 pixels');
+
+    engine.destroy();
+    expect(container.querySelector('[aria-live]')).toBeNull();
+    expect(canvas.hasAttribute('aria-label')).toBe(false);
+  });
+});
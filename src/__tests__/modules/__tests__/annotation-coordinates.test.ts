@@ -0,0 +1,90 @@
+import { AnnotationManager } from '../../../modules/annotation/Manager';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import type { Annotation } from '../../../types';
+import { createTestImage, dispatchPointer } from '../../helpers';
+
+const createRect = (id: string, x: number, y: number): Annotation => ({
+  id,
+  type: 'rect',
+  points: [{ x, y }, { x: x + 100, y: y + 100 }],
+  style: { strokeColor: '#ff0000', strokeWidth: 2 }
+});
+
+describe('Annotation Coordinates', () => {
+  let container: HTMLElement;
+  let viewer: ImageViewer;
+  let annotationManager: AnnotationManager;
+
+  const pointer = (type: string, x: number, y: number) => {
+    dispatchPointer(viewer.getCanvas().getElement(), type, x, y);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, undefined, { enabled: true });
+    annotationManager = viewer.getAnnotationManager()!;
+
+    // 1600x1200 image fitted at half size into the 800x600 canvas
+    viewer.loadImageElement(createTestImage());
+    viewer.resize({ width: 800, height: 600 });
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    viewer.getCanvas().destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should keep stored points stable when the container is resized', () => {
+    annotationManager.addAnnotation(createRect('a', 400, 400));
+    expect(annotationManager.getAnnotationAt({ x: 200, y: 200 })?.id).toBe('a');
+
+    // Image is now displayed at 400x300, centered vertically
+    viewer.resize({ width: 400, height: 600 });
+
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 400, y: 400 });
+    expect(annotationManager.getAnnotationAt({ x: 100, y: 250 })?.id).toBe('a');
+    expect(annotationManager.getAnnotationAt({ x: 200, y: 200 })).toBeNull();
+  });
+
+  it('should store drawn and dragged annotations in natural image coordinates', () => {
+    annotationManager.activateTool('rect');
+    pointer('pointerdown', 100, 100);
+    jest.advanceTimersByTime(20);
+    pointer('pointermove', 200, 150);
+    pointer('pointerup', 200, 150);
+    annotationManager.deactivateTool();
+
+    const [drawn] = annotationManager.getAllAnnotations();
+    expect(drawn?.points).toEqual([{ x: 200, y: 200 }, { x: 400, y: 300 }]);
+
+    annotationManager.selectAnnotation(null);
+    pointer('pointerdown', 100, 125);
+    jest.advanceTimersByTime(20);
+    pointer('pointermove', 110, 135);
+    pointer('pointerup', 110, 135);
+
+    expect(annotationManager.getAnnotation(drawn!.id)?.points[0]).toEqual({ x: 220, y: 220 });
+  });
+
+  it('should round-trip the export format and migrate legacy arrays', () => {
+    annotationManager.addAnnotation(createRect('a', 400, 400));
+    const exported = annotationManager.exportAnnotations();
+
+    expect(JSON.parse(exported)).toMatchObject({
+      version: AnnotationManager.FORMAT_VERSION,
+      coordinateSpace: 'image',
+      imageSize: { width: 1600, height: 1200 }
+    });
+
+    // Legacy exports were plain arrays in display coordinates of the current fit
+    expect(annotationManager.importAnnotations(JSON.stringify([createRect('legacy', 200, 200)]))).toBe(true);
+    expect(annotationManager.getAnnotation('legacy')?.points).toEqual([{ x: 400, y: 400 }, { x: 600, y: 600 }]);
+
+    expect(annotationManager.importAnnotations(exported)).toBe(true);
+    expect(annotationManager.getAllAnnotations().map(a => a.points[0])).toEqual([{ x: 400, y: 400 }]);
+  });
+});
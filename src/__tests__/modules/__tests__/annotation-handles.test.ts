@@ -0,0 +1,125 @@
+import { Renderer } from '../../../core/Renderer';
+import { AnnotationManager } from '../../../modules/annotation/Manager';
+import type { Annotation, AnnotationUpdate } from '../../../types';
+import { dispatchPointer } from '../../helpers';
+
+const createAnnotation = (type: Annotation['type'], points: Annotation['points']): Annotation => ({
+  id: type,
+  type,
+  points,
+  style: { strokeColor: '#ff0000', strokeWidth: 2 }
+});
+
+describe('Annotation Handles', () => {
+  let container: HTMLElement;
+  let canvas: Renderer;
+  let annotationManager: AnnotationManager;
+  let updates: AnnotationUpdate[];
+
+  const pointer = (type: string, x: number, y: number, shiftKey = false) => {
+    dispatchPointer(canvas.getElement(), type, x, y, { shiftKey });
+  };
+
+  const drag = (from: [number, number], to: [number, number], shiftKey = false) => {
+    pointer('pointerdown', from[0], from[1]);
+    pointer('pointermove', to[0], to[1], shiftKey);
+    pointer('pointerup', to[0], to[1]);
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    canvas = new Renderer(container, { width: 800, height: 600 });
+    updates = [];
+    annotationManager = new AnnotationManager(canvas, {
+      enabled: true,
+      eventHandlers: {
+        onAnnotationUpdate: (update) => updates.push(update)
+      }
+    });
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    canvas.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should resize a rectangle from a corner handle', () => {
+    const rect = createAnnotation('rect', [{ x: 100, y: 100 }, { x: 200, y: 150 }]);
+    annotationManager.addAnnotation(rect);
+    annotationManager.selectAnnotation(rect);
+
+    drag([200, 150], [260, 170]);
+
+    expect(annotationManager.getAnnotation('rect')?.points).toEqual([
+      { x: 100, y: 100 },
+      { x: 260, y: 170 }
+    ]);
+  });
+
+  it('should keep aspect ratio while Shift is held', () => {
+    const rect = createAnnotation('rect', [{ x: 100, y: 100 }, { x: 200, y: 150 }]);
+    annotationManager.addAnnotation(rect);
+    annotationManager.selectAnnotation(rect);
+
+    drag([200, 150], [300, 160], true);
+
+    expect(annotationManager.getAnnotation('rect')?.points).toEqual([
+      { x: 100, y: 100 },
+      { x: 300, y: 200 }
+    ]);
+  });
+
+  it('should only change one side from an edge handle', () => {
+    const rect = createAnnotation('rect', [{ x: 100, y: 100 }, { x: 200, y: 150 }]);
+    annotationManager.addAnnotation(rect);
+    annotationManager.selectAnnotation(rect);
+
+    drag([100, 125], [50, 140]);
+
+    expect(annotationManager.getAnnotation('rect')?.points).toEqual([
+      { x: 50, y: 100 },
+      { x: 200, y: 150 }
+    ]);
+  });
+
+  it('should move a line endpoint', () => {
+    const line = createAnnotation('line', [{ x: 10, y: 10 }, { x: 100, y: 10 }]);
+    annotationManager.addAnnotation(line);
+    annotationManager.selectAnnotation(line);
+
+    drag([10, 10], [20, 50]);
+
+    expect(annotationManager.getAnnotation('line')?.points).toEqual([
+      { x: 20, y: 50 },
+      { x: 100, y: 10 }
+    ]);
+  });
+
+  it('should emit annotation update and record a single undo step', () => {
+    const circle = createAnnotation('circle', [{ x: 300, y: 300 }, { x: 350, y: 300 }]);
+    annotationManager.addAnnotation(circle);
+    annotationManager.selectAnnotation(circle);
+
+    drag([350, 300], [380, 300]);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]?.before).toEqual([{ x: 300, y: 300 }, { x: 350, y: 300 }]);
+    expect(updates[0]?.after).toEqual([{ x: 300, y: 300 }, { x: 380, y: 300 }]);
+
+    annotationManager.undo();
+    expect(annotationManager.getAnnotation('circle')?.points[1]).toEqual({ x: 350, y: 300 });
+    expect(updates).toHaveLength(2);
+  });
+
+  it('should show resize cursor when hovering a handle', () => {
+    const rect = createAnnotation('rect', [{ x: 100, y: 100 }, { x: 200, y: 150 }]);
+    annotationManager.addAnnotation(rect);
+    annotationManager.selectAnnotation(rect);
+
+    pointer('pointermove', 100, 100);
+
+    expect(canvas.getElement().style.cursor).toBe('nwse-resize');
+  });
+});
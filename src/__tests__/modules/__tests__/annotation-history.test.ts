@@ -0,0 +1,157 @@
+import { Renderer } from '../../../core/Renderer';
+import { AnnotationManager } from '../../../modules/annotation/Manager';
+import type { Annotation, AnnotationHistoryState } from '../../../types';
+
+const createRect = (id: string, x: number, y: number): Annotation => ({
+  id,
+  type: 'rect',
+  points: [{ x, y }, { x: x + 50, y: y + 50 }],
+  style: { strokeColor: '#ff0000', strokeWidth: 2 }
+});
+
+describe('Annotation History', () => {
+  let container: HTMLElement;
+  let canvas: Renderer;
+  let annotationManager: AnnotationManager;
+  let historyStates: AnnotationHistoryState[];
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    canvas = new Renderer(container, { width: 800, height: 600 });
+    historyStates = [];
+    annotationManager = new AnnotationManager(canvas, {
+      enabled: true,
+      eventHandlers: {
+        onHistoryChange: (state) => historyStates.push(state)
+      }
+    });
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    canvas.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should undo and redo an added annotation', () => {
+    annotationManager.addAnnotation(createRect('a', 10, 10));
+    expect(annotationManager.canUndo()).toBe(true);
+    expect(annotationManager.canRedo()).toBe(false);
+
+    expect(annotationManager.undo()).toBe(true);
+    expect(annotationManager.getAnnotationCount()).toBe(0);
+    expect(annotationManager.canRedo()).toBe(true);
+
+    expect(annotationManager.redo()).toBe(true);
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 10, y: 10 });
+  });
+
+  it('should restore removed annotation at its original position', () => {
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.addAnnotation(createRect('b', 100, 100));
+    annotationManager.addAnnotation(createRect('c', 200, 200));
+
+    annotationManager.removeAnnotation('b');
+    annotationManager.undo();
+
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should undo clearAll as a single step', () => {
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.addAnnotation(createRect('b', 100, 100));
+
+    annotationManager.clearAll();
+    expect(annotationManager.getAnnotationCount()).toBe(0);
+
+    annotationManager.undo();
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['a', 'b']);
+  });
+
+  it('should record batched changes as one step', () => {
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.updateAnnotation('a', createRect('a', 300, 300));
+
+    annotationManager.undo();
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 0, y: 0 });
+    expect(annotationManager.getHistoryState().undoCount).toBe(1);
+  });
+
+  it('should update an annotation in place as a single change', () => {
+    const onAnnotationAdd = jest.fn();
+    const onAnnotationRemove = jest.fn();
+    const onAnnotationUpdate = jest.fn();
+    annotationManager = new AnnotationManager(canvas, {
+      enabled: true,
+      eventHandlers: { onAnnotationAdd, onAnnotationRemove, onAnnotationUpdate }
+    });
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.addAnnotation(createRect('b', 100, 100));
+    onAnnotationAdd.mockClear();
+
+    annotationManager.updateAnnotation('a', createRect('a', 300, 300));
+
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['a', 'b']);
+    expect(onAnnotationAdd).not.toHaveBeenCalled();
+    expect(onAnnotationRemove).not.toHaveBeenCalled();
+    expect(onAnnotationUpdate).toHaveBeenCalledWith(expect.objectContaining({
+      before: [{ x: 0, y: 0 }, { x: 50, y: 50 }],
+      after: [{ x: 300, y: 300 }, { x: 350, y: 350 }]
+    }));
+
+    annotationManager.undo();
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['a', 'b']);
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should not be affected by later in-place mutations of nested data', () => {
+    const annotation: Annotation = { ...createRect('a', 0, 0), data: { tags: ['cat'] } };
+    annotationManager.addAnnotation(annotation);
+    annotationManager.removeAnnotation('a');
+
+    (annotation.data?.['tags'] as string[]).push('dog');
+    annotationManager.undo();
+
+    expect(annotationManager.getAnnotation('a')?.data).toEqual({ tags: ['cat'] });
+  });
+
+  it('should not be affected by later in-place mutations', () => {
+    const annotation = createRect('a', 0, 0);
+    annotationManager.addAnnotation(annotation);
+    annotationManager.removeAnnotation('a');
+
+    annotation.points[0] = { x: 999, y: 999 };
+    annotationManager.undo();
+
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should clear redo stack after a new change', () => {
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.undo();
+    annotationManager.addAnnotation(createRect('b', 0, 0));
+
+    expect(annotationManager.canRedo()).toBe(false);
+  });
+
+  it('should notify history changes', () => {
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.undo();
+
+    expect(historyStates).toEqual([
+      { canUndo: true, canRedo: false, undoCount: 1, redoCount: 0 },
+      { canUndo: false, canRedo: true, undoCount: 0, redoCount: 1 }
+    ]);
+  });
+
+  it('should undo on Ctrl+Z and redo on Ctrl+Shift+Z', () => {
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+
+    canvas.getElement().dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }));
+    expect(annotationManager.getAnnotationCount()).toBe(0);
+
+    canvas.getElement().dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true, bubbles: true }));
+    expect(annotationManager.getAnnotationCount()).toBe(1);
+  });
+});
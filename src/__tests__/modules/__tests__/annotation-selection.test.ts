@@ -0,0 +1,100 @@
+import { Renderer } from '../../../core/Renderer';
+import { AnnotationManager } from '../../../modules/annotation/Manager';
+import type { Annotation } from '../../../types';
+import { dispatchPointer } from '../../helpers';
+
+const createRect = (id: string, x: number, y: number): Annotation => ({
+  id,
+  type: 'rect',
+  points: [{ x, y }, { x: x + 50, y: y + 50 }],
+  style: { strokeColor: '#ff0000', strokeWidth: 2 }
+});
+
+describe('Annotation Multi-Selection', () => {
+  let container: HTMLElement;
+  let canvas: Renderer;
+  let annotationManager: AnnotationManager;
+
+  const pointer = (type: string, x: number, y: number, init: PointerEventInit = {}) => {
+    dispatchPointer(canvas.getElement(), type, x, y, init);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    canvas = new Renderer(container, { width: 800, height: 600 });
+    annotationManager = new AnnotationManager(canvas, { enabled: true });
+
+    annotationManager.addAnnotation(createRect('a', 0, 0));
+    annotationManager.addAnnotation(createRect('b', 100, 0));
+    annotationManager.addAnnotation(createRect('c', 300, 300));
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    canvas.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  const selectedIds = () => annotationManager.getSelectedAnnotations().map(a => a.id);
+
+  it('should toggle annotations with Shift+click', () => {
+    pointer('pointerdown', 25, 25);
+    pointer('pointerup', 25, 25);
+    pointer('pointerdown', 125, 25, { shiftKey: true });
+    pointer('pointerup', 125, 25);
+    expect(selectedIds()).toEqual(['a', 'b']);
+
+    pointer('pointerdown', 25, 25, { ctrlKey: true });
+    pointer('pointerup', 25, 25);
+    expect(selectedIds()).toEqual(['b']);
+  });
+
+  it('should select annotations inside a marquee', () => {
+    pointer('pointerdown', -10, -10, { shiftKey: true });
+    jest.advanceTimersByTime(20);
+    pointer('pointermove', 200, 100);
+    pointer('pointerup', 200, 100);
+
+    expect(selectedIds()).toEqual(['a', 'b']);
+    expect(annotationManager.isMarqueeSelecting()).toBe(false);
+  });
+
+  it('should drag the whole selection as one undo step', () => {
+    annotationManager.setSelection(['a', 'c']);
+
+    pointer('pointerdown', 25, 25);
+    jest.advanceTimersByTime(20);
+    pointer('pointermove', 35, 45);
+    pointer('pointerup', 35, 45);
+
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 10, y: 20 });
+    expect(annotationManager.getAnnotation('c')?.points[0]).toEqual({ x: 310, y: 320 });
+    expect(annotationManager.getAnnotation('b')?.points[0]).toEqual({ x: 100, y: 0 });
+
+    annotationManager.undo();
+    expect(annotationManager.getAnnotation('a')?.points[0]).toEqual({ x: 0, y: 0 });
+    expect(annotationManager.getAnnotation('c')?.points[0]).toEqual({ x: 300, y: 300 });
+  });
+
+  it('should delete the whole selection with Delete', () => {
+    annotationManager.setSelection(['a', 'b']);
+
+    canvas.getElement().dispatchEvent(new KeyboardEvent('keydown', { key: 'Delete', bubbles: true }));
+
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['c']);
+    expect(annotationManager.hasSelectedAnnotation()).toBe(false);
+
+    annotationManager.undo();
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should ignore unknown ids in setSelection', () => {
+    annotationManager.setSelection(['c', 'missing']);
+
+    expect(selectedIds()).toEqual(['c']);
+    expect(annotationManager.getSelectedAnnotation()?.id).toBe('c');
+  });
+});
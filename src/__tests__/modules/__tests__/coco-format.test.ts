@@ -0,0 +1,128 @@
+import type { AnnotationManager } from '../../../modules/annotation/Manager';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import type { Annotation } from '../../../types';
+import { createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('COCO Format', () => {
+  let container: HTMLElement;
+  let viewer: ImageViewer;
+  let annotationManager: AnnotationManager;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, undefined, { enabled: true });
+    annotationManager = viewer.getAnnotationManager()!;
+
+    viewer.loadImageElement(createTestImage(), 'image/jpeg', 'street.jpg');
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    viewer.getCanvas().destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should export boxes, polygons and categories', () => {
+    const annotations: Annotation[] = [
+      { id: 'car', type: 'rect', points: [{ x: 300, y: 200 }, { x: 100, y: 50 }], style, data: { category: 'car' } },
+      { id: 'road', type: 'polygon', points: [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 0, y: 30 }], style, data: { category: 'road' } },
+      { id: 'arrow', type: 'arrow', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style },
+      { id: 'bus', type: 'rect', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style, data: { category: 'car' } }
+    ];
+    annotations.forEach(annotation => annotationManager.addAnnotation(annotation));
+
+    const dataset = JSON.parse(annotationManager.exportAnnotationsAs('coco'));
+
+    expect(dataset.images).toEqual([{ id: 1, file_name: 'street.jpg', width: 1600, height: 1200 }]);
+    expect(dataset.categories).toEqual([{ id: 1, name: 'car' }, { id: 2, name: 'road' }]);
+    expect(dataset.annotations).toHaveLength(3);
+    expect(dataset.annotations[0]).toMatchObject({ bbox: [100, 50, 200, 150], area: 30000, category_id: 1, image_id: 1 });
+    expect(dataset.annotations[1]).toMatchObject({ bbox: [0, 0, 40, 30], area: 600, segmentation: [[0, 0, 40, 0, 0, 30]], category_id: 2 });
+  });
+
+  it('should give back the same boxes after a round trip', () => {
+    annotationManager.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 10.5, y: 20 }, { x: 110, y: 220.25 }], style, data: { category: 'dog' } });
+    const exported = annotationManager.exportAnnotationsAs('coco');
+
+    annotationManager.importAnnotationsFrom('coco', exported);
+
+    const [imported] = annotationManager.getAllAnnotations();
+    expect(imported?.type).toBe('rect');
+    expect(imported?.points).toEqual([{ x: 10.5, y: 20 }, { x: 110, y: 220.25 }]);
+    expect(imported?.data?.category).toBe('dog');
+    expect(JSON.parse(annotationManager.exportAnnotationsAs('coco')).annotations).toEqual(JSON.parse(exported).annotations);
+  });
+
+  it('should keep open shapes as open shapes after a round trip', () => {
+    const points = [{ x: 0, y: 0 }, { x: 40, y: 10 }, { x: 80, y: 0 }];
+    annotationManager.addAnnotation({ id: 'wire', type: 'polyline', points, style });
+    annotationManager.addAnnotation({ id: 'stroke', type: 'freehand', points, style });
+    annotationManager.addAnnotation({ id: 'field', type: 'polygon', points, style });
+    const exported = annotationManager.exportAnnotationsAs('coco');
+
+    expect(JSON.parse(exported).annotations.map((a: { attributes?: unknown }) => a.attributes))
+      .toEqual([{ type: 'polyline' }, { type: 'freehand' }, undefined]);
+
+    annotationManager.importAnnotationsFrom('coco', exported);
+
+    expect(annotationManager.getAllAnnotations().map(a => a.type)).toEqual(['polyline', 'freehand', 'polygon']);
+    expect(annotationManager.getAllAnnotations()[0]?.points).toEqual(points);
+  });
+
+  it('should only fall back to an unmatched image when it is the only one', () => {
+    const annotations = [{ id: 1, image_id: 7, category_id: 1, bbox: [0, 0, 10, 10] }];
+    const single = { images: [{ id: 7, file_name: 'renamed.jpg', width: 1600, height: 1200 }], annotations };
+    const several = {
+      images: [...single.images, { id: 8, file_name: 'other.jpg', width: 1600, height: 1200 }],
+      annotations
+    };
+
+    annotationManager.importAnnotationsFrom('coco', JSON.stringify(single));
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['coco-1']);
+
+    expect(() => annotationManager.importAnnotationsFrom('coco', JSON.stringify(several)))
+      .toThrow(expect.objectContaining({ type: 'ANNOTATION', context: expect.objectContaining({ value: 'street.jpg' }) }));
+  });
+
+  it('should pick the matching image and rescale its annotations', () => {
+    const dataset = {
+      images: [
+        { id: 7, file_name: 'other.jpg', width: 800, height: 600 },
+        { id: 8, file_name: 'street.jpg', width: 800, height: 600 }
+      ],
+      annotations: [
+        { id: 1, image_id: 7, category_id: 1, bbox: [0, 0, 5, 5] },
+        { id: 2, image_id: 8, category_id: 1, bbox: [10, 10, 20, 20], segmentation: { counts: 'abc', size: [600, 800] }, iscrowd: 1 },
+        { id: 3, image_id: 8, category_id: 1, bbox: [0, 0, 10, 10], segmentation: [[0, 0, 10, 0, 10, 10]] }
+      ],
+      categories: [{ id: 1, name: 'person' }]
+    };
+
+    annotationManager.importAnnotationsFrom('coco', JSON.stringify(dataset));
+
+    const annotations = annotationManager.getAllAnnotations();
+    expect(annotations.map(a => [a.id, a.type])).toEqual([['coco-2', 'rect'], ['coco-3', 'polygon']]);
+    expect(annotations[0]?.points).toEqual([{ x: 20, y: 20 }, { x: 60, y: 60 }]);
+    expect(annotations[1]?.points[1]).toEqual({ x: 20, y: 0 });
+    expect(annotations[1]?.data).toEqual({ category: 'person', cocoId: 3 });
+  });
+
+  it('should reject invalid data without touching existing annotations', () => {
+    annotationManager.addAnnotation({ id: 'keep', type: 'rect', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style });
+    const dataset = {
+      images: [{ id: 1, file_name: 'street.jpg', width: 1600, height: 1200 }],
+      annotations: [{ id: 1, image_id: 1, category_id: 1, bbox: [0, 0, 'wide', 10] }]
+    };
+
+    expect(() => annotationManager.importAnnotationsFrom('coco', JSON.stringify(dataset)))
+      .toThrow(expect.objectContaining({ type: 'ANNOTATION', context: expect.objectContaining({ index: 0 }) }));
+    expect(() => annotationManager.importAnnotationsFrom('coco', '{')).toThrow(expect.objectContaining({ type: 'ANNOTATION' }));
+    expect(() => annotationManager.importAnnotationsFrom('coco', JSON.stringify({ ...dataset, annotations: [null] })))
+      .toThrow(expect.objectContaining({ type: 'ANNOTATION', context: expect.objectContaining({ index: 0 }) }));
+    expect(() => annotationManager.exportAnnotationsAs('unknown')).toThrow('Unsupported annotation format: unknown');
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['keep']);
+  });
+});
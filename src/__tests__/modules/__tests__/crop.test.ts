@@ -0,0 +1,179 @@
+import type { Engine } from '../../../core/Engine';
+import { cropAnnotation } from '../../../modules/crop';
+import type { Annotation, CropResult } from '../../../types';
+import * as imageUtils from '../../../utils/image/utils';
+import { createTestEngine, createTestImage, dispatchPointer } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('Crop', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let image: HTMLImageElement;
+
+  const createEngine = () => {
+    engine = createTestEngine(container);
+    image = createTestImage();
+    engine.loadImageElement(image, 'image/jpeg', 'photo.jpg');
+  };
+
+  const pointer = (type: string, x: number, y: number) => {
+    dispatchPointer(engine.getImageViewer().getCanvas().getElement(), type, x, y);
+  };
+
+  const drag = (from: [number, number], to: [number, number]) => {
+    pointer('pointerdown', from[0], from[1]);
+    pointer('pointermove', to[0], to[1]);
+    pointer('pointerup', to[0], to[1]);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    jest.spyOn(imageUtils, 'loadImage').mockResolvedValue(
+      { complete: true, naturalWidth: 800, naturalHeight: 600 } as HTMLImageElement
+    );
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should resize and move the crop rectangle inside the image', () => {
+    createEngine();
+    engine.activateTool('rect');
+    engine.startCrop();
+
+    expect(engine.getCropRect()).toEqual({ x: 0, y: 0, width: 1600, height: 1200 });
+
+    drag([800, 600], [400, 300]);
+    expect(engine.getCropRect()).toEqual({ x: 0, y: 0, width: 800, height: 600 });
+
+    // Moving past the image edge stops at it
+    drag([200, 150], [700, 500]);
+    expect(engine.getCropRect()).toEqual({ x: 800, y: 600, width: 800, height: 600 });
+
+    // The drags edit the crop instead of drawing annotations
+    expect(engine.getAnnotations()).toHaveLength(0);
+  });
+
+  it('should keep the crop rectangle to the aspect ratio', () => {
+    createEngine();
+    engine.startCrop({ aspectRatio: '16:9' });
+    expect(engine.getCropRect()).toEqual({ x: 0, y: 150, width: 1600, height: 900 });
+
+    engine.setCropAspectRatio('1:1');
+    expect(engine.getCropRect()).toEqual({ x: 350, y: 150, width: 900, height: 900 });
+
+    engine.setCropAspectRatio('free');
+    engine.setCropRect({ x: -100, y: 1000, width: 600, height: 600 });
+    expect(engine.getCropRect()).toEqual({ x: 0, y: 1000, width: 500, height: 200 });
+
+    expect(() => engine.setCropAspectRatio(0)).toThrow('Crop aspect ratio must be a positive number');
+  });
+
+  it('should replace the image and move the annotations on apply', async () => {
+    createEngine();
+    const crops: CropResult[] = [];
+    engine.setEventHandlers({ onCrop: result => crops.push(result) });
+    engine.addAnnotation({ id: 'inside', type: 'rect', points: [{ x: 500, y: 400 }, { x: 700, y: 500 }], style });
+    engine.addAnnotation({ id: 'across', type: 'rect', points: [{ x: 300, y: 200 }, { x: 600, y: 500 }], style });
+    engine.addAnnotation({ id: 'outside', type: 'rect', points: [{ x: 1300, y: 1000 }, { x: 1500, y: 1100 }], style });
+
+    engine.startCrop({ rect: { x: 400, y: 300, width: 800, height: 600 } });
+    const result = await engine.applyCrop();
+
+    const getContext = HTMLCanvasElement.prototype.getContext as jest.Mock;
+    const cropCtx = getContext.mock.results.find(({ value }) =>
+      (value.drawImage as jest.Mock).mock.calls.some(call => call.length === 9)
+    )?.value as CanvasRenderingContext2D;
+    expect(cropCtx.drawImage).toHaveBeenCalledWith(image, 400, 300, 800, 600, 0, 0, 800, 600);
+
+    expect(result.rect).toEqual({ x: 400, y: 300, width: 800, height: 600 });
+    expect(result.removedAnnotationIds).toEqual(['outside']);
+    expect(result.imageData.naturalSize).toEqual({ width: 800, height: 600 });
+    expect(result.imageData.fileName).toBe('photo.jpg');
+    expect(crops).toEqual([result]);
+
+    expect(engine.isCropping()).toBe(false);
+    const points = (id: string) => engine.getAnnotations().find(annotation => annotation.id === id)?.points;
+    expect(points('inside')).toEqual([{ x: 100, y: 100 }, { x: 300, y: 200 }]);
+    expect(points('across')).toEqual([{ x: 0, y: 0 }, { x: 200, y: 200 }]);
+    expect(points('outside')).toBeUndefined();
+  });
+
+  it('should restore the tool and keep the image when cancelled', () => {
+    createEngine();
+    engine.activateTool('rect');
+    engine.startCrop({ aspectRatio: 'original' });
+    expect(engine.getActiveTool()).toBeNull();
+
+    container.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+    expect(engine.isCropping()).toBe(false);
+    expect(engine.getCropRect()).toBeNull();
+    expect(engine.getActiveTool()).toBe('rect');
+    expect(engine.getImageData()?.element).toBe(image);
+    expect(imageUtils.loadImage).not.toHaveBeenCalled();
+  });
+});
+
+describe('Cropping Annotations', () => {
+  const rect = { x: 100, y: 100, width: 200, height: 100 };
+  const annotation = (type: Annotation['type'], points: Annotation['points']): Annotation => ({
+    id: type,
+    type,
+    points,
+    style
+  });
+
+  it('should keep text by its anchor and circles unclamped', () => {
+    expect(cropAnnotation(annotation('text', [{ x: 150, y: 150 }]), rect)?.points).toEqual([{ x: 50, y: 50 }]);
+    expect(cropAnnotation(annotation('text', [{ x: 50, y: 150 }]), rect)).toBeNull();
+
+    const circle = cropAnnotation(annotation('circle', [{ x: 90, y: 150 }, { x: 110, y: 150 }]), rect);
+    expect(circle?.points).toEqual([{ x: -10, y: 50 }, { x: 10, y: 50 }]);
+    expect(cropAnnotation(annotation('circle', [{ x: 50, y: 150 }, { x: 60, y: 150 }]), rect)).toBeNull();
+
+    expect(cropAnnotation(annotation('line', [{ x: 0, y: 150 }, { x: 200, y: 150 }]), rect)?.points)
+      .toEqual([{ x: 0, y: 50 }, { x: 100, y: 50 }]);
+  });
+
+  it('should clip a diagonal line where it crosses the crop edge', () => {
+    // From inside the crop out through its right edge: keeps the direction of the line
+    expect(cropAnnotation(annotation('arrow', [{ x: 250, y: 150 }, { x: 350, y: 250 }]), rect)?.points)
+      .toEqual([{ x: 150, y: 50 }, { x: 200, y: 100 }]);
+
+    // Through two edges
+    expect(cropAnnotation(annotation('line', [{ x: 50, y: 180 }, { x: 150, y: 80 }]), rect)?.points)
+      .toEqual([{ x: 0, y: 30 }, { x: 30, y: 0 }]);
+
+    // Its box overlaps the crop but the line passes by a corner
+    expect(cropAnnotation(annotation('line', [{ x: 50, y: 130 }, { x: 130, y: 50 }]), rect)).toBeNull();
+  });
+
+  it('should clip polygons to the crop and drop paths cut into pieces', () => {
+    // A triangle pointing out of the right edge, cut by all but the left edge
+    const polygon = cropAnnotation(annotation('polygon', [{ x: 200, y: 50 }, { x: 400, y: 150 }, { x: 200, y: 250 }]), rect);
+    expect(polygon?.points).toEqual([
+      { x: 100, y: 100 },
+      { x: 100, y: 0 },
+      { x: 200, y: 0 },
+      { x: 200, y: 100 }
+    ]);
+
+    const tip = cropAnnotation(annotation('polygon', [{ x: 250, y: 150 }, { x: 350, y: 100 }, { x: 350, y: 200 }]), rect);
+    expect(tip?.points).toEqual([{ x: 200, y: 75 }, { x: 150, y: 50 }, { x: 200, y: 25 }]);
+
+    const polyline = cropAnnotation(annotation('polyline', [{ x: 50, y: 150 }, { x: 150, y: 150 }, { x: 150, y: 250 }]), rect);
+    expect(polyline?.points).toEqual([{ x: 0, y: 50 }, { x: 50, y: 50 }, { x: 50, y: 100 }]);
+
+    // Leaves through the bottom edge and comes back
+    const wave = [{ x: 150, y: 150 }, { x: 200, y: 250 }, { x: 250, y: 150 }];
+    expect(cropAnnotation(annotation('freehand', wave), rect)).toBeNull();
+  });
+});
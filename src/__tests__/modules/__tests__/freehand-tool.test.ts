@@ -0,0 +1,94 @@
+import { Renderer } from '../../../core/Renderer';
+import { FreehandTool } from '../../../modules/annotation/tools/components/FreehandTool';
+import { HighlighterTool } from '../../../modules/annotation/tools/components/HighlighterTool';
+import { AnnotationRenderer } from '../../../modules/annotation/Renderer';
+import type { AnnotationStyle } from '../../../types';
+import { simplifyPath } from '../../../utils/geometry/path';
+
+describe('Freehand Tool', () => {
+  let container: HTMLElement;
+  let canvas: Renderer;
+  let renderer: AnnotationRenderer;
+  const style: AnnotationStyle = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    canvas = new Renderer(container, { width: 800, height: 600 });
+    renderer = new AnnotationRenderer(canvas);
+  });
+
+  afterEach(() => {
+    canvas.destroy();
+    document.body.removeChild(container);
+  });
+
+  const drawStroke = (tool: FreehandTool) => {
+    tool.startDrawing({ x: 0, y: 0 });
+    for (let x = 5; x < 100; x += 5) {
+      tool.continueDrawing({ x, y: 0.1 * (x % 2) });
+    }
+    return tool.finishDrawing({ x: 100, y: 100 });
+  };
+
+  describe('simplifyPath', () => {
+    it('should drop points within tolerance and keep corners', () => {
+      const points = [
+        { x: 0, y: 0 },
+        { x: 5, y: 0.2 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 }
+      ];
+
+      expect(simplifyPath(points, 1)).toEqual([
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 }
+      ]);
+    });
+
+    it('should keep paths with two or fewer points unchanged', () => {
+      expect(simplifyPath([{ x: 1, y: 1 }], 5)).toEqual([{ x: 1, y: 1 }]);
+    });
+  });
+
+  it('should record a simplified stroke on finish', () => {
+    const tool = new FreehandTool(canvas, renderer, { style });
+
+    expect(tool.startDrawing({ x: 0, y: 0 })).toBeNull();
+    tool.cancelDrawing();
+
+    const annotation = drawStroke(tool);
+
+    expect(annotation?.type).toBe('freehand');
+    expect(annotation?.points).toEqual([
+      { x: 0, y: 0 },
+      { x: 95, y: 0.1 },
+      { x: 100, y: 100 }
+    ]);
+    expect(tool.isCurrentlyDrawing()).toBe(false);
+  });
+
+  it('should mark highlighter strokes', () => {
+    const annotation = drawStroke(new HighlighterTool(canvas, renderer, { style }));
+
+    expect(annotation?.type).toBe('freehand');
+    expect(annotation?.data).toEqual({ highlighter: true });
+  });
+
+  it('should discard a stroke without movement', () => {
+    const tool = new FreehandTool(canvas, renderer, { style });
+    tool.startDrawing({ x: 10, y: 10 });
+
+    expect(tool.finishDrawing({ x: 10, y: 10 })).toBeNull();
+  });
+
+  it('should hit-test along the stroke', () => {
+    const annotation = drawStroke(new FreehandTool(canvas, renderer, { style }))!;
+
+    expect(renderer.hitTest({ x: 50, y: 3 }, annotation)).toBe(true);
+    expect(renderer.hitTest({ x: 97, y: 50 }, annotation)).toBe(true);
+    // Inside the bounding box but away from the stroke
+    expect(renderer.hitTest({ x: 30, y: 60 }, annotation)).toBe(false);
+  });
+});
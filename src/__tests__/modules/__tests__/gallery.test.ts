@@ -0,0 +1,201 @@
+import { GalleryManager } from '../../../components/GalleryManager';
+import type { Engine } from '../../../core/Engine';
+import type { Annotation, ImageChangeDetail } from '../../../types';
+import { ImageLoader } from '../../../utils/image/loader';
+import * as imageUtils from '../../../utils/image/utils';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+const rect = (id: string): Annotation => ({
+  id,
+  type: 'rect',
+  points: [{ x: 100, y: 100 }, { x: 300, y: 200 }],
+  style
+});
+
+describe('Gallery', () => {
+  let host: HTMLElement;
+  let container: HTMLElement;
+  let engine: Engine;
+  let gallery: GalleryManager;
+  let changes: ImageChangeDetail[];
+
+  /** Let fire-and-forget navigations finish */
+  const flush = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const thumbnails = () => Array.from(container.querySelectorAll<HTMLElement>('[role="option"]'));
+
+  const press = (target: HTMLElement, key: string, init: KeyboardEventInit = {}) => {
+    target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    host = document.createElement('div');
+    container = document.createElement('div');
+    host.appendChild(container);
+    document.body.appendChild(host);
+
+    jest.spyOn(imageUtils, 'loadImage').mockImplementation(src =>
+      Promise.resolve(createTestImage({ src }))
+    );
+    jest.spyOn(ImageLoader, 'preloadImages').mockResolvedValue([]);
+
+    engine = createTestEngine(container);
+
+    gallery = new GalleryManager(host, () => engine);
+    gallery.mount(container);
+    changes = [];
+    host.addEventListener('imagechange', event => changes.push((event as CustomEvent<ImageChangeDetail>).detail));
+  });
+
+  afterEach(() => {
+    gallery.unmount();
+    engine.destroy();
+    document.body.removeChild(host);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should show a filmstrip and step through the images', async () => {
+    await gallery.setItems(['a.jpg', { src: 'b.jpg', thumbnail: 'b-small.jpg', fileName: 'b.jpg' }, 'c.jpg']);
+
+    expect(thumbnails().map(thumbnail => thumbnail.querySelector('img')?.getAttribute('src')))
+      .toEqual(['a.jpg', 'b-small.jpg', 'c.jpg']);
+    expect(thumbnails().map(thumbnail => thumbnail.getAttribute('aria-selected'))).toEqual(['true', 'false', 'false']);
+    expect(ImageLoader.preloadImages).toHaveBeenLastCalledWith(['b.jpg']);
+
+    expect(await gallery.next()).toBe(true);
+    expect(engine.getImageData()?.fileName).toBe('b.jpg');
+    expect(ImageLoader.preloadImages).toHaveBeenLastCalledWith(['a.jpg', 'c.jpg']);
+
+    await gallery.next();
+    expect(await gallery.next()).toBe(false);
+    expect(await gallery.previous()).toBe(true);
+
+    expect(changes.map(({ index, previousIndex }) => [index, previousIndex]))
+      .toEqual([[0, null], [1, 0], [2, 1], [1, 2]]);
+    expect(changes[1]?.item.src).toBe('b.jpg');
+    await expect(gallery.goTo(3)).rejects.toThrow('Gallery has no image at index 3');
+  });
+
+  it('should keep separate annotations per image', async () => {
+    await gallery.setItems([{ src: 'a.jpg', annotations: [rect('saved')] }, 'b.jpg']);
+    expect(engine.getAnnotations().map(annotation => annotation.id)).toEqual(['saved']);
+
+    engine.addAnnotation(rect('on-a'));
+    await gallery.next();
+    // Switching images starts a fresh history and fires no annotation events
+    expect(engine.getAnnotations()).toEqual([]);
+    expect(engine.canUndo()).toBe(false);
+
+    engine.addAnnotation(rect('on-b'));
+    await gallery.previous();
+    expect(engine.getAnnotations().map(annotation => annotation.id)).toEqual(['saved', 'on-a']);
+
+    const sets = gallery.getAnnotationSets();
+    expect(Object.keys(sets)).toEqual(['a.jpg', 'b.jpg']);
+    expect(sets['b.jpg']?.map(annotation => annotation.id)).toEqual(['on-b']);
+
+    // Sources staying in a new list keep their annotations
+    await gallery.setItems(['c.jpg', 'b.jpg'], 1);
+    expect(engine.getAnnotations().map(annotation => annotation.id)).toEqual(['on-b']);
+  });
+
+  it('should keep a cropped image with the annotations moved into it', async () => {
+    engine.setEventHandlers({ onCrop: result => host.dispatchEvent(new CustomEvent('crop', { detail: result })) });
+    await gallery.setItems([{ src: 'a.jpg', annotations: [rect('saved')] }, 'b.jpg']);
+
+    engine.startCrop();
+    engine.setCropRect({ x: 50, y: 50, width: 800, height: 600 });
+    const { imageData } = await engine.applyCrop();
+    await gallery.next();
+    (imageUtils.loadImage as jest.Mock).mockClear();
+    await gallery.previous();
+
+    // The crop is shown again instead of the source its annotations no longer fit
+    expect(imageUtils.loadImage).not.toHaveBeenCalled();
+    expect(engine.getImageData()?.element).toBe(imageData.element);
+    expect(engine.getAnnotations()[0]?.points).toEqual([{ x: 50, y: 50 }, { x: 250, y: 150 }]);
+
+    // Annotations brought along with a new list belong to the source
+    await gallery.setItems([{ src: 'a.jpg', annotations: [rect('fresh')] }]);
+    expect(imageUtils.loadImage).toHaveBeenLastCalledWith('a.jpg');
+  });
+
+  it('should navigate with the keyboard', async () => {
+    await gallery.setItems(['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg']);
+
+    press(thumbnails()[0]!, 'ArrowRight');
+    await flush();
+    expect(gallery.getIndex()).toBe(1);
+    expect(thumbnails()[1]?.tabIndex).toBe(0);
+
+    press(thumbnails()[1]!, 'End');
+    await flush();
+    expect(gallery.getIndex()).toBe(3);
+
+    const canvas = engine.getImageViewer().getCanvas().getElement();
+    press(canvas, 'PageUp');
+    await flush();
+    expect(gallery.getIndex()).toBe(2);
+
+    // With panning on, the arrows move the view and Alt+arrows switch images
+    press(canvas, 'ArrowLeft');
+    await flush();
+    expect(gallery.getIndex()).toBe(2);
+
+    press(canvas, 'ArrowLeft', { altKey: true });
+    await flush();
+    expect(gallery.getIndex()).toBe(1);
+
+    // The image actions can take over the arrows
+    engine.registerShortcut('ArrowRight', 'nextImage', { replace: true });
+    press(canvas, 'ArrowRight');
+    await flush();
+    expect(gallery.getIndex()).toBe(2);
+
+    gallery.unmount();
+    const event = new KeyboardEvent('keydown', { key: 'PageDown', bubbles: true, cancelable: true });
+    canvas.dispatchEvent(event);
+    await flush();
+    expect(gallery.getIndex()).toBe(2);
+    expect(event.defaultPrevented).toBe(false);
+  });
+
+  it('should load images like the viewer does', async () => {
+    const onImageLoad = jest.fn();
+    engine.setEventHandlers({ onImageLoad });
+    jest.spyOn(engine, 'loadImage');
+
+    await gallery.setItems([{ src: 'a.jpg', type: 'image/jpeg', fileName: 'a.jpg' }, 'b.jpg']);
+    await gallery.next();
+
+    expect(engine.loadImage).toHaveBeenCalledWith('b.jpg', undefined, undefined);
+    expect(onImageLoad).toHaveBeenCalledTimes(2);
+    expect(onImageLoad.mock.calls[0]?.[0]).toMatchObject({ type: 'image/jpeg', fileName: 'a.jpg' });
+    expect(engine.getImageData()?.element).toMatchObject({ src: 'b.jpg' });
+  });
+
+  it('should show only the latest of overlapping navigations', async () => {
+    let finishSlowLoad: () => void = () => undefined;
+    await gallery.setItems(['a.jpg', 'slow.jpg', 'c.jpg']);
+    (imageUtils.loadImage as jest.Mock).mockImplementationOnce(src => new Promise(resolve => {
+      finishSlowLoad = () => resolve(createTestImage({ src }));
+    }));
+
+    const slow = gallery.goTo(1);
+    await gallery.goTo(2);
+    finishSlowLoad();
+    await slow;
+
+    expect(gallery.getIndex()).toBe(2);
+    expect((engine.getImageData()?.element as HTMLImageElement).src).toBe('c.jpg');
+    expect(changes.map(change => change.index)).toEqual([0, 2]);
+  });
+});
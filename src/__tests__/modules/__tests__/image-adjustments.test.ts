@@ -0,0 +1,111 @@
+import type { Engine } from '../../../core/Engine';
+import { applyAdjustments } from '../../../modules/image-viewer';
+import { DEFAULT_ADJUSTMENTS } from '../../../modules/image-viewer/Adjustments';
+import type { ImageAdjustments } from '../../../types';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('Image Adjustments', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let image: HTMLImageElement;
+
+  const createEngine = () => {
+    engine = createTestEngine(container);
+    image = createTestImage();
+    engine.loadImageElement(image);
+  };
+
+  const drawnImage = () => {
+    const ctx = engine.getImageViewer().getCanvas().getContext();
+    const calls = (ctx.drawImage as jest.Mock).mock.calls;
+    return calls[calls.length - 1]?.[0] as CanvasImageSource;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should draw a cached adjusted image across zoom and pan', () => {
+    createEngine();
+    expect(drawnImage()).toBe(image);
+
+    engine.setAdjustments({ brightness: 1.2, invert: true });
+    const adjusted = drawnImage();
+    expect(adjusted).toBeInstanceOf(HTMLCanvasElement);
+
+    engine.zoomIn();
+    engine.zoomToRect({ x: 100, y: 100, width: 200, height: 150 });
+    expect(drawnImage()).toBe(adjusted);
+    expect(engine.getAdjustments()).toEqual({ ...DEFAULT_ADJUSTMENTS, brightness: 1.2, invert: true });
+
+    engine.setAdjustments({ invert: false });
+    expect(drawnImage()).not.toBe(adjusted);
+    expect(engine.getAdjustments().brightness).toBe(1.2);
+  });
+
+  it('should leave annotations untouched and restore the original image on reset', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 10, y: 10 }, { x: 50, y: 50 }], style });
+
+    engine.setAdjustments({ grayscale: true, contrast: 1.5 });
+    engine.resetAdjustments();
+
+    expect(drawnImage()).toBe(image);
+    expect(engine.getAdjustments()).toEqual(DEFAULT_ADJUSTMENTS);
+    expect(engine.getAnnotations()[0]?.points).toEqual([{ x: 10, y: 10 }, { x: 50, y: 50 }]);
+  });
+
+  it('should reject out of range values and keep the previous settings', () => {
+    createEngine();
+    engine.setAdjustments({ gamma: 1.5 });
+
+    expect(() => engine.setAdjustments({ gamma: 0 })).toThrow('gamma must be a positive number');
+    expect(() => engine.setAdjustments({ contrast: -1 })).toThrow('contrast must be a non-negative number');
+    expect(() => engine.setAdjustments({ brightness: NaN })).toThrow('brightness');
+    expect(engine.getAdjustments().gamma).toBe(1.5);
+  });
+
+  it('should bake the adjustments into the export only when asked', async () => {
+    createEngine();
+    engine.setAdjustments({ saturation: 0.5 });
+    const getContext = HTMLCanvasElement.prototype.getContext as jest.Mock;
+    const exportedImage = () => {
+      const ctx = getContext.mock.results[getContext.mock.results.length - 1]?.value as CanvasRenderingContext2D;
+      return (ctx.drawImage as jest.Mock).mock.calls[0]?.[0] as CanvasImageSource;
+    };
+
+    await engine.exportImage({ output: 'dataURL' });
+    expect(exportedImage()).toBe(image);
+
+    await engine.exportImage({ output: 'dataURL', includeAdjustments: true });
+    expect(exportedImage()).toBeInstanceOf(HTMLCanvasElement);
+  });
+});
+
+describe('Adjusting Pixels', () => {
+  const adjust = (pixel: number[], adjustments: Partial<ImageAdjustments>) => {
+    const data = new Uint8ClampedArray(pixel);
+    applyAdjustments(data, { ...DEFAULT_ADJUSTMENTS, ...adjustments });
+    return Array.from(data);
+  };
+
+  it('should adjust the color channels and keep alpha', () => {
+    expect(adjust([200, 100, 50, 128], {})).toEqual([200, 100, 50, 128]);
+    expect(adjust([200, 100, 50, 128], { brightness: 0.5 })).toEqual([100, 50, 25, 128]);
+    expect(adjust([200, 100, 50, 255], { contrast: 0 })).toEqual([128, 128, 128, 255]);
+    expect(adjust([200, 100, 50, 255], { invert: true })).toEqual([55, 155, 205, 255]);
+    // Luma of (200, 100, 50) is 124.2
+    expect(adjust([200, 100, 50, 255], { grayscale: true })).toEqual([124, 124, 124, 255]);
+    expect(adjust([64, 64, 64, 255], { gamma: 2 })).toEqual([128, 128, 128, 255]);
+  });
+});
@@ -0,0 +1,108 @@
+import { Renderer } from '../../../core/Renderer';
+import { AnnotationManager } from '../../../modules/annotation/Manager';
+import { ImageExporter } from '../../../modules/image-viewer/Exporter';
+import type { CustomImageData } from '../../../types';
+
+describe('Image Export', () => {
+  let container: HTMLElement;
+  let canvas: Renderer;
+  let annotationManager: AnnotationManager;
+  let imageData: CustomImageData;
+  let toBlob: jest.Mock;
+  let createdCanvases: HTMLCanvasElement[];
+
+  const lastExportContext = () => {
+    const results = (HTMLCanvasElement.prototype.getContext as jest.Mock).mock.results;
+    return results[results.length - 1]?.value;
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    canvas = new Renderer(container, { width: 800, height: 600 });
+    annotationManager = new AnnotationManager(canvas, { enabled: true });
+    annotationManager.addAnnotation({
+      id: 'rect',
+      type: 'rect',
+      points: [{ x: 100, y: 100 }, { x: 200, y: 200 }],
+      style: { strokeColor: '#ff0000', strokeWidth: 2 }
+    });
+
+    // Image of 1600x1200 displayed at half size, offset by 50px
+    imageData = {
+      element: document.createElement('img'),
+      naturalSize: { width: 1600, height: 1200 },
+      displaySize: { width: 800, height: 600 },
+      position: { x: 50, y: 0 }
+    };
+
+    toBlob = jest.fn((callback: BlobCallback, type?: string) => callback(new Blob([], { type: type ?? '' })));
+    HTMLCanvasElement.prototype.toBlob = toBlob;
+
+    createdCanvases = [];
+    const createElement = document.createElement.bind(document);
+    jest.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
+      const element = createElement(tagName);
+      if (tagName === 'canvas') {
+        createdCanvases.push(element as HTMLCanvasElement);
+      }
+      return element;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    annotationManager.destroy();
+    canvas.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should render at natural resolution regardless of view state', async () => {
+    canvas.setViewState({ scale: 3, offsetX: -500, offsetY: -200 });
+
+    const blob = await ImageExporter.export(imageData, annotationManager, { format: 'webp', quality: 0.8 });
+
+    expect(blob).toBeInstanceOf(Blob);
+    expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/webp', 0.8);
+    expect(createdCanvases[0]?.width).toBe(1600);
+    expect(createdCanvases[0]?.height).toBe(1200);
+
+    const ctx = lastExportContext();
+    expect(ctx.drawImage).toHaveBeenCalledWith(imageData.element, 0, 0, 1600, 1200);
+    // Display coordinates are mapped onto natural pixels
+    expect(ctx.scale).toHaveBeenCalledWith(2, 2);
+    expect(ctx.translate).toHaveBeenCalledWith(-50, -0);
+    expect(ctx.strokeRect).toHaveBeenCalled();
+  });
+
+  it('should export a scaled region as a data URL', async () => {
+    const result = await ImageExporter.export(imageData, annotationManager, {
+      format: 'jpeg',
+      region: { x: 1400, y: -100, width: 400, height: 300 },
+      scale: 0.5,
+      includeAnnotations: false,
+      output: 'dataURL'
+    });
+
+    expect(typeof result).toBe('string');
+    // Region is clamped to the image: 200x200 natural pixels at half scale
+    expect(createdCanvases[0]?.width).toBe(100);
+    expect(createdCanvases[0]?.height).toBe(100);
+
+    const ctx = lastExportContext();
+    expect(ctx.translate).toHaveBeenCalledWith(-1400, -0);
+    expect(ctx.strokeRect).not.toHaveBeenCalled();
+    // JPEG background is filled so transparent pixels don't turn black
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 100, 100);
+  });
+
+  it('should reject invalid options and failed encoding', async () => {
+    await expect(ImageExporter.export(imageData, null, { scale: 0 }))
+      .rejects.toMatchObject({ type: 'RENDERING' });
+    await expect(ImageExporter.export(imageData, null, { region: { x: 2000, y: 0, width: 10, height: 10 } }))
+      .rejects.toMatchObject({ type: 'RENDERING' });
+
+    toBlob.mockImplementation((callback: BlobCallback) => callback(null));
+    await expect(ImageExporter.export(imageData, null)).rejects.toMatchObject({ type: 'RENDERING' });
+  });
+});
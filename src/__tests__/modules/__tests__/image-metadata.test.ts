@@ -0,0 +1,160 @@
+import { Engine } from '../../../core/Engine';
+import type { CustomImageData } from '../../../types';
+import { parseExif } from '../../../utils/image/exif';
+import { ImageLoader } from '../../../utils/image/loader';
+import { orientImage } from '../../../utils/image/utils';
+
+/**
+ * TIFF block of an EXIF segment with orientation 6, camera, resolution,
+ * capture date and GPS position
+ */
+function buildTiff(littleEndian: boolean): Uint8Array {
+  const bytes = new Uint8Array(280);
+  const view = new DataView(bytes.buffer);
+  const u16 = (offset: number, value: number) => view.setUint16(offset, value, littleEndian);
+  const u32 = (offset: number, value: number) => view.setUint32(offset, value, littleEndian);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+  };
+  const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+    u16(offset, tag);
+    u16(offset + 2, type);
+    u32(offset + 4, count);
+    if (type === 3) u16(offset + 8, value); else u32(offset + 8, value);
+  };
+  const rationals = (offset: number, values: Array<[number, number]>) => {
+    values.forEach(([numerator, denominator], i) => {
+      u32(offset + i * 8, numerator);
+      u32(offset + i * 8 + 4, denominator);
+    });
+  };
+
+  ascii(0, littleEndian ? 'II' : 'MM');
+  u16(2, 42);
+  u32(4, 8);
+
+  // IFD0
+  u16(8, 7);
+  entry(10, 0x010f, 2, 6, 98);
+  entry(22, 0x0110, 2, 4, 0);
+  ascii(30, 'EOS\0');
+  entry(34, 0x0112, 3, 1, 6);
+  entry(46, 0x011a, 5, 1, 104);
+  entry(58, 0x011b, 5, 1, 112);
+  entry(70, 0x8769, 4, 1, 120);
+  entry(82, 0x8825, 4, 1, 158);
+  ascii(98, 'Canon\0');
+  rationals(104, [[300, 1]]);
+  rationals(112, [[300, 1]]);
+
+  // EXIF IFD
+  u16(120, 1);
+  entry(122, 0x9003, 2, 20, 138);
+  ascii(138, '2024:05:06 07:08:09\0');
+
+  // GPS IFD
+  u16(158, 5);
+  entry(160, 1, 2, 2, 0);
+  ascii(168, 'N\0');
+  entry(172, 2, 5, 3, 224);
+  entry(184, 3, 2, 2, 0);
+  ascii(192, 'W\0');
+  entry(196, 4, 5, 3, 248);
+  entry(208, 6, 5, 1, 272);
+  rationals(224, [[52, 1], [30, 1], [0, 1]]);
+  rationals(248, [[13, 1], [24, 1], [36, 1]]);
+  rationals(272, [[345, 10]]);
+
+  return bytes;
+}
+
+/**
+ * JPEG header with a JFIF segment, an optional EXIF segment and the start of
+ * the image data
+ */
+function buildJpeg(tiff: Uint8Array | null, jfifUnit = 1, jfifDensity = 72): ArrayBuffer {
+  const jfif = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, jfifUnit, 0x00, jfifDensity, 0x00, jfifDensity, 0x00, 0x00];
+  const exif = tiff
+    ? [0xff, 0xe1, (tiff.length + 8) >> 8, (tiff.length + 8) & 0xff, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...tiff]
+    : [];
+  return new Uint8Array([0xff, 0xd8, ...jfif, ...exif, 0xff, 0xda, 0x00, 0x02]).buffer;
+}
+
+const expectedMetadata = {
+  orientation: 6,
+  captureDate: '2024-05-06T07:08:09',
+  camera: { make: 'Canon', model: 'EOS' },
+  gps: { latitude: 52.5, longitude: -13.41, altitude: 34.5 },
+  dpi: { x: 300, y: 300 }
+};
+
+describe('Image Metadata', () => {
+  it('should read EXIF tags in either byte order', () => {
+    const little = parseExif(buildJpeg(buildTiff(true)));
+    const big = parseExif(buildJpeg(buildTiff(false)));
+
+    expect(little).toEqual({ ...expectedMetadata, gps: expect.any(Object) });
+    expect(little.gps?.latitude).toBeCloseTo(52.5);
+    expect(little.gps?.longitude).toBeCloseTo(-13.41);
+    expect(little.gps?.altitude).toBeCloseTo(34.5);
+    expect(big).toEqual(little);
+  });
+
+  it('should fall back to the JFIF density and ignore other formats', () => {
+    // Unit 2 is dots per centimeter
+    expect(parseExif(buildJpeg(null, 2, 100))).toEqual({ orientation: 1, dpi: { x: 254, y: 254 } });
+    expect(parseExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]).buffer)).toEqual({ orientation: 1 });
+  });
+
+  it('should keep what was read from truncated metadata', () => {
+    const truncated = buildJpeg(buildTiff(true)).slice(0, 60);
+
+    expect(parseExif(truncated)).toEqual({ orientation: 1, dpi: { x: 72, y: 72 } });
+  });
+
+  it('should draw rotated orientations upright with swapped dimensions', async () => {
+    const image = { naturalWidth: 800, naturalHeight: 600 } as HTMLImageElement;
+    const getContext = HTMLCanvasElement.prototype.getContext as jest.Mock;
+
+    expect(await orientImage(image, 1)).toBe(image);
+
+    const upright = await orientImage(image, 6);
+    const ctx = getContext.mock.results[getContext.mock.results.length - 1]?.value as CanvasRenderingContext2D;
+    const canvas = getContext.mock.contexts[getContext.mock.contexts.length - 1] as HTMLCanvasElement;
+
+    expect(upright).not.toBe(image);
+    expect([canvas.width, canvas.height]).toEqual([600, 800]);
+    expect(ctx.setTransform).toHaveBeenCalledWith(0, 1, -1, 0, 600, 0);
+    expect(ctx.drawImage).toHaveBeenCalledWith(image, 0, 0, 800, 600);
+  });
+
+  it('should attach the metadata when loading a file', async () => {
+    const file = new File([buildJpeg(buildTiff(true))], 'photo.jpg', { type: 'image/jpeg' });
+
+    const imageData = await ImageLoader.loadImageFromFile(file);
+
+    expect(imageData.fileName).toBe('photo.jpg');
+    expect(imageData.metadata).toMatchObject({ orientation: 6, camera: { make: 'Canon', model: 'EOS' } });
+  });
+
+  it('should report the metadata on image load and keep it on resize', () => {
+    jest.useFakeTimers();
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const engine = new Engine({ container, width: 800, height: 600 });
+    const loaded: CustomImageData[] = [];
+    engine.setEventHandlers({ onImageLoad: imageData => loaded.push(imageData) });
+    jest.advanceTimersByTime(20);
+
+    const image = { complete: true, naturalWidth: 600, naturalHeight: 800 } as HTMLImageElement;
+    engine.loadImageElement(image, 'image/jpeg', 'photo.jpg', { orientation: 6, captureDate: '2024-05-06T07:08:09' });
+    engine.resize(400, 300);
+
+    expect(loaded[0]?.metadata).toEqual({ orientation: 6, captureDate: '2024-05-06T07:08:09' });
+    expect(engine.getImageData()?.metadata?.orientation).toBe(6);
+
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+});
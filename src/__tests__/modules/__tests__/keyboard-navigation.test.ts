@@ -0,0 +1,116 @@
+import type { Engine } from '../../../core/Engine';
+import { normalizeKeyCombo } from '../../../modules/keyboard';
+import type { CanvasLensOptions } from '../../../types';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('Keyboard Navigation', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let canvas: HTMLCanvasElement;
+
+  const createEngine = (options: Partial<CanvasLensOptions> = {}) => {
+    engine = createTestEngine(container, options);
+    canvas = engine.getImageViewer().getCanvas().getElement();
+    engine.loadImageElement(createTestImage());
+  };
+
+  /** Dispatch a keydown on the canvas; returns whether the default action was prevented */
+  const press = (key: string, init: KeyboardEventInit = {}) => {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+    canvas.dispatchEvent(event);
+    return event.defaultPrevented;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should make the canvas focusable and zoom with + - 0', () => {
+    createEngine();
+    expect(canvas.tabIndex).toBe(0);
+
+    expect(press('+', { shiftKey: true })).toBe(true);
+    expect(engine.getZoomLevel()).toBeCloseTo(1.2);
+    press('=');
+    expect(engine.getZoomLevel()).toBeCloseTo(1.44);
+    press('-');
+    expect(engine.getZoomLevel()).toBeCloseTo(1.2);
+
+    press('0');
+    expect(engine.getZoomLevel()).toBe(1);
+    expect(engine.getPanOffset()).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should pan with the arrow keys and further with Shift', () => {
+    createEngine();
+
+    expect(press('ArrowRight')).toBe(true);
+    expect(engine.getPanOffset()).toEqual({ x: -50, y: 0 });
+
+    press('ArrowUp', { shiftKey: true });
+    expect(engine.getPanOffset()).toEqual({ x: -50, y: 200 });
+  });
+
+  it('should nudge the selected annotation as one undoable step per key', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 100, y: 100 }, { x: 200, y: 200 }], style });
+    engine.setSelection(['a']);
+
+    press('ArrowRight');
+    press('ArrowDown', { shiftKey: true });
+
+    expect(engine.getAnnotations()[0]?.points).toEqual([{ x: 101, y: 110 }, { x: 201, y: 210 }]);
+    expect(engine.getPanOffset()).toEqual({ x: 0, y: 0 });
+
+    engine.undo();
+    expect(engine.getAnnotations()[0]?.points).toEqual([{ x: 101, y: 100 }, { x: 201, y: 200 }]);
+  });
+
+  it('should cycle the selection with Tab and release focus past the last annotation', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 100, y: 100 }, { x: 200, y: 200 }], style });
+    engine.addAnnotation({ id: 'b', type: 'rect', points: [{ x: 300, y: 300 }, { x: 400, y: 400 }], style });
+    const selectedIds = () => engine.getSelectedAnnotations().map(annotation => annotation.id);
+
+    expect(press('Tab')).toBe(true);
+    expect(selectedIds()).toEqual(['a']);
+    press('Tab');
+    expect(selectedIds()).toEqual(['b']);
+
+    expect(press('Tab')).toBe(false);
+    expect(selectedIds()).toEqual([]);
+
+    press('Tab', { shiftKey: true });
+    expect(selectedIds()).toEqual(['b']);
+  });
+
+  it('should route tool shortcuts through a configurable keymap', () => {
+    createEngine({ shortcuts: { 'Alt+r': null, 'Ctrl+Shift+R': 'tool:rect', 'z': 'zoomIn' } });
+
+    press('r', { altKey: true, code: 'KeyR' });
+    expect(engine.getActiveTool()).toBeNull();
+
+    press('R', { ctrlKey: true, shiftKey: true });
+    expect(engine.getActiveTool()).toBe('rect');
+
+    press('z');
+    expect(engine.getZoomLevel()).toBeCloseTo(1.2);
+  });
+
+  it('should normalize key combinations', () => {
+    expect(normalizeKeyCombo('Shift+Ctrl+Z')).toBe('ctrl+shift+z');
+    expect(normalizeKeyCombo('Mod++')).toBe('ctrl++');
+    expect(normalizeKeyCombo('Shift+=')).toBe('=');
+    expect(normalizeKeyCombo('Option+Space')).toBe('alt+ ');
+  });
+});
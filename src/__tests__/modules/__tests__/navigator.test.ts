@@ -0,0 +1,157 @@
+import { AttributeParser } from '../../../components/AttributeParser';
+import { Engine } from '../../../core/Engine';
+import type { NavigatorPanel } from '../../../modules/navigator/Panel';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import { createTestImage, dispatchPointer } from '../../helpers';
+
+describe('Navigator Panel', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  describe('with an image viewer', () => {
+    let viewer: ImageViewer;
+    let navigator: NavigatorPanel;
+
+    beforeEach(() => {
+      viewer = new ImageViewer(
+        container,
+        { width: 800, height: 600 },
+        {},
+        { animationDuration: 0 },
+        undefined,
+        undefined,
+        undefined,
+        { width: 160 }
+      );
+      navigator = viewer.getNavigatorPanel()!;
+      // Let the debounced canvas resize apply before the image is fitted
+      jest.advanceTimersByTime(20);
+    });
+
+    afterEach(() => {
+      viewer.getZoomPanHandler()!.destroy();
+      viewer.setNavigatorEnabled(false);
+      viewer.getCanvas().destroy();
+    });
+
+    const loadImage = () => {
+      viewer.loadImageElement(createTestImage());
+    };
+
+    it('should show a thumbnail with the visible part of the image', () => {
+      const element = navigator.getElement();
+      expect(element.parentElement).toBe(container);
+      expect(element.style.display).toBe('none');
+
+      loadImage();
+      expect(element.style.display).toBe('block');
+      expect(element.style.width).toBe('160px');
+      expect(element.style.height).toBe('120px');
+      expect(navigator.getViewportRect()).toEqual({ x: 0, y: 0, width: 160, height: 120 });
+
+      viewer.getZoomPanHandler()!.zoomTo(2);
+      expect(navigator.getViewportRect()).toEqual({ x: 40, y: 30, width: 80, height: 60 });
+    });
+
+    it('should center the main view on a clicked point', () => {
+      loadImage();
+      viewer.getZoomPanHandler()!.zoomTo(2);
+
+      dispatchPointer(navigator.getElement(), 'pointerdown', 150, 110);
+      dispatchPointer(navigator.getElement(), 'pointerup', 150, 110);
+
+      // Thumbnail (150, 110) is world (750, 550), now at the center of the 800x600 canvas
+      expect(viewer.getPanOffset()).toEqual({ x: -1100, y: -800 });
+      expect(viewer.getZoomLevel()).toBe(2);
+    });
+
+    describe('thumbnail', () => {
+      const getContext = HTMLCanvasElement.prototype.getContext as jest.Mock;
+      const contextOf = (canvas: HTMLCanvasElement) =>
+        getContext.mock.results[getContext.mock.contexts.indexOf(canvas)]?.value as CanvasRenderingContext2D;
+      const drawnThumbnails = () =>
+        (contextOf(navigator.getElement()).drawImage as jest.Mock).mock.calls.map(call => call[0] as HTMLCanvasElement);
+
+      it('should scale the image down once and rebuild it when the adjustments change', () => {
+        loadImage();
+        viewer.getZoomPanHandler()!.zoomTo(2);
+        viewer.getZoomPanHandler()!.zoomTo(3);
+
+        const thumbnails = new Set(drawnThumbnails());
+        expect(thumbnails.size).toBe(1);
+        const [thumbnail] = Array.from(thumbnails);
+        expect(contextOf(thumbnail!).drawImage).toHaveBeenCalledTimes(1);
+
+        viewer.setAdjustments({ brightness: 20 });
+        expect(drawnThumbnails().pop()).not.toBe(thumbnail);
+      });
+
+      it('should scale down the coarsest tile of an in-memory pyramid', async () => {
+        viewer.getTiledImageLayer().updateOptions({ threshold: 1000, tileSize: 256 });
+        loadImage();
+        expect(drawnThumbnails()).toHaveLength(0);
+
+        // The coarsest tile is cut in its own task, then drawn in the next frame
+        jest.advanceTimersByTime(0);
+        for (let i = 0; i < 5; i++) {
+          await Promise.resolve();
+        }
+        jest.advanceTimersByTime(16);
+
+        const tile = viewer.getTiledImageLayer().getCoarsestTile();
+        const [thumbnail] = drawnThumbnails();
+        expect(tile).not.toBeNull();
+        expect(contextOf(thumbnail!).drawImage).toHaveBeenCalledWith(tile, 0, 0, 160, 120);
+      });
+    });
+
+    it('should pan the main view while the viewport rectangle is dragged', () => {
+      loadImage();
+      viewer.getZoomPanHandler()!.zoomTo(2);
+      const canvas = viewer.getCanvas().getElement();
+      const canvasPointerDown = jest.fn();
+      canvas.addEventListener('pointerdown', canvasPointerDown);
+
+      dispatchPointer(navigator.getElement(), 'pointerdown', 90, 70);
+      expect(viewer.getPanOffset()).toEqual({ x: -400, y: -300 });
+
+      dispatchPointer(navigator.getElement(), 'pointermove', 100, 70);
+      expect(navigator.getViewportRect()).toEqual({ x: 50, y: 30, width: 80, height: 60 });
+      expect(viewer.getPanOffset()).toEqual({ x: -500, y: -300 });
+
+      dispatchPointer(navigator.getElement(), 'pointerup', 100, 70);
+      dispatchPointer(navigator.getElement(), 'pointermove', 10, 10);
+      expect(viewer.getPanOffset()).toEqual({ x: -500, y: -300 });
+      expect(canvasPointerDown).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should be enabled through the tool config and the navigator attribute', () => {
+    const engine = new Engine({ container, tools: { zoom: true, navigator: true } });
+    const canvases = () => container.querySelectorAll('canvas').length;
+    expect(canvases()).toBe(2);
+
+    engine.updateToolConfig({ navigator: false });
+    expect(canvases()).toBe(1);
+    engine.updateToolConfig({ navigator: true });
+    expect(canvases()).toBe(2);
+    engine.destroy();
+    expect(canvases()).toBe(1);
+
+    const element = document.createElement('div');
+    element.setAttribute('navigator', '');
+    expect(AttributeParser.parseAttributes(element, container).tools).toEqual({ navigator: true });
+    element.setAttribute('navigator', 'false');
+    expect(AttributeParser.parseAttributes(element, container).tools).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import type { ZoomPanHandler } from '../../../modules/zoom-pan/Handler';
+import type { ZoomPanOptions } from '../../../types';
+import { createTestImage, dispatchPointer } from '../../helpers';
+
+describe('Pan Constraints', () => {
+  let container: HTMLElement;
+  let viewer: ImageViewer;
+  let handler: ZoomPanHandler;
+  let canvas: HTMLElement;
+
+  const createViewer = (options: ZoomPanOptions) => {
+    viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, { maxZoom: 10, minZoom: 0.1, ...options });
+    handler = viewer.getZoomPanHandler()!;
+    canvas = viewer.getCanvas().getElement();
+    jest.advanceTimersByTime(20);
+    // Fitted to the 800x600 canvas at scale 1, so the image covers it exactly
+    viewer.loadImageElement(createTestImage());
+  };
+
+  const pointer = (type: string, x: number, y: number) => {
+    dispatchPointer(canvas, type, x, y);
+  };
+
+  const drag = (dx: number, dy: number) => {
+    pointer('pointerdown', 0, 0);
+    pointer('pointermove', dx, dy);
+    pointer('pointerup', dx, dy);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    handler.destroy();
+    viewer.getCanvas().destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should pan freely by default', () => {
+    createViewer({ inertia: false });
+
+    drag(1000, -1000);
+
+    expect(viewer.getPanOffset()).toEqual({ x: 1000, y: -1000 });
+  });
+
+  it('should keep a fraction of the image visible', () => {
+    createViewer({ panConstraint: 'keep-visible', minVisibleFraction: 0.2, elasticOverscroll: false, inertia: false });
+
+    pointer('pointerdown', 0, 0);
+    pointer('pointermove', 1000, 1000);
+    // 20% of the 800x600 image stays on screen
+    expect(viewer.getPanOffset()).toEqual({ x: 640, y: 480 });
+
+    // Moving back responds at once instead of first undoing the excess drag
+    pointer('pointermove', 900, 900);
+    expect(viewer.getPanOffset()).toEqual({ x: 540, y: 380 });
+    pointer('pointerup', 900, 900);
+  });
+
+  it('should keep the image covering the view in contain mode', () => {
+    createViewer({ panConstraint: 'contain', elasticOverscroll: false, inertia: false, animationDuration: 0 });
+
+    drag(100, 100);
+    expect(viewer.getPanOffset()).toEqual({ x: 0, y: 0 });
+
+    handler.zoomTo(2);
+    drag(1000, 1000);
+    expect(viewer.getPanOffset()).toEqual({ x: 0, y: 0 });
+
+    handler.centerOn({ x: 800, y: 600 });
+    expect(viewer.getPanOffset()).toEqual({ x: -800, y: -600 });
+
+    // Zoomed out below the view size the image is centered wherever the wheel points
+    canvas.dispatchEvent(new WheelEvent('wheel', { deltaY: 1000, clientX: 700, clientY: 500, cancelable: true }));
+    const scale = viewer.getZoomLevel();
+    expect(scale).toBeLessThan(1);
+    expect(viewer.getPanOffset().x).toBeCloseTo((800 - 800 * scale) / 2);
+    expect(viewer.getPanOffset().y).toBeCloseTo((600 - 600 * scale) / 2);
+  });
+
+  it('should stretch past the constraint while dragging and snap back on release', () => {
+    createViewer({ panConstraint: 'keep-visible' });
+
+    pointer('pointerdown', 0, 0);
+    pointer('pointermove', 1000, 0);
+    const stretched = viewer.getPanOffset().x;
+    expect(stretched).toBeGreaterThan(640);
+    expect(stretched).toBeLessThan(1000);
+
+    pointer('pointermove', 2000, 0);
+    expect(viewer.getPanOffset().x).toBeGreaterThan(stretched);
+    expect(viewer.getPanOffset().x).toBeLessThan(640 + 800);
+
+    pointer('pointerup', 2000, 0);
+    jest.advanceTimersByTime(300);
+    expect(viewer.getPanOffset()).toEqual({ x: 640, y: 0 });
+  });
+
+  it('should stop inertia at the constraint', () => {
+    createViewer({ panConstraint: 'keep-visible', elasticOverscroll: false, animationDuration: 0 });
+    handler.centerOn({ x: -200, y: 300 });
+    expect(viewer.getPanOffset().x).toBe(600);
+
+    pointer('pointerdown', 100, 100);
+    jest.advanceTimersByTime(10);
+    pointer('pointermove', 110, 100);
+    jest.advanceTimersByTime(10);
+    pointer('pointermove', 120, 100);
+    pointer('pointerup', 120, 100);
+    jest.advanceTimersByTime(100);
+
+    expect(viewer.getPanOffset().x).toBe(640);
+    expect(handler.isAnimating()).toBe(false);
+  });
+
+  it('should apply a constraint switched on later', () => {
+    createViewer({ inertia: false });
+    drag(2000, 0);
+
+    handler.updateOptions({ panConstraint: 'keep-visible' });
+
+    expect(viewer.getPanOffset()).toEqual({ x: 640, y: 0 });
+  });
+});
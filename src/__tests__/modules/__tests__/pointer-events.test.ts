@@ -0,0 +1,143 @@
+import { Renderer } from '../../../core/Renderer';
+import type { AnnotationManager } from '../../../modules/annotation/Manager';
+import { ComparisonManager } from '../../../modules/comparison/Manager';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import { screenToWorld } from '../../../utils/geometry/coordinate';
+import { createTestImage } from '../../helpers';
+
+describe('Pointer Events', () => {
+  let container: HTMLElement;
+
+  const touch = (target: HTMLElement, type: string, pointerId: number, x: number, y: number) => {
+    target.dispatchEvent(new PointerEvent(type, {
+      clientX: x,
+      clientY: y,
+      button: type === 'pointermove' ? -1 : 0,
+      pointerId,
+      pointerType: 'touch',
+      isPrimary: pointerId === 1,
+      bubbles: true,
+      cancelable: true
+    }));
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    document.body.removeChild(container);
+  });
+
+  describe('zoom and pan', () => {
+    let viewer: ImageViewer;
+    let canvas: HTMLElement;
+
+    beforeEach(() => {
+      viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, { maxZoom: 10, minZoom: 0.1 });
+      canvas = viewer.getCanvas().getElement();
+      viewer.loadImageElement(createTestImage());
+    });
+
+    afterEach(() => {
+      viewer.getCanvas().destroy();
+    });
+
+    it('should pan with one finger', () => {
+      const start = viewer.getCanvas().getViewState();
+
+      touch(canvas, 'pointerdown', 1, 100, 100);
+      touch(canvas, 'pointermove', 1, 150, 120);
+      touch(canvas, 'pointerup', 1, 150, 120);
+
+      const end = viewer.getCanvas().getViewState();
+      expect(end.offsetX - start.offsetX).toBe(50);
+      expect(end.offsetY - start.offsetY).toBe(20);
+    });
+
+    it('should pinch zoom around the gesture midpoint', () => {
+      const start = viewer.getCanvas().getViewState();
+      const anchor = screenToWorld({ x: 400, y: 300 }, start);
+
+      touch(canvas, 'pointerdown', 1, 300, 300);
+      touch(canvas, 'pointerdown', 2, 500, 300);
+      // Fingers spread to twice the distance while the midpoint moves 100px right
+      touch(canvas, 'pointermove', 2, 700, 300);
+
+      const end = viewer.getCanvas().getViewState();
+      expect(end.scale).toBeCloseTo(start.scale * 2);
+      expect(screenToWorld({ x: 500, y: 300 }, end).x).toBeCloseTo(anchor.x);
+      expect(screenToWorld({ x: 500, y: 300 }, end).y).toBeCloseTo(anchor.y);
+    });
+
+    it('should not pan with the remaining finger after a pinch', () => {
+      touch(canvas, 'pointerdown', 1, 300, 300);
+      touch(canvas, 'pointerdown', 2, 500, 300);
+      touch(canvas, 'pointermove', 2, 600, 300);
+      touch(canvas, 'pointerup', 2, 600, 300);
+      const afterPinch = viewer.getCanvas().getViewState();
+
+      touch(canvas, 'pointermove', 1, 350, 350);
+
+      expect(viewer.getCanvas().getViewState()).toEqual(afterPinch);
+    });
+  });
+
+  describe('annotation tools', () => {
+    let viewer: ImageViewer;
+    let annotationManager: AnnotationManager;
+
+    beforeEach(() => {
+      viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, undefined, { enabled: true });
+      annotationManager = viewer.getAnnotationManager()!;
+      const image = { complete: true, naturalWidth: 800, naturalHeight: 600 } as HTMLImageElement;
+      viewer.loadImageElement(image);
+      viewer.resize({ width: 800, height: 600 });
+    });
+
+    afterEach(() => {
+      annotationManager.destroy();
+      viewer.getCanvas().destroy();
+    });
+
+    it('should draw with a finger and ignore further fingers', () => {
+      const canvas = viewer.getCanvas().getElement();
+      annotationManager.activateTool('rect');
+
+      touch(canvas, 'pointerdown', 1, 100, 100);
+      touch(canvas, 'pointerdown', 2, 400, 400);
+      touch(canvas, 'pointermove', 1, 200, 150);
+      touch(canvas, 'pointermove', 2, 500, 500);
+      touch(canvas, 'pointerup', 2, 500, 500);
+      touch(canvas, 'pointerup', 1, 200, 150);
+
+      const annotations = annotationManager.getAllAnnotations();
+      expect(annotations).toHaveLength(1);
+      expect(annotations[0]?.points).toEqual([{ x: 100, y: 100 }, { x: 200, y: 150 }]);
+    });
+  });
+
+  describe('comparison slider', () => {
+    it('should follow a finger dragging the slider', () => {
+      const renderer = new Renderer(container, { width: 800, height: 600 });
+      renderer.imageViewer = {
+        getImageBounds: () => ({ x: 0, y: 0, width: 800, height: 600 }),
+        render: jest.fn()
+      } as unknown as ImageViewer;
+      const comparison = new ComparisonManager(renderer, { comparisonMode: true });
+      const canvas = renderer.getElement();
+
+      // Within the touch tolerance of the slider at x=400
+      touch(canvas, 'pointerdown', 1, 345, 300);
+      touch(canvas, 'pointermove', 1, 200, 300);
+      touch(canvas, 'pointerup', 1, 200, 300);
+      touch(canvas, 'pointermove', 1, 600, 300);
+
+      expect(comparison.getSliderPosition()).toBe(25);
+
+      comparison.destroy();
+      renderer.destroy();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Renderer } from '../../../core/Renderer';
+import { AnnotationManager } from '../../../modules/annotation/Manager';
+import type { Annotation } from '../../../types';
+import { dispatchPointer } from '../../helpers';
+
+describe('Polygon and Polyline Tools', () => {
+  let container: HTMLElement;
+  let canvas: Renderer;
+  let annotationManager: AnnotationManager;
+
+  const pointer = (type: string, x: number, y: number) => {
+    dispatchPointer(canvas.getElement(), type, x, y);
+  };
+
+  const click = (x: number, y: number) => {
+    pointer('pointerdown', x, y);
+    pointer('pointerup', x, y);
+  };
+
+  const key = (key: string) => {
+    canvas.getElement().dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    canvas = new Renderer(container, { width: 800, height: 600 });
+    annotationManager = new AnnotationManager(canvas, { enabled: true });
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    canvas.destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should add a vertex per click and close on double-click', () => {
+    annotationManager.activateTool('polygon');
+
+    click(10, 10);
+    click(100, 10);
+    click(100, 100);
+    // A double-click also fires a second click at the same position
+    click(100, 100);
+    canvas.getElement().dispatchEvent(new MouseEvent('dblclick', { clientX: 100, clientY: 100, bubbles: true }));
+
+    const [polygon] = annotationManager.getAllAnnotations();
+    expect(polygon?.type).toBe('polygon');
+    expect(polygon?.points).toEqual([{ x: 10, y: 10 }, { x: 100, y: 10 }, { x: 100, y: 100 }]);
+    expect(annotationManager.isDrawing()).toBe(false);
+  });
+
+  it('should remove the last vertex on Backspace and close on Enter', () => {
+    annotationManager.activateTool('polyline');
+
+    click(10, 10);
+    click(50, 50);
+    click(90, 10);
+    key('Backspace');
+    key('Enter');
+
+    const [polyline] = annotationManager.getAllAnnotations();
+    expect(polyline?.type).toBe('polyline');
+    expect(polyline?.points).toEqual([{ x: 10, y: 10 }, { x: 50, y: 50 }]);
+  });
+
+  it('should not close a polygon with fewer than three vertices', () => {
+    annotationManager.activateTool('polygon');
+
+    click(10, 10);
+    click(100, 10);
+    key('Enter');
+
+    expect(annotationManager.getAnnotationCount()).toBe(0);
+    expect(annotationManager.getToolManager().getCurrentTool()?.isCurrentlyDrawing()).toBe(true);
+  });
+
+  it('should hit-test inside polygons and along polylines', () => {
+    const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+    const points = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    annotationManager.addAnnotation({ id: 'polygon', type: 'polygon', points, style });
+    annotationManager.addAnnotation({ id: 'polyline', type: 'polyline', points: points.map(p => ({ x: p.x + 300, y: p.y })), style });
+
+    expect(annotationManager.getAnnotationAt({ x: 50, y: 50 })?.id).toBe('polygon');
+    expect(annotationManager.getAnnotationAt({ x: 350, y: 2 })?.id).toBe('polyline');
+    // Open path: the gap between last and first vertex is not part of the shape
+    expect(annotationManager.getAnnotationAt({ x: 300, y: 50 })).toBeNull();
+    expect(annotationManager.getAnnotationAt({ x: 350, y: 50 })).toBeNull();
+  });
+
+  it('should drag a vertex handle of the selected polygon', () => {
+    const polygon: Annotation = {
+      id: 'polygon',
+      type: 'polygon',
+      points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 50, y: 100 }],
+      style: { strokeColor: '#ff0000', strokeWidth: 2 }
+    };
+    annotationManager.addAnnotation(polygon);
+    annotationManager.selectAnnotation(polygon);
+
+    pointer('pointerdown', 50, 100);
+    pointer('pointermove', 60, 150);
+    pointer('pointerup', 60, 150);
+
+    expect(annotationManager.getAnnotation('polygon')?.points[2]).toEqual({ x: 60, y: 150 });
+  });
+});
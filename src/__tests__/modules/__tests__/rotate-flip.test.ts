@@ -0,0 +1,142 @@
+import type { Engine } from '../../../core/Engine';
+import type { ViewOrientation, ViewState } from '../../../types';
+import { screenToWorld, worldToScreen } from '../../../utils/geometry/coordinate';
+import { createTestEngine, createTestImage, dispatchPointer } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('Rotate and Flip', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let canvas: HTMLCanvasElement;
+
+
+  const createEngine = () => {
+    engine = createTestEngine(container);
+    canvas = engine.getImageViewer().getCanvas().getElement();
+    engine.loadImageElement(createTestImage());
+  };
+
+  const viewState = () => engine.getImageViewer().getCanvas().getViewState();
+
+  const pointer = (type: string, point: { x: number; y: number }) => {
+    dispatchPointer(canvas, type, point.x, point.y);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should refit a fitted image when rotating by 90 degrees', () => {
+    createEngine();
+    const changes: ViewOrientation[] = [];
+    engine.setEventHandlers({ onRotationChange: orientation => changes.push(orientation) });
+
+    engine.rotate(90);
+
+    // The 800x600 image turned upright fits 600 pixels wide into the 600 pixel high canvas
+    expect(viewState()).toMatchObject({ scale: 0.75, rotation: 90 });
+    expect(worldToScreen({ x: 400, y: 300 }, viewState())).toEqual({ x: 400, y: 300 });
+    expect(worldToScreen({ x: 0, y: 0 }, viewState())).toEqual({ x: 625, y: 0 });
+    expect(changes).toEqual([{ rotation: 90, flipX: false, flipY: false }]);
+
+    engine.rotate(-180);
+    expect(engine.getOrientation().rotation).toBe(270);
+  });
+
+  it('should keep the image point at the center when rotating a zoomed view', () => {
+    createEngine();
+    engine.zoomIn(2);
+    const center = { x: 400, y: 300 };
+
+    engine.rotate(30);
+
+    expect(viewState().scale).toBe(2);
+    expect(screenToWorld(center, viewState()).x).toBeCloseTo(400);
+    expect(screenToWorld(center, viewState()).y).toBeCloseTo(300);
+    // 100 screen pixels right of the center are 50 world pixels along the image x axis turned by 30 degrees
+    const right = screenToWorld({ x: 500, y: 300 }, viewState());
+    expect(right.x).toBeCloseTo(400 + 50 * Math.cos(Math.PI / 6));
+    expect(right.y).toBeCloseTo(300 - 50 * Math.sin(Math.PI / 6));
+  });
+
+  it('should mirror the view on screen whatever the rotation', () => {
+    createEngine();
+    engine.rotate(90);
+    const before = worldToScreen({ x: 100, y: 50 }, viewState());
+
+    engine.flip('x');
+
+    expect(engine.getOrientation()).toEqual({ rotation: 270, flipX: true, flipY: false });
+    const after = worldToScreen({ x: 100, y: 50 }, viewState());
+    expect(after.x).toBeCloseTo(800 - before.x);
+    expect(after.y).toBeCloseTo(before.y);
+
+    engine.flip('x');
+    expect(engine.getOrientation()).toEqual({ rotation: 90, flipX: false, flipY: false });
+  });
+
+  it('should convert between screen and world coordinates in any orientation', () => {
+    const state: ViewState = { scale: 2, offsetX: 10, offsetY: 20, rotation: 90, flipX: true, flipY: false };
+
+    expect(worldToScreen({ x: 5, y: 0 }, state)).toEqual({ x: 10, y: 10 });
+    expect(worldToScreen({ x: 0, y: 5 }, state)).toEqual({ x: 0, y: 20 });
+
+    const rotated: ViewState = { ...state, rotation: 33, flipY: true };
+    const world = screenToWorld(worldToScreen({ x: 12, y: -7 }, rotated), rotated);
+    expect(world.x).toBeCloseTo(12);
+    expect(world.y).toBeCloseTo(-7);
+  });
+
+  it('should treat a view state without orientation as upright', () => {
+    const state: ViewState = { scale: 2, offsetX: 10, offsetY: 20 };
+
+    expect(worldToScreen({ x: 5, y: 5 }, state)).toEqual({ x: 20, y: 30 });
+    expect(screenToWorld({ x: 20, y: 30 }, state)).toEqual({ x: 5, y: 5 });
+  });
+
+  it('should hit-test and draw annotations in the rotated view', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'a', type: 'rect', points: [{ x: 200, y: 200 }, { x: 400, y: 400 }], style });
+    engine.rotate(90);
+    engine.flip('y');
+
+    // Image pixel (300, 300) is world (150, 150)
+    const target = worldToScreen({ x: 150, y: 150 }, viewState());
+    pointer('pointerdown', target);
+    pointer('pointerup', target);
+    expect(engine.getSelectedAnnotations().map(annotation => annotation.id)).toEqual(['a']);
+
+    engine.setSelection([]);
+    engine.activateTool('rect');
+    pointer('pointerdown', worldToScreen({ x: 300, y: 200 }, viewState()));
+    jest.advanceTimersByTime(20);
+    pointer('pointermove', worldToScreen({ x: 350, y: 250 }, viewState()));
+    pointer('pointerup', worldToScreen({ x: 350, y: 250 }, viewState()));
+
+    const drawn = engine.getAnnotations()[1];
+    const xs = drawn?.points.map(point => Math.round(point.x)) ?? [];
+    const ys = drawn?.points.map(point => Math.round(point.y)) ?? [];
+    expect([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]).toEqual([600, 400, 700, 500]);
+  });
+
+  it('should keep the orientation on reset and start a new image upright', () => {
+    createEngine();
+    engine.rotate(90);
+    engine.zoomIn(2);
+
+    engine.resetView();
+    expect(viewState()).toMatchObject({ scale: 0.75, rotation: 90 });
+
+    engine.loadImageElement(createTestImage());
+    expect(viewState()).toEqual({ scale: 1, offsetX: 0, offsetY: 0, rotation: 0, flipX: false, flipY: false });
+  });
+});
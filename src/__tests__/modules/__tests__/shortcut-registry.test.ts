@@ -0,0 +1,150 @@
+import { AttributeParser } from '../../../components/AttributeParser';
+import { KEYBOARD_SHORTCUTS } from '../../../constants';
+import type { Engine } from '../../../core/Engine';
+import { normalizeKeyCombo } from '../../../modules/keyboard';
+import type { CanvasLensError, CanvasLensOptions } from '../../../types';
+import { ErrorType } from '../../../types';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+describe('Shortcut Registry', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let canvas: HTMLCanvasElement;
+
+  const createEngine = (options: Partial<CanvasLensOptions> = {}) => {
+    engine = createTestEngine(container, options);
+    canvas = engine.getImageViewer().getCanvas().getElement();
+    engine.loadImageElement(createTestImage());
+  };
+
+  const press = (target: EventTarget, key: string, init: KeyboardEventInit = {}) => {
+    target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should run registered callbacks and list them with the defaults', () => {
+    createEngine();
+    const handler = jest.fn();
+
+    engine.registerShortcut('Mod+Shift+K', handler);
+    press(canvas, 'K', { ctrlKey: true, shiftKey: true });
+    // Mod is Ctrl outside macOS
+    press(canvas, 'K', { metaKey: true, shiftKey: true });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(engine.getShortcuts()['ctrl+shift+k']).toBe(handler);
+    expect(engine.getShortcuts()['alt+r']).toBe('tool:rect');
+
+    expect(engine.unregisterShortcut('mod+shift+k')).toBe(true);
+    expect(engine.unregisterShortcut('mod+shift+k')).toBe(false);
+    press(canvas, 'K', { ctrlKey: true, shiftKey: true });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject conflicting registrations unless replacing', () => {
+    createEngine();
+    const addAnnotation = () => engine.addAnnotation({
+      id: 'a',
+      type: 'rect',
+      points: [{ x: 0, y: 0 }, { x: 10, y: 10 }],
+      style: { strokeColor: '#ff0000', strokeWidth: 2 }
+    });
+
+    let thrown: CanvasLensError | undefined;
+    try {
+      engine.registerShortcut('Ctrl+Z', 'zoomIn');
+    } catch (err) {
+      thrown = err as CanvasLensError;
+    }
+    expect(thrown?.type).toBe(ErrorType.SHORTCUT);
+    expect(thrown?.message).toContain('"undo"');
+    expect(() => engine.registerShortcut('Hyper+z', 'zoomIn')).toThrow('Unknown modifier');
+
+    engine.registerShortcut('Ctrl+Z', 'zoomIn', { replace: true });
+    addAnnotation();
+    press(canvas, 'z', { ctrlKey: true });
+
+    expect(engine.getAnnotations()).toHaveLength(1);
+    expect(engine.getZoomLevel()).toBeCloseTo(1.2);
+  });
+
+  it('should keep the first of two spellings of one combination in overrides', () => {
+    createEngine({ shortcuts: { 'Ctrl+k': 'zoomIn', 'Mod+K': 'zoomOut', 'Bogus+k': 'resetView' } });
+
+    expect(engine.getShortcuts()['ctrl+k']).toBe('zoomIn');
+  });
+
+  it('should only handle keys while focus is inside the component', () => {
+    createEngine();
+    const outside = document.createElement('input');
+    document.body.appendChild(outside);
+
+    press(document, '+');
+    press(outside, 'ArrowRight');
+    press(outside, 'r', { altKey: true, code: 'KeyR' });
+    expect(engine.getZoomLevel()).toBe(1);
+    expect(engine.getPanOffset()).toEqual({ x: 0, y: 0 });
+    expect(engine.getActiveTool()).toBeNull();
+
+    press(canvas, 'r', { altKey: true, code: 'KeyR' });
+    expect(engine.getActiveTool()).toBe('rect');
+
+    document.body.removeChild(outside);
+  });
+
+  it('should focus the canvas when the component is clicked', () => {
+    createEngine();
+
+    canvas.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true, cancelable: true }));
+
+    expect(document.activeElement).toBe(canvas);
+  });
+});
+
+describe('Shortcut Parsing', () => {
+  it('should resolve Mod to Cmd on macOS', () => {
+    const platform = jest.spyOn(window.navigator, 'platform', 'get').mockReturnValue('MacIntel');
+
+    expect(normalizeKeyCombo('Mod+Shift+Z')).toBe('shift+meta+z');
+    expect(normalizeKeyCombo('Cmd+Alt+1')).toBe('alt+meta+1');
+
+    platform.mockRestore();
+  });
+
+  it('should parse the shortcuts attribute', () => {
+    const element = document.createElement('div');
+    element.setAttribute('shortcuts', '{"Alt+r": null, "Mod+Shift+R": "tool:rect", "x": 5}');
+
+    expect(AttributeParser.parseAttributes(element, document.createElement('div')).shortcuts).toEqual({
+      'Alt+r': null,
+      'Mod+Shift+R': 'tool:rect'
+    });
+
+    element.setAttribute('shortcuts', 'not json');
+    expect(AttributeParser.parseAttributes(element, document.createElement('div')).shortcuts).toBeUndefined();
+  });
+
+  it('should keep the deprecated tool keys in line with the default keymap', () => {
+    expect(KEYBOARD_SHORTCUTS).toEqual({
+      RECT_TOOL: 'Alt+r',
+      ARROW_TOOL: 'Alt+a',
+      TEXT_TOOL: 'Alt+t',
+      CIRCLE_TOOL: 'Alt+c',
+      LINE_TOOL: 'Alt+l',
+      ESCAPE: 'Escape',
+      DELETE: 'Delete',
+      BACKSPACE: 'Backspace'
+    });
+  });
+});
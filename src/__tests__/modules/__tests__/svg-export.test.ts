@@ -0,0 +1,83 @@
+import { AnnotationSvgExporter } from '../../../modules/annotation/SvgExporter';
+import type { Annotation, CustomImageData } from '../../../types';
+
+describe('SVG Export', () => {
+  let imageData: CustomImageData;
+  const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+  const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml');
+
+  beforeEach(() => {
+    // Image of 1600x1200 displayed at half size, offset by 50px
+    imageData = {
+      element: document.createElement('img'),
+      naturalSize: { width: 1600, height: 1200 },
+      displaySize: { width: 800, height: 600 },
+      position: { x: 50, y: 0 }
+    };
+  });
+
+  it('should size the document to the natural image and scale display sizes', () => {
+    const rect: Annotation = {
+      id: 'rect',
+      type: 'rect',
+      points: [{ x: 200, y: 200 }, { x: 100, y: 100 }],
+      style: { ...style, lineStyle: 'dashed' }
+    };
+
+    const doc = parse(new AnnotationSvgExporter(imageData).export([rect]));
+    const svg = doc.documentElement;
+    const element = doc.querySelector('#rect rect')!;
+
+    expect(svg.getAttribute('width')).toBe('1600');
+    expect(svg.getAttribute('viewBox')).toBe('0 0 1600 1200');
+    expect(element.getAttribute('x')).toBe('100');
+    expect(element.getAttribute('y')).toBe('100');
+    expect(element.getAttribute('width')).toBe('100');
+    expect(element.getAttribute('stroke-width')).toBe('4');
+    expect(element.getAttribute('stroke-dasharray')).toBe('10 10');
+  });
+
+  it('should draw arrowheads, highlighter strokes and escaped text', () => {
+    const annotations: Annotation[] = [
+      { id: 'arrow', type: 'arrow', points: [{ x: 0, y: 0 }, { x: 200, y: 0 }], style },
+      { id: 'pen', type: 'freehand', points: [{ x: 0, y: 0 }, { x: 20, y: 20 }, { x: 40, y: 0 }], style, data: { highlighter: true } },
+      { id: 'label', type: 'text', points: [{ x: 20, y: 40 }], style: { ...style, fontSize: 12, fontFamily: 'Georgia' }, data: { text: 'A < B & C' } }
+    ];
+
+    const doc = parse(new AnnotationSvgExporter(imageData).export(annotations));
+
+    // Head sides are 15 display px (30 natural px) long at 30 degrees
+    const head = doc.querySelector('#arrow path')!.getAttribute('d');
+    expect(head).toBe('M200,0 L174.02,15 M200,0 L174.02,-15');
+
+    const pen = doc.querySelector('#pen path')!;
+    expect(pen.getAttribute('d')).toBe('M0,0 Q20,20 30,10 L40,0');
+    expect(pen.getAttribute('opacity')).toBe('0.4');
+    expect(pen.getAttribute('stroke-width')).toBe('16');
+
+    const text = doc.querySelector('#label text')!;
+    expect(text.textContent).toBe('A < B & C');
+    expect(text.getAttribute('font-size')).toBe('24');
+    expect(text.getAttribute('font-family')).toBe('Georgia');
+  });
+
+  it('should turn fill shadows into filters and embed the image', () => {
+    const rect: Annotation = {
+      id: 'shadowed',
+      type: 'rect',
+      points: [{ x: 0, y: 0 }, { x: 100, y: 100 }],
+      style: { ...style, fillColor: 'rgba(255, 0, 0, 0.2)', shadowColor: '#000', shadowBlur: 10, shadowOffsetX: 2 }
+    };
+
+    const doc = parse(new AnnotationSvgExporter(imageData).export([rect], { includeImage: true }));
+    const shadow = doc.querySelector('filter feDropShadow')!;
+    const [fill, stroke] = Array.from(doc.querySelectorAll('#shadowed rect'));
+
+    expect(shadow.getAttribute('stdDeviation')).toBe('10');
+    expect(shadow.getAttribute('dx')).toBe('4');
+    expect(fill!.getAttribute('filter')).toBe('url(#shadow-1)');
+    expect(stroke!.getAttribute('filter')).toBeNull();
+    expect(doc.querySelector('image')!.getAttribute('href')).toMatch(/^data:image\/png;base64,/);
+  });
+});
@@ -0,0 +1,253 @@
+import type { Engine } from '../../../core/Engine';
+import { ImageAdjuster } from '../../../modules/image-viewer/Adjustments';
+import { DeepZoomTileSource, IiifTileSource, PyramidTileSource, TileCache } from '../../../modules/tiles';
+import type { TileCoordinate, TileImage, TileSource } from '../../../types';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+const DZI = `<?xml version="1.0" encoding="UTF-8"?>
+<Image xmlns="http://schemas.microsoft.com/deepzoom/2008" Format="jpeg" Overlap="1" TileSize="254">
+  <Size Width="20000" Height="15000"/>
+</Image>`;
+
+const key = (tile: TileCoordinate) => `${tile.level}/${tile.column}/${tile.row}`;
+
+/**
+ * 4096x3072 source with 256 pixel tiles whose loads resolve when told to
+ */
+class ManualTileSource implements TileSource {
+  readonly width = 4096;
+  readonly height = 3072;
+  readonly tileSize = 256;
+  readonly overlap = 0;
+  readonly levelCount = 5;
+  requested: string[] = [];
+  tiles = new Map<string, HTMLCanvasElement>();
+  private pending = new Map<string, () => void>();
+
+  loadTile(tile: TileCoordinate): Promise<TileImage> {
+    const id = key(tile);
+    this.requested.push(id);
+    return new Promise(resolve => {
+      this.pending.set(id, () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = 256;
+        canvas.height = 256;
+        this.tiles.set(id, canvas);
+        resolve(canvas);
+      });
+    });
+  }
+
+  loadPreview(): Promise<HTMLImageElement> {
+    return Promise.resolve({ complete: true, naturalWidth: 256, naturalHeight: 192 } as HTMLImageElement);
+  }
+
+  resolve(ids: string[] = Array.from(this.pending.keys())): void {
+    ids.forEach(id => {
+      this.pending.get(id)?.();
+      this.pending.delete(id);
+    });
+  }
+}
+
+describe('Tiled Rendering', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+  let source: ManualTileSource;
+
+  const createEngine = (tiling = {}) => {
+    engine = createTestEngine(container, { tools: { zoom: true, pan: true }, tiling });
+  };
+
+  /** Let tile promises settle and the redraw frame run */
+  const settle = async () => {
+    for (let i = 0; i < 10; i++) {
+      await Promise.resolve();
+    }
+    jest.advanceTimersByTime(16);
+  };
+
+  const drawnTiles = () => {
+    const ctx = engine.getImageViewer().getCanvas().getContext();
+    return (ctx.drawImage as jest.Mock).mock.calls.map(call => call[0]);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    source = new ManualTileSource();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should load only the tiles in view at the level matching the zoom', async () => {
+    createEngine();
+    await engine.loadTileSource(source, 'scan.dzi');
+
+    expect(engine.getImageData()?.naturalSize).toEqual({ width: 4096, height: 3072 });
+    // Fitted at 800 pixels the view shows level 2 (1024x768, 4x3 tiles);
+    // the coarsest tile comes first and at most six load at once
+    expect(source.requested).toHaveLength(6);
+    expect(source.requested[0]).toBe('4/0/0');
+    expect(source.requested.slice(1, 3).sort()).toEqual(['2/1/1', '2/2/1']);
+
+    for (let i = 0; i < 4; i++) {
+      source.resolve();
+      await settle();
+    }
+    expect(source.requested.filter(id => id.startsWith('2/'))).toHaveLength(12);
+    expect(drawnTiles()).toEqual(expect.arrayContaining(Array.from(source.tiles.values())));
+
+    engine.zoomToRect({ x: 0, y: 0, width: 512, height: 384 });
+    const layer = engine.getImageViewer().getTiledImageLayer();
+    const imageData = engine.getImageData()!;
+    const level = layer.getLevel(imageData);
+    const visible = layer.getVisibleTiles(imageData, level).map(tile => tile.id);
+
+    expect(level).toBe(0);
+    expect(visible.length).toBeLessThan(16 * 12);
+    expect(source.requested.filter(id => id.startsWith('0/'))).toEqual(visible.slice(0, 6));
+    // Until they arrive, the sharpest cached tile covering them is drawn
+    const fallback = source.tiles.get('2/0/0');
+    expect(drawnTiles()).toContain(fallback);
+  });
+
+  it('should redraw only when an arrived tile is in view', async () => {
+    createEngine();
+    await engine.loadTileSource(source);
+    for (let i = 0; i < 4; i++) {
+      source.resolve();
+      await settle();
+    }
+
+    engine.zoomToRect({ x: 0, y: 0, width: 512, height: 384 });
+    await settle();
+    expect(source.requested).toContain('0/0/0');
+
+    engine.zoomToRect({ x: 3584, y: 2688, width: 512, height: 384 });
+    await settle();
+    const render = jest.spyOn(engine.getImageViewer(), 'render');
+
+    // Requested for the previous view, now off screen
+    source.resolve(['0/0/0']);
+    await settle();
+    expect(render).not.toHaveBeenCalled();
+
+    // Its free loading slot went to a tile of the new view
+    const inView = source.requested[source.requested.length - 1] ?? '';
+    expect(inView).toMatch(/^0\/1[45]\//);
+    source.resolve([inView]);
+    await settle();
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict the least recently used tiles', async () => {
+    createEngine({ cacheSize: 4 });
+    await engine.loadTileSource(source);
+    for (let i = 0; i < 4; i++) {
+      source.resolve();
+      await settle();
+    }
+
+    expect(engine.getImageViewer().getTiledImageLayer().getCachedTileCount()).toBe(4);
+
+    const cache = new TileCache(2);
+    const tile = document.createElement('canvas');
+    cache.set('a', tile);
+    cache.set('b', tile);
+    cache.get('a');
+    cache.set('c', tile);
+    expect([cache.has('a'), cache.has('b'), cache.has('c')]).toEqual([true, false, true]);
+  });
+
+  it('should export from the tiles of the level matching the export scale', async () => {
+    createEngine();
+    await engine.loadTileSource(source);
+    for (let i = 0; i < 4; i++) {
+      source.resolve();
+      await settle();
+    }
+    const getContext = HTMLCanvasElement.prototype.getContext as jest.Mock;
+    const lastContext = () => getContext.mock.results[getContext.mock.results.length - 1]?.value as CanvasRenderingContext2D;
+    const getImage = jest.spyOn(ImageAdjuster.prototype, 'getImage');
+    const adjustImage = jest.spyOn(ImageAdjuster.prototype, 'adjustImage');
+    engine.setAdjustments({ brightness: 20 });
+
+    // A quarter of the size is level 2, whose tiles are all cached
+    const requested = source.requested.length;
+    await engine.exportImage({ scale: 0.25, includeAdjustments: true, output: 'dataURL' });
+    expect(source.requested).toHaveLength(requested);
+    expect(lastContext().drawImage).toHaveBeenCalledTimes(12);
+    // Adjusted tile by tile, never the preview as a whole
+    expect(getImage).not.toHaveBeenCalled();
+    const levelTiles = Array.from(source.tiles).filter(([id]) => id.startsWith('2/')).map(([, tile]) => tile);
+    expect(adjustImage.mock.calls.map(call => call[0])).toEqual(expect.arrayContaining(levelTiles));
+
+    // Full resolution tiles are loaded for the exported region only
+    const exporting = engine.exportImage({ region: { x: 0, y: 0, width: 300, height: 300 }, output: 'dataURL' });
+    await settle();
+    const loaded = source.requested.slice(requested);
+    expect(loaded.sort()).toEqual(['0/0/0', '0/0/1', '0/1/0', '0/1/1']);
+    source.resolve(loaded);
+    await expect(exporting).resolves.toMatch(/^data:image\/png/);
+
+    expect(() => engine.exportAnnotationsAsSVG({ includeImage: true }))
+      .toThrow('Cannot embed image in SVG: the full resolution image is not loaded');
+  });
+
+  it('should cut large images into an in-memory pyramid', async () => {
+    createEngine({ threshold: 1000, tileSize: 256 });
+    const image = createTestImage();
+    engine.loadImageElement(image);
+
+    const pyramid = engine.getImageData()?.tileSource;
+    expect(pyramid).toBeInstanceOf(PyramidTileSource);
+    expect(pyramid?.levelCount).toBe(4);
+
+    const getContext = HTMLCanvasElement.prototype.getContext as jest.Mock;
+    const loading = pyramid!.loadTile({ level: 1, column: 3, row: 2 });
+    jest.advanceTimersByTime(0);
+    const tile = await loading as HTMLCanvasElement;
+    const ctx = getContext.mock.results[getContext.mock.results.length - 1]?.value as CanvasRenderingContext2D;
+
+    // Level 1 is 800x600, so the last tile is 32x88 pixels
+    expect([tile.width, tile.height]).toEqual([32, 88]);
+    expect(ctx.drawImage).toHaveBeenCalledWith(image, 1536, 1024, 64, 176, 0, 0, 32, 88);
+    expect(() => engine.startCrop()).not.toThrow();
+  });
+});
+
+describe('Tile Sources', () => {
+  it('should build Deep Zoom tile URLs', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve(DZI) });
+
+    const source = await DeepZoomTileSource.load('https://example.com/scans/slide.dzi?v=2');
+
+    expect([source.width, source.height, source.tileSize, source.overlap, source.levelCount]).toEqual([20000, 15000, 254, 1, 8]);
+    // Deep Zoom level 15 is full resolution
+    expect(source.getTileUrl({ level: 0, column: 3, row: 2 })).toBe('https://example.com/scans/slide_files/15/3_2.jpeg');
+    expect(source.getTileUrl({ level: 7, column: 0, row: 0 })).toBe('https://example.com/scans/slide_files/8/0_0.jpeg');
+    expect(() => DeepZoomTileSource.fromXml('<Image/>', 'tiles/')).toThrow('Invalid Deep Zoom descriptor');
+  });
+
+  it('should build IIIF tile URLs', () => {
+    const source = IiifTileSource.fromInfo({
+      '@id': 'https://example.com/iiif/slide/',
+      width: 20000,
+      height: 15000,
+      tiles: [{ width: 512, scaleFactors: [1, 2, 4, 8, 16] }]
+    });
+
+    expect(source.levelCount).toBe(5);
+    // Last column at a quarter of the resolution
+    expect(source.getTileUrl({ level: 2, column: 9, row: 0 }))
+      .toBe('https://example.com/iiif/slide/18432,0,1568,2048/392,512/0/default.jpg');
+    expect(() => IiifTileSource.fromInfo({ width: 10 })).toThrow('Invalid IIIF image information');
+  });
+});
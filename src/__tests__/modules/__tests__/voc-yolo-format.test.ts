@@ -0,0 +1,197 @@
+import type { AnnotationManager } from '../../../modules/annotation/Manager';
+import { YoloSerializer } from '../../../modules/annotation/serializers';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import type { Annotation, AnnotationSerializer } from '../../../types';
+import { createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('VOC and YOLO Formats', () => {
+  let container: HTMLElement;
+  let viewer: ImageViewer;
+  let annotationManager: AnnotationManager;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, undefined, { enabled: true });
+    annotationManager = viewer.getAnnotationManager()!;
+
+    viewer.loadImageElement(createTestImage(), 'image/jpeg', 'street.jpg');
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    viewer.getCanvas().destroy();
+    document.body.removeChild(container);
+  });
+
+  const addBoxes = () => {
+    const annotations: Annotation[] = [
+      { id: 'car', type: 'rect', points: [{ x: 400, y: 300 }, { x: 0, y: 0 }], style, data: { category: 'car' } },
+      { id: 'arrow', type: 'arrow', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style },
+      { id: 'sign', type: 'rect', points: [{ x: 800, y: 600 }, { x: 1600, y: 1200 }], style, data: { category: 'R&D <sign>' } }
+    ];
+    annotations.forEach(annotation => annotationManager.addAnnotation(annotation));
+  };
+
+  describe('VOC', () => {
+    it('should export boxes and round-trip them', () => {
+      addBoxes();
+      const xml = annotationManager.exportAnnotationsAs('voc');
+      const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+      expect(doc.querySelector('filename')?.textContent).toBe('street.jpg');
+      expect(doc.querySelector('size width')?.textContent).toBe('1600');
+      expect(doc.querySelectorAll('object')).toHaveLength(2);
+      expect(doc.querySelector('object bndbox xmax')?.textContent).toBe('400');
+
+      annotationManager.importAnnotationsFrom('voc', xml);
+
+      const annotations = annotationManager.getAllAnnotations();
+      expect(annotations.map(a => a.data?.category)).toEqual(['car', 'R&D <sign>']);
+      expect(annotations[0]?.points).toEqual([{ x: 0, y: 0 }, { x: 400, y: 300 }]);
+      expect(annotationManager.exportAnnotationsAs('voc')).toBe(xml);
+    });
+
+    it('should rescale boxes made for a different image size', () => {
+      const xml = `<annotation>
+  <size><width>800</width><height>600</height></size>
+  <object><name>dog</name><difficult>1</difficult><bndbox><xmin>10</xmin><ymin>20</ymin><xmax>30</xmax><ymax>40</ymax></bndbox></object>
+</annotation>`;
+
+      annotationManager.importAnnotationsFrom('voc', xml);
+
+      const [imported] = annotationManager.getAllAnnotations();
+      expect(imported?.points).toEqual([{ x: 20, y: 40 }, { x: 60, y: 80 }]);
+      expect(imported?.data).toEqual({ category: 'dog', difficult: true });
+    });
+
+    it('should report the line and value of invalid objects', () => {
+      annotationManager.addAnnotation({ id: 'keep', type: 'rect', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style });
+      const xml = [
+        '<annotation>',
+        '  <object><name>a</name><bndbox><xmin>0</xmin><ymin>0</ymin><xmax>5</xmax><ymax>5</ymax></bndbox></object>',
+        '  <object>',
+        '    <name>b</name>',
+        '    <bndbox><xmin>wide</xmin><ymin>0</ymin><xmax>5</xmax><ymax>5</ymax></bndbox>',
+        '  </object>',
+        '</annotation>'
+      ].join('\n');
+
+      expect(() => annotationManager.importAnnotationsFrom('voc', xml)).toThrow(expect.objectContaining({
+        type: 'ANNOTATION',
+        message: expect.stringContaining('line 3'),
+        context: expect.objectContaining({ line: 3, value: 'wide' })
+      }));
+      expect(() => annotationManager.importAnnotationsFrom('voc', '<annotation>')).toThrow(expect.objectContaining({ type: 'ANNOTATION' }));
+
+      // Tags in comments, CDATA and nested objects do not shift the count
+      const commented = [
+        '<annotation>',
+        '  <!-- <object> removed -->',
+        '  <object><name><![CDATA[<object>]]></name><bndbox><xmin>0</xmin><ymin>0</ymin><xmax>5</xmax><ymax>5</ymax></bndbox>',
+        '    <part><object/></part>',
+        '  </object>',
+        '  <object><name>b</name></object>',
+        '</annotation>'
+      ].join('\n');
+      expect(() => annotationManager.importAnnotationsFrom('voc', commented)).toThrow(expect.objectContaining({
+        context: expect.objectContaining({ line: 6 })
+      }));
+      expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['keep']);
+    });
+  });
+
+  describe('YOLO', () => {
+    it('should export normalized boxes and round-trip them', () => {
+      addBoxes();
+      const labels = annotationManager.exportAnnotationsAs('yolo');
+
+      expect(labels).toBe('0 0.125 0.125 0.25 0.25\n1 0.75 0.75 0.5 0.5');
+
+      annotationManager.importAnnotationsFrom('yolo', `# labels\n${labels}\n`);
+
+      const annotations = annotationManager.getAllAnnotations();
+      expect(annotations.map(a => a.data?.category)).toEqual(['0', '1']);
+      expect(annotations[1]?.points).toEqual([{ x: 800, y: 600 }, { x: 1600, y: 1200 }]);
+      expect(annotationManager.exportAnnotationsAs('yolo')).toBe(labels);
+    });
+
+    it('should return the numbered class list and reject mixed categories', () => {
+      const yolo = new YoloSerializer();
+      annotationManager.registerSerializer(yolo);
+      addBoxes();
+
+      const labels = annotationManager.exportAnnotationsAs('yolo');
+      expect(yolo.getClasses()).toEqual(['car', 'R&D <sign>']);
+
+      annotationManager.registerSerializer(new YoloSerializer(yolo.getClasses()));
+      annotationManager.importAnnotationsFrom('yolo', labels);
+      expect(annotationManager.getAllAnnotations().map(a => a.data?.category)).toEqual(['car', 'R&D <sign>']);
+
+      annotationManager.registerSerializer(yolo);
+      annotationManager.addAnnotation({ id: 'zero', type: 'rect', points: [{ x: 0, y: 0 }, { x: 1, y: 1 }], style, data: { category: '0' } });
+      expect(() => annotationManager.exportAnnotationsAs('yolo')).toThrow(expect.objectContaining({
+        type: 'ANNOTATION',
+        message: 'Cannot mix numeric category "0" with named category "car" without a YOLO class list'
+      }));
+    });
+
+    it('should expose the class list of the built-in serializer', () => {
+      addBoxes();
+      annotationManager.exportAnnotationsAs('yolo');
+
+      expect((annotationManager.getSerializer('yolo') as YoloSerializer).getClasses()).toEqual(['car', 'R&D <sign>']);
+    });
+
+    it('should reject boxes without a category next to numeric categories', () => {
+      annotationManager.addAnnotation({ id: 'zero', type: 'rect', points: [{ x: 0, y: 0 }, { x: 1, y: 1 }], style, data: { category: '0' } });
+      annotationManager.addAnnotation({ id: 'bare', type: 'rect', points: [{ x: 2, y: 2 }, { x: 3, y: 3 }], style });
+
+      expect(() => annotationManager.exportAnnotationsAs('yolo')).toThrow(expect.objectContaining({
+        type: 'ANNOTATION',
+        message: expect.stringContaining('Annotation "bare" has no category'),
+        context: expect.objectContaining({ value: 'bare' })
+      }));
+    });
+
+    it('should map class indices through a registered class list', () => {
+      annotationManager.registerSerializer(new YoloSerializer(['person', 'car']));
+
+      annotationManager.importAnnotationsFrom('yolo', '1 0.5 0.5 0.1 0.1');
+      expect(annotationManager.getAllAnnotations()[0]?.data?.category).toBe('car');
+
+      annotationManager.addAnnotation({ id: 'tree', type: 'rect', points: [{ x: 0, y: 0 }, { x: 1, y: 1 }], style, data: { category: 'tree' } });
+      expect(() => annotationManager.exportAnnotationsAs('yolo')).toThrow('Category "tree" is not in the YOLO class list');
+    });
+
+    it('should report the line and value of invalid lines', () => {
+      const labels = '0 0.5 0.5 0.1 0.1\n\n1 0.5 1.5 0.1 0.1';
+
+      expect(() => annotationManager.importAnnotationsFrom('yolo', labels)).toThrow(expect.objectContaining({
+        type: 'ANNOTATION',
+        message: expect.stringContaining('line 3'),
+        context: expect.objectContaining({ line: 3, value: '1.5' })
+      }));
+      expect(() => annotationManager.importAnnotationsFrom('yolo', '0 0.5 0.5')).toThrow('Invalid YOLO line 1: expected 5 values, got 3');
+      expect(() => annotationManager.importAnnotationsFrom('yolo', '-1 0.5 0.5 0.1 0.1')).toThrow(expect.objectContaining({
+        context: expect.objectContaining({ line: 1, value: '-1' })
+      }));
+    });
+  });
+
+  it('should use registered custom serializers', () => {
+    const csv: AnnotationSerializer = {
+      format: 'csv',
+      serialize: annotations => annotations.map(a => `${a.id},${a.points[0]!.x},${a.points[0]!.y}`).join('\n'),
+      deserialize: () => []
+    };
+
+    annotationManager.registerSerializer(csv);
+    annotationManager.addAnnotation({ id: 'a', type: 'text', points: [{ x: 5, y: 6 }], style, data: { text: 'hi' } });
+
+    expect(annotationManager.getSupportedFormats()).toEqual(['coco', 'voc', 'yolo', 'w3c', 'csv']);
+    expect(annotationManager.exportAnnotationsAs('CSV')).toBe('a,5,6');
+  });
+});
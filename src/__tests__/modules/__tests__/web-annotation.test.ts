@@ -0,0 +1,132 @@
+import type { AnnotationManager } from '../../../modules/annotation/Manager';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import type { Annotation } from '../../../types';
+import { createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+const IMAGE_URL = 'https://example.org/iiif/street.jpg';
+
+describe('W3C Web Annotation Format', () => {
+  let container: HTMLElement;
+  let viewer: ImageViewer;
+  let annotationManager: AnnotationManager;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, undefined, { enabled: true });
+    annotationManager = viewer.getAnnotationManager()!;
+
+    viewer.loadImageElement(createTestImage({ src: IMAGE_URL }), 'image/jpeg', 'street.jpg');
+  });
+
+  afterEach(() => {
+    annotationManager.destroy();
+    viewer.getCanvas().destroy();
+    document.body.removeChild(container);
+  });
+
+  it('should export selectors, bodies and style extensions', () => {
+    const annotations: Annotation[] = [
+      { id: 'car', type: 'rect', points: [{ x: 300, y: 200 }, { x: 100, y: 50 }], style, data: { category: 'car' } },
+      { id: 'note', type: 'text', points: [{ x: 20, y: 40 }], style: { ...style, fontSize: 24 }, data: { text: 'Look here' } },
+      { id: 'road', type: 'polygon', points: [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 0, y: 30 }], style },
+      { id: 'wheel', type: 'circle', points: [{ x: 50, y: 50 }, { x: 50, y: 60 }], style }
+    ];
+    annotations.forEach(annotation => annotationManager.addAnnotation(annotation));
+
+    const page = JSON.parse(annotationManager.exportAnnotationsAs('w3c'));
+    const [car, note, road, wheel] = page.items;
+
+    expect(page['@context'][0]).toBe('http://www.w3.org/ns/anno.jsonld');
+    expect(page.type).toBe('AnnotationPage');
+    expect(car).toMatchObject({
+      id: 'car',
+      type: 'Annotation',
+      motivation: 'highlighting',
+      body: { type: 'TextualBody', value: 'car', purpose: 'tagging' },
+      target: { source: IMAGE_URL, selector: { type: 'FragmentSelector', value: 'xywh=pixel:100,50,200,150' } },
+      'canvaslens:style': style
+    });
+    expect(note.motivation).toBe('commenting');
+    expect(note.body).toMatchObject({ value: 'Look here', purpose: 'commenting' });
+    expect(note.target.selector.value).toBe('xywh=pixel:20,40,0,0');
+    expect(road.target.selector).toMatchObject({ type: 'SvgSelector', value: expect.stringContaining('<polygon points="0,0 40,0 0,30"/>') });
+    expect(wheel.target.selector.value).toContain('<circle cx="50" cy="50" r="10"/>');
+  });
+
+  it('should give back the same annotations after a round trip', () => {
+    const annotations: Annotation[] = [
+      { id: 'a', type: 'arrow', points: [{ x: 1.5, y: 2 }, { x: 30, y: 40 }], style: { ...style, lineStyle: 'dashed' } },
+      { id: 'b', type: 'freehand', points: [{ x: 0, y: 0 }, { x: 5, y: 5 }, { x: 10, y: 0 }], style, data: { highlighter: true, category: 'mark' } },
+      { id: 'c', type: 'text', points: [{ x: 20, y: 40 }], style, data: { text: 'Hi' } }
+    ];
+    annotations.forEach(annotation => annotationManager.addAnnotation(annotation));
+    const exported = annotationManager.exportAnnotationsAs('w3c');
+
+    annotationManager.importAnnotationsFrom('w3c', exported);
+
+    expect(annotationManager.getAllAnnotations()).toEqual(annotations.map(annotation => expect.objectContaining({
+      id: annotation.id,
+      type: annotation.type,
+      points: annotation.points,
+      style: expect.objectContaining(annotation.style),
+      ...(annotation.data && { data: annotation.data })
+    })));
+  });
+
+  it('should import annotations from other tools', () => {
+    const collection = {
+      '@context': 'http://www.w3.org/ns/anno.jsonld',
+      type: 'AnnotationCollection',
+      first: {
+        type: 'AnnotationPage',
+        items: [
+          { id: 'https://anno.example.org/1', type: 'Annotation', target: 'https://example.org/other.jpg#xywh=0,0,1,1' },
+          {
+            id: 'https://anno.example.org/2',
+            type: 'Annotation',
+            body: [{ type: 'TextualBody', value: 'A window', purpose: 'describing' }],
+            target: { source: IMAGE_URL, selector: { type: 'FragmentSelector', value: 'xywh=percent:50,50,25,10' } }
+          },
+          {
+            type: 'Annotation',
+            target: {
+              source: IMAGE_URL,
+              selector: [
+                { type: 'CssSelector', value: '#x' },
+                { type: 'SvgSelector', value: '<svg xmlns="http://www.w3.org/2000/svg"><path d="M0,0 L10,0 L10,10 Z"/></svg>' }
+              ]
+            }
+          }
+        ]
+      }
+    };
+
+    annotationManager.importAnnotationsFrom('w3c', JSON.stringify(collection));
+
+    const [window, path] = annotationManager.getAllAnnotations();
+    expect(annotationManager.getAllAnnotations()).toHaveLength(2);
+    expect(window).toMatchObject({
+      id: 'https://anno.example.org/2',
+      type: 'rect',
+      points: [{ x: 800, y: 600 }, { x: 1200, y: 720 }],
+      data: { text: 'A window' }
+    });
+    expect(path).toMatchObject({ id: 'w3c-3', type: 'polygon', points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }] });
+  });
+
+  it('should reject invalid targets without touching existing annotations', () => {
+    annotationManager.addAnnotation({ id: 'keep', type: 'rect', points: [{ x: 0, y: 0 }, { x: 10, y: 10 }], style });
+    const svgTarget = (svg: string) => JSON.stringify([{ type: 'Annotation', target: { selector: { type: 'SvgSelector', value: svg } } }]);
+
+    expect(() => annotationManager.importAnnotationsFrom('w3c', JSON.stringify([{ type: 'Annotation', target: `${IMAGE_URL}#t=10` }])))
+      .toThrow(expect.objectContaining({ type: 'ANNOTATION', context: expect.objectContaining({ index: 0, value: 't=10' }) }));
+    expect(() => annotationManager.importAnnotationsFrom('w3c', svgTarget('<svg xmlns="http://www.w3.org/2000/svg"><ellipse/></svg>')))
+      .toThrow('unsupported shape <ellipse>');
+    expect(() => annotationManager.importAnnotationsFrom('w3c', svgTarget('<svg xmlns="http://www.w3.org/2000/svg"><path d="M0,0 C1,1 2,2 3,3"/></svg>')))
+      .toThrow('unsupported path');
+    expect(() => annotationManager.importAnnotationsFrom('w3c', '{"type":"Foo"}')).toThrow(expect.objectContaining({ type: 'ANNOTATION' }));
+    expect(annotationManager.getAllAnnotations().map(a => a.id)).toEqual(['keep']);
+  });
+});
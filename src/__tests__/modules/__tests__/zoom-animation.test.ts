@@ -0,0 +1,238 @@
+import { CanvasLensCore } from '../../../components/CanvasLensCore';
+import { Engine } from '../../../core/Engine';
+import { ImageViewer } from '../../../modules/image-viewer/Viewer';
+import { ZoomPanHandler } from '../../../modules/zoom-pan/Handler';
+import type { ZoomPanOptions } from '../../../types';
+import { screenToWorld } from '../../../utils/geometry/coordinate';
+import { createTestImage, dispatchPointer } from '../../helpers';
+
+describe('Zoom and Pan Animation', () => {
+  let container: HTMLElement;
+  let viewer: ImageViewer;
+  let handler: ZoomPanHandler;
+  let canvas: HTMLElement;
+
+  const createViewer = (options: ZoomPanOptions = {}) => {
+    viewer = new ImageViewer(container, { width: 800, height: 600 }, {}, { maxZoom: 10, minZoom: 0.1, ...options });
+    handler = viewer.getZoomPanHandler()!;
+    canvas = viewer.getCanvas().getElement();
+    viewer.loadImageElement(createTestImage());
+    jest.advanceTimersByTime(50);
+  };
+
+  const viewState = () => viewer.getCanvas().getViewState();
+
+  const pointer = (type: string, x: number, y: number) => {
+    dispatchPointer(canvas, type, x, y);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    handler.destroy();
+    viewer.getCanvas().destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  describe('transitions', () => {
+    it('should animate zoomTo while keeping the zoom center in place', () => {
+      createViewer({ animationEasing: 'linear', animationDuration: 256 });
+      const center = { x: 100, y: 50 };
+      const anchor = screenToWorld(center, viewState());
+
+      handler.zoomTo(4, center);
+      expect(viewState().scale).toBe(1);
+      expect(handler.isAnimating()).toBe(true);
+
+      jest.advanceTimersByTime(128);
+      // Scale is interpolated geometrically: halfway between 1x and 4x is 2x
+      expect(viewState().scale).toBeCloseTo(2, 1);
+      expect(screenToWorld(center, viewState()).x).toBeCloseTo(anchor.x);
+      expect(screenToWorld(center, viewState()).y).toBeCloseTo(anchor.y);
+
+      jest.advanceTimersByTime(200);
+      expect(viewState().scale).toBe(4);
+      expect(screenToWorld(center, viewState()).x).toBeCloseTo(anchor.x);
+      expect(handler.isAnimating()).toBe(false);
+    });
+
+    it('should build repeated zoom steps on the running transition', () => {
+      createViewer();
+
+      handler.zoomIn(2);
+      jest.advanceTimersByTime(32);
+      handler.zoomIn(2);
+      jest.advanceTimersByTime(300);
+
+      expect(viewState().scale).toBe(4);
+    });
+
+    it('should animate reset back to the initial view', () => {
+      createViewer();
+      const initial = viewState();
+
+      handler.zoomTo(3, undefined, false);
+      handler.reset();
+      expect(viewState().scale).toBe(3);
+
+      jest.advanceTimersByTime(300);
+      expect(viewState()).toEqual(initial);
+    });
+
+    it('should apply changes at once when animation is disabled', () => {
+      createViewer({ animationDuration: 0 });
+
+      handler.zoomTo(3);
+
+      expect(viewState().scale).toBe(3);
+      expect(handler.isAnimating()).toBe(false);
+    });
+  });
+
+  describe('wheel zoom', () => {
+    const wheel = (deltaY: number, deltaMode = 0) => {
+      canvas.dispatchEvent(new WheelEvent('wheel', { deltaY, deltaMode, clientX: 100, clientY: 100, cancelable: true }));
+    };
+
+    it('should zoom in proportion to the scroll distance without dropping events', () => {
+      createViewer();
+
+      wheel(-100);
+      expect(viewState().scale).toBeCloseTo(Math.exp(0.1));
+
+      // A trackpad sends many small deltas in quick succession
+      wheel(-10);
+      wheel(-10);
+      expect(viewState().scale).toBeCloseTo(Math.exp(0.12));
+
+      wheel(3, 1);
+      expect(viewState().scale).toBeCloseTo(Math.exp(0.12 - 0.099));
+    });
+
+    it('should stop a running transition', () => {
+      createViewer();
+
+      handler.zoomTo(5);
+      wheel(-100);
+      jest.advanceTimersByTime(300);
+
+      expect(viewState().scale).toBeCloseTo(Math.exp(0.1));
+    });
+  });
+
+  describe('inertia', () => {
+    const flick = () => {
+      pointer('pointerdown', 100, 100);
+      jest.advanceTimersByTime(10);
+      pointer('pointermove', 120, 100);
+      jest.advanceTimersByTime(10);
+      pointer('pointermove', 140, 100);
+      pointer('pointerup', 140, 100);
+    };
+
+    it('should keep panning after release and come to a stop', () => {
+      createViewer();
+      const start = viewState();
+
+      flick();
+      expect(viewState().offsetX - start.offsetX).toBe(40);
+
+      jest.advanceTimersByTime(100);
+      const gliding = viewState().offsetX - start.offsetX;
+      expect(gliding).toBeGreaterThan(40);
+      expect(viewState().offsetY).toBe(start.offsetY);
+
+      jest.advanceTimersByTime(5000);
+      expect(handler.isAnimating()).toBe(false);
+      const stopped = viewState().offsetX;
+      jest.advanceTimersByTime(100);
+      expect(viewState().offsetX).toBe(stopped);
+    });
+
+    it('should not glide when disabled or when the pointer rested before release', () => {
+      createViewer({ inertia: false });
+      const start = viewState();
+      flick();
+      jest.advanceTimersByTime(200);
+      expect(viewState().offsetX - start.offsetX).toBe(40);
+
+      handler.updateOptions({ inertia: true });
+      pointer('pointerdown', 100, 100);
+      jest.advanceTimersByTime(10);
+      pointer('pointermove', 120, 100);
+      jest.advanceTimersByTime(200);
+      pointer('pointerup', 120, 100);
+      jest.advanceTimersByTime(200);
+      expect(viewState().offsetX - start.offsetX).toBe(60);
+    });
+
+    it('should stop gliding when the view is grabbed again', () => {
+      createViewer();
+
+      flick();
+      jest.advanceTimersByTime(50);
+      pointer('pointerdown', 300, 300);
+      const grabbed = viewState();
+      jest.advanceTimersByTime(200);
+
+      expect(viewState()).toEqual(grabbed);
+    });
+  });
+
+});
+
+describe('View attributes', () => {
+  let host: HTMLElement;
+  let core: CanvasLensCore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    host = document.createElement('div');
+    host.setAttribute('tools', JSON.stringify({ zoom: true, pan: true }));
+    host.attachShadow({ mode: 'open' });
+    document.body.appendChild(host);
+    core = new CanvasLensCore(host);
+    core.initialize();
+  });
+
+  afterEach(() => {
+    core.destroy();
+    document.body.removeChild(host);
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const setAttribute = (name: string, value: string | null) => {
+    if (value === null) {
+      host.removeAttribute(name);
+    } else {
+      host.setAttribute(name, value);
+    }
+    core.handleAttributeChange(name, value ?? '');
+  };
+
+  it('should update the transitions and pan constraint without rebuilding the viewer', () => {
+    const updateOptions = jest.spyOn(ZoomPanHandler.prototype, 'updateOptions');
+    const destroy = jest.spyOn(Engine.prototype, 'destroy');
+    core.registerShortcut('q', 'zoomIn');
+
+    setAttribute('animation-duration', '400');
+    setAttribute('animation-easing', 'linear');
+    expect(updateOptions).toHaveBeenLastCalledWith({ animationDuration: 400, animationEasing: 'linear', panConstraint: 'none' });
+
+    // Removing an attribute brings back its default
+    setAttribute('animation-duration', null);
+    expect(updateOptions).toHaveBeenLastCalledWith({ animationDuration: 250, animationEasing: 'linear', panConstraint: 'none' });
+
+    setAttribute('pan-constraint', 'contain');
+    expect(updateOptions).toHaveBeenLastCalledWith({ animationDuration: 250, animationEasing: 'linear', panConstraint: 'contain' });
+
+    expect(destroy).not.toHaveBeenCalled();
+    expect(core.getShortcuts()['q']).toBe('zoomIn');
+  });
+});
@@ -0,0 +1,89 @@
+import type { Engine } from '../../../core/Engine';
+import type { CanvasLensOptions } from '../../../types';
+import { createTestEngine, createTestImage } from '../../helpers';
+
+const style = { strokeColor: '#ff0000', strokeWidth: 2 };
+
+describe('Zoom to Region', () => {
+  let container: HTMLElement;
+  let engine: Engine;
+
+  const createEngine = (options: Partial<CanvasLensOptions> = {}) => {
+    engine = createTestEngine(container, { tools: { zoom: true, pan: true, annotation: { rect: true, line: true } }, ...options });
+    engine.loadImageElement(createTestImage());
+  };
+
+  const viewState = () => ({ scale: engine.getZoomLevel(), ...engine.getPanOffset() });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    document.body.removeChild(container);
+    jest.useRealTimers();
+  });
+
+  it('should frame a region given in image pixels', () => {
+    createEngine();
+
+    // The 1600x1200 image is shown at half size, so this is the world rect (200, 200, 200x100)
+    engine.zoomToRect({ x: 400, y: 400, width: 400, height: 200 }, { padding: 0 });
+    expect(viewState()).toEqual({ scale: 4, x: -800, y: -700 });
+
+    engine.zoomToRect({ x: 400, y: 400, width: 400, height: 200 });
+    expect(engine.getZoomLevel()).toBeCloseTo(3.8);
+  });
+
+  it('should clamp the zoom level', () => {
+    createEngine({ maxZoom: 5, minZoom: 0.5 });
+
+    engine.zoomToRect({ x: 0, y: 0, width: 2, height: 2 });
+    expect(engine.getZoomLevel()).toBe(5);
+
+    engine.zoomToRect({ x: -16000, y: -12000, width: 32000, height: 24000 });
+    expect(engine.getZoomLevel()).toBe(0.5);
+  });
+
+  it('should frame annotations by their bounds', () => {
+    createEngine();
+    engine.addAnnotation({ id: 'defect', type: 'rect', points: [{ x: 800, y: 600 }, { x: 400, y: 400 }], style });
+    engine.addAnnotation({ id: 'scratch', type: 'line', points: [{ x: 0, y: 100 }, { x: 400, y: 100 }], style });
+
+    expect(engine.zoomToAnnotation('defect', { padding: 0 })).toBe(true);
+    expect(viewState()).toEqual({ scale: 4, x: -800, y: -700 });
+
+    // A horizontal line is fitted by its length only
+    expect(engine.zoomToAnnotation('scratch', { padding: 0 })).toBe(true);
+    expect(viewState()).toEqual({ scale: 4, x: 0, y: 100 });
+
+    expect(engine.zoomToAnnotation('missing')).toBe(false);
+    expect(viewState()).toEqual({ scale: 4, x: 0, y: 100 });
+  });
+
+  it('should center on a point without changing the zoom level', () => {
+    createEngine();
+    engine.zoomTo(2);
+
+    engine.centerOn({ x: 1600, y: 1200 });
+
+    expect(viewState()).toEqual({ scale: 2, x: -1200, y: -900 });
+  });
+
+  it('should animate by default when transitions are enabled', () => {
+    createEngine({ animationDuration: 250 });
+    engine.addAnnotation({ id: 'defect', type: 'rect', points: [{ x: 400, y: 400 }, { x: 800, y: 600 }], style });
+
+    engine.zoomToAnnotation('defect', { padding: 0 });
+    expect(engine.getZoomLevel()).toBe(1);
+
+    jest.advanceTimersByTime(300);
+    expect(viewState()).toEqual({ scale: 4, x: -800, y: -700 });
+
+    engine.centerOn({ x: 0, y: 0 }, false);
+    expect(viewState()).toEqual({ scale: 4, x: 400, y: 300 });
+  });
+});
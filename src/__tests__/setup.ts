@@ -82,6 +82,25 @@ global.Image = class {
   }
 } as unknown as typeof Image;
 
+// jsdom does not implement PointerEvent
+global.PointerEvent = class extends MouseEvent {
+  pointerId: number;
+  pointerType: string;
+  isPrimary: boolean;
+
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 1;
+    this.pointerType = init.pointerType ?? 'mouse';
+    this.isPrimary = init.isPrimary ?? true;
+  }
+} as unknown as typeof PointerEvent;
+
+// jsdom does not expose structuredClone; Node's serializer implements the same algorithm
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const v8 = require('v8') as typeof import('v8');
+global.structuredClone = (<T>(value: T): T => v8.deserialize(v8.serialize(value)) as T) as typeof structuredClone;
+
 global.ResizeObserver = class {
   observe = jest.fn();
   unobserve = jest.fn();
@@ -1,5 +1,10 @@
+import { DEFAULT_CONFIG } from '../constants';
 import { AnnotationToolsConfig } from '../modules';
-import type { CanvasLensOptions } from '../types';
+import type { CanvasLensOptions, GalleryItem, KeyAction, KeymapBindings, PanConstraint, ZoomPanEasing } from '../types';
+import { warn } from '../utils/core/logger';
+
+const EASINGS: ZoomPanEasing[] = ['linear', 'ease-out', 'ease-in-out'];
+const PAN_CONSTRAINTS: PanConstraint[] = ['none', 'keep-visible', 'contain'];
 
 export class AttributeParser {
   /**
@@ -25,9 +30,104 @@ export class AttributeParser {
       result.tools = toolsConfig;
     }
 
+    if (this.parseBoolean(element.getAttribute('navigator'))) {
+      result.tools = { ...result.tools, navigator: true };
+    }
+
+    Object.assign(result, this.parseViewOptions(element));
+
+    const shortcuts = this.parseShortcuts(element.getAttribute('shortcuts'));
+    if (shortcuts) {
+      result.shortcuts = shortcuts;
+    }
+
     return result;
   }
 
+  /**
+   * Parse the attributes of view transitions and panning; missing or invalid
+   * values give the defaults, so removing an attribute undoes it
+   */
+  static parseViewOptions(
+    element: HTMLElement
+  ): Required<Pick<CanvasLensOptions, 'animationDuration' | 'animationEasing' | 'panConstraint'>> {
+    const animationDuration = parseFloat(element.getAttribute('animation-duration') ?? '');
+    const animationEasing = element.getAttribute('animation-easing') as ZoomPanEasing | null;
+    const panConstraint = element.getAttribute('pan-constraint') as PanConstraint | null;
+
+    return {
+      animationDuration: Number.isFinite(animationDuration) ? Math.max(0, animationDuration) : DEFAULT_CONFIG.ANIMATION_DURATION,
+      animationEasing: animationEasing && EASINGS.includes(animationEasing) ? animationEasing : DEFAULT_CONFIG.ANIMATION_EASING,
+      panConstraint: panConstraint && PAN_CONSTRAINTS.includes(panConstraint) ? panConstraint : DEFAULT_CONFIG.PAN_CONSTRAINT
+    };
+  }
+
+  /**
+   * Parse the shortcuts attribute: a JSON object of key combinations to
+   * actions, with null removing a default binding
+   */
+  static parseShortcuts(value: string | null): KeymapBindings | undefined {
+    if (!value) return undefined;
+
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        warn('Shortcuts configuration must be an object:', value);
+        return undefined;
+      }
+
+      const bindings: KeymapBindings = {};
+      Object.entries(parsed).forEach(([combo, action]) => {
+        if (action === null || typeof action === 'string') {
+          bindings[combo] = action as KeyAction | null;
+        } else {
+          warn(`Ignoring shortcut "${combo}": action must be a string or null`);
+        }
+      });
+      return bindings;
+    } catch (e) {
+      warn('Invalid JSON in shortcuts configuration:', value, e);
+      return undefined;
+    }
+  }
+
+  /**
+   * Parse the gallery attribute: a JSON array of image URLs or GalleryItem objects
+   */
+  static parseGallery(value: string | null): GalleryItem[] | undefined {
+    if (!value) return undefined;
+
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (!Array.isArray(parsed)) {
+        warn('Gallery configuration must be an array:', value);
+        return undefined;
+      }
+
+      const items: GalleryItem[] = [];
+      parsed.forEach((item: unknown) => {
+        if (typeof item === 'string') {
+          items.push({ src: item });
+        } else if (typeof item === 'object' && item !== null && typeof (item as GalleryItem).src === 'string') {
+          items.push(item as GalleryItem);
+        } else {
+          warn('Ignoring gallery item without a src:', item);
+        }
+      });
+      return items;
+    } catch (e) {
+      warn('Invalid JSON in gallery configuration:', value, e);
+      return undefined;
+    }
+  }
+
+
+  /**
+   * Parse a boolean attribute: present and not "false"
+   */
+  static parseBoolean(value: string | null): boolean {
+    return value !== null && value !== 'false';
+  }
 
   /**
    * Parse size attribute (supports px, %, or raw numbers)
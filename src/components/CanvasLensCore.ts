@@ -1,10 +1,34 @@
 import { Engine } from '../core/Engine';
-import type { Annotation, CustomImageData, Point, ToolConfig } from '../types';
+import { DEFAULT_ADJUSTMENTS } from '../modules/image-viewer/Adjustments';
+import type {
+  Annotation,
+  AnnotationSerializer,
+  CropAspectRatio,
+  CropOptions,
+  CropResult,
+  CustomImageData,
+  FlipAxis,
+  GalleryItem,
+  ImageAdjustments,
+  ImageExportOptions,
+  Point,
+  Rectangle,
+  RegisterShortcutOptions,
+  ShortcutAction,
+  SvgExportOptions,
+  TileSource,
+  ToolConfig,
+  ViewOrientation,
+  ZoomToRectOptions
+} from '../types';
 import { ErrorType } from '../types';
 import { ErrorHandler, safeAsync } from '../utils/core/error-handler';
 import { error, warn } from '../utils/core/logger';
+import { readImageMetadata } from '../utils/image/exif';
+import { orientImage } from '../utils/image/utils';
 import { AttributeParser } from './AttributeParser';
 import { EventManager } from './EventManager';
+import { GalleryManager } from './GalleryManager';
 import { OverlayManager } from './OverlayManager';
 
 export class CanvasLensCore {
@@ -12,6 +36,7 @@ export class CanvasLensCore {
   private canvasLens: Engine | null = null;
   private eventManager: EventManager;
   private overlayManager: OverlayManager;
+  private galleryManager: GalleryManager;
   private isDestroyed = false;
   private isInitialized = false;
   private hasUnsavedChanges = false;
@@ -20,6 +45,7 @@ export class CanvasLensCore {
     this.element = element;
     this.eventManager = new EventManager(element);
     this.overlayManager = new OverlayManager(element);
+    this.galleryManager = new GalleryManager(element, () => this.canvasLens);
   }
 
   /**
@@ -38,6 +64,7 @@ export class CanvasLensCore {
       this.createContainer();
       this.initializeCanvasLens();
       this.setupEventHandlers();
+      this.mountGallery();
       this.ensureCanvasSize();
       this.loadInitialImage();
       this.isInitialized = true;
@@ -66,6 +93,7 @@ export class CanvasLensCore {
 
     this.eventManager.destroy();
     this.overlayManager.destroy();
+    this.galleryManager.unmount();
   }
 
   /**
@@ -95,6 +123,22 @@ export class CanvasLensCore {
         case 'tools':
           this.updateToolConfig(value);
           break;
+        case 'navigator':
+          this.canvasLens.updateToolConfig({ navigator: AttributeParser.parseBoolean(value) });
+          break;
+        case 'shortcuts':
+          this.canvasLens.updateOptions({ shortcuts: AttributeParser.parseShortcuts(value) ?? {} });
+          break;
+        case 'gallery':
+          this.setGallery(AttributeParser.parseGallery(value) ?? []).catch(err => {
+            warn('Failed to show the gallery:', err);
+          });
+          break;
+        case 'animation-duration':
+        case 'animation-easing':
+        case 'pan-constraint':
+          this.canvasLens.updateOptions(AttributeParser.parseViewOptions(this.element));
+          break;
         case 'max-zoom':
         case 'min-zoom':
           this.reinitialize();
@@ -139,6 +183,22 @@ export class CanvasLensCore {
     ) as Promise<void>;
   }
 
+  /**
+   * Load a tiled image, e.g. a Deep Zoom or IIIF source
+   */
+  async loadTileSource(source: TileSource, fileName?: string): Promise<void> {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+
+    await this.canvasLens.loadTileSource(source, fileName);
+    this.resetChanges();
+  }
+
   /**
    * Load image from file
    */
@@ -172,10 +232,22 @@ export class CanvasLensCore {
 
       const img = new Image();
       img.onload = () => {
-        if (this.canvasLens && !this.isDestroyed) {
-          this.canvasLens.loadImageElement(img, file.type, file.name);
-          this.resetChanges();
-        }
+        // Turn the image upright before its size and annotation coordinates are taken
+        readImageMetadata(file)
+          .then(async metadata => {
+            const upright = await orientImage(img, metadata.orientation);
+            if (this.canvasLens && !this.isDestroyed) {
+              this.canvasLens.loadImageElement(upright, file.type, file.name, metadata);
+              this.resetChanges();
+            }
+          })
+          .catch(err => {
+            ErrorHandler.handleImageLoadError(
+              err as Error,
+              file.name,
+              { fileName: file.name, fileType: file.type }
+            );
+          });
       };
       img.onerror = () => {
         ErrorHandler.handleImageLoadError(
@@ -238,6 +310,122 @@ export class CanvasLensCore {
     }
   }
 
+  zoomToRect(rect: Rectangle, options?: ZoomToRectOptions): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.zoomToRect(rect, options);
+    }
+  }
+
+  zoomToAnnotation(id: string, options?: ZoomToRectOptions): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.zoomToAnnotation(id, options);
+    }
+    return false;
+  }
+
+  centerOn(point: Point, animate?: boolean): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.centerOn(point, animate);
+    }
+  }
+
+  rotate(degrees: number): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.rotate(degrees);
+    }
+  }
+
+  flip(axis: FlipAxis): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.flip(axis);
+    }
+  }
+
+  getOrientation(): ViewOrientation {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.getOrientation();
+    }
+    return { rotation: 0, flipX: false, flipY: false };
+  }
+
+  setAdjustments(adjustments: Partial<ImageAdjustments>): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.setAdjustments(adjustments);
+    }
+  }
+
+  resetAdjustments(): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.resetAdjustments();
+    }
+  }
+
+  getAdjustments(): ImageAdjustments {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.getAdjustments();
+    }
+    return { ...DEFAULT_ADJUSTMENTS };
+  }
+
+  /**
+   * Crop controls
+   */
+  startCrop(options?: CropOptions): void {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    this.canvasLens.startCrop(options);
+  }
+
+  setCropAspectRatio(aspectRatio: CropAspectRatio): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.setCropAspectRatio(aspectRatio);
+    }
+  }
+
+  getCropRect(): Rectangle | null {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.getCropRect();
+    }
+    return null;
+  }
+
+  setCropRect(rect: Rectangle): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.setCropRect(rect);
+    }
+  }
+
+  async applyCrop(): Promise<CropResult> {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    const result = await this.canvasLens.applyCrop();
+    this.hasUnsavedChanges = true;
+    return result;
+  }
+
+  cancelCrop(): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.cancelCrop();
+    }
+  }
+
+  isCropping(): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.isCropping();
+    }
+    return false;
+  }
+
   /**
    * Tool controls
    */
@@ -286,6 +474,45 @@ export class CanvasLensCore {
     }
   }
 
+  /**
+   * History controls
+   */
+  undo(): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      const undone = this.canvasLens.undo();
+      if (undone) {
+        this.hasUnsavedChanges = true;
+      }
+      return undone;
+    }
+    return false;
+  }
+
+  redo(): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      const redone = this.canvasLens.redo();
+      if (redone) {
+        this.hasUnsavedChanges = true;
+      }
+      return redone;
+    }
+    return false;
+  }
+
+  canUndo(): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.canUndo();
+    }
+    return false;
+  }
+
+  canRedo(): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.canRedo();
+    }
+    return false;
+  }
+
   /**
    * Comparison mode controls
    */
@@ -315,6 +542,183 @@ export class CanvasLensCore {
     return [];
   }
 
+  getSelectedAnnotations(): Annotation[] {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.getSelectedAnnotations();
+    }
+    return [];
+  }
+
+  setSelection(ids: string[]): void {
+    if (this.canvasLens && !this.isDestroyed) {
+      this.canvasLens.setSelection(ids);
+    }
+  }
+
+  /**
+   * Export image with annotations
+   */
+  async exportImage(options: ImageExportOptions = {}): Promise<Blob | string> {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    return this.canvasLens.exportImage(options);
+  }
+
+  /**
+   * Export annotations in an external format
+   */
+  exportAnnotationsAs(format: string): string {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    return this.canvasLens.exportAnnotationsAs(format);
+  }
+
+  /**
+   * Import annotations from an external format
+   */
+  importAnnotationsFrom(format: string, data: string): void {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    this.canvasLens.importAnnotationsFrom(format, data);
+  }
+
+  /**
+   * Register a serializer for an external annotation format
+   */
+  registerSerializer(serializer: AnnotationSerializer): void {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    this.canvasLens.registerSerializer(serializer);
+  }
+
+  /**
+   * Get the serializer used for an external annotation format
+   */
+  getSerializer(format: string): AnnotationSerializer {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    return this.canvasLens.getSerializer(format);
+  }
+
+  /**
+   * Bind a built-in action or a callback to a key combination
+   */
+  registerShortcut(combo: string, action: ShortcutAction, options?: RegisterShortcutOptions): void {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    this.canvasLens.registerShortcut(combo, action, options);
+  }
+
+  unregisterShortcut(combo: string): boolean {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.unregisterShortcut(combo);
+    }
+    return false;
+  }
+
+  getShortcuts(): Record<string, ShortcutAction> {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.canvasLens.getShortcuts();
+    }
+    return {};
+  }
+
+  /**
+   * Export annotations as SVG
+   */
+  exportAnnotationsAsSVG(options: SvgExportOptions = {}): string {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    return this.canvasLens.exportAnnotationsAsSVG(options);
+  }
+
+  /**
+   * Gallery controls
+   */
+  async setGallery(items: Array<string | GalleryItem>, startIndex?: number): Promise<void> {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    await this.galleryManager.setItems(items, startIndex);
+    this.resetChanges();
+  }
+
+  async goToImage(index: number): Promise<void> {
+    if (!this.canvasLens || this.isDestroyed) {
+      throw ErrorHandler.createError(
+        ErrorType.INITIALIZATION,
+        'CanvasLens is not initialized or has been destroyed',
+        { isDestroyed: this.isDestroyed }
+      );
+    }
+    await this.galleryManager.goTo(index);
+  }
+
+  async nextImage(): Promise<boolean> {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.galleryManager.next();
+    }
+    return false;
+  }
+
+  async previousImage(): Promise<boolean> {
+    if (this.canvasLens && !this.isDestroyed) {
+      return this.galleryManager.previous();
+    }
+    return false;
+  }
+
+  getGalleryIndex(): number {
+    return this.galleryManager.getIndex();
+  }
+
+  getGalleryItems(): GalleryItem[] {
+    return this.galleryManager.getItems();
+  }
+
+  getGalleryAnnotations(): Record<string, Annotation[]> {
+    return this.galleryManager.getAnnotationSets();
+  }
+
   /**
    * Overlay controls
    */
@@ -416,6 +820,16 @@ export class CanvasLensCore {
     this.eventManager.setupEventListeners();
   }
 
+  /**
+   * Show the gallery filmstrip in the container
+   */
+  private mountGallery(): void {
+    const container = this.shadowRoot?.firstElementChild;
+    if (container instanceof HTMLElement) {
+      this.galleryManager.mount(container);
+    }
+  }
+
   /**
    * Ensure canvas has proper size
    */
@@ -435,6 +849,17 @@ export class CanvasLensCore {
    * Load initial image if src is provided
    */
   private loadInitialImage(): void {
+    // When reinitializing, reinitialize() restores the shown gallery image
+    if (this.galleryManager.getItems().length > 0) return;
+
+    const gallery = AttributeParser.parseGallery(this.element.getAttribute('gallery'));
+    if (gallery && gallery.length > 0) {
+      this.galleryManager.setItems(gallery).catch(err => {
+        warn('Failed to show the gallery:', err);
+      });
+      return;
+    }
+
     const src = this.element.getAttribute('src');
     if (src && this.canvasLens) {
       this.canvasLens.loadImage(
@@ -475,15 +900,24 @@ export class CanvasLensCore {
     if (!this.canvasLens) return;
 
     const currentImageData = this.canvasLens.getImageData();
+    const adjustments = this.canvasLens.getAdjustments();
+    this.galleryManager.saveAnnotations();
     this.destroy();
     this.initialize();
 
+    if (this.canvasLens) {
+      this.canvasLens.setAdjustments(adjustments);
+    }
+
     if (currentImageData && this.canvasLens) {
       this.canvasLens.loadImageElement(
         currentImageData.element,
         currentImageData.type,
-        currentImageData.fileName
+        currentImageData.fileName,
+        currentImageData.metadata,
+        currentImageData.tileSource
       );
+      this.galleryManager.restoreAnnotations();
     }
   }
 
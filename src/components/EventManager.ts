@@ -1,4 +1,4 @@
-import type { Point, Annotation, CustomImageData } from '../types';
+import type { Point, Annotation, AnnotationHistoryState, AnnotationUpdate, CropResult, CustomImageData, ViewOrientation } from '../types';
 
 export class EventManager {
   private element: HTMLElement;
@@ -35,38 +35,58 @@ export class EventManager {
     const panChangeHandler = (e: Event) => {
       this.dispatchEvent('panchange', (e as CustomEvent).detail);
     };
+    const rotationChangeHandler = (e: Event) => {
+      this.dispatchEvent('rotationchange', (e as CustomEvent).detail);
+    };
+    const imageCropHandler = (e: Event) => {
+      this.dispatchEvent('crop', (e as CustomEvent).detail);
+    };
     const annotationAddHandler = (e: Event) => {
       this.dispatchEvent('annotationadd', (e as CustomEvent).detail);
     };
     const annotationRemoveHandler = (e: Event) => {
       this.dispatchEvent('annotationremove', (e as CustomEvent).detail);
     };
+    const annotationUpdateHandler = (e: Event) => {
+      this.dispatchEvent('annotationupdate', (e as CustomEvent).detail);
+    };
     const toolChangeHandler = (e: Event) => {
       this.dispatchEvent('toolchange', (e as CustomEvent).detail);
     };
     const comparisonChangeHandler = (e: Event) => {
       this.dispatchEvent('comparisonchange', (e as CustomEvent).detail);
     };
+    const historyChangeHandler = (e: Event) => {
+      this.dispatchEvent('historychange', (e as CustomEvent).detail);
+    };
 
     // Store handlers for cleanup
     this.boundHandlers.set('imageLoad', imageLoadHandler);
     this.boundHandlers.set('imageLoadError', imageLoadErrorHandler);
     this.boundHandlers.set('zoomChange', zoomChangeHandler);
     this.boundHandlers.set('panChange', panChangeHandler);
+    this.boundHandlers.set('rotationChange', rotationChangeHandler);
+    this.boundHandlers.set('imageCrop', imageCropHandler);
     this.boundHandlers.set('annotationAdd', annotationAddHandler);
     this.boundHandlers.set('annotationRemove', annotationRemoveHandler);
+    this.boundHandlers.set('annotationUpdate', annotationUpdateHandler);
     this.boundHandlers.set('toolChange', toolChangeHandler);
     this.boundHandlers.set('comparisonChange', comparisonChangeHandler);
+    this.boundHandlers.set('historyChange', historyChangeHandler);
 
     // Listen for custom events and forward them with lowercase names for external listeners
     this.addEventListener('imageLoad', imageLoadHandler);
     this.addEventListener('imageLoadError', imageLoadErrorHandler);
     this.addEventListener('zoomChange', zoomChangeHandler);
     this.addEventListener('panChange', panChangeHandler);
+    this.addEventListener('rotationChange', rotationChangeHandler);
+    this.addEventListener('imageCrop', imageCropHandler);
     this.addEventListener('annotationAdd', annotationAddHandler);
     this.addEventListener('annotationRemove', annotationRemoveHandler);
+    this.addEventListener('annotationUpdate', annotationUpdateHandler);
     this.addEventListener('toolChange', toolChangeHandler);
     this.addEventListener('comparisonChange', comparisonChangeHandler);
+    this.addEventListener('historyChange', historyChangeHandler);
 
     // Listen for window resize to recalculate canvas size
     window.addEventListener('resize', this.resizeHandler);
@@ -92,17 +112,30 @@ export class EventManager {
       onPanChange: (pan: Point) => {
         this.dispatchEvent('panChange', pan);
       },
+      onRotationChange: (orientation: ViewOrientation) => {
+        this.dispatchEvent('rotationChange', orientation);
+      },
+      onCrop: (result: CropResult) => {
+        // 'crop' itself is the public name, so the internal event needs another one
+        this.dispatchEvent('imageCrop', result);
+      },
       onAnnotationAdd: (annotation: Annotation) => {
         this.dispatchEvent('annotationAdd', annotation);
       },
       onAnnotationRemove: (annotation: string) => {
         this.dispatchEvent('annotationRemove', annotation);
       },
+      onAnnotationUpdate: (update: AnnotationUpdate) => {
+        this.dispatchEvent('annotationUpdate', update);
+      },
       onToolChange: (tool: string | null) => {
         this.dispatchEvent('toolChange', tool);
       },
       onComparisonChange: (comparison: number) => {
         this.dispatchEvent('comparisonChange', comparison);
+      },
+      onHistoryChange: (state: AnnotationHistoryState) => {
+        this.dispatchEvent('historyChange', state);
       }
     };
   }
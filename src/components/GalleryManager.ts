@@ -0,0 +1,368 @@
+import type { Engine } from '../core/Engine';
+import { cloneAnnotation } from '../modules/annotation/History';
+import type { Annotation, CropResult, CustomImageData, GalleryItem, ImageChangeDetail } from '../types';
+import { ErrorType } from '../types';
+import { ErrorHandler } from '../utils/core/error-handler';
+import { ImageLoader } from '../utils/image/loader';
+
+/** Height of the filmstrip in pixels */
+const FILMSTRIP_HEIGHT = 72;
+
+/**
+ * Images shown one at a time with a filmstrip of thumbnails along the bottom
+ * of the viewer. Each image keeps its own annotations, keyed by source, which
+ * are swapped into the viewer when the image is shown. A cropped image is kept
+ * in place of its source, since its annotations were moved into the crop.
+ */
+export class GalleryManager {
+  private element: HTMLElement;
+  private getEngine: () => Engine | null;
+  private items: GalleryItem[] = [];
+  private annotationSets = new Map<string, Annotation[]>();
+  private croppedImages = new Map<string, CustomImageData>();
+  /** Selected image; ahead of shownIndex while it loads */
+  private index = -1;
+  /** Image whose annotations are in the viewer */
+  private shownIndex = -1;
+  /** Counts navigations so a slow load cannot replace a newer image */
+  private request = 0;
+  private container: HTMLElement | null = null;
+  private filmstrip: HTMLElement | null = null;
+
+  private boundStep: (step: 1 | -1) => boolean;
+  private boundHandleFilmstripKeyDown: EventListener;
+  private boundHandleCrop: EventListener;
+
+  constructor(element: HTMLElement, getEngine: () => Engine | null) {
+    this.element = element;
+    this.getEngine = getEngine;
+    this.boundStep = this.step.bind(this);
+    this.boundHandleFilmstripKeyDown = this.handleFilmstripKeyDown.bind(this) as EventListener;
+    this.boundHandleCrop = this.handleCrop.bind(this) as EventListener;
+  }
+
+  /**
+   * Show the filmstrip in the viewer container, switch images with the
+   * viewer's image key actions and listen for crops
+   */
+  mount(container: HTMLElement): void {
+    this.unmount();
+    this.container = container;
+    this.getEngine()?.setImageNavigator(this.boundStep);
+    this.element.addEventListener('crop', this.boundHandleCrop);
+    this.renderFilmstrip();
+  }
+
+  /**
+   * Remove the filmstrip and listeners; the images and annotations are kept
+   */
+  unmount(): void {
+    this.element.removeEventListener('crop', this.boundHandleCrop);
+    if (this.container) {
+      this.getEngine()?.setImageNavigator(null);
+      this.container = null;
+    }
+    if (this.filmstrip) {
+      this.filmstrip.remove();
+      this.filmstrip = null;
+    }
+  }
+
+  /**
+   * Replace the images and show one of them. Annotations and crops of sources
+   * that stay in the gallery are kept unless the item brings its own annotations.
+   */
+  async setItems(items: Array<string | GalleryItem>, startIndex: number = 0): Promise<void> {
+    this.saveAnnotations();
+
+    const previousSets = this.annotationSets;
+    const previousCrops = this.croppedImages;
+    this.items = items.map(item => (typeof item === 'string' ? { src: item } : { ...item }));
+    this.annotationSets = new Map();
+    this.croppedImages = new Map();
+    this.items.forEach(item => {
+      const annotations = item.annotations ?? previousSets.get(item.src) ?? [];
+      this.annotationSets.set(item.src, annotations.map(cloneAnnotation));
+
+      // Annotations brought along are in the coordinates of the uncropped source
+      const cropped = previousCrops.get(item.src);
+      if (cropped && !item.annotations) {
+        this.croppedImages.set(item.src, cropped);
+      }
+    });
+
+    this.index = -1;
+    this.shownIndex = -1;
+    this.request++;
+    this.renderFilmstrip();
+
+    if (this.items.length > 0) {
+      await this.goTo(Math.min(Math.max(Math.round(startIndex), 0), this.items.length - 1));
+    }
+  }
+
+  /**
+   * Get the images of the gallery
+   */
+  getItems(): GalleryItem[] {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  /**
+   * Get the index of the selected image, or -1 without a gallery
+   */
+  getIndex(): number {
+    return this.index;
+  }
+
+  /**
+   * Show the image at an index with its annotations, or its cropped image if
+   * it was cropped
+   */
+  async goTo(index: number): Promise<void> {
+    const item = this.items[index];
+    if (!item) {
+      throw ErrorHandler.createError(
+        ErrorType.IMAGE_LOAD,
+        `Gallery has no image at index ${index}`,
+        { index, count: this.items.length }
+      );
+    }
+    if (index === this.index && index === this.shownIndex) return;
+
+    this.index = index;
+    this.updateSelection();
+    const request = ++this.request;
+
+    const engine = this.getEngine();
+    if (!engine) return;
+
+    const cropped = this.croppedImages.get(item.src);
+    if (cropped) {
+      engine.loadImageElement(cropped.element, cropped.type, cropped.fileName, cropped.metadata);
+    } else {
+      // The viewer keeps the annotations of the shown image until they are swapped below
+      try {
+        await engine.loadImage(item.src, item.type, item.fileName);
+      } catch (err) {
+        if (request === this.request) {
+          // Keep the selection on the image that is still shown
+          this.index = this.shownIndex;
+          this.updateSelection();
+          ErrorHandler.handleImageLoadError(err as Error, item.src, { index });
+        }
+        throw err;
+      }
+
+      // A newer navigation replaced this one while the image loaded
+      if (request !== this.request || this.getEngine() !== engine) return;
+    }
+
+    const previousIndex = this.shownIndex;
+    this.saveAnnotations();
+    engine.setAnnotations(this.annotationSets.get(item.src) ?? []);
+    this.shownIndex = index;
+
+    const detail: ImageChangeDetail = {
+      index,
+      previousIndex: previousIndex >= 0 ? previousIndex : null,
+      item: { ...item }
+    };
+    this.element.dispatchEvent(new CustomEvent('imagechange', { detail }));
+
+    this.preloadNeighbours(index);
+  }
+
+  /**
+   * Show the next image
+   * @returns false on the last image
+   */
+  async next(): Promise<boolean> {
+    if (this.index < 0 || this.index >= this.items.length - 1) return false;
+    await this.goTo(this.index + 1);
+    return true;
+  }
+
+  /**
+   * Show the previous image
+   * @returns false on the first image
+   */
+  async previous(): Promise<boolean> {
+    if (this.index <= 0) return false;
+    await this.goTo(this.index - 1);
+    return true;
+  }
+
+  /**
+   * Get the annotations of every image keyed by source, including unsaved
+   * changes to the shown one
+   */
+  getAnnotationSets(): Record<string, Annotation[]> {
+    this.saveAnnotations();
+    return Object.fromEntries(
+      Array.from(this.annotationSets, ([src, annotations]) => [src, annotations.map(cloneAnnotation)])
+    );
+  }
+
+  /**
+   * Keep the annotations in the viewer as the set of the shown image
+   */
+  saveAnnotations(): void {
+    const item = this.items[this.shownIndex];
+    const engine = this.getEngine();
+    if (item && engine) {
+      this.annotationSets.set(item.src, engine.getAnnotations().map(cloneAnnotation));
+    }
+  }
+
+  /**
+   * Put the set of the shown image back into the viewer, e.g. after it was recreated
+   */
+  restoreAnnotations(): void {
+    const item = this.items[this.shownIndex];
+    const engine = this.getEngine();
+    if (item && engine) {
+      engine.setAnnotations(this.annotationSets.get(item.src) ?? []);
+    }
+  }
+
+  /**
+   * Keep a crop of the shown image, whose annotations now belong to the crop
+   */
+  private handleCrop(event: CustomEvent<CropResult>): void {
+    const item = this.items[this.shownIndex];
+    if (item && event.detail?.imageData) {
+      this.croppedImages.set(item.src, event.detail.imageData);
+    }
+  }
+
+  /**
+   * Move by one image for the viewer's nextImage and previousImage key actions
+   */
+  private step(step: 1 | -1): boolean {
+    if (this.items.length === 0) return false;
+    this.navigate(Math.min(Math.max(this.index + step, 0), this.items.length - 1));
+    return true;
+  }
+
+  /**
+   * Navigate from the filmstrip or keyboard; load errors are already reported
+   */
+  private navigate(index: number): void {
+    if (!this.items[index] || index === this.index) return;
+    this.goTo(index).catch(() => undefined);
+  }
+
+  /**
+   * Fetch the images next to the shown one so switching to them is quick
+   */
+  private preloadNeighbours(index: number): void {
+    const current = this.items[index]?.src;
+    const sources = [this.items[index - 1]?.src, this.items[index + 1]?.src]
+      .filter((src): src is string => !!src && src !== current);
+
+    if (sources.length > 0) {
+      // Failures are only logged; the image is loaded again when shown
+      ImageLoader.preloadImages(Array.from(new Set(sources)));
+    }
+  }
+
+  private renderFilmstrip(): void {
+    if (this.filmstrip) {
+      this.filmstrip.remove();
+      this.filmstrip = null;
+    }
+    if (!this.container || this.items.length === 0) return;
+
+    const filmstrip = document.createElement('div');
+    filmstrip.setAttribute('role', 'listbox');
+    filmstrip.setAttribute('aria-label', 'Images');
+    filmstrip.setAttribute('aria-orientation', 'horizontal');
+    filmstrip.style.cssText = `
+      position: absolute;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      height: ${FILMSTRIP_HEIGHT}px;
+      display: flex;
+      gap: 4px;
+      padding: 4px;
+      box-sizing: border-box;
+      overflow-x: auto;
+      background: rgba(0, 0, 0, 0.6);
+      z-index: 11;
+    `;
+
+    this.items.forEach((item, index) => {
+      const thumbnail = document.createElement('button');
+      thumbnail.type = 'button';
+      thumbnail.setAttribute('role', 'option');
+      thumbnail.setAttribute('aria-label', item.fileName ?? `Image ${index + 1} of ${this.items.length}`);
+      thumbnail.style.cssText = `
+        flex: 0 0 auto;
+        width: ${Math.round((FILMSTRIP_HEIGHT - 8) * 4 / 3)}px;
+        height: 100%;
+        padding: 0;
+        border: 2px solid transparent;
+        background: #222;
+        cursor: pointer;
+      `;
+
+      const image = document.createElement('img');
+      image.src = item.thumbnail ?? item.src;
+      image.alt = '';
+      image.draggable = false;
+      image.setAttribute('loading', 'lazy');
+      image.style.cssText = 'display: block; width: 100%; height: 100%; object-fit: cover;';
+
+      thumbnail.appendChild(image);
+      thumbnail.addEventListener('click', () => this.navigate(index));
+      filmstrip.appendChild(thumbnail);
+    });
+
+    filmstrip.addEventListener('keydown', this.boundHandleFilmstripKeyDown);
+    this.container.appendChild(filmstrip);
+    this.filmstrip = filmstrip;
+    this.updateSelection();
+  }
+
+  /**
+   * Highlight the selected thumbnail and make it the one reached with Tab
+   */
+  private updateSelection(): void {
+    if (!this.filmstrip) return;
+
+    const focusable = Math.max(this.index, 0);
+    Array.from(this.filmstrip.children).forEach((child, index) => {
+      const thumbnail = child as HTMLElement;
+      const selected = index === this.index;
+      thumbnail.setAttribute('aria-selected', String(selected));
+      thumbnail.tabIndex = index === focusable ? 0 : -1;
+      thumbnail.style.borderColor = selected ? '#ff4757' : 'transparent';
+      if (selected && thumbnail.scrollIntoView) {
+        thumbnail.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+      }
+    });
+  }
+
+  /**
+   * Move through the thumbnails with the arrow keys, Home and End
+   */
+  private handleFilmstripKeyDown(event: KeyboardEvent): void {
+    const last = this.items.length - 1;
+    const targets: Record<string, number> = {
+      ArrowLeft: Math.max(this.index - 1, 0),
+      ArrowRight: Math.min(this.index + 1, last),
+      Home: 0,
+      End: last
+    };
+    const index = targets[event.key];
+    if (index === undefined) return;
+
+    // The viewer would pan with the same keys
+    event.preventDefault();
+    event.stopPropagation();
+    this.navigate(index);
+    (this.filmstrip?.children[index] as HTMLElement | undefined)?.focus();
+  }
+}
@@ -155,7 +155,11 @@ export class OverlayManager {
           arrow: true,
           text: true,
           circle: true,
-          line: true
+          line: true,
+          freehand: true,
+          highlighter: true,
+          polygon: true,
+          polyline: true
         },
         comparison: true
       }
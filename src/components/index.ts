@@ -2,4 +2,5 @@
 export { AttributeParser } from './AttributeParser';
 export { CanvasLensCore } from './CanvasLensCore';
 export { EventManager } from './EventManager';
+export { GalleryManager } from './GalleryManager';
 export { OverlayManager } from './OverlayManager';
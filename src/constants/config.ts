@@ -4,5 +4,8 @@ export const DEFAULT_CONFIG = {
   BACKGROUND_COLOR: '#f0f0f0',
   MAX_ZOOM: 10,
   MIN_ZOOM: 0.1,
+  ANIMATION_DURATION: 250,
+  ANIMATION_EASING: 'ease-out',
+  PAN_CONSTRAINT: 'none',
   DEFAULT_ZOOM_FACTOR: 1.2
 } as const;
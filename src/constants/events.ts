@@ -1,9 +1,14 @@
 export const EVENTS = {
   IMAGE_LOAD: 'imageload',
+  IMAGE_CHANGE: 'imagechange',
   ZOOM_CHANGE: 'zoomchange',
   PAN_CHANGE: 'panchange',
+  ROTATION_CHANGE: 'rotationchange',
+  CROP: 'crop',
   ANNOTATION_ADD: 'annotationadd',
   ANNOTATION_REMOVE: 'annotationremove',
+  ANNOTATION_UPDATE: 'annotationupdate',
   TOOL_CHANGE: 'toolchange',
-  COMPARISON_CHANGE: 'comparisonchange'
+  COMPARISON_CHANGE: 'comparisonchange',
+  HISTORY_CHANGE: 'historychange'
 } as const;
@@ -2,4 +2,4 @@ export { DEFAULT_CONFIG } from './config';
 export { TOOL_TYPES } from './tools';
 export { ANNOTATION_STYLES } from './styles';
 export { EVENTS } from './events';
-export { KEYBOARD_SHORTCUTS } from './shortcuts';
+export { DEFAULT_KEYMAP, KEYBOARD_SHORTCUTS } from './shortcuts';
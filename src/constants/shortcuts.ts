@@ -1,10 +1,66 @@
+import type { KeyAction } from '../types';
+
+/**
+ * Default key bindings, active while the component has focus. Mod is Cmd on
+ * macOS and Ctrl elsewhere
+ */
+export const DEFAULT_KEYMAP: Readonly<Record<string, KeyAction>> = {
+  'Alt+r': 'tool:rect',
+  'Alt+a': 'tool:arrow',
+  'Alt+t': 'tool:text',
+  'Alt+c': 'tool:circle',
+  'Alt+l': 'tool:line',
+  'Alt+f': 'tool:freehand',
+  'Alt+h': 'tool:highlighter',
+  'Alt+p': 'tool:polygon',
+  'Alt+o': 'tool:polyline',
+  'Escape': 'cancel',
+  'Delete': 'deleteSelection',
+  'Backspace': 'deleteSelection',
+  'Mod+z': 'undo',
+  'Mod+Shift+z': 'redo',
+  'Mod+y': 'redo',
+  '+': 'zoomIn',
+  '=': 'zoomIn',
+  '-': 'zoomOut',
+  '0': 'resetView',
+  'Mod++': 'zoomIn',
+  'Mod+=': 'zoomIn',
+  'Mod+-': 'zoomOut',
+  'Mod+0': 'resetView',
+  'ArrowLeft': 'moveLeft',
+  'ArrowRight': 'moveRight',
+  'ArrowUp': 'moveUp',
+  'ArrowDown': 'moveDown',
+  'Shift+ArrowLeft': 'moveLeftFast',
+  'Shift+ArrowRight': 'moveRightFast',
+  'Shift+ArrowUp': 'moveUpFast',
+  'Shift+ArrowDown': 'moveDownFast',
+  'Tab': 'selectNext',
+  'Shift+Tab': 'selectPrevious',
+  'PageDown': 'nextImage',
+  'PageUp': 'previousImage',
+  'Alt+ArrowRight': 'nextImage',
+  'Alt+ArrowLeft': 'previousImage'
+};
+
+/** Keys bound to an action in the default keymap, in keymap order */
+const defaultKeysFor = (action: KeyAction): string[] =>
+  Object.keys(DEFAULT_KEYMAP).filter(key => DEFAULT_KEYMAP[key] === action);
+
+const [deleteKey = '', backspaceKey = ''] = defaultKeysFor('deleteSelection');
+
+/**
+ * Default keys of the annotation tools and editing actions
+ * @deprecated Use DEFAULT_KEYMAP, which maps every default key to its action
+ */
 export const KEYBOARD_SHORTCUTS = {
-  RECT_TOOL: 'Alt+r',
-  ARROW_TOOL: 'Alt+a',
-  TEXT_TOOL: 'Alt+t',
-  CIRCLE_TOOL: 'Alt+c',
-  LINE_TOOL: 'Alt+l',
-  ESCAPE: 'Escape',
-  DELETE: 'Delete',
-  BACKSPACE: 'Backspace'
+  RECT_TOOL: defaultKeysFor('tool:rect')[0] ?? '',
+  ARROW_TOOL: defaultKeysFor('tool:arrow')[0] ?? '',
+  TEXT_TOOL: defaultKeysFor('tool:text')[0] ?? '',
+  CIRCLE_TOOL: defaultKeysFor('tool:circle')[0] ?? '',
+  LINE_TOOL: defaultKeysFor('tool:line')[0] ?? '',
+  ESCAPE: defaultKeysFor('cancel')[0] ?? '',
+  DELETE: deleteKey,
+  BACKSPACE: backspaceKey
 } as const;
@@ -3,5 +3,9 @@ export const TOOL_TYPES = {
   ARROW: 'arrow',
   TEXT: 'text',
   CIRCLE: 'circle',
-  LINE: 'line'
+  LINE: 'line',
+  FREEHAND: 'freehand',
+  HIGHLIGHTER: 'highlighter',
+  POLYGON: 'polygon',
+  POLYLINE: 'polyline'
 } as const;
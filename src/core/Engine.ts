@@ -1,17 +1,37 @@
 import { DEFAULT_CONFIG } from '../constants';
-import { AnnotationToolsConfig, ImageViewer } from '../modules';
+import { AnnotationManager, AnnotationToolsConfig, ImageViewer } from '../modules';
 import type {
   Annotation,
   AnnotationManagerOptions,
+  AnnotationSerializer,
   CanvasLensOptions,
   ComparisonOptions,
+  CropAspectRatio,
+  CropOptions,
+  CropResult,
   CustomImageData,
   EventHandlers,
+  FlipAxis,
+  ImageAdjustments,
+  ImageExportOptions,
+  ImageMetadata,
+  ImageNavigator,
+  Point,
+  Rectangle,
+  RegisterShortcutOptions,
+  ShortcutAction,
   Size,
+  SvgExportOptions,
+  TileSource,
   ToolConfig,
-  ZoomPanOptions
+  ViewOrientation,
+  ZoomPanOptions,
+  ZoomToRectOptions
 } from '../types';
+import { ErrorType } from '../types';
+import { ErrorHandler } from '../utils/core/error-handler';
 import { warn } from '../utils/core/logger';
+import { getViewOrientation, imageToWorld } from '../utils/geometry/coordinate';
 
 export class Engine {
   private imageViewer: ImageViewer;
@@ -43,7 +63,10 @@ export class Engine {
         enableZoom: !!tools.zoom,
         enablePan: !!tools.pan,
         maxZoom: this.options.maxZoom ?? 10,
-        minZoom: this.options.minZoom ?? 0.1
+        minZoom: this.options.minZoom ?? 0.1,
+        ...(this.options.animationDuration !== undefined && { animationDuration: this.options.animationDuration }),
+        ...(this.options.animationEasing && { animationEasing: this.options.animationEasing }),
+        ...(this.options.panConstraint && { panConstraint: this.options.panConstraint })
       } : undefined;
 
     const annotationOptions: AnnotationManagerOptions | undefined =
@@ -64,20 +87,33 @@ export class Engine {
       zoomPanOptions,
       annotationOptions,
       comparisonOptions,
-      this.options.backgroundColor
+      this.options.backgroundColor,
+      AnnotationToolsConfig.hasNavigator(tools) ? {} : undefined
     );
+
+    if (this.options.shortcuts) {
+      this.imageViewer.getKeymap().update(this.options.shortcuts);
+    }
+
+    if (this.options.tiling) {
+      this.imageViewer.getTiledImageLayer().updateOptions(this.options.tiling);
+    }
   }
 
   loadImage(src: string, imageType?: string, fileName?: string): Promise<void> {
     return this.imageViewer.loadImage(src, imageType, fileName);
   }
 
-  loadImageElement(image: HTMLImageElement, imageType?: string, fileName?: string): void {
-    this.imageViewer.loadImageElement(image, imageType, fileName);
+  loadImageElement(image: HTMLImageElement, imageType?: string, fileName?: string, metadata?: ImageMetadata, tileSource?: TileSource): void {
+    this.imageViewer.loadImageElement(image, imageType, fileName, metadata, tileSource);
   }
 
-  loadImageElementOverlay(image: HTMLImageElement, imageType?: string, fileName?: string): void {
-    this.imageViewer.loadImageElementOverlay(image, imageType, fileName);
+  loadTileSource(source: TileSource, fileName?: string): Promise<void> {
+    return this.imageViewer.loadTileSource(source, fileName);
+  }
+
+  loadImageElementOverlay(image: HTMLImageElement, imageType?: string, fileName?: string, metadata?: ImageMetadata): void {
+    this.imageViewer.loadImageElementOverlay(image, imageType, fileName, metadata);
   }
 
   setZoom(zoom: number): void {
@@ -125,6 +161,101 @@ export class Engine {
     this.imageViewer.resetView();
   }
 
+  /**
+   * Zoom and pan to frame a rectangle given in image pixels
+   */
+  zoomToRect(rect: Rectangle, options?: ZoomToRectOptions): void {
+    const handler = this.imageViewer.getZoomPanHandler();
+    const imageData = this.imageViewer.getImageData();
+    if (handler && imageData) {
+      const topLeft = imageToWorld({ x: rect.x, y: rect.y }, imageData);
+      const bottomRight = imageToWorld({ x: rect.x + rect.width, y: rect.y + rect.height }, imageData);
+      handler.zoomToRect({
+        x: topLeft.x,
+        y: topLeft.y,
+        width: bottomRight.x - topLeft.x,
+        height: bottomRight.y - topLeft.y
+      }, options);
+    }
+  }
+
+  /**
+   * Zoom and pan to frame an annotation
+   */
+  zoomToAnnotation(id: string, options?: ZoomToRectOptions): boolean {
+    const handler = this.imageViewer.getZoomPanHandler();
+    return handler ? handler.zoomToAnnotation(id, options) : false;
+  }
+
+  /**
+   * Pan so a point given in image pixels is at the center of the view
+   */
+  centerOn(point: Point, animate?: boolean): void {
+    const handler = this.imageViewer.getZoomPanHandler();
+    const imageData = this.imageViewer.getImageData();
+    if (handler && imageData) {
+      handler.centerOn(imageToWorld(point, imageData), animate);
+    }
+  }
+
+  rotate(degrees: number): void {
+    const handler = this.imageViewer.getZoomPanHandler();
+    if (handler) {
+      handler.rotate(degrees);
+    }
+  }
+
+  flip(axis: FlipAxis): void {
+    const handler = this.imageViewer.getZoomPanHandler();
+    if (handler) {
+      handler.flip(axis);
+    }
+  }
+
+  getOrientation(): ViewOrientation {
+    return getViewOrientation(this.imageViewer.getCanvas().getViewState());
+  }
+
+  setAdjustments(adjustments: Partial<ImageAdjustments>): void {
+    this.imageViewer.setAdjustments(adjustments);
+  }
+
+  resetAdjustments(): void {
+    this.imageViewer.resetAdjustments();
+  }
+
+  getAdjustments(): ImageAdjustments {
+    return this.imageViewer.getImageAdjuster().getAdjustments();
+  }
+
+  startCrop(options?: CropOptions): void {
+    this.imageViewer.startCrop(options);
+  }
+
+  setCropAspectRatio(aspectRatio: CropAspectRatio): void {
+    this.imageViewer.getCropManager().setAspectRatio(aspectRatio);
+  }
+
+  getCropRect(): Rectangle | null {
+    return this.imageViewer.getCropManager().getRect();
+  }
+
+  setCropRect(rect: Rectangle): void {
+    this.imageViewer.getCropManager().setRect(rect);
+  }
+
+  applyCrop(): Promise<CropResult> {
+    return this.imageViewer.getCropManager().apply();
+  }
+
+  cancelCrop(): void {
+    this.imageViewer.getCropManager().cancel();
+  }
+
+  isCropping(): boolean {
+    return this.imageViewer.getCropManager().isCropping();
+  }
+
   addAnnotation(annotation: Annotation): void {
     const manager = this.imageViewer.getAnnotationManager();
     if (manager) {
@@ -142,8 +273,7 @@ export class Engine {
   updateAnnotation(id: string, annotation: Annotation): void {
     const manager = this.imageViewer.getAnnotationManager();
     if (manager) {
-      manager.removeAnnotation(id);
-      manager.addAnnotation(annotation);
+      manager.updateAnnotation(id, annotation);
     }
   }
 
@@ -152,6 +282,38 @@ export class Engine {
     return manager ? manager.getAllAnnotations() : [];
   }
 
+  /**
+   * Get all selected annotations
+   */
+  getSelectedAnnotations(): Annotation[] {
+    const manager = this.imageViewer.getAnnotationManager();
+    return manager ? manager.getSelectedAnnotations() : [];
+  }
+
+  /**
+   * Replace the selection with the given annotation IDs
+   */
+  setSelection(ids: string[]): void {
+    const manager = this.imageViewer.getAnnotationManager();
+    if (manager) {
+      manager.setSelection(ids);
+    }
+  }
+
+  /**
+   * Export image with annotations at natural resolution as a Blob or data URL
+   */
+  exportImage(options: ImageExportOptions = {}): Promise<Blob | string> {
+    return this.imageViewer.exportImage(options);
+  }
+
+  /**
+   * Export annotations as SVG markup sized to the image's natural resolution
+   */
+  exportAnnotationsAsSVG(options: SvgExportOptions = {}): string {
+    return this.imageViewer.exportAnnotationsAsSVG(options);
+  }
+
   clearAnnotations(): void {
     const manager = this.imageViewer.getAnnotationManager();
     if (manager) {
@@ -159,6 +321,16 @@ export class Engine {
     }
   }
 
+  /**
+   * Replace all annotations without recording history, e.g. when another image is shown
+   */
+  setAnnotations(annotations: Annotation[]): void {
+    const manager = this.imageViewer.getAnnotationManager();
+    if (manager) {
+      manager.setAnnotations(annotations);
+    }
+  }
+
   getImageData(): CustomImageData | null {
     return this.imageViewer.getImageData();
   }
@@ -181,6 +353,12 @@ export class Engine {
     if (annotationManager) {
       annotationManager.destroy();
     }
+    this.imageViewer.setNavigatorEnabled(false);
+    this.imageViewer.getKeyboardHandler().destroy();
+    this.imageViewer.getAccessibilityLayer().destroy();
+    this.imageViewer.getImageAdjuster().destroy();
+    this.imageViewer.getCropManager().destroy();
+    this.imageViewer.getTiledImageLayer().destroy();
   }
 
   updateOptions(options: Partial<CanvasLensOptions>): void {
@@ -192,6 +370,24 @@ export class Engine {
       });
     }
 
+    if (options.shortcuts) {
+      this.imageViewer.getKeymap().update(options.shortcuts);
+    }
+
+    if (options.tiling) {
+      this.imageViewer.getTiledImageLayer().updateOptions(options.tiling);
+    }
+
+    const zoomPanOptions: Partial<ZoomPanOptions> = {
+      ...(options.animationDuration !== undefined && { animationDuration: options.animationDuration }),
+      ...(options.animationEasing && { animationEasing: options.animationEasing }),
+      ...(options.panConstraint && { panConstraint: options.panConstraint })
+    };
+    const zoomPanHandler = this.getZoomPanHandler();
+    if (zoomPanHandler && Object.keys(zoomPanOptions).length > 0) {
+      zoomPanHandler.updateOptions(zoomPanOptions);
+    }
+
     if ('eventHandlers' in options && options.eventHandlers) {
       this.setEventHandlers(options.eventHandlers as EventHandlers);
     }
@@ -206,22 +402,127 @@ export class Engine {
     this.imageViewer.setEventHandlers(this.eventHandlers);
   }
 
+  /**
+   * Bind a built-in action or a callback to a key combination such as
+   * 'Mod+Shift+Z'. Throws if the combination is already bound, unless
+   * `replace` is set
+   */
+  registerShortcut(combo: string, action: ShortcutAction, options?: RegisterShortcutOptions): void {
+    this.imageViewer.getKeymap().register(combo, action, options);
+  }
+
+  /**
+   * Remove the binding of a key combination
+   */
+  unregisterShortcut(combo: string): boolean {
+    return this.imageViewer.getKeymap().unregister(combo);
+  }
+
+  /**
+   * Get the current shortcuts keyed by normalized combination
+   */
+  getShortcuts(): Record<string, ShortcutAction> {
+    return this.imageViewer.getKeymap().getBindings();
+  }
+
+  /**
+   * Set what the nextImage and previousImage key actions switch between
+   */
+  setImageNavigator(navigator: ImageNavigator | null): void {
+    this.imageViewer.getKeyboardHandler().setImageNavigator(navigator);
+  }
+
+  /**
+   * Export annotations as JSON in natural image coordinates
+   */
   exportAnnotations(): string {
-    return JSON.stringify(this.getAnnotations());
+    const manager = this.imageViewer.getAnnotationManager();
+    return manager
+      ? manager.exportAnnotations()
+      : JSON.stringify({ version: AnnotationManager.FORMAT_VERSION, coordinateSpace: 'image', annotations: [] });
   }
 
+  /**
+   * Import annotations exported by `exportAnnotations()` (current or legacy format)
+   */
   importAnnotations(annotationsJson: string): void {
-    try {
-      const annotations = JSON.parse(annotationsJson);
-      this.clearAnnotations();
-      annotations.forEach((annotation: Annotation) => {
-        this.addAnnotation(annotation);
-      });
-    } catch (error) {
-      warn('Failed to import annotations:', error);
+    const manager = this.imageViewer.getAnnotationManager();
+    if (manager && !manager.importAnnotations(annotationsJson)) {
+      warn('Failed to import annotations');
     }
   }
 
+  /**
+   * Export annotations in an external format (e.g. 'coco')
+   */
+  exportAnnotationsAs(format: string): string {
+    return this.requireAnnotationManager().exportAnnotationsAs(format);
+  }
+
+  /**
+   * Replace annotations with data in an external format (e.g. 'coco')
+   */
+  importAnnotationsFrom(format: string, data: string): void {
+    this.requireAnnotationManager().importAnnotationsFrom(format, data);
+  }
+
+  /**
+   * Add or replace a serializer for an external format
+   */
+  registerSerializer(serializer: AnnotationSerializer): void {
+    this.requireAnnotationManager().registerSerializer(serializer);
+  }
+
+  /**
+   * Get the serializer used for an external format
+   */
+  getSerializer(format: string): AnnotationSerializer {
+    return this.requireAnnotationManager().getSerializer(format);
+  }
+
+  private requireAnnotationManager(): AnnotationManager {
+    const manager = this.imageViewer.getAnnotationManager();
+    if (!manager) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        'Annotations are not enabled'
+      );
+    }
+    return manager;
+  }
+
+  /**
+   * Undo the last annotation change
+   */
+  undo(): boolean {
+    const manager = this.imageViewer.getAnnotationManager();
+    return manager ? manager.undo() : false;
+  }
+
+  /**
+   * Redo the last undone annotation change
+   */
+  redo(): boolean {
+    const manager = this.imageViewer.getAnnotationManager();
+    return manager ? manager.redo() : false;
+  }
+
+  /**
+   * Check if there is an annotation change to undo
+   */
+  canUndo(): boolean {
+    const manager = this.imageViewer.getAnnotationManager();
+    return manager ? manager.canUndo() : false;
+  }
+
+  /**
+   * Check if there is an annotation change to redo
+   */
+  canRedo(): boolean {
+    const manager = this.imageViewer.getAnnotationManager();
+    return manager ? manager.canRedo() : false;
+  }
+
   isImageLoaded(): boolean {
     return this.imageViewer.isImageLoaded();
   }
@@ -281,6 +582,10 @@ export class Engine {
       annotationManager.updateToolConfig(toolConfig.annotation);
     }
 
+    if (toolConfig.navigator !== undefined) {
+      this.imageViewer.setNavigatorEnabled(toolConfig.navigator);
+    }
+
     if (toolConfig.comparison !== undefined) {
       // Comparison tool config handling - to be implemented
     }
@@ -1,5 +1,6 @@
 import type { AnnotationManager, ImageViewer } from '../modules';
 import type { Point, Rectangle, Size, ViewState } from '../types';
+import { getViewOrientation } from '../utils/geometry/coordinate';
 
 export class Renderer {
   private canvas: HTMLCanvasElement;
@@ -26,7 +27,10 @@ export class Renderer {
     this.viewState = {
       scale: 1,
       offsetX: 0,
-      offsetY: 0
+      offsetY: 0,
+      rotation: 0,
+      flipX: false,
+      flipY: false
     };
 
     this.resize(size);
@@ -85,12 +89,14 @@ export class Renderer {
   }
 
   /**
-   * Apply view transformations (zoom and pan)
+   * Apply view transformations (zoom, pan, rotation and mirroring)
    */
   applyViewTransform(): void {
+    const { scale, offsetX, offsetY, rotation = 0, flipX, flipY } = this.viewState;
     this.ctx.save();
-    this.ctx.translate(this.viewState.offsetX, this.viewState.offsetY);
-    this.ctx.scale(this.viewState.scale, this.viewState.scale);
+    this.ctx.translate(offsetX, offsetY);
+    this.ctx.rotate(rotation * Math.PI / 180);
+    this.ctx.scale(flipX ? -scale : scale, flipY ? -scale : scale);
   }
 
   /**
@@ -141,8 +147,13 @@ export class Renderer {
     const scaleChanged = Math.abs(oldState.scale - newState.scale) > 0.01;
     const offsetChanged = Math.abs(oldState.offsetX - newState.offsetX) > 1 ||
       Math.abs(oldState.offsetY - newState.offsetY) > 1;
+    const oldOrientation = getViewOrientation(oldState);
+    const newOrientation = getViewOrientation(newState);
+    const orientationChanged = oldOrientation.rotation !== newOrientation.rotation ||
+      oldOrientation.flipX !== newOrientation.flipX ||
+      oldOrientation.flipY !== newOrientation.flipY;
 
-    if (scaleChanged || offsetChanged) {
+    if (scaleChanged || offsetChanged || orientationChanged) {
       this.markEntireCanvasDirty();
     }
   }
@@ -219,6 +230,17 @@ export class Renderer {
     };
   }
 
+  /**
+   * Keep receiving events of a pointer while it is outside the canvas (until it is released)
+   */
+  capturePointer(event: PointerEvent): void {
+    try {
+      this.canvas.setPointerCapture?.(event.pointerId);
+    } catch {
+      // Synthetic events have no active pointer to capture
+    }
+  }
+
   /**
    * Add event listener to canvas
    */
@@ -4,15 +4,45 @@ export { CanvasLens } from './CanvasLens';
 // Core types for TypeScript support
 export type {
   Annotation,
+  AnnotationDocument,
+  AnnotationSerializer,
+  AnnotationSerializerContext,
   AnnotationStyle,
   CanvasLensOptions,
+  CropAspectRatio,
+  CropOptions,
+  CropResult,
   CustomImageData,
+  DeepZoomTileSourceOptions,
   EventHandlers,
+  FlipAxis,
+  GalleryItem,
+  IiifTileSourceOptions,
+  ImageAdjustments,
+  ImageChangeDetail,
+  ImageExportOptions,
+  ImageMetadata,
+  ImageNavigator,
+  KeyAction,
+  KeymapBindings,
+  SvgExportOptions,
+  PanConstraint,
   Point,
+  Rectangle,
+  RegisterShortcutOptions,
+  ShortcutAction,
+  ShortcutHandler,
   Size,
+  TileCoordinate,
+  TileImage,
+  TileSource,
+  TilingOptions,
   Tool,
   ToolConfig,
+  ViewOrientation,
   ViewState,
+  ZoomPanEasing,
+  ZoomToRectOptions,
 } from './types';
 
 // Error types (enum, not type)
@@ -22,11 +52,27 @@ export type { CanvasLensError } from './types';
 // Core engine and rendering
 export { Engine, Renderer } from './core';
 
+// Annotation format serializers
+export {
+  CocoSerializer,
+  VocSerializer,
+  WebAnnotationSerializer,
+  YoloSerializer,
+} from './modules/annotation/serializers';
+
+// Tile sources for gigapixel images
+export {
+  DeepZoomTileSource,
+  IiifTileSource,
+  PyramidTileSource,
+} from './modules/tiles';
+
 // Components
 export {
   AttributeParser,
   CanvasLensCore,
   EventManager,
+  GalleryManager,
   OverlayManager,
 } from './components';
 
@@ -62,6 +108,7 @@ export { ViewportCulling } from './utils/performance/viewport-culling';
 
 // Utilities - Image handling
 export { ImageLoader } from './utils/image/loader';
+export { parseExif, readImageMetadata } from './utils/image/exif';
 export {
   calculateFitDimensions,
   calculateFitDimensionsOverlay,
@@ -69,6 +116,7 @@ export {
   getImageData,
   isPointInRect,
   loadImage,
+  orientImage,
 } from './utils/image/utils';
 
 // Utilities - Geometry
@@ -76,14 +124,23 @@ export {
   centerPoint,
   clamp,
   distance,
+  imageToWorld,
+  screenRectToWorld,
   screenToWorld,
+  worldRectToScreen,
+  worldToImage,
   worldToScreen,
 } from './utils/geometry/coordinate';
+export {
+  distanceToSegment,
+  simplifyPath,
+} from './utils/geometry/path';
 
 // Constants
 export {
   ANNOTATION_STYLES,
   DEFAULT_CONFIG,
+  DEFAULT_KEYMAP,
   EVENTS,
   KEYBOARD_SHORTCUTS,
   TOOL_TYPES,
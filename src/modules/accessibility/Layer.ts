@@ -0,0 +1,247 @@
+import type { Renderer } from '../../core/Renderer';
+import type { Annotation } from '../../types';
+
+/** Wait for the zoom level to settle before announcing it, in ms */
+const ZOOM_ANNOUNCE_DELAY = 300;
+
+/** Hidden from sight but still read by screen readers */
+const VISUALLY_HIDDEN = `
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  padding: 0;
+  margin: -1px;
+  overflow: hidden;
+  clip: rect(0, 0, 0, 0);
+  white-space: nowrap;
+  border: 0;
+`;
+
+const TYPE_LABELS: Record<string, string> = {
+  rect: 'Rectangle',
+  arrow: 'Arrow',
+  text: 'Text',
+  circle: 'Circle',
+  line: 'Line',
+  freehand: 'Freehand',
+  highlighter: 'Highlighter',
+  polygon: 'Polygon',
+  polyline: 'Polyline'
+};
+
+/**
+ * Spoken description of an annotation: type, text, position and size in
+ * image pixels
+ */
+export function describeAnnotation(annotation: Annotation): string {
+  const type = annotation.type === 'freehand' && annotation.data?.highlighter ? 'highlighter' : annotation.type;
+  const text = typeof annotation.data?.text === 'string' && annotation.data.text ? ` "${annotation.data.text}"` : '';
+
+  const xs = annotation.points.map(point => point.x);
+  const ys = annotation.points.map(point => point.y);
+  if (xs.length === 0) {
+    return `${TYPE_LABELS[type] ?? type}${text}`;
+  }
+
+  const x = Math.round(Math.min(...xs));
+  const y = Math.round(Math.min(...ys));
+  const width = Math.round(Math.max(...xs)) - x;
+  const height = Math.round(Math.max(...ys)) - y;
+  const size = width > 0 || height > 0 ? `, ${width} by ${height} pixels` : '';
+
+  return `${TYPE_LABELS[type] ?? type}${text} at x ${x}, y ${y}${size}`;
+}
+
+/**
+ * Makes the canvas content available to assistive technology: a visually
+ * hidden list mirroring the annotations, whose items select them, and a live
+ * region announcing zoom, tool and selection changes.
+ */
+export class AccessibilityLayer {
+  private canvas: Renderer;
+  private element: HTMLElement;
+  private list: HTMLUListElement;
+  private liveRegion: HTMLElement;
+  /** Rendered list items, to skip rebuilding the list when nothing changed */
+  private renderedItems = '';
+  private announcedZoom: number | null = null;
+  private zoomTimeout: number | null = null;
+  private activeToolType: string | null = null;
+
+  private boundUpdate: EventListener;
+  private boundHandleSelect: EventListener;
+  private boundHandleToolChange: EventListener;
+  private boundHandleClick: EventListener;
+
+  constructor(container: HTMLElement, canvas: Renderer) {
+    this.canvas = canvas;
+
+    this.element = document.createElement('div');
+    this.element.style.cssText = VISUALLY_HIDDEN;
+
+    this.list = document.createElement('ul');
+    this.list.setAttribute('aria-label', 'Annotations');
+
+    this.liveRegion = document.createElement('div');
+    this.liveRegion.setAttribute('role', 'status');
+    this.liveRegion.setAttribute('aria-live', 'polite');
+
+    this.element.appendChild(this.list);
+    this.element.appendChild(this.liveRegion);
+    container.appendChild(this.element);
+
+    const canvasElement = canvas.getElement();
+    canvasElement.setAttribute('aria-label', 'Image viewer');
+
+    this.boundUpdate = this.update.bind(this);
+    this.boundHandleSelect = this.handleSelect.bind(this);
+    this.boundHandleToolChange = this.handleToolChange.bind(this) as EventListener;
+    this.boundHandleClick = this.handleClick.bind(this) as EventListener;
+
+    canvasElement.addEventListener('viewStateChange', this.boundUpdate);
+    canvasElement.addEventListener('annotationselect', this.boundHandleSelect);
+    canvasElement.addEventListener('toolchange', this.boundHandleToolChange);
+    this.list.addEventListener('click', this.boundHandleClick);
+  }
+
+  /**
+   * Get the list of annotations
+   */
+  getList(): HTMLUListElement {
+    return this.list;
+  }
+
+  /**
+   * Get the aria-live region
+   */
+  getLiveRegion(): HTMLElement {
+    return this.liveRegion;
+  }
+
+  /**
+   * Sync the list with the annotations and schedule a zoom announcement when
+   * the zoom level changed
+   */
+  update(): void {
+    this.updateList();
+    this.scheduleZoomAnnouncement();
+  }
+
+  /**
+   * Read a message out through the live region
+   */
+  announce(message: string): void {
+    this.liveRegion.textContent = message;
+  }
+
+  /**
+   * Remove the elements and event listeners
+   */
+  destroy(): void {
+    const canvasElement = this.canvas.getElement();
+    canvasElement.removeEventListener('viewStateChange', this.boundUpdate);
+    canvasElement.removeEventListener('annotationselect', this.boundHandleSelect);
+    canvasElement.removeEventListener('toolchange', this.boundHandleToolChange);
+    canvasElement.removeAttribute('aria-label');
+    this.list.removeEventListener('click', this.boundHandleClick);
+    this.element.remove();
+
+    if (this.zoomTimeout !== null) {
+      clearTimeout(this.zoomTimeout);
+      this.zoomTimeout = null;
+    }
+  }
+
+  private updateList(): void {
+    const annotationManager = this.canvas.annotationManager;
+    const annotations = annotationManager ? annotationManager.getAllAnnotations() : [];
+    const items = annotations.map(annotation => ({
+      id: annotation.id,
+      label: describeAnnotation(annotation),
+      selected: annotationManager?.isAnnotationSelected(annotation.id) ?? false
+    }));
+
+    const rendered = JSON.stringify(items);
+    if (rendered === this.renderedItems) return;
+    this.renderedItems = rendered;
+
+    this.list.replaceChildren(...items.map(item => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      // Reached through the screen reader's reading mode, not as extra invisible tab stops
+      button.tabIndex = -1;
+      button.dataset['annotationId'] = item.id;
+      button.setAttribute('aria-pressed', String(item.selected));
+      button.textContent = item.label;
+
+      const listItem = document.createElement('li');
+      listItem.appendChild(button);
+      return listItem;
+    }));
+  }
+
+  private scheduleZoomAnnouncement(): void {
+    if (!this.canvas.imageViewer?.isImageLoaded()) return;
+
+    const zoom = Math.round(this.canvas.getViewState().scale * 100);
+    if (this.announcedZoom === null) {
+      // The initial fit is not a change worth announcing
+      this.announcedZoom = zoom;
+      return;
+    }
+    if (zoom === this.announcedZoom) return;
+
+    if (this.zoomTimeout !== null) {
+      clearTimeout(this.zoomTimeout);
+    }
+    this.zoomTimeout = window.setTimeout(() => {
+      this.zoomTimeout = null;
+      const settled = Math.round(this.canvas.getViewState().scale * 100);
+      if (settled !== this.announcedZoom) {
+        this.announcedZoom = settled;
+        this.announce(`Zoom ${settled}%`);
+      }
+    }, ZOOM_ANNOUNCE_DELAY);
+  }
+
+  private handleSelect(): void {
+    this.updateList();
+
+    const annotationManager = this.canvas.annotationManager;
+    if (!annotationManager) return;
+
+    const selected = annotationManager.getSelectedAnnotations();
+    const [first] = selected;
+    if (selected.length === 1 && first) {
+      this.announce(`Selected ${describeAnnotation(first)}`);
+    } else if (selected.length > 1) {
+      this.announce(`${selected.length} annotations selected`);
+    }
+  }
+
+  private handleToolChange(event: CustomEvent<string | null>): void {
+    const toolType = event.detail;
+    if (toolType) {
+      this.announce(`${TYPE_LABELS[toolType] ?? toolType} tool on`);
+    } else if (this.activeToolType) {
+      this.announce(`${TYPE_LABELS[this.activeToolType] ?? this.activeToolType} tool off`);
+    }
+    this.activeToolType = toolType;
+  }
+
+  /**
+   * Select the annotation of an activated list item
+   */
+  private handleClick(event: MouseEvent): void {
+    const button = (event.target as HTMLElement).closest('button');
+    const id = button?.dataset['annotationId'];
+    const annotationManager = this.canvas.annotationManager;
+    if (!id || !annotationManager) return;
+
+    const annotation = annotationManager.getAllAnnotations().find(candidate => candidate.id === id);
+    if (annotation) {
+      annotationManager.selectAnnotation(annotation);
+      this.canvas.getElement().dispatchEvent(new CustomEvent('viewStateChange'));
+    }
+  }
+}
@@ -0,0 +1,2 @@
+// Accessibility module exports
+export { AccessibilityLayer, describeAnnotation } from './Layer';
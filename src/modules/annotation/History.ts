@@ -0,0 +1,116 @@
+import type { Annotation, AnnotationHistoryEntry, AnnotationHistoryState } from '../../types';
+
+/**
+ * Create a deep copy of an annotation so history snapshots are not
+ * affected by later in-place mutations (e.g. dragging)
+ */
+export function cloneAnnotation(annotation: Annotation): Annotation {
+  return {
+    ...annotation,
+    points: annotation.points.map(point => ({ ...point })),
+    style: { ...annotation.style },
+    ...(annotation.data && { data: structuredClone(annotation.data) })
+  };
+}
+
+export class AnnotationHistory {
+  private static readonly DEFAULT_LIMIT = 100;
+
+  private undoStack: AnnotationHistoryEntry[] = [];
+  private redoStack: AnnotationHistoryEntry[] = [];
+  private limit: number;
+  private onChange: ((state: AnnotationHistoryState) => void) | null = null;
+
+  constructor(limit: number = AnnotationHistory.DEFAULT_LIMIT) {
+    this.limit = Math.max(1, limit);
+  }
+
+  /**
+   * Record a new step; clears the redo stack
+   */
+  push(entry: AnnotationHistoryEntry): void {
+    if (entry.changes.length === 0) return;
+
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+
+    this.notifyChange();
+  }
+
+  /**
+   * Pop the latest step to be reverted by the caller
+   */
+  undo(): AnnotationHistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.redoStack.push(entry);
+    this.notifyChange();
+    return entry;
+  }
+
+  /**
+   * Pop the latest reverted step to be re-applied by the caller
+   */
+  redo(): AnnotationHistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.undoStack.push(entry);
+    this.notifyChange();
+    return entry;
+  }
+
+  /**
+   * Check if there is a step to undo
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Check if there is a step to redo
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Get current history state
+   */
+  getState(): AnnotationHistoryState {
+    return {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      undoCount: this.undoStack.length,
+      redoCount: this.redoStack.length
+    };
+  }
+
+  /**
+   * Drop all recorded steps
+   */
+  clear(): void {
+    if (this.undoStack.length === 0 && this.redoStack.length === 0) return;
+
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notifyChange();
+  }
+
+  /**
+   * Set callback invoked whenever the stacks change
+   */
+  setOnChange(callback: ((state: AnnotationHistoryState) => void) | null): void {
+    this.onChange = callback;
+  }
+
+  private notifyChange(): void {
+    if (this.onChange) {
+      this.onChange(this.getState());
+    }
+  }
+}
@@ -4,29 +4,59 @@ import type {
   Tool,
   EventHandlers,
   Annotation,
+  AnnotationChange,
+  AnnotationDocument,
+  AnnotationHandle,
+  AnnotationHandleType,
+  AnnotationHistoryState,
   Point,
   AnnotationManagerOptions,
+  AnnotationSerializer,
+  AnnotationSerializerContext,
+  CustomImageData,
   Rectangle,
   ToolManagerOptions
 } from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
 import { error } from '../../utils/core/logger';
 import { MemoryManager } from '../../utils/core/memory-manager';
 import { ValidationHelper } from '../../utils/core/validation-helper';
+import { imageToWorld, screenToWorld, worldToImage } from '../../utils/geometry/coordinate';
+import { AnnotationHistory, cloneAnnotation } from './History';
 import { AnnotationRenderer } from './Renderer';
+import { CocoSerializer, VocSerializer, WebAnnotationSerializer, YoloSerializer } from './serializers';
 import { AnnotationToolsManager } from './tools/Manager';
 
 export class AnnotationManager {
+  /** Version written by exportAnnotations; version 1 was a plain array in world coordinates */
+  static readonly FORMAT_VERSION = 2;
+
   private canvas: Renderer;
   private renderer: AnnotationRenderer;
   private toolManager: AnnotationToolsManager;
   private annotations: Map<string, Annotation> = new Map();
   private selectedAnnotation: Annotation | null = null;
+  private selectedIds: Set<string> = new Set();
   private eventHandlers: EventHandlers;
+  private defaultStyle: AnnotationStyle;
+  private serializers: Map<string, AnnotationSerializer> = new Map(
+    [new CocoSerializer(), new VocSerializer(), new YoloSerializer(), new WebAnnotationSerializer()]
+      .map(serializer => [serializer.format, serializer])
+  );
   private enabled = true;
   private isDragging = false;
-  private dragOffset: Point | null = null;
+  private dragStartPoint: Point | null = null;
   private hasUnsavedChanges = false;
-  private throttledMouseMove: ((event: MouseEvent) => void) & { cleanup?: () => void };
+  private history: AnnotationHistory;
+  private pendingChanges: AnnotationChange[] | null = null;
+  private dragStartSnapshots: Annotation[] = [];
+  private activeHandle: AnnotationHandle | null = null;
+  private marquee: { start: Point; end: Point } | null = null;
+  private boundContextMenu: (event: MouseEvent) => void;
+  private boundPointerDown: (event: PointerEvent) => void;
+  private boundPointerUp: (event: PointerEvent) => void;
+  private throttledPointerMove: ((event: PointerEvent) => void) & { cleanup?: () => void };
   private cleanupCallback: () => void;
 
   constructor(canvas: Renderer, options: AnnotationManagerOptions = {}) {
@@ -36,7 +66,14 @@ export class AnnotationManager {
 
     this.renderer = new AnnotationRenderer(canvas);
 
-    const defaultStyle: AnnotationStyle = {
+    this.history = new AnnotationHistory(options.historyLimit);
+    this.history.setOnChange((state) => {
+      if (this.eventHandlers.onHistoryChange) {
+        this.eventHandlers.onHistoryChange(state);
+      }
+    });
+
+    this.defaultStyle = {
       strokeColor: '#ff0000',
       strokeWidth: 2,
       lineStyle: 'solid',
@@ -50,23 +87,32 @@ export class AnnotationManager {
       { name: 'Arrow', type: 'arrow', icon: '↗' },
       { name: 'Text', type: 'text', icon: 'T' },
       { name: 'Circle', type: 'circle', icon: '⭕' },
-      { name: 'Line', type: 'line', icon: '📏' }
+      { name: 'Line', type: 'line', icon: '📏' },
+      { name: 'Freehand', type: 'freehand', icon: '✏️' },
+      { name: 'Highlighter', type: 'freehand', icon: '🖍️' },
+      { name: 'Polygon', type: 'polygon', icon: '⬠' },
+      { name: 'Polyline', type: 'polyline', icon: '〰' }
     ];
 
     const toolManagerOptions: ToolManagerOptions<AnnotationManager> = {
-      defaultStyle,
+      defaultStyle: this.defaultStyle,
       availableTools,
       annotationManager: this
     };
 
     this.toolManager = new AnnotationToolsManager(canvas, this.renderer, toolManagerOptions);
 
+    // Tools draw in world coordinates, storage uses natural image coordinates
     this.toolManager.setOnAnnotationCreate((annotation) => {
+      annotation.points = annotation.points.map(point => this.toImagePoint(point));
       this.addAnnotation(annotation);
     });
 
 
-    this.throttledMouseMove = MemoryManager.throttle(this.handleMouseMove.bind(this), 16) as ((event: MouseEvent) => void) & { cleanup?: () => void };
+    this.boundContextMenu = this.handleContextMenu.bind(this);
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.throttledPointerMove = MemoryManager.throttle(this.handlePointerMove.bind(this), 16) as ((event: PointerEvent) => void) & { cleanup?: () => void };
     this.cleanupCallback = this.cleanup.bind(this);
     MemoryManager.registerCleanup(this.cleanupCallback);
 
@@ -77,12 +123,12 @@ export class AnnotationManager {
    * Setup event listeners for annotation management
    */
   private setupEventListeners(): void {
-    this.canvas.addEventListener('contextmenu', this.handleContextMenu.bind(this) as EventListener);
-
-    this.canvas.addEventListener('mousedown', this.handleMouseDown.bind(this) as EventListener, true);
-    this.canvas.addEventListener('mousemove', this.throttledMouseMove as EventListener);
-    this.canvas.addEventListener('mouseup', this.handleMouseUp.bind(this) as EventListener);
+    this.canvas.addEventListener('contextmenu', this.boundContextMenu as EventListener);
 
+    this.canvas.addEventListener('pointerdown', this.boundPointerDown as EventListener, true);
+    this.canvas.addEventListener('pointermove', this.throttledPointerMove as EventListener);
+    this.canvas.addEventListener('pointerup', this.boundPointerUp as EventListener);
+    this.canvas.addEventListener('pointercancel', this.boundPointerUp as EventListener);
   }
 
   /**
@@ -105,23 +151,38 @@ export class AnnotationManager {
   }
 
   /**
-   * Handle mouse down for selection and dragging
+   * Handle pointer down for selection and dragging
    */
-  private handleMouseDown(event: MouseEvent): void {
-    if (!this.canHandleMouseDown(event)) return;
+  private handlePointerDown(event: PointerEvent): void {
+    if (!this.canHandlePointerDown(event)) return;
 
     const worldPoint = this.getWorldPointFromEvent(event);
+    const isMultiSelect = event.shiftKey || event.ctrlKey || event.metaKey;
+
+    // Handles of the selected annotation take precedence over annotation bodies
+    const handle = isMultiSelect ? null : this.getHandleAt(worldPoint);
+    if (this.selectedAnnotation && handle) {
+      event.preventDefault();
+      event.stopPropagation();
+      this.startResizing(this.selectedAnnotation, handle);
+      this.canvas.capturePointer(event);
+      return;
+    }
+
     const annotation = this.getAnnotationAt(worldPoint);
 
     if (annotation) {
-      this.handleAnnotationClick(annotation, worldPoint, event);
+      this.handleAnnotationClick(annotation, worldPoint, event, isMultiSelect);
+    } else if (isMultiSelect) {
+      this.startMarquee(worldPoint, event);
     } else {
       this.handleEmptySpaceClick();
     }
   }
 
-  private canHandleMouseDown(event: MouseEvent): boolean {
-    if (!this.enabled || event.button !== 0) {
+  private canHandlePointerDown(event: PointerEvent): boolean {
+    // Further fingers belong to gestures (pinch zoom)
+    if (!this.enabled || event.button !== 0 || !event.isPrimary) {
       return false;
     }
 
@@ -135,25 +196,48 @@ export class AnnotationManager {
     return this.screenToWorld(point);
   }
 
-  private handleAnnotationClick(annotation: Annotation, worldPoint: Point, event: MouseEvent): void {
+  private handleAnnotationClick(annotation: Annotation, worldPoint: Point, event: PointerEvent, isMultiSelect: boolean): void {
     event.preventDefault();
     event.stopPropagation();
 
-    this.selectAnnotation(annotation);
-
-    if (this.selectedAnnotation === annotation) {
-      this.startDragging(annotation, worldPoint);
+    if (isMultiSelect) {
+      this.toggleAnnotationSelection(annotation);
+      if (!this.isAnnotationSelected(annotation.id)) return;
+    } else if (!this.isAnnotationSelected(annotation.id)) {
+      // Clicking a member of the current selection keeps the group for dragging
+      this.selectAnnotation(annotation);
     }
+
+    this.startDragging(worldPoint);
+    this.canvas.capturePointer(event);
   }
 
-  private startDragging(annotation: Annotation, worldPoint: Point): void {
+  private startDragging(worldPoint: Point): void {
     this.isDragging = true;
+    this.dragStartPoint = worldPoint;
+    this.dragStartSnapshots = this.getSelectedAnnotations().map(cloneAnnotation);
+  }
 
-    const annotationCenter = this.getAnnotationCenter(annotation);
-    this.dragOffset = {
-      x: worldPoint.x - annotationCenter.x,
-      y: worldPoint.y - annotationCenter.y
-    };
+  private startResizing(annotation: Annotation, handle: AnnotationHandle): void {
+    this.isDragging = true;
+    this.activeHandle = handle;
+    this.dragStartSnapshots = [cloneAnnotation(annotation)];
+  }
+
+  private startMarquee(worldPoint: Point, event: PointerEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.canvas.capturePointer(event);
+
+    this.marquee = { start: worldPoint, end: worldPoint };
+  }
+
+  /**
+   * Get the handle under a point when exactly one annotation is selected
+   */
+  private getHandleAt(worldPoint: Point): AnnotationHandle | null {
+    if (!this.selectedAnnotation || this.selectedIds.size !== 1) return null;
+    return this.renderer.hitTestHandle(worldPoint, this.toWorldAnnotation(this.selectedAnnotation));
   }
 
   private handleEmptySpaceClick(): void {
@@ -161,40 +245,170 @@ export class AnnotationManager {
   }
 
   /**
-   * Handle mouse move for dragging and hover detection
+   * Handle pointer move for dragging and hover detection
    */
-  private handleMouseMove(...args: unknown[]): void {
-    const event = args[0] as MouseEvent;
-    if (!this.enabled) return;
+  private handlePointerMove(...args: unknown[]): void {
+    const event = args[0] as PointerEvent;
+    if (!this.enabled || !event.isPrimary) return;
 
     const worldPoint = this.getWorldPointFromEvent(event);
 
-    if (this.isDragging && this.selectedAnnotation && this.dragOffset) {
+    if (this.isDragging && this.selectedAnnotation && this.activeHandle) {
+      this.handleResizing(worldPoint, event);
+      return;
+    }
+
+    if (this.isDragging && this.dragStartPoint) {
       this.handleDragging(worldPoint, event);
       return;
     }
 
+    if (this.marquee) {
+      this.marquee.end = worldPoint;
+      this.triggerViewStateChange();
+      return;
+    }
+
     this.handleHoverDetection(worldPoint);
   }
 
-  private handleDragging(worldPoint: Point, event: MouseEvent): void {
-    if (!this.selectedAnnotation) return;
-    
-    const newCenter = this.calculateNewCenter(worldPoint);
-    this.moveAnnotation(this.selectedAnnotation, newCenter);
+  private handleDragging(worldPoint: Point, event: PointerEvent): void {
+    if (!this.dragStartPoint) return;
+
+    const offset = {
+      x: worldPoint.x - this.dragStartPoint.x,
+      y: worldPoint.y - this.dragStartPoint.y
+    };
+
+    // Move every selected annotation relative to its position at drag start
+    this.dragStartSnapshots.forEach(snapshot => {
+      const annotation = this.annotations.get(snapshot.id);
+      if (annotation) {
+        annotation.points = snapshot.points.map(point => {
+          const worldPoint = this.toWorldPoint(point);
+          return this.toImagePoint({ x: worldPoint.x + offset.x, y: worldPoint.y + offset.y });
+        });
+      }
+    });
+    this.triggerViewStateChange();
+
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  private handleResizing(worldPoint: Point, event: PointerEvent): void {
+    const original = this.dragStartSnapshots[0];
+    if (!this.selectedAnnotation || !this.activeHandle || !original) return;
+
+    const point = this.clampPointToImageBounds(worldPoint);
+    this.selectedAnnotation.points = this.getResizedPoints(
+      this.toWorldAnnotation(original),
+      this.activeHandle,
+      point,
+      event.shiftKey
+    ).map(resized => this.toImagePoint(resized));
     this.triggerViewStateChange();
 
     event.preventDefault();
     event.stopPropagation();
   }
 
-  private calculateNewCenter(worldPoint: Point): Point {
-    if (!this.dragOffset) {
-      return worldPoint;
+  /**
+   * Calculate annotation points after dragging one of its handles
+   */
+  private getResizedPoints(original: Annotation, handle: AnnotationHandle, point: Point, keepAspectRatio: boolean): Point[] {
+    const points = original.points.map(p => ({ ...p }));
+    if (points.length < 2) return points;
+
+    switch (original.type) {
+      case 'rect':
+        return this.getResizedBox(points[0]!, points[1]!, handle.type, point, keepAspectRatio);
+      case 'circle':
+        // Center stays fixed, the edge point follows the handle
+        return [points[0]!, point];
+      case 'line':
+      case 'arrow':
+        return this.getReshapedLine(points, handle.type, point, keepAspectRatio);
+      case 'polygon':
+      case 'polyline':
+        if (handle.index !== undefined && handle.index < points.length) {
+          points[handle.index] = point;
+        }
+        return points;
+      default:
+        return points;
+    }
+  }
+
+  /**
+   * Resize a rectangle keeping the side/corner opposite to the handle fixed
+   */
+  private getResizedBox(start: Point, end: Point, handle: AnnotationHandleType, point: Point, keepAspectRatio: boolean): Point[] {
+    const minX = Math.min(start.x, end.x);
+    const maxX = Math.max(start.x, end.x);
+    const minY = Math.min(start.y, end.y);
+    const maxY = Math.max(start.y, end.y);
+
+    const movesLeft = handle === 'nw' || handle === 'w' || handle === 'sw';
+    const movesRight = handle === 'ne' || handle === 'e' || handle === 'se';
+    const movesTop = handle === 'nw' || handle === 'n' || handle === 'ne';
+    const movesBottom = handle === 'sw' || handle === 's' || handle === 'se';
+
+    const anchor = { x: movesLeft ? maxX : minX, y: movesTop ? maxY : minY };
+    let width = movesLeft || movesRight ? point.x - anchor.x : maxX - minX;
+    let height = movesTop || movesBottom ? point.y - anchor.y : maxY - minY;
+
+    const isCorner = (movesLeft || movesRight) && (movesTop || movesBottom);
+    if (keepAspectRatio && isCorner && maxX > minX && maxY > minY) {
+      const ratio = (maxX - minX) / (maxY - minY);
+      if (Math.abs(width) / ratio > Math.abs(height)) {
+        height = (height < 0 ? -1 : 1) * Math.abs(width) / ratio;
+      } else {
+        width = (width < 0 ? -1 : 1) * Math.abs(height) * ratio;
+      }
+    }
+
+    const x2 = anchor.x + width;
+    const y2 = anchor.y + height;
+    return [
+      { x: Math.min(anchor.x, x2), y: Math.min(anchor.y, y2) },
+      { x: Math.max(anchor.x, x2), y: Math.max(anchor.y, y2) }
+    ];
+  }
+
+  /**
+   * Move a line/arrow endpoint; keepAspectRatio keeps the original direction
+   */
+  private getReshapedLine(points: Point[], handle: AnnotationHandleType, point: Point, keepAspectRatio: boolean): Point[] {
+    const movingIndex = handle === 'start' ? 0 : points.length - 1;
+    const fixed = handle === 'start' ? points[points.length - 1]! : points[0]!;
+    const moving = points[movingIndex]!;
+    let target = point;
+
+    if (keepAspectRatio) {
+      const dx = moving.x - fixed.x;
+      const dy = moving.y - fixed.y;
+      const lengthSq = dx * dx + dy * dy;
+      if (lengthSq > 0) {
+        const t = ((point.x - fixed.x) * dx + (point.y - fixed.y) * dy) / lengthSq;
+        target = { x: fixed.x + dx * t, y: fixed.y + dy * t };
+      }
     }
+
+    points[movingIndex] = target;
+    return points;
+  }
+
+  /**
+   * Clamp a point to the image bounds (if an image is loaded)
+   */
+  private clampPointToImageBounds(point: Point): Point {
+    const bounds = this.getImageBounds();
+    if (!bounds) return point;
+
     return {
-      x: worldPoint.x - this.dragOffset.x,
-      y: worldPoint.y - this.dragOffset.y
+      x: Math.max(bounds.x, Math.min(bounds.x + bounds.width, point.x)),
+      y: Math.max(bounds.y, Math.min(bounds.y + bounds.height, point.y))
     };
   }
 
@@ -205,27 +419,40 @@ export class AnnotationManager {
   private handleHoverDetection(worldPoint: Point): void {
     if (this.isDragging || this.toolManager.isDrawing()) return;
 
-    const hoveredAnnotation = this.getAnnotationAt(worldPoint);
-    this.updateCursorStyle(hoveredAnnotation);
+    const handle = this.getHandleAt(worldPoint);
+    const hoveredAnnotation = handle ? null : this.getAnnotationAt(worldPoint);
+    this.updateCursorStyle(hoveredAnnotation, handle);
   }
 
-  private updateCursorStyle(hoveredAnnotation: Annotation | null): void {
+  private updateCursorStyle(hoveredAnnotation: Annotation | null, handle: AnnotationHandle | null = null): void {
     // Don't update cursor if annotation tool is active
     if (this.toolManager.isToolActive()) {
       return;
     }
 
-    const cursor = hoveredAnnotation ? 'move' : 'default';
+    const cursor = handle ? handle.cursor : hoveredAnnotation ? 'move' : 'default';
     this.canvas.getElement().style.cursor = cursor;
   }
 
   /**
-   * Handle mouse up to stop dragging
+   * Handle pointer up/cancel to stop dragging
    */
-  private handleMouseUp(event: MouseEvent): void {
+  private handlePointerUp(event: PointerEvent): void {
+    if (!event.isPrimary) return;
+
     if (this.isDragging) {
+      const label = this.activeHandle ? 'resize' : 'move';
       this.isDragging = false;
-      this.dragOffset = null;
+      this.dragStartPoint = null;
+      this.activeHandle = null;
+      this.commitDrag(label);
+
+      event.preventDefault();
+      event.stopPropagation();
+    }
+
+    if (this.marquee) {
+      this.finishMarquee();
 
       event.preventDefault();
       event.stopPropagation();
@@ -233,20 +460,84 @@ export class AnnotationManager {
   }
 
   /**
-   * Handle keyboard shortcuts
+   * Add annotations fully inside the marquee rectangle to the selection
    */
-  private handleKeyDown(event: KeyboardEvent): void {
-    if (!this.enabled) return;
+  private finishMarquee(): void {
+    if (!this.marquee) return;
 
-    if (event.key === 'Delete' || event.key === 'Backspace') {
-      if (this.selectedAnnotation) {
-        this.removeAnnotation(this.selectedAnnotation.id);
-        event.preventDefault();
-      }
+    const rect = this.getMarqueeRect(this.marquee);
+    this.marquee = null;
+
+    const enclosed = this.getAllAnnotations().filter(annotation => {
+      const bounds = this.renderer.getAnnotationBounds(this.toWorldAnnotation(annotation));
+      return bounds.x >= rect.x && bounds.y >= rect.y &&
+        bounds.x + bounds.width <= rect.x + rect.width &&
+        bounds.y + bounds.height <= rect.y + rect.height;
+    });
+
+    if (enclosed.length > 0) {
+      this.setSelection([...this.selectedIds, ...enclosed.map(annotation => annotation.id)]);
     }
 
-    if (event.key === 'Escape') {
-      this.selectAnnotation(null);
+    this.triggerViewStateChange();
+  }
+
+  private getMarqueeRect(marquee: { start: Point; end: Point }): Rectangle {
+    return {
+      x: Math.min(marquee.start.x, marquee.end.x),
+      y: Math.min(marquee.start.y, marquee.end.y),
+      width: Math.abs(marquee.end.x - marquee.start.x),
+      height: Math.abs(marquee.end.y - marquee.start.y)
+    };
+  }
+
+  /**
+   * Record a finished drag or resize as a single history step
+   */
+  private commitDrag(label: string): void {
+    const snapshots = this.dragStartSnapshots;
+    this.dragStartSnapshots = [];
+
+    const changes: AnnotationChange[] = [];
+    const updates: Array<{ annotation: Annotation; before: Point[] }> = [];
+
+    snapshots.forEach(before => {
+      const annotation = this.annotations.get(before.id);
+      if (!annotation) return;
+
+      const moved = annotation.points.some((point, i) => {
+        const original = before.points[i];
+        return !original || original.x !== point.x || original.y !== point.y;
+      });
+      if (!moved) return;
+
+      changes.push({
+        id: annotation.id,
+        before,
+        after: cloneAnnotation(annotation),
+        index: this.getAnnotationIndex(annotation.id)
+      });
+      updates.push({ annotation, before: before.points });
+    });
+
+    if (changes.length === 0) return;
+
+    this.hasUnsavedChanges = true;
+    this.recordChanges(label, changes);
+
+    updates.forEach(({ annotation, before }) => this.notifyAnnotationUpdate(annotation, before));
+  }
+
+  /**
+   * Notify listeners that the geometry of an annotation changed
+   */
+  private notifyAnnotationUpdate(annotation: Annotation, before: Point[]): void {
+    if (this.eventHandlers.onAnnotationUpdate) {
+      this.eventHandlers.onAnnotationUpdate({
+        annotation,
+        before: before.map(point => ({ ...point })),
+        after: annotation.points.map(point => ({ ...point }))
+      });
     }
   }
 
@@ -254,11 +545,38 @@ export class AnnotationManager {
    * Convert screen coordinates to world coordinates
    */
   private screenToWorld(screenPoint: Point): Point {
-    const viewState = this.canvas.getViewState();
-    return {
-      x: (screenPoint.x - viewState.offsetX) / viewState.scale,
-      y: (screenPoint.y - viewState.offsetY) / viewState.scale
-    };
+    return screenToWorld(screenPoint, this.canvas.getViewState());
+  }
+
+  /**
+   * Get the loaded image that annotation coordinates refer to
+   */
+  private getImageData(): CustomImageData | null {
+    return this.canvas.imageViewer ? this.canvas.imageViewer.getImageData() : null;
+  }
+
+  /**
+   * Convert a stored (natural image) point to world coordinates; identity without image
+   */
+  toWorldPoint(point: Point): Point {
+    const imageData = this.getImageData();
+    return imageData ? imageToWorld(point, imageData) : point;
+  }
+
+  /**
+   * Convert a world point to stored (natural image) coordinates; identity without image
+   */
+  toImagePoint(point: Point): Point {
+    const imageData = this.getImageData();
+    return imageData ? worldToImage(point, imageData) : point;
+  }
+
+  /**
+   * Copy of an annotation with points in world coordinates, for rendering and hit-testing
+   */
+  toWorldAnnotation(annotation: Annotation): Annotation {
+    if (!this.getImageData()) return annotation;
+    return { ...annotation, points: annotation.points.map(point => this.toWorldPoint(point)) };
   }
 
   /**
@@ -278,9 +596,19 @@ export class AnnotationManager {
       return;
     }
 
+    const existing = this.annotations.get(annotation.id);
+    const index = existing ? this.getAnnotationIndex(annotation.id) : this.annotations.size;
+
     this.annotations.set(annotation.id, annotation);
     this.hasUnsavedChanges = true;
 
+    this.recordChanges('add', [{
+      id: annotation.id,
+      before: existing ? cloneAnnotation(existing) : null,
+      after: cloneAnnotation(annotation),
+      index
+    }]);
+
     this.triggerViewStateChange();
 
     if (this.eventHandlers.onAnnotationAdd) {
@@ -295,12 +623,18 @@ export class AnnotationManager {
     const annotation = this.annotations.get(id);
     if (!annotation) return false;
 
+    const index = this.getAnnotationIndex(id);
     this.annotations.delete(id);
     this.hasUnsavedChanges = true;
 
-    if (this.selectedAnnotation?.id === id) {
-      this.selectedAnnotation = null;
-    }
+    this.recordChanges('remove', [{
+      id,
+      before: cloneAnnotation(annotation),
+      after: null,
+      index
+    }]);
+
+    this.deselectAnnotation(id);
 
     this.canvas.getElement().dispatchEvent(new CustomEvent('viewStateChange'));
 
@@ -312,52 +646,247 @@ export class AnnotationManager {
   }
 
   /**
-   * Get annotation by ID
+   * Remove all selected annotations as a single undoable step
    */
-  getAnnotation(id: string): Annotation | undefined {
-    return this.annotations.get(id);
+  removeSelectedAnnotations(): number {
+    const ids = this.getSelectedAnnotations().map(annotation => annotation.id);
+    if (ids.length === 0) return 0;
+
+    this.batchChanges('remove', () => {
+      ids.forEach(id => this.removeAnnotation(id));
+    });
+
+    return ids.length;
   }
 
   /**
-   * Get center point of annotation
+   * Move the selected annotations by a distance in image pixels as a single
+   * undoable step
    */
-  private getAnnotationCenter(annotation: Annotation): Point {
-    if (annotation.points.length === 0) return { x: 0, y: 0 };
+  nudgeSelectedAnnotations(dx: number, dy: number): boolean {
+    if (!this.enabled || this.isDragging || this.toolManager.isDrawing()) return false;
 
-    if (annotation.type === 'rect' && annotation.points.length >= 2) {
-      const point1 = annotation.points[0];
-      const point2 = annotation.points[1];
-      if (!point1 || !point2) return { x: 0, y: 0 };
+    const selected = this.getSelectedAnnotations();
+    if (selected.length === 0) return false;
 
-      const minX = Math.min(point1.x, point2.x);
-      const maxX = Math.max(point1.x, point2.x);
-      const minY = Math.min(point1.y, point2.y);
-      const maxY = Math.max(point1.y, point2.y);
+    this.dragStartSnapshots = selected.map(cloneAnnotation);
+    selected.forEach(annotation => {
+      annotation.points = annotation.points.map(point => ({ x: point.x + dx, y: point.y + dy }));
+    });
+    this.commitDrag('move');
+    this.triggerViewStateChange();
+    return true;
+  }
+
+  /**
+   * Select the annotation after (or before) the primary selection in drawing
+   * order; moving past either end clears the selection and returns null
+   */
+  selectAdjacentAnnotation(reverse: boolean = false): Annotation | null {
+    const annotations = this.getAllAnnotations();
+    const current = annotations.findIndex(annotation => annotation.id === this.selectedAnnotation?.id);
 
-      return {
-        x: (minX + maxX) / 2,
-        y: (minY + maxY) / 2
-      };
+    let index: number;
+    if (current === -1) {
+      index = reverse ? annotations.length - 1 : 0;
+    } else {
+      index = reverse ? current - 1 : current + 1;
     }
 
-    const firstPoint = annotation.points[0];
-    return firstPoint || { x: 0, y: 0 };
+    const annotation = annotations[index] ?? null;
+    this.selectAnnotation(annotation);
+    this.triggerViewStateChange();
+    return annotation;
   }
 
   /**
-   * Move annotation to new center position
+   * Replace an annotation in place, keeping its drawing order position, as a
+   * single undoable step
    */
-  private moveAnnotation(annotation: Annotation, newCenter: Point): void {
-    const currentCenter = this.getAnnotationCenter(annotation);
-    const offset = {
-      x: newCenter.x - currentCenter.x,
-      y: newCenter.y - currentCenter.y
-    };
+  updateAnnotation(id: string, annotation: Annotation): void {
+    if (!ValidationHelper.isValidAnnotation(annotation) || annotation.id !== id) {
+      error('Invalid annotation data:', annotation);
+      return;
+    }
 
-    annotation.points = annotation.points.map(point => ({
-      x: point.x + offset.x,
-      y: point.y + offset.y
-    }));
+    const existing = this.annotations.get(id);
+    if (!existing) {
+      this.addAnnotation(annotation);
+      return;
+    }
+
+    const index = this.getAnnotationIndex(id);
+    this.annotations.set(id, annotation);
+    this.hasUnsavedChanges = true;
+
+    if (this.selectedAnnotation?.id === id) {
+      this.selectedAnnotation = annotation;
+    }
+
+    this.recordChanges('update', [{
+      id,
+      before: cloneAnnotation(existing),
+      after: cloneAnnotation(annotation),
+      index
+    }]);
+
+    this.triggerViewStateChange();
+    this.notifyAnnotationUpdate(annotation, existing.points);
+  }
+
+  /**
+   * Run several mutations and record them as one history step
+   */
+  batchChanges(label: string, operation: () => void): void {
+    // Nested batches are merged into the outermost one
+    if (this.pendingChanges) {
+      operation();
+      return;
+    }
+
+    this.pendingChanges = [];
+    try {
+      operation();
+    } finally {
+      const changes = this.pendingChanges;
+      this.pendingChanges = null;
+      this.history.push({ label, changes });
+    }
+  }
+
+  /**
+   * Record changes in the current batch or as a new history step
+   */
+  private recordChanges(label: string, changes: AnnotationChange[]): void {
+    if (this.pendingChanges) {
+      this.pendingChanges.push(...changes);
+      return;
+    }
+    this.history.push({ label, changes });
+  }
+
+  /**
+   * Undo the last annotation change
+   */
+  undo(): boolean {
+    if (this.isDragging || this.toolManager.isDrawing()) return false;
+
+    const entry = this.history.undo();
+    if (!entry) return false;
+
+    this.applyHistoryChanges([...entry.changes].reverse(), 'before');
+    return true;
+  }
+
+  /**
+   * Redo the last undone annotation change
+   */
+  redo(): boolean {
+    if (this.isDragging || this.toolManager.isDrawing()) return false;
+
+    const entry = this.history.redo();
+    if (!entry) return false;
+
+    this.applyHistoryChanges(entry.changes, 'after');
+    return true;
+  }
+
+  /**
+   * Check if there is a change to undo
+   */
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Check if there is a change to redo
+   */
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Get undo/redo availability
+   */
+  getHistoryState(): AnnotationHistoryState {
+    return this.history.getState();
+  }
+
+  /**
+   * Drop all undo/redo steps
+   */
+  clearHistory(): void {
+    this.history.clear();
+  }
+
+  /**
+   * Restore annotations to one side of the recorded changes without recording history
+   */
+  private applyHistoryChanges(changes: AnnotationChange[], side: 'before' | 'after'): void {
+    changes.forEach(change => {
+      const target = change[side];
+      const current = this.annotations.get(change.id);
+
+      if (target) {
+        const annotation = cloneAnnotation(target);
+        this.insertAnnotationAt(annotation, change.index);
+
+        if (this.selectedAnnotation?.id === change.id) {
+          this.selectedAnnotation = annotation;
+        }
+
+        if (!current && this.eventHandlers.onAnnotationAdd) {
+          this.eventHandlers.onAnnotationAdd(annotation);
+        } else if (current && change.before && change.after) {
+          this.notifyAnnotationUpdate(annotation, current.points);
+        }
+      } else if (current) {
+        this.annotations.delete(change.id);
+
+        if (this.isAnnotationSelected(change.id)) {
+          this.deselectAnnotation(change.id);
+          this.notifySelectionChange();
+        }
+
+        if (this.eventHandlers.onAnnotationRemove) {
+          this.eventHandlers.onAnnotationRemove(change.id);
+        }
+      }
+    });
+
+    this.hasUnsavedChanges = true;
+    this.triggerViewStateChange();
+  }
+
+  /**
+   * Insert (or replace) an annotation at a given drawing order position
+   */
+  private insertAnnotationAt(annotation: Annotation, index: number): void {
+    const entries = Array.from(this.annotations.entries()).filter(([id]) => id !== annotation.id);
+    entries.splice(Math.min(index, entries.length), 0, [annotation.id, annotation]);
+    this.annotations = new Map(entries);
+  }
+
+  /**
+   * Get drawing order position of an annotation
+   */
+  private getAnnotationIndex(id: string): number {
+    return Array.from(this.annotations.keys()).indexOf(id);
+  }
+
+  /**
+   * Get annotation by ID
+   */
+  getAnnotation(id: string): Annotation | undefined {
+    return this.annotations.get(id);
+  }
+
+  /**
+   * Get the bounding box of an annotation in world coordinates
+   */
+  getAnnotationWorldBounds(id: string): Rectangle | null {
+    const annotation = this.annotations.get(id);
+    return annotation ? this.renderer.getAnnotationBounds(this.toWorldAnnotation(annotation)) : null;
   }
 
   /**
@@ -374,7 +903,7 @@ export class AnnotationManager {
     const annotationArray = this.getAllAnnotations().reverse();
 
     for (const annotation of annotationArray) {
-      if (this.renderer.hitTest(point, annotation)) {
+      if (this.renderer.hitTest(point, this.toWorldAnnotation(annotation))) {
         return annotation;
       }
     }
@@ -383,29 +912,95 @@ export class AnnotationManager {
   }
 
   /**
-   * Select annotation
+   * Select a single annotation (or clear the selection with null)
    */
   selectAnnotation(annotation: Annotation | null): void {
     this.selectedAnnotation = annotation;
+    this.selectedIds = new Set(annotation ? [annotation.id] : []);
 
-    const event = new CustomEvent('annotationselect', {
-      detail: annotation
-    });
-    this.canvas.getElement().dispatchEvent(event);
+    this.notifySelectionChange();
+  }
+
+  /**
+   * Add an annotation to the selection or remove it if already selected
+   */
+  toggleAnnotationSelection(annotation: Annotation): void {
+    if (this.selectedIds.has(annotation.id)) {
+      this.deselectAnnotation(annotation.id);
+    } else {
+      this.selectedIds.add(annotation.id);
+      this.selectedAnnotation = annotation;
+    }
+
+    this.notifySelectionChange();
+  }
+
+  /**
+   * Replace the selection with the given annotation IDs; unknown IDs are ignored
+   */
+  setSelection(ids: string[]): void {
+    const annotations = ids
+      .map(id => this.annotations.get(id))
+      .filter((annotation): annotation is Annotation => annotation !== undefined);
+
+    this.selectedIds = new Set(annotations.map(annotation => annotation.id));
+    this.selectedAnnotation = annotations[annotations.length - 1] || null;
+
+    this.notifySelectionChange();
   }
 
   /**
-   * Get selected annotation
+   * Get the primary (most recently selected) annotation
    */
   getSelectedAnnotation(): Annotation | null {
     return this.selectedAnnotation;
   }
 
+  /**
+   * Get all selected annotations in drawing order
+   */
+  getSelectedAnnotations(): Annotation[] {
+    return this.getAllAnnotations().filter(annotation => this.selectedIds.has(annotation.id));
+  }
+
+  /**
+   * Check if an annotation is part of the selection
+   */
+  isAnnotationSelected(id: string): boolean {
+    return this.selectedIds.has(id);
+  }
+
   /**
    * Check if any annotation is selected
    */
   hasSelectedAnnotation(): boolean {
-    return this.selectedAnnotation !== null;
+    return this.selectedIds.size > 0;
+  }
+
+  /**
+   * Check if a marquee selection is in progress
+   */
+  isMarqueeSelecting(): boolean {
+    return this.marquee !== null;
+  }
+
+  /**
+   * Drop an annotation from the selection without notifying
+   */
+  private deselectAnnotation(id: string): void {
+    if (!this.selectedIds.delete(id)) return;
+
+    if (this.selectedAnnotation?.id === id) {
+      const remaining = this.getSelectedAnnotations();
+      this.selectedAnnotation = remaining[remaining.length - 1] || null;
+    }
+  }
+
+  private notifySelectionChange(): void {
+    const event = new CustomEvent('annotationselect', {
+      detail: this.selectedAnnotation
+    });
+    this.canvas.getElement().dispatchEvent(event);
   }
 
   /**
@@ -413,10 +1008,22 @@ export class AnnotationManager {
    */
   clearAll(): void {
     const annotationIds = Array.from(this.annotations.keys());
+
+    // Each removal is recorded at index 0 since annotations are cleared front to back
+    const changes: AnnotationChange[] = this.getAllAnnotations().map(annotation => ({
+      id: annotation.id,
+      before: cloneAnnotation(annotation),
+      after: null,
+      index: 0
+    }));
+
     this.annotations.clear();
     this.selectedAnnotation = null;
+    this.selectedIds.clear();
     this.hasUnsavedChanges = true;
 
+    this.recordChanges('clear', changes);
+
     // Trigger remove events for all annotations
     if (this.eventHandlers.onAnnotationRemove) {
       annotationIds.forEach(id => {
@@ -428,24 +1035,57 @@ export class AnnotationManager {
     this.triggerViewStateChange();
   }
 
+  /**
+   * Replace all annotations with the set of another image. Nothing is recorded
+   * and no add or remove events fire; the undo history belonged to the
+   * previous image, so it is dropped.
+   */
+  setAnnotations(annotations: Annotation[]): void {
+    this.annotations.clear();
+    this.selectedAnnotation = null;
+    this.selectedIds.clear();
+
+    annotations
+      .filter(annotation => ValidationHelper.isValidAnnotation(annotation))
+      .forEach(annotation => this.annotations.set(annotation.id, cloneAnnotation(annotation)));
+
+    this.history.clear();
+    this.triggerViewStateChange();
+  }
+
   /**
    * Render all annotations
    */
   render(): void {
     if (!this.enabled) return;
 
-    const annotations = this.getAllAnnotations();
-
+    const annotations = this.getAllAnnotations().map(annotation => this.toWorldAnnotation(annotation));
 
     this.renderer.renderAll(annotations);
 
-    if (this.selectedAnnotation) {
-      this.renderSelectionHighlight(this.selectedAnnotation);
+    const selected = this.getSelectedAnnotations().map(annotation => this.toWorldAnnotation(annotation));
+    selected.forEach(annotation => this.renderSelectionHighlight(annotation));
+
+    if (selected.length === 1) {
+      this.renderer.renderHandles(selected[0]!);
+    } else if (selected.length > 1) {
+      this.renderGroupSelection(selected);
+    }
+
+    if (this.marquee) {
+      this.renderMarquee(this.marquee);
     }
 
     this.toolManager.renderPreview();
   }
 
+  /**
+   * Render all annotations (without selection or preview) onto another context
+   */
+  renderToContext(ctx: CanvasRenderingContext2D): void {
+    this.renderer.renderToContext(ctx, this.getAllAnnotations().map(annotation => this.toWorldAnnotation(annotation)));
+  }
+
   /**
    * Render selection highlight
    */
@@ -457,6 +1097,43 @@ export class AnnotationManager {
     ctx.restore();
   }
 
+  /**
+   * Render combined bounding box of a multi-selection
+   */
+  private renderGroupSelection(annotations: Annotation[]): void {
+    const boxes = annotations.map(annotation => this.renderer.getAnnotationBounds(annotation));
+    const minX = Math.min(...boxes.map(box => box.x));
+    const minY = Math.min(...boxes.map(box => box.y));
+    const maxX = Math.max(...boxes.map(box => box.x + box.width));
+    const maxY = Math.max(...boxes.map(box => box.y + box.height));
+
+    const ctx = this.canvas.getContext();
+    this.setupSelectionContext(ctx);
+
+    const padding = 10;
+    ctx.strokeRect(
+      minX - padding,
+      minY - padding,
+      (maxX - minX) + padding * 2,
+      (maxY - minY) + padding * 2
+    );
+    ctx.restore();
+  }
+
+  /**
+   * Render marquee selection rectangle
+   */
+  private renderMarquee(marquee: { start: Point; end: Point }): void {
+    const ctx = this.canvas.getContext();
+    const rect = this.getMarqueeRect(marquee);
+
+    this.setupSelectionContext(ctx);
+    ctx.fillStyle = 'rgba(0, 255, 0, 0.1)';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.restore();
+  }
+
   private setupSelectionContext(ctx: CanvasRenderingContext2D): void {
     ctx.save();
     ctx.strokeStyle = '#00ff00';
@@ -702,32 +1379,29 @@ export class AnnotationManager {
   }
 
   /**
-   * Export annotations as JSON
+   * Export annotations as JSON document in natural image coordinates
    */
   exportAnnotations(): string {
-    const annotations = this.getAllAnnotations();
-    return JSON.stringify(annotations, null, 2);
+    const imageData = this.getImageData();
+    const annotationDocument: AnnotationDocument = {
+      version: AnnotationManager.FORMAT_VERSION,
+      coordinateSpace: 'image',
+      ...(imageData && { imageSize: { ...imageData.naturalSize } }),
+      annotations: this.getAllAnnotations()
+    };
+    return JSON.stringify(annotationDocument, null, 2);
   }
 
   /**
-   * Import annotations from JSON
+   * Import annotations from JSON. Accepts the current document format and
+   * the legacy plain array, whose points are in world coordinates of the current fit.
    */
   importAnnotations(jsonData: string): boolean {
     try {
-      const annotations: Annotation[] = JSON.parse(jsonData);
-
-      // Validate annotations
-      if (!Array.isArray(annotations)) {
-        throw new Error('Invalid annotation data format');
-      }
+      const parsed: unknown = JSON.parse(jsonData);
+      const annotations = this.readAnnotationData(parsed);
 
-      this.clearAll();
-
-      annotations.forEach(annotation => {
-        if (this.isValidAnnotation(annotation)) {
-          this.addAnnotation(annotation);
-        }
-      });
+      this.replaceAnnotations(annotations.filter(annotation => this.isValidAnnotation(annotation)));
 
       return true;
     } catch (err) {
@@ -736,6 +1410,85 @@ export class AnnotationManager {
     }
   }
 
+  /**
+   * Export annotations in an external format (e.g. 'coco')
+   */
+  exportAnnotationsAs(format: string): string {
+    return this.getSerializer(format).serialize(this.getAllAnnotations(), this.getSerializerContext());
+  }
+
+  /**
+   * Replace all annotations with annotations parsed from an external format.
+   * Throws a CanvasLensError (ANNOTATION) on invalid input; nothing is changed then.
+   */
+  importAnnotationsFrom(format: string, data: string): void {
+    const annotations = this.getSerializer(format).deserialize(data, this.getSerializerContext());
+    this.replaceAnnotations(annotations);
+  }
+
+  /**
+   * Get names of the supported external formats
+   */
+  getSupportedFormats(): string[] {
+    return Array.from(this.serializers.keys());
+  }
+
+  /**
+   * Add a serializer for an external format, replacing any with the same name
+   */
+  registerSerializer(serializer: AnnotationSerializer): void {
+    this.serializers.set(serializer.format.toLowerCase(), serializer);
+  }
+
+  /**
+   * Get the serializer of a format, e.g. the built-in YoloSerializer to read
+   * the class list numbered by the last export
+   */
+  getSerializer(format: string): AnnotationSerializer {
+    const serializer = this.serializers.get(format.toLowerCase());
+    if (!serializer) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `Unsupported annotation format: ${format}`,
+        { format, supportedFormats: this.getSupportedFormats() }
+      );
+    }
+    return serializer;
+  }
+
+  private getSerializerContext(): AnnotationSerializerContext {
+    return { imageData: this.getImageData(), defaultStyle: { ...this.defaultStyle } };
+  }
+
+  /**
+   * Clear and add annotations as one 'import' history step
+   */
+  private replaceAnnotations(annotations: Annotation[]): void {
+    this.batchChanges('import', () => {
+      this.clearAll();
+      annotations.forEach(annotation => this.addAnnotation(annotation));
+    });
+  }
+
+  /**
+   * Extract annotations in natural image coordinates from parsed JSON
+   */
+  private readAnnotationData(data: unknown): Annotation[] {
+    if (Array.isArray(data)) {
+      // Legacy format: migrate world coordinates of the fitted display image
+      return data.map(annotation => this.isValidAnnotation(annotation)
+        ? { ...annotation, points: annotation.points.map(point => this.toImagePoint(point)) }
+        : annotation);
+    }
+
+    const annotationDocument = data as Partial<AnnotationDocument> | null;
+    if (!annotationDocument || typeof annotationDocument !== 'object' || !Array.isArray(annotationDocument.annotations)) {
+      throw new Error('Invalid annotation data format');
+    }
+
+    return annotationDocument.annotations;
+  }
+
   /**
    * Validate annotation object
    */
@@ -833,7 +1586,8 @@ export class AnnotationManager {
 
     const toolConfig = this.toolManager.getToolConfig();
     return toolConfig.rect || toolConfig.arrow || toolConfig.text ||
-      toolConfig.circle || toolConfig.line;
+      toolConfig.circle || toolConfig.line || toolConfig.freehand || toolConfig.highlighter ||
+      toolConfig.polygon || toolConfig.polyline;
   }
 
   /**
@@ -861,15 +1615,19 @@ export class AnnotationManager {
   destroy(): void {
     this.toolManager.destroy();
 
-    this.canvas.removeEventListener('contextmenu', this.handleContextMenu.bind(this) as EventListener);
-    this.canvas.removeEventListener('mousedown', this.handleMouseDown.bind(this) as EventListener, true);
-    this.canvas.removeEventListener('mousemove', this.handleMouseMove.bind(this) as EventListener);
-    this.canvas.removeEventListener('mouseup', this.handleMouseUp.bind(this) as EventListener);
-    document.removeEventListener('keydown', this.handleKeyDown.bind(this));
+    this.canvas.removeEventListener('contextmenu', this.boundContextMenu as EventListener);
+    this.canvas.removeEventListener('pointerdown', this.boundPointerDown as EventListener, true);
+    this.canvas.removeEventListener('pointermove', this.throttledPointerMove as EventListener);
+    this.canvas.removeEventListener('pointerup', this.boundPointerUp as EventListener);
+    this.canvas.removeEventListener('pointercancel', this.boundPointerUp as EventListener);
 
     this.clearAll();
+    this.history.clear();
     this.isDragging = false;
-    this.dragOffset = null;
+    this.dragStartPoint = null;
+    this.dragStartSnapshots = [];
+    this.activeHandle = null;
+    this.marquee = null;
   }
 
   /**
@@ -879,14 +1637,20 @@ export class AnnotationManager {
     MemoryManager.unregisterCleanup(this.cleanupCallback);
 
     // Cleanup throttled function
-    if (this.throttledMouseMove && 'cleanup' in this.throttledMouseMove && this.throttledMouseMove.cleanup) {
-      this.throttledMouseMove.cleanup();
+    if (this.throttledPointerMove && 'cleanup' in this.throttledPointerMove && this.throttledPointerMove.cleanup) {
+      this.throttledPointerMove.cleanup();
     }
 
     this.annotations.clear();
     this.selectedAnnotation = null;
+    this.selectedIds.clear();
     this.isDragging = false;
-    this.dragOffset = null;
+    this.dragStartPoint = null;
+    this.dragStartSnapshots = [];
+    this.activeHandle = null;
+    this.marquee = null;
+    this.history.setOnChange(null);
+    this.history.clear();
   }
 
   /**
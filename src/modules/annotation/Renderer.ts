@@ -1,10 +1,28 @@
 import { Renderer } from '../../core/Renderer';
-import type { Annotation, AnnotationStyle, Point, Rectangle } from '../../types';
+import type { Annotation, AnnotationHandle, AnnotationStyle, Point, Rectangle } from '../../types';
+import { screenRectToWorld } from '../../utils/geometry/coordinate';
 import { performanceMonitor } from '../../utils/performance/performance';
 
 export class AnnotationRenderer {
+  /** Handle size in screen pixels */
+  private static readonly HANDLE_SIZE = 8;
+  /** Opacity of highlighter strokes */
+  static readonly HIGHLIGHTER_OPACITY = 0.4;
+  /** Highlighter strokes are drawn wider than the configured stroke width */
+  static readonly HIGHLIGHTER_WIDTH_FACTOR = 4;
+  /** Arrowhead side length and angle to the shaft */
+  static readonly ARROW_HEAD_LENGTH = 15;
+  static readonly ARROW_HEAD_ANGLE = Math.PI / 6;
+  /** Dash patterns per line style */
+  static readonly LINE_DASH: Record<NonNullable<AnnotationStyle['lineStyle']>, number[]> = {
+    solid: [],
+    dashed: [5, 5],
+    dotted: [2, 2]
+  };
+
   private ctx: CanvasRenderingContext2D;
   private canvas: Renderer;
+  private scaleOverride: number | null = null;
 
   constructor(canvas: Renderer) {
     this.canvas = canvas;
@@ -33,6 +51,13 @@ export class AnnotationRenderer {
       case 'text':
         this.renderText(annotation);
         break;
+      case 'freehand':
+        this.renderFreehand(annotation);
+        break;
+      case 'polygon':
+      case 'polyline':
+        this.renderPolygon(annotation);
+        break;
     }
   }
 
@@ -93,21 +118,8 @@ export class AnnotationRenderer {
    * Get current viewport bounds in world coordinates
    */
   private getViewportBounds(): Rectangle {
-    const viewState = this.canvas.getViewState();
     const canvasSize = this.canvas.getSize();
-
-    // Convert screen coordinates to world coordinates
-    const worldX = -viewState.offsetX / viewState.scale;
-    const worldY = -viewState.offsetY / viewState.scale;
-    const worldWidth = canvasSize.width / viewState.scale;
-    const worldHeight = canvasSize.height / viewState.scale;
-
-    return {
-      x: worldX,
-      y: worldY,
-      width: worldWidth,
-      height: worldHeight
-    };
+    return screenRectToWorld({ x: 0, y: 0, ...canvasSize }, this.canvas.getViewState());
   }
 
   /**
@@ -126,10 +138,10 @@ export class AnnotationRenderer {
   }
 
   /**
-   * Get annotation bounds for culling
+   * Get annotation bounds in world coordinates (used for culling and selection)
    */
-  private getAnnotationBounds(annotation: Annotation): Rectangle {
-    if (annotation.points.length < 2) {
+  getAnnotationBounds(annotation: Annotation): Rectangle {
+    if (annotation.points.length < (annotation.type === 'text' ? 1 : 2)) {
       return { x: 0, y: 0, width: 0, height: 0 };
     }
 
@@ -164,6 +176,20 @@ export class AnnotationRenderer {
           width: Math.abs(end.x - start.x),
           height: Math.abs(end.y - start.y)
         };
+      case 'freehand':
+      case 'polygon':
+      case 'polyline': {
+        const xs = annotation.points.map(point => point.x);
+        const ys = annotation.points.map(point => point.y);
+        const minX = Math.min(...xs);
+        const minY = Math.min(...ys);
+        return {
+          x: minX,
+          y: minY,
+          width: Math.max(...xs) - minX,
+          height: Math.max(...ys) - minY
+        };
+      }
       case 'text': {
         // Calculate text bounds accurately using text metrics
         const text = ((annotation.data as Record<string, unknown>)?.text as string) || '';
@@ -203,23 +229,8 @@ export class AnnotationRenderer {
     this.ctx.lineCap = 'round';
     this.ctx.lineJoin = 'round';
 
-    // Apply line style
-    if (style.lineStyle) {
-      switch (style.lineStyle) {
-        case 'dashed':
-          this.ctx.setLineDash([5, 5]);
-          break;
-        case 'dotted':
-          this.ctx.setLineDash([2, 2]);
-          break;
-        case 'solid':
-        default:
-          this.ctx.setLineDash([]);
-          break;
-      }
-    } else {
-      this.ctx.setLineDash([]); // Default to solid
-    }
+    // Apply line style (default to solid)
+    this.ctx.setLineDash(AnnotationRenderer.LINE_DASH[style.lineStyle ?? 'solid'] ?? []);
 
     if (style.fillColor) {
       this.ctx.fillStyle = style.fillColor;
@@ -236,7 +247,25 @@ export class AnnotationRenderer {
    * Get current view state
    */
   private getViewState(): { scale: number; offsetX: number; offsetY: number } {
-    return this.canvas.getViewState();
+    const viewState = this.canvas.getViewState();
+    return this.scaleOverride !== null ? { ...viewState, scale: this.scaleOverride } : viewState;
+  }
+
+  /**
+   * Render annotations onto another context (e.g. an offscreen export canvas).
+   * Uses view scale 1 so stroke widths and fonts match the initial fitted view.
+   */
+  renderToContext(ctx: CanvasRenderingContext2D, annotations: Annotation[]): void {
+    const previousCtx = this.ctx;
+    this.ctx = ctx;
+    this.scaleOverride = 1;
+
+    try {
+      annotations.forEach(annotation => this.render(annotation));
+    } finally {
+      this.ctx = previousCtx;
+      this.scaleOverride = null;
+    }
   }
 
 
@@ -338,8 +367,8 @@ export class AnnotationRenderer {
 
     // Draw arrowhead
     const angle = Math.atan2(end.y - start.y, end.x - start.x);
-    const arrowLength = 15;
-    const arrowAngle = Math.PI / 6; // 30 degrees
+    const arrowLength = AnnotationRenderer.ARROW_HEAD_LENGTH;
+    const arrowAngle = AnnotationRenderer.ARROW_HEAD_ANGLE;
 
     this.ctx.beginPath();
     this.ctx.moveTo(end.x, end.y);
@@ -377,6 +406,68 @@ export class AnnotationRenderer {
     this.ctx.stroke();
   }
 
+  /**
+   * Render freehand stroke as a smoothed curve
+   */
+  private renderFreehand(annotation: Annotation): void {
+    const points = annotation.points;
+    if (points.length < 2) return;
+
+    const first = points[0]!;
+    const last = points[points.length - 1]!;
+
+    this.ctx.save();
+    if (this.isHighlighter(annotation)) {
+      this.ctx.globalAlpha = AnnotationRenderer.HIGHLIGHTER_OPACITY;
+      this.ctx.lineWidth = this.ctx.lineWidth * AnnotationRenderer.HIGHLIGHTER_WIDTH_FACTOR;
+    }
+
+    this.ctx.beginPath();
+    this.ctx.moveTo(first.x, first.y);
+
+    // Curve through the midpoints of consecutive points, using each point as control point
+    for (let i = 1; i < points.length - 1; i++) {
+      const current = points[i]!;
+      const next = points[i + 1]!;
+      this.ctx.quadraticCurveTo(current.x, current.y, (current.x + next.x) / 2, (current.y + next.y) / 2);
+    }
+
+    this.ctx.lineTo(last.x, last.y);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  /**
+   * Render polygon (closed, optionally filled) or polyline (open) annotation
+   */
+  private renderPolygon(annotation: Annotation): void {
+    if (annotation.points.length < 2) return;
+
+    const first = annotation.points[0]!;
+
+    this.ctx.beginPath();
+    this.ctx.moveTo(first.x, first.y);
+    for (let i = 1; i < annotation.points.length; i++) {
+      const point = annotation.points[i]!;
+      this.ctx.lineTo(point.x, point.y);
+    }
+
+    if (annotation.type === 'polygon') {
+      this.ctx.closePath();
+
+      // Fill if fillColor is specified
+      if (annotation.style.fillColor) {
+        this.ctx.fill();
+      }
+    }
+
+    this.ctx.stroke();
+  }
+
+  private isHighlighter(annotation: Annotation): boolean {
+    return annotation.data?.highlighter === true;
+  }
+
   /**
    * Render text annotation
    */
@@ -455,11 +546,39 @@ export class AnnotationRenderer {
     return distance <= (radius + tolerance);
   }
 
+  /**
+   * Check if a point is inside a polygon annotation (or near its outline)
+   */
+  isPointInPolygon(point: Point, annotation: Annotation): boolean {
+    if (annotation.type !== 'polygon' || annotation.points.length < 3) return false;
+
+    // Ray casting: count crossings of a horizontal ray from the point
+    const points = annotation.points;
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const a = points[i]!;
+      const b = points[j]!;
+      if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    if (inside) return true;
+
+    // Add tolerance for easier selection
+    const tolerance = 5;
+    return points.some((start, i) => {
+      const end = points[(i + 1) % points.length]!;
+      return this.distancePointToLine(point, start, end) <= tolerance;
+    });
+  }
+
   /**
    * Check if a point is near a line annotation
    */
   isPointNearLine(point: Point, annotation: Annotation, threshold: number = 15): boolean {
-    if ((annotation.type !== 'line' && annotation.type !== 'arrow') || annotation.points.length < 2) {
+    const isLineType = annotation.type === 'line' || annotation.type === 'arrow' || annotation.type === 'polyline';
+    if (!isLineType || annotation.points.length < 2) {
       return false;
     }
 
@@ -474,6 +593,27 @@ export class AnnotationRenderer {
     return false;
   }
 
+  /**
+   * Check if a point is near a freehand stroke
+   */
+  isPointNearStroke(point: Point, annotation: Annotation): boolean {
+    if (annotation.type !== 'freehand' || annotation.points.length < 2) return false;
+
+    // Account for the drawn stroke width (which is in screen pixels)
+    const scale = this.getViewState()?.scale || 1;
+    const widthFactor = this.isHighlighter(annotation) ? AnnotationRenderer.HIGHLIGHTER_WIDTH_FACTOR : 1;
+    const threshold = Math.max(10, (annotation.style.strokeWidth * widthFactor) / 2) / scale;
+
+    for (let i = 0; i < annotation.points.length - 1; i++) {
+      const start = annotation.points[i]!;
+      const end = annotation.points[i + 1]!;
+
+      if (this.distancePointToLine(point, start, end) <= threshold) return true;
+    }
+
+    return false;
+  }
+
   /**
    * Calculate distance from point to line segment
    */
@@ -500,6 +640,106 @@ export class AnnotationRenderer {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
+  /**
+   * Get resize/reshape handles of an annotation in world coordinates
+   */
+  getHandles(annotation: Annotation): AnnotationHandle[] {
+    if (annotation.points.length < 2) return [];
+
+    const start = annotation.points[0]!;
+    const end = annotation.points[annotation.points.length - 1]!;
+
+    switch (annotation.type) {
+      case 'rect': {
+        const minX = Math.min(start.x, end.x);
+        const maxX = Math.max(start.x, end.x);
+        const minY = Math.min(start.y, end.y);
+        const maxY = Math.max(start.y, end.y);
+        const midX = (minX + maxX) / 2;
+        const midY = (minY + maxY) / 2;
+
+        return [
+          { type: 'nw', position: { x: minX, y: minY }, cursor: 'nwse-resize' },
+          { type: 'n', position: { x: midX, y: minY }, cursor: 'ns-resize' },
+          { type: 'ne', position: { x: maxX, y: minY }, cursor: 'nesw-resize' },
+          { type: 'e', position: { x: maxX, y: midY }, cursor: 'ew-resize' },
+          { type: 'se', position: { x: maxX, y: maxY }, cursor: 'nwse-resize' },
+          { type: 's', position: { x: midX, y: maxY }, cursor: 'ns-resize' },
+          { type: 'sw', position: { x: minX, y: maxY }, cursor: 'nesw-resize' },
+          { type: 'w', position: { x: minX, y: midY }, cursor: 'ew-resize' }
+        ];
+      }
+      case 'circle': {
+        const radius = Math.sqrt(
+          Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2)
+        );
+
+        return [
+          { type: 'n', position: { x: start.x, y: start.y - radius }, cursor: 'ns-resize' },
+          { type: 'e', position: { x: start.x + radius, y: start.y }, cursor: 'ew-resize' },
+          { type: 's', position: { x: start.x, y: start.y + radius }, cursor: 'ns-resize' },
+          { type: 'w', position: { x: start.x - radius, y: start.y }, cursor: 'ew-resize' }
+        ];
+      }
+      case 'line':
+      case 'arrow':
+        return [
+          { type: 'start', position: { ...start }, cursor: 'crosshair' },
+          { type: 'end', position: { ...end }, cursor: 'crosshair' }
+        ];
+      case 'polygon':
+      case 'polyline':
+        return annotation.points.map((point, index) => ({
+          type: 'vertex',
+          position: { ...point },
+          cursor: 'crosshair',
+          index
+        }));
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Get the handle of an annotation under a point (world coordinates)
+   */
+  hitTestHandle(point: Point, annotation: Annotation): AnnotationHandle | null {
+    // Slightly larger than the drawn handle for easier grabbing
+    const tolerance = AnnotationRenderer.HANDLE_SIZE / (this.getViewState()?.scale || 1);
+
+    return this.getHandles(annotation).find(handle =>
+      Math.abs(point.x - handle.position.x) <= tolerance &&
+      Math.abs(point.y - handle.position.y) <= tolerance
+    ) || null;
+  }
+
+  /**
+   * Render handles of the selected annotation
+   */
+  renderHandles(annotation: Annotation): void {
+    const handles = this.getHandles(annotation);
+    if (handles.length === 0) return;
+
+    // Keep handles the same size on screen regardless of zoom
+    const scale = this.getViewState()?.scale || 1;
+    const size = AnnotationRenderer.HANDLE_SIZE / scale;
+
+    this.ctx.save();
+    this.ctx.setLineDash([]);
+    this.ctx.fillStyle = '#ffffff';
+    this.ctx.strokeStyle = '#00ff00';
+    this.ctx.lineWidth = 1 / scale;
+
+    handles.forEach(handle => {
+      const x = handle.position.x - size / 2;
+      const y = handle.position.y - size / 2;
+      this.ctx.fillRect(x, y, size, size);
+      this.ctx.strokeRect(x, y, size, size);
+    });
+
+    this.ctx.restore();
+  }
+
   /**
    * Check if a point hits any annotation
    */
@@ -512,6 +752,12 @@ export class AnnotationRenderer {
       case 'line':
       case 'arrow':
         return this.isPointNearLine(point, annotation);
+      case 'freehand':
+        return this.isPointNearStroke(point, annotation);
+      case 'polygon':
+        return this.isPointInPolygon(point, annotation);
+      case 'polyline':
+        return this.isPointNearLine(point, annotation);
       case 'text': {
         // Accurate bounding box check for text
         if (annotation.points.length < 1 || !annotation.data?.text) return false;
@@ -0,0 +1,272 @@
+import type { Annotation, AnnotationStyle, CustomImageData, Point, SvgExportOptions } from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import { AnnotationRenderer } from './Renderer';
+import { escapeXml } from './serializers/utils';
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/**
+ * Converts annotations (stored in natural image coordinates) into an SVG document.
+ * Mirrors the geometry drawn by AnnotationRenderer at view scale 1; sizes given in
+ * display pixels (stroke width, fonts, arrowheads) are scaled to natural pixels.
+ */
+export class AnnotationSvgExporter {
+  private imageData: CustomImageData;
+  /** Display-to-natural size factor */
+  private scaleX: number;
+  private scaleY: number;
+  private filters: string[] = [];
+
+  constructor(imageData: CustomImageData) {
+    this.imageData = imageData;
+    this.scaleX = imageData.naturalSize.width / imageData.displaySize.width;
+    this.scaleY = imageData.naturalSize.height / imageData.displaySize.height;
+  }
+
+  /**
+   * Build SVG document for the given annotations
+   */
+  export(annotations: Annotation[], options: SvgExportOptions = {}): string {
+    const { width, height } = this.imageData.naturalSize;
+    this.filters = [];
+
+    const elements = annotations
+      .map(annotation => this.convertAnnotation(annotation))
+      .filter(element => element !== '');
+
+    const content: string[] = [];
+    if (this.filters.length > 0) {
+      content.push(`<defs>${this.filters.join('')}</defs>`);
+    }
+    if (options.includeImage) {
+      content.push(`<image x="0" y="0" width="${width}" height="${height}" href="${this.getImageDataURL()}"/>`);
+    }
+    content.push(...elements);
+
+    return `<svg xmlns="${SVG_NAMESPACE}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + content.join('')
+      + '</svg>';
+  }
+
+  /**
+   * Convert a single annotation into SVG markup
+   */
+  private convertAnnotation(annotation: Annotation): string {
+    switch (annotation.type) {
+      case 'rect':
+        return this.convertRectangle(annotation);
+      case 'circle':
+        return this.convertCircle(annotation);
+      case 'arrow':
+        return this.convertArrow(annotation);
+      case 'line':
+        return this.convertLine(annotation);
+      case 'text':
+        return this.convertText(annotation);
+      case 'freehand':
+        return this.convertFreehand(annotation);
+      case 'polygon':
+      case 'polyline':
+        return this.convertPolygon(annotation);
+      default:
+        return '';
+    }
+  }
+
+  private convertRectangle(annotation: Annotation): string {
+    if (annotation.points.length < 2) return '';
+
+    const start = annotation.points[0]!;
+    const end = annotation.points[1]!;
+    const box = `x="${format(Math.min(start.x, end.x))}" y="${format(Math.min(start.y, end.y))}" `
+      + `width="${format(Math.abs(end.x - start.x))}" height="${format(Math.abs(end.y - start.y))}"`;
+    const { style } = annotation;
+
+    // Shadow is applied to the fill only, the stroke stays crisp
+    const fill = style.fillColor
+      ? `<rect ${box} fill="${escapeXml(style.fillColor)}"${this.getShadowFilter(annotation)}/>`
+      : '';
+
+    return `${this.openGroup(annotation)}${fill}<rect ${box} fill="none"${this.getStrokeAttributes(style)}/></g>`;
+  }
+
+  private convertCircle(annotation: Annotation): string {
+    if (annotation.points.length < 2) return '';
+
+    const center = annotation.points[0]!;
+    const edge = annotation.points[1]!;
+    const radius = Math.sqrt(Math.pow(edge.x - center.x, 2) + Math.pow(edge.y - center.y, 2));
+
+    return `${this.openGroup(annotation)}<circle cx="${format(center.x)}" cy="${format(center.y)}" r="${format(radius)}"`
+      + `${this.getFillAttribute(annotation.style)}${this.getStrokeAttributes(annotation.style)}/></g>`;
+  }
+
+  private convertArrow(annotation: Annotation): string {
+    if (annotation.points.length < 2) return '';
+
+    const from = annotation.points[0]!;
+    const tip = annotation.points[1]!;
+    const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+    const length = AnnotationRenderer.ARROW_HEAD_LENGTH * this.scaleX;
+    const headAngle = AnnotationRenderer.ARROW_HEAD_ANGLE;
+
+    const left = {
+      x: tip.x - length * Math.cos(angle - headAngle),
+      y: tip.y - length * Math.sin(angle - headAngle)
+    };
+    const right = {
+      x: tip.x - length * Math.cos(angle + headAngle),
+      y: tip.y - length * Math.sin(angle + headAngle)
+    };
+    const stroke = this.getStrokeAttributes(annotation.style);
+
+    return `${this.openGroup(annotation)}`
+      + `<line x1="${format(from.x)}" y1="${format(from.y)}" x2="${format(tip.x)}" y2="${format(tip.y)}" fill="none"${stroke}/>`
+      + `<path d="M${formatPoint(tip)} L${formatPoint(left)} M${formatPoint(tip)} L${formatPoint(right)}" fill="none"${stroke}/>`
+      + '</g>';
+  }
+
+  private convertLine(annotation: Annotation): string {
+    if (annotation.points.length < 2) return '';
+
+    const points = annotation.points.map(formatPoint).join(' ');
+    return `${this.openGroup(annotation)}<polyline points="${points}" fill="none"${this.getStrokeAttributes(annotation.style)}/></g>`;
+  }
+
+  private convertPolygon(annotation: Annotation): string {
+    if (annotation.points.length < 2) return '';
+
+    const points = annotation.points.map(formatPoint).join(' ');
+    const fill = annotation.type === 'polygon' ? this.getFillAttribute(annotation.style) : ' fill="none"';
+    return `${this.openGroup(annotation)}<${annotation.type} points="${points}"${fill}${this.getStrokeAttributes(annotation.style)}/></g>`;
+  }
+
+  private convertFreehand(annotation: Annotation): string {
+    const points = annotation.points;
+    if (points.length < 2) return '';
+
+    // Same midpoint quadratic curve as AnnotationRenderer.renderFreehand
+    let path = `M${formatPoint(points[0]!)}`;
+    for (let i = 1; i < points.length - 1; i++) {
+      const current = points[i]!;
+      const next = points[i + 1]!;
+      path += ` Q${formatPoint(current)} ${formatPoint({ x: (current.x + next.x) / 2, y: (current.y + next.y) / 2 })}`;
+    }
+    path += ` L${formatPoint(points[points.length - 1]!)}`;
+
+    const highlighter = annotation.data?.highlighter === true;
+    const widthFactor = highlighter ? AnnotationRenderer.HIGHLIGHTER_WIDTH_FACTOR : 1;
+    const opacity = highlighter ? ` opacity="${AnnotationRenderer.HIGHLIGHTER_OPACITY}"` : '';
+
+    return `${this.openGroup(annotation)}<path d="${path}" fill="none"${opacity}`
+      + `${this.getStrokeAttributes(annotation.style, widthFactor)}/></g>`;
+  }
+
+  private convertText(annotation: Annotation): string {
+    if (annotation.points.length < 1 || !annotation.data?.text) return '';
+
+    const position = annotation.points[0]!;
+    const fontSize = (annotation.style.fontSize || 16) * this.scaleY;
+    const fontFamily = annotation.style.fontFamily || 'Arial, sans-serif';
+
+    return `${this.openGroup(annotation)}<text x="${format(position.x)}" y="${format(position.y)}" `
+      + `font-size="${format(fontSize)}" font-family="${escapeXml(fontFamily)}" fill="${escapeXml(annotation.style.strokeColor)}" xml:space="preserve">`
+      + `${escapeXml(String(annotation.data.text))}</text></g>`;
+  }
+
+  /**
+   * Wrap every annotation in a group carrying its ID and type
+   */
+  private openGroup(annotation: Annotation): string {
+    return `<g id="${escapeXml(annotation.id)}" data-type="${annotation.type}">`;
+  }
+
+  private getFillAttribute(style: AnnotationStyle): string {
+    return ` fill="${style.fillColor ? escapeXml(style.fillColor) : 'none'}"`;
+  }
+
+  /**
+   * Stroke attributes matching AnnotationRenderer.applyStyle
+   */
+  private getStrokeAttributes(style: AnnotationStyle, widthFactor: number = 1): string {
+    let attributes = ` stroke="${escapeXml(style.strokeColor)}"`
+      + ` stroke-width="${format(style.strokeWidth * widthFactor * this.scaleX)}"`
+      + ' stroke-linecap="round" stroke-linejoin="round"';
+
+    const dash = AnnotationRenderer.LINE_DASH[style.lineStyle ?? 'solid'] ?? [];
+    if (dash.length > 0) {
+      attributes += ` stroke-dasharray="${dash.map(value => format(value * this.scaleX)).join(' ')}"`;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Register a drop shadow filter for the annotation and return the filter attribute
+   */
+  private getShadowFilter(annotation: Annotation): string {
+    const { style } = annotation;
+    // Canvas shadows default to transparent black, so nothing is visible without a color
+    if (!style.shadowColor) {
+      return '';
+    }
+
+    const id = `shadow-${this.filters.length + 1}`;
+    // Canvas shadowBlur corresponds to twice the gaussian standard deviation
+    const deviation = ((style.shadowBlur ?? 0) / 2) * this.scaleX;
+    this.filters.push(
+      `<filter id="${id}" x="-50%" y="-50%" width="200%" height="200%">`
+      + `<feDropShadow dx="${format((style.shadowOffsetX ?? 0) * this.scaleX)}" dy="${format((style.shadowOffsetY ?? 0) * this.scaleY)}" `
+      + `stdDeviation="${format(deviation)}" flood-color="${escapeXml(style.shadowColor)}"/>`
+      + '</filter>'
+    );
+
+    return ` filter="url(#${id})"`;
+  }
+
+  /**
+   * Encode the image as base64 data URL for embedding
+   */
+  private getImageDataURL(): string {
+    const { element, naturalSize, tileSource } = this.imageData;
+    if (tileSource && element.naturalWidth !== naturalSize.width) {
+      // Remote tile sources only have a preview in memory
+      throw ErrorHandler.createError(
+        ErrorType.RENDERING,
+        'Cannot embed image in SVG: the full resolution image is not loaded',
+        { naturalSize }
+      );
+    }
+    if (element.src.startsWith('data:')) {
+      return element.src;
+    }
+
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = naturalSize.width;
+      canvas.height = naturalSize.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Failed to get 2D context');
+      }
+      ctx.drawImage(element, 0, 0, naturalSize.width, naturalSize.height);
+      return canvas.toDataURL('image/png');
+    } catch (err) {
+      // Cross-origin images without CORS headers taint the canvas
+      throw ErrorHandler.createError(
+        ErrorType.RENDERING,
+        `Failed to embed image in SVG${err instanceof Error ? `: ${err.message}` : ''}`,
+        { originalError: err, src: element.src }
+      );
+    }
+  }
+}
+
+function format(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatPoint(point: Point): string {
+  return `${format(point.x)},${format(point.y)}`;
+}
@@ -1,3 +1,6 @@
 // Annotation module exports
 export { AnnotationManager } from './Manager';
+export { AnnotationHistory } from './History';
 export { AnnotationRenderer } from './Renderer';
+export { AnnotationSvgExporter } from './SvgExporter';
+export { CocoSerializer, VocSerializer, WebAnnotationSerializer, YoloSerializer } from './serializers';
@@ -0,0 +1,288 @@
+import type { Annotation, AnnotationSerializer, AnnotationSerializerContext, Point } from '../../../types';
+import { ErrorType } from '../../../types';
+import { ErrorHandler } from '../../../utils/core/error-handler';
+import { getCategoryName, getRectBox, requireImageData } from './utils';
+
+interface CocoImage {
+  id: number;
+  file_name: string;
+  width: number;
+  height: number;
+}
+
+interface CocoAnnotation {
+  id: number;
+  image_id: number;
+  category_id: number;
+  bbox: [number, number, number, number];
+  area: number;
+  iscrowd: 0 | 1;
+  segmentation: number[][] | Record<string, unknown>;
+  attributes?: Record<string, unknown>;
+}
+
+interface CocoCategory {
+  id: number;
+  name: string;
+}
+
+interface CocoDataset {
+  images: CocoImage[];
+  annotations: CocoAnnotation[];
+  categories: CocoCategory[];
+}
+
+/** Open shapes exported as segmentation; their type is kept in `attributes` */
+const OPEN_SHAPE_TYPES: ReadonlyArray<Annotation['type']> = ['polyline', 'freehand'];
+
+/**
+ * COCO object detection format: `rect` annotations map to `bbox`,
+ * polygon-like shapes to `segmentation`, `data.category` to `categories`.
+ * Other annotation types have no COCO equivalent and are skipped.
+ */
+export class CocoSerializer implements AnnotationSerializer {
+  readonly format = 'coco';
+
+  /**
+   * Serialize annotations as a single-image COCO dataset
+   */
+  serialize(annotations: Annotation[], context: AnnotationSerializerContext): string {
+    const imageData = requireImageData(context, this.format);
+    const categories: CocoCategory[] = [];
+    const cocoAnnotations: CocoAnnotation[] = [];
+
+    const getCategoryId = (annotation: Annotation): number => {
+      const name = getCategoryName(annotation);
+      let category = categories.find(c => c.name === name);
+      if (!category) {
+        category = { id: categories.length + 1, name };
+        categories.push(category);
+      }
+      return category.id;
+    };
+
+    annotations.forEach(annotation => {
+      const geometry = this.toCocoGeometry(annotation);
+      if (!geometry) return;
+
+      cocoAnnotations.push({
+        id: cocoAnnotations.length + 1,
+        image_id: 1,
+        category_id: getCategoryId(annotation),
+        iscrowd: 0,
+        ...geometry
+      });
+    });
+
+    const dataset: CocoDataset = {
+      images: [{
+        id: 1,
+        file_name: imageData.fileName || '',
+        width: imageData.naturalSize.width,
+        height: imageData.naturalSize.height
+      }],
+      annotations: cocoAnnotations,
+      categories
+    };
+
+    return JSON.stringify(dataset, null, 2);
+  }
+
+  /**
+   * Parse the annotations of the COCO image matching the loaded image
+   */
+  deserialize(data: string, context: AnnotationSerializerContext): Annotation[] {
+    const dataset = this.parseDataset(data);
+    const image = this.findImage(dataset, context);
+    const categories = new Map(dataset.categories.map(category => [category.id, category.name]));
+
+    // Rescale if the dataset was made for a different resolution of the same image
+    const naturalSize = context.imageData?.naturalSize;
+    const scale = naturalSize && image.width > 0 && image.height > 0
+      ? { x: naturalSize.width / image.width, y: naturalSize.height / image.height }
+      : { x: 1, y: 1 };
+
+    const annotations: Annotation[] = [];
+    dataset.annotations.forEach((cocoAnnotation, index) => {
+      if (!cocoAnnotation || typeof cocoAnnotation !== 'object' || Array.isArray(cocoAnnotation)) {
+        throw ErrorHandler.createError(
+          ErrorType.ANNOTATION,
+          `Invalid COCO annotation at annotations[${index}]: expected an object`,
+          { format: this.format, index, value: cocoAnnotation }
+        );
+      }
+      if (cocoAnnotation.image_id !== image.id) return;
+
+      const category = categories.get(cocoAnnotation.category_id);
+      const base = {
+        style: { ...context.defaultStyle },
+        data: {
+          ...(category !== undefined && { category }),
+          cocoId: cocoAnnotation.id
+        }
+      };
+
+      const polygons = this.getPolygons(cocoAnnotation);
+      if (polygons.length > 0) {
+        const type = this.getShapeType(cocoAnnotation);
+        polygons.forEach((polygon, polygonIndex) => {
+          annotations.push({
+            id: polygons.length > 1 ? `coco-${cocoAnnotation.id}-${polygonIndex + 1}` : `coco-${cocoAnnotation.id}`,
+            type,
+            points: polygon.map(point => ({ x: point.x * scale.x, y: point.y * scale.y })),
+            ...base
+          });
+        });
+        return;
+      }
+
+      const bbox = this.validateBbox(cocoAnnotation.bbox, index);
+      annotations.push({
+        id: `coco-${cocoAnnotation.id}`,
+        type: 'rect',
+        points: [
+          { x: bbox[0] * scale.x, y: bbox[1] * scale.y },
+          { x: (bbox[0] + bbox[2]) * scale.x, y: (bbox[1] + bbox[3]) * scale.y }
+        ],
+        ...base
+      });
+    });
+
+    return annotations;
+  }
+
+  /**
+   * Get bbox, area and segmentation for supported annotation types
+   */
+  private toCocoGeometry(
+    annotation: Annotation
+  ): Pick<CocoAnnotation, 'bbox' | 'area' | 'segmentation' | 'attributes'> | null {
+    const box = getRectBox(annotation);
+    if (box) {
+      return { bbox: [box.x, box.y, box.width, box.height], area: box.width * box.height, segmentation: [] };
+    }
+
+    const isPolygonLike = annotation.type === 'polygon' || annotation.type === 'polyline' || annotation.type === 'freehand';
+    if (isPolygonLike && annotation.points.length >= 3) {
+      const xs = annotation.points.map(point => point.x);
+      const ys = annotation.points.map(point => point.y);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return {
+        bbox: [minX, minY, Math.max(...xs) - minX, Math.max(...ys) - minY],
+        area: this.getPolygonArea(annotation.points),
+        segmentation: [annotation.points.flatMap(point => [point.x, point.y])],
+        ...(OPEN_SHAPE_TYPES.includes(annotation.type) && { attributes: { type: annotation.type } })
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Annotation type of a segmentation: the open shape recorded on export, or polygon
+   */
+  private getShapeType(cocoAnnotation: CocoAnnotation): Annotation['type'] {
+    const type = cocoAnnotation.attributes?.['type'];
+    return OPEN_SHAPE_TYPES.find(openType => openType === type) ?? 'polygon';
+  }
+
+  /**
+   * Shoelace formula
+   */
+  private getPolygonArea(points: Point[]): number {
+    let sum = 0;
+    points.forEach((point, i) => {
+      const next = points[(i + 1) % points.length]!;
+      sum += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(sum) / 2;
+  }
+
+  /**
+   * Polygon segmentations as point lists; RLE (crowd) masks fall back to bbox
+   */
+  private getPolygons(cocoAnnotation: CocoAnnotation): Point[][] {
+    if (!Array.isArray(cocoAnnotation.segmentation)) return [];
+
+    return cocoAnnotation.segmentation
+      .filter(polygon => Array.isArray(polygon) && polygon.length >= 6)
+      .map(polygon => {
+        const points: Point[] = [];
+        for (let i = 0; i + 1 < polygon.length; i += 2) {
+          points.push({ x: Number(polygon[i]), y: Number(polygon[i + 1]) });
+        }
+        return points;
+      });
+  }
+
+  private parseDataset(data: string): CocoDataset {
+    let parsed: Partial<CocoDataset>;
+    try {
+      parsed = JSON.parse(data);
+    } catch (err) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `Invalid COCO JSON: ${err instanceof Error ? err.message : String(err)}`,
+        { format: this.format }
+      );
+    }
+
+    if (!parsed || !Array.isArray(parsed.images) || !Array.isArray(parsed.annotations)) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        'Invalid COCO dataset: "images" and "annotations" arrays are required',
+        { format: this.format }
+      );
+    }
+
+    return {
+      images: parsed.images,
+      annotations: parsed.annotations,
+      categories: Array.isArray(parsed.categories) ? parsed.categories : []
+    };
+  }
+
+  /**
+   * Pick the image entry by file name, falling back to the only image
+   */
+  private findImage(dataset: CocoDataset, context: AnnotationSerializerContext): CocoImage {
+    const fileName = context.imageData?.fileName;
+    const match = fileName ? dataset.images.find(candidate => candidate.file_name === fileName) : undefined;
+    if (match) return match;
+
+    if (dataset.images.length === 0) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        'Invalid COCO dataset: no image entries',
+        { format: this.format }
+      );
+    }
+
+    if (dataset.images.length > 1) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `No COCO image entry matches "${fileName ?? ''}" among ${dataset.images.length} images`,
+        { format: this.format, value: fileName }
+      );
+    }
+
+    return dataset.images[0]!;
+  }
+
+  private validateBbox(bbox: unknown, index: number): [number, number, number, number] {
+    const isValid = Array.isArray(bbox) && bbox.length === 4 &&
+      bbox.every(value => typeof value === 'number' && Number.isFinite(value)) &&
+      bbox[2] >= 0 && bbox[3] >= 0;
+
+    if (!isValid) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `Invalid COCO bbox at annotations[${index}]: ${JSON.stringify(bbox)}`,
+        { format: this.format, index, value: bbox }
+      );
+    }
+
+    return bbox as [number, number, number, number];
+  }
+}
@@ -0,0 +1,194 @@
+import type { Annotation, AnnotationSerializer, AnnotationSerializerContext, CanvasLensError, Size } from '../../../types';
+import { ErrorType } from '../../../types';
+import { ErrorHandler } from '../../../utils/core/error-handler';
+import { escapeXml, getCategoryName, getRectBox, requireImageData } from './utils';
+
+const BOX_FIELDS = ['xmin', 'ymin', 'xmax', 'ymax'] as const;
+
+/**
+ * Comments, CDATA sections and declarations, which may contain text that
+ * looks like tags, or else a start, end or empty-element tag
+ */
+const MARKUP_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][\s\S]*?>|<(\/?)([^\s/>]+)(?:"[^"]*"|'[^']*'|[^'">])*?(\/?)>/g;
+
+/**
+ * Pascal VOC XML format: one `<object>` with a `<bndbox>` per `rect` annotation,
+ * `data.category` as the object `<name>`. Other annotation types are skipped.
+ */
+export class VocSerializer implements AnnotationSerializer {
+  readonly format = 'voc';
+
+  /**
+   * Serialize annotations as a VOC `<annotation>` document
+   */
+  serialize(annotations: Annotation[], context: AnnotationSerializerContext): string {
+    const imageData = requireImageData(context, this.format);
+    const lines = [
+      '<annotation>',
+      `  <filename>${escapeXml(imageData.fileName || '')}</filename>`,
+      '  <size>',
+      `    <width>${imageData.naturalSize.width}</width>`,
+      `    <height>${imageData.naturalSize.height}</height>`,
+      '    <depth>3</depth>',
+      '  </size>'
+    ];
+
+    annotations.forEach(annotation => {
+      const box = getRectBox(annotation);
+      if (!box) return;
+
+      lines.push(
+        '  <object>',
+        `    <name>${escapeXml(getCategoryName(annotation))}</name>`,
+        '    <pose>Unspecified</pose>',
+        '    <truncated>0</truncated>',
+        `    <difficult>${annotation.data?.difficult === true ? 1 : 0}</difficult>`,
+        '    <bndbox>',
+        `      <xmin>${box.x}</xmin>`,
+        `      <ymin>${box.y}</ymin>`,
+        `      <xmax>${box.x + box.width}</xmax>`,
+        `      <ymax>${box.y + box.height}</ymax>`,
+        '    </bndbox>',
+        '  </object>'
+      );
+    });
+
+    lines.push('</annotation>');
+    return lines.join('\n');
+  }
+
+  /**
+   * Parse the objects of a VOC document into `rect` annotations
+   */
+  deserialize(data: string, context: AnnotationSerializerContext): Annotation[] {
+    const root = this.parseDocument(data);
+    const objectLines = this.getObjectLines(data);
+
+    // Rescale if the document was made for a different resolution of the same image
+    const size = this.readSize(root);
+    const naturalSize = context.imageData?.naturalSize;
+    const scale = naturalSize && size
+      ? { x: naturalSize.width / size.width, y: naturalSize.height / size.height }
+      : { x: 1, y: 1 };
+
+    const objects = Array.from(root.children).filter(element => element.tagName === 'object');
+    return objects.map((object, index) => {
+      const line = objectLines[index];
+      const name = this.getChildText(object, 'name');
+      if (!name) {
+        throw this.createError(`Invalid VOC object at line ${line}: missing <name>`, line, name);
+      }
+
+      const bndbox = this.getChild(object, 'bndbox');
+      if (!bndbox) {
+        throw this.createError(`Invalid VOC object "${name}" at line ${line}: missing <bndbox>`, line, null);
+      }
+
+      const [xmin, ymin, xmax, ymax] = BOX_FIELDS.map(field => {
+        const text = this.getChildText(bndbox, field);
+        const value = text !== null && text !== '' ? Number(text) : NaN;
+        if (!Number.isFinite(value)) {
+          throw this.createError(`Invalid VOC <${field}> of "${name}" at line ${line}: ${JSON.stringify(text)}`, line, text);
+        }
+        return value;
+      }) as [number, number, number, number];
+
+      if (xmax < xmin || ymax < ymin) {
+        throw this.createError(
+          `Invalid VOC <bndbox> of "${name}" at line ${line}: max is smaller than min`,
+          line,
+          { xmin, ymin, xmax, ymax }
+        );
+      }
+
+      return {
+        id: `voc-${index + 1}`,
+        type: 'rect',
+        points: [
+          { x: xmin * scale.x, y: ymin * scale.y },
+          { x: xmax * scale.x, y: ymax * scale.y }
+        ],
+        style: { ...context.defaultStyle },
+        data: {
+          category: name,
+          ...(this.getChildText(object, 'difficult') === '1' && { difficult: true })
+        }
+      };
+    });
+  }
+
+  private parseDocument(data: string): Element {
+    const xml = new DOMParser().parseFromString(data, 'application/xml');
+    const parserError = xml.getElementsByTagName('parsererror')[0];
+    if (parserError) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `Invalid VOC XML: ${parserError.textContent?.trim() || 'parse error'}`,
+        { format: this.format }
+      );
+    }
+
+    const root = xml.documentElement;
+    if (root.tagName !== 'annotation') {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `Invalid VOC document: expected <annotation> root, got <${root.tagName}>`,
+        { format: this.format, value: root.tagName }
+      );
+    }
+
+    return root;
+  }
+
+  /**
+   * Image size the boxes refer to, if given
+   */
+  private readSize(root: Element): Size | null {
+    const size = this.getChild(root, 'size');
+    if (!size) return null;
+
+    const width = Number(this.getChildText(size, 'width'));
+    const height = Number(this.getChildText(size, 'height'));
+    return width > 0 && height > 0 ? { width, height } : null;
+  }
+
+  /**
+   * Source line of every `<object>` directly inside the root, in document order.
+   * The DOM does not keep positions, so the raw text is walked tag by tag,
+   * skipping comments and CDATA sections like the parser does.
+   */
+  private getObjectLines(data: string): number[] {
+    const lines: number[] = [];
+    const pattern = new RegExp(MARKUP_PATTERN);
+    let depth = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(data)) !== null) {
+      const [, closing, tagName, selfClosing] = match;
+      if (!tagName) continue;
+
+      if (closing) {
+        depth--;
+        continue;
+      }
+      if (depth === 1 && tagName === 'object') {
+        lines.push(data.slice(0, match.index).split('\n').length);
+      }
+      if (!selfClosing) {
+        depth++;
+      }
+    }
+    return lines;
+  }
+
+  private getChild(element: Element, tagName: string): Element | null {
+    return Array.from(element.children).find(child => child.tagName === tagName) ?? null;
+  }
+
+  private getChildText(element: Element, tagName: string): string | null {
+    return this.getChild(element, tagName)?.textContent?.trim() ?? null;
+  }
+
+  private createError(message: string, line: number | undefined, value: unknown): CanvasLensError {
+    return ErrorHandler.createError(ErrorType.ANNOTATION, message, { format: this.format, line, value });
+  }
+}
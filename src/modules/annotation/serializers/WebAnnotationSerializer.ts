@@ -0,0 +1,339 @@
+import type {
+  Annotation,
+  AnnotationSerializer,
+  AnnotationSerializerContext,
+  AnnotationStyle,
+  CanvasLensError,
+  Point
+} from '../../../types';
+import { ErrorType } from '../../../types';
+import { ErrorHandler } from '../../../utils/core/error-handler';
+import { getRectBox, requireImageData } from './utils';
+
+const ANNO_CONTEXT = 'http://www.w3.org/ns/anno.jsonld';
+const EXTENSION_PREFIX = 'canvaslens';
+const EXTENSION_NAMESPACE = 'https://github.com/koniz-dev/canvaslens/ns#';
+const MEDIA_FRAGMENTS = 'http://www.w3.org/TR/media-frags/';
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+const ANNOTATION_TYPES: ReadonlyArray<Annotation['type']> = [
+  'rect', 'arrow', 'text', 'circle', 'line', 'freehand', 'polygon', 'polyline'
+];
+
+interface Selector {
+  type: string;
+  value: string;
+  conformsTo?: string;
+}
+
+interface TextualBody {
+  type: 'TextualBody';
+  value: string;
+  format?: string;
+  purpose?: string;
+}
+
+interface WebAnnotation {
+  id?: string;
+  type?: string | string[];
+  motivation?: string | string[];
+  body?: TextualBody | TextualBody[];
+  target?: string | { source?: string; selector?: Selector | Selector[] } | Array<string | { source?: string; selector?: Selector | Selector[] }>;
+  [property: string]: unknown;
+}
+
+/**
+ * W3C Web Annotation Data Model (JSON-LD), as used by IIIF viewers and annotation servers.
+ * Exports an `AnnotationPage` of `oa:Annotation`s targeting the image URL:
+ * `rect` and `text` annotations use a `FragmentSelector` (`xywh=`), other shapes an
+ * `SvgSelector`. Text and `data.category` become `TextualBody`s; the annotation type,
+ * style and remaining data are kept in `canvaslens:` extension properties.
+ */
+export class WebAnnotationSerializer implements AnnotationSerializer {
+  readonly format = 'w3c';
+
+  /**
+   * Serialize annotations as a JSON-LD `AnnotationPage`
+   */
+  serialize(annotations: Annotation[], context: AnnotationSerializerContext): string {
+    const source = requireImageData(context, this.format).element.src;
+
+    const page = {
+      '@context': [ANNO_CONTEXT, { [EXTENSION_PREFIX]: EXTENSION_NAMESPACE }],
+      type: 'AnnotationPage',
+      items: annotations.map(annotation => this.toWebAnnotation(annotation, source))
+    };
+
+    return JSON.stringify(page, null, 2);
+  }
+
+  /**
+   * Parse a single annotation, an array, an `AnnotationPage` or an `AnnotationCollection`.
+   * Annotations targeting another image are skipped when some target the loaded image.
+   */
+  deserialize(data: string, context: AnnotationSerializerContext): Annotation[] {
+    const items = this.parseItems(data);
+    const source = context.imageData?.element.src;
+    const matchesImage = (item: WebAnnotation) => source !== undefined && this.getTarget(item).source === source;
+    const useAll = !items.some(matchesImage);
+
+    const annotations: Annotation[] = [];
+    items.forEach((item, index) => {
+      if (!useAll && !matchesImage(item)) return;
+      annotations.push(this.fromWebAnnotation(item, index, context));
+    });
+    return annotations;
+  }
+
+  private toWebAnnotation(annotation: Annotation, source: string): WebAnnotation {
+    const { text, category, ...data } = annotation.data ?? {};
+    const bodies: TextualBody[] = [];
+    if (annotation.type === 'text' && text !== undefined) {
+      bodies.push({ type: 'TextualBody', value: String(text), format: 'text/plain', purpose: 'commenting' });
+    }
+    if (category !== undefined) {
+      bodies.push({ type: 'TextualBody', value: String(category), purpose: 'tagging' });
+    }
+
+    return {
+      id: annotation.id,
+      type: 'Annotation',
+      motivation: bodies.some(body => body.purpose === 'commenting') ? 'commenting' : 'highlighting',
+      ...(bodies.length > 0 && { body: bodies.length === 1 ? bodies[0]! : bodies }),
+      target: { source, selector: this.toSelector(annotation) },
+      [`${EXTENSION_PREFIX}:type`]: annotation.type,
+      [`${EXTENSION_PREFIX}:style`]: annotation.style,
+      ...(Object.keys(data).length > 0 && { [`${EXTENSION_PREFIX}:data`]: data })
+    };
+  }
+
+  private toSelector(annotation: Annotation): Selector {
+    const box = getRectBox(annotation);
+    if (box) {
+      return this.fragmentSelector(box.x, box.y, box.width, box.height);
+    }
+
+    const points = annotation.points;
+    if (annotation.type === 'text') {
+      // Text is anchored at a point; the rendered size depends on the viewer
+      return this.fragmentSelector(points[0]?.x ?? 0, points[0]?.y ?? 0, 0, 0);
+    }
+
+    let shape: string;
+    if (annotation.type === 'circle' && points.length >= 2) {
+      const center = points[0]!;
+      const edge = points[1]!;
+      const radius = Math.sqrt(Math.pow(edge.x - center.x, 2) + Math.pow(edge.y - center.y, 2));
+      shape = `<circle cx="${center.x}" cy="${center.y}" r="${radius}"/>`;
+    } else {
+      const element = annotation.type === 'polygon' ? 'polygon' : 'polyline';
+      shape = `<${element} points="${points.map(point => `${point.x},${point.y}`).join(' ')}"/>`;
+    }
+
+    return { type: 'SvgSelector', value: `<svg xmlns="${SVG_NAMESPACE}">${shape}</svg>` };
+  }
+
+  private fragmentSelector(x: number, y: number, width: number, height: number): Selector {
+    return { type: 'FragmentSelector', conformsTo: MEDIA_FRAGMENTS, value: `xywh=pixel:${x},${y},${width},${height}` };
+  }
+
+  private fromWebAnnotation(item: WebAnnotation, index: number, context: AnnotationSerializerContext): Annotation {
+    if (!item || typeof item !== 'object') {
+      throw this.createError(`Invalid Web Annotation at items[${index}]: expected an object`, index, item);
+    }
+
+    const { selector, fragment } = this.getTarget(item);
+    const geometry = selector?.type === 'SvgSelector'
+      ? this.parseSvgSelector(selector.value, index)
+      : this.parseFragment(selector?.value ?? fragment, index, context);
+
+    const extensionType = item[`${EXTENSION_PREFIX}:type`];
+    const type = ANNOTATION_TYPES.includes(extensionType as Annotation['type'])
+      ? extensionType as Annotation['type']
+      : geometry.type;
+    const points = type === 'text' ? geometry.points.slice(0, 1) : geometry.points;
+
+    const bodies = item.body === undefined ? [] : Array.isArray(item.body) ? item.body : [item.body];
+    const comment = bodies.find(body => body?.purpose !== 'tagging' && typeof body?.value === 'string');
+    const tag = bodies.find(body => body?.purpose === 'tagging' && typeof body?.value === 'string');
+    const extensionData = item[`${EXTENSION_PREFIX}:data`];
+    const data: Record<string, unknown> = {
+      ...(isRecord(extensionData) && extensionData),
+      ...(comment && { text: comment.value }),
+      ...(tag && { category: tag.value })
+    };
+
+    const style = item[`${EXTENSION_PREFIX}:style`];
+    return {
+      id: typeof item.id === 'string' && item.id !== '' ? item.id : `w3c-${index + 1}`,
+      type,
+      points,
+      style: {
+        ...context.defaultStyle,
+        ...(isRecord(style) && style as Partial<AnnotationStyle>)
+      },
+      ...(Object.keys(data).length > 0 && { data })
+    };
+  }
+
+  private parseItems(data: string): WebAnnotation[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (err) {
+      throw ErrorHandler.createError(
+        ErrorType.ANNOTATION,
+        `Invalid Web Annotation JSON: ${err instanceof Error ? err.message : String(err)}`,
+        { format: this.format }
+      );
+    }
+
+    if (Array.isArray(parsed)) return parsed;
+
+    const container = parsed as { type?: unknown; items?: unknown; first?: { items?: unknown } } | null;
+    if (container && Array.isArray(container.items)) return container.items;
+    if (container && Array.isArray(container.first?.items)) return container.first.items as WebAnnotation[];
+    if (container && container.type === 'Annotation') return [container as WebAnnotation];
+
+    throw ErrorHandler.createError(
+      ErrorType.ANNOTATION,
+      'Invalid Web Annotation data: expected an Annotation, an array or an AnnotationPage',
+      { format: this.format }
+    );
+  }
+
+  /**
+   * First target: source IRI plus either a selector or a `#xywh=` IRI fragment
+   */
+  private getTarget(item: WebAnnotation): { source?: string; selector?: Selector; fragment?: string } {
+    const target = Array.isArray(item?.target) ? item.target[0] : item?.target;
+
+    if (typeof target === 'string') {
+      const hashIndex = target.indexOf('#');
+      return hashIndex === -1
+        ? { source: target }
+        : { source: target.slice(0, hashIndex), fragment: target.slice(hashIndex + 1) };
+    }
+
+    if (!target || typeof target !== 'object') return {};
+
+    const selectors = Array.isArray(target.selector) ? target.selector : target.selector ? [target.selector] : [];
+    const selector = selectors.find(candidate => candidate?.type === 'FragmentSelector' || candidate?.type === 'SvgSelector');
+    return {
+      ...(typeof target.source === 'string' && { source: target.source }),
+      ...(selector && { selector })
+    };
+  }
+
+  /**
+   * Media fragment `xywh=[pixel:|percent:]x,y,w,h` as a rect
+   */
+  private parseFragment(
+    fragment: string | undefined,
+    index: number,
+    context: AnnotationSerializerContext
+  ): { type: Annotation['type']; points: Point[] } {
+    const match = /^xywh=(?:(pixel|percent):)?([^,]+),([^,]+),([^,]+),([^,]+)$/.exec(fragment ?? '');
+    const values = match ? match.slice(2).map(Number) : [];
+    if (!match || !values.every(value => Number.isFinite(value)) || values[2]! < 0 || values[3]! < 0) {
+      throw this.createError(
+        `Invalid Web Annotation target at items[${index}]: expected an xywh= fragment or SvgSelector, got ${JSON.stringify(fragment)}`,
+        index,
+        fragment
+      );
+    }
+
+    let [x, y, width, height] = values as [number, number, number, number];
+    if (match[1] === 'percent') {
+      const { naturalSize } = requireImageData(context, this.format);
+      x = x / 100 * naturalSize.width;
+      width = width / 100 * naturalSize.width;
+      y = y / 100 * naturalSize.height;
+      height = height / 100 * naturalSize.height;
+    }
+
+    return { type: 'rect', points: [{ x, y }, { x: x + width, y: y + height }] };
+  }
+
+  /**
+   * First shape of an SvgSelector; paths may only use absolute M/L/Z commands
+   */
+  private parseSvgSelector(svg: string, index: number): { type: Annotation['type']; points: Point[] } {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+    const shape = doc.getElementsByTagName('parsererror').length === 0
+      ? Array.from(doc.documentElement.children)[0]
+      : undefined;
+    const invalid = (reason: string) => this.createError(
+      `Invalid SvgSelector at items[${index}]: ${reason}`,
+      index,
+      svg
+    );
+    if (!shape) {
+      throw invalid('no shape element');
+    }
+
+    const number = (name: string): number => {
+      const value = Number(shape.getAttribute(name));
+      if (shape.getAttribute(name) === null || !Number.isFinite(value)) {
+        throw invalid(`<${shape.tagName}> has invalid ${name}="${shape.getAttribute(name)}"`);
+      }
+      return value;
+    };
+
+    switch (shape.tagName) {
+      case 'rect': {
+        const x = number('x');
+        const y = number('y');
+        return { type: 'rect', points: [{ x, y }, { x: x + number('width'), y: y + number('height') }] };
+      }
+      case 'circle': {
+        const cx = number('cx');
+        const cy = number('cy');
+        return { type: 'circle', points: [{ x: cx, y: cy }, { x: cx + number('r'), y: cy }] };
+      }
+      case 'line':
+        return { type: 'line', points: [{ x: number('x1'), y: number('y1') }, { x: number('x2'), y: number('y2') }] };
+      case 'polygon':
+      case 'polyline': {
+        const points = this.parseCoordinates((shape.getAttribute('points') ?? '').trim().split(/[\s,]+/));
+        if (!points || points.length < 2) {
+          throw invalid(`<${shape.tagName}> has invalid points="${shape.getAttribute('points')}"`);
+        }
+        return { type: shape.tagName, points };
+      }
+      case 'path': {
+        const d = shape.getAttribute('d') ?? '';
+        const closed = /z\s*$/i.test(d);
+        const tokens = d.replace(/[MLZ]/g, ' ').trim().split(/[\s,]+/);
+        const points = /^[\sMLZ\d.,eE+-]*$/.test(d) ? this.parseCoordinates(tokens) : null;
+        if (!points || points.length < 2) {
+          throw invalid(`unsupported path d="${d}"`);
+        }
+        return { type: closed ? 'polygon' : 'freehand', points };
+      }
+      default:
+        throw invalid(`unsupported shape <${shape.tagName}>`);
+    }
+  }
+
+  private parseCoordinates(tokens: string[]): Point[] | null {
+    const values = tokens.map(Number);
+    if (values.length % 2 !== 0 || !values.every(value => Number.isFinite(value))) {
+      return null;
+    }
+
+    const points: Point[] = [];
+    for (let i = 0; i < values.length; i += 2) {
+      points.push({ x: values[i]!, y: values[i + 1]! });
+    }
+    return points;
+  }
+
+  private createError(message: string, index: number, value: unknown): CanvasLensError {
+    return ErrorHandler.createError(ErrorType.ANNOTATION, message, { format: this.format, index, value });
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
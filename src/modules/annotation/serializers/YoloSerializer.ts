@@ -0,0 +1,174 @@
+import type { Annotation, AnnotationSerializer, AnnotationSerializerContext, CanvasLensError } from '../../../types';
+import { ErrorType } from '../../../types';
+import { ErrorHandler } from '../../../utils/core/error-handler';
+import { getCategoryName, getRectBox, requireImageData } from './utils';
+
+/**
+ * YOLO txt format: one `class cx cy w h` line per `rect` annotation with
+ * coordinates normalized to the natural image size. Other annotation types are skipped.
+ *
+ * YOLO files only store class indices; pass the class list (the contents of
+ * `classes.txt`) to map them to and from `data.category` names. Without one,
+ * the names are numbered in order of first appearance and the list used is
+ * available from `getClasses()` after serializing.
+ */
+export class YoloSerializer implements AnnotationSerializer {
+  readonly format = 'yolo';
+  private classes: string[];
+  private generatedClasses: string[] = [];
+
+  constructor(classes: string[] = []) {
+    this.classes = [...classes];
+  }
+
+  /**
+   * Class list of the indices: the one passed to the constructor, or else the
+   * names numbered by the last `serialize` call. Pass it to a new serializer to
+   * import the labels with the same names.
+   */
+  getClasses(): string[] {
+    return [...(this.classes.length > 0 ? this.classes : this.generatedClasses)];
+  }
+
+  /**
+   * Serialize annotations as YOLO label lines
+   */
+  serialize(annotations: Annotation[], context: AnnotationSerializerContext): string {
+    const { width, height } = requireImageData(context, this.format).naturalSize;
+    const boxes = annotations.filter(annotation => getRectBox(annotation));
+    const seenCategories: string[] = [];
+    const lines: string[] = [];
+
+    if (this.classes.length === 0) {
+      this.checkCategories(boxes);
+    }
+
+    boxes.forEach(annotation => {
+      const box = getRectBox(annotation);
+      if (!box) return;
+
+      const classIndex = this.getClassIndex(getCategoryName(annotation), seenCategories);
+      const values = [
+        (box.x + box.width / 2) / width,
+        (box.y + box.height / 2) / height,
+        box.width / width,
+        box.height / height
+      ];
+      lines.push([classIndex, ...values.map(formatValue)].join(' '));
+    });
+
+    this.generatedClasses = seenCategories;
+    return lines.join('\n');
+  }
+
+  /**
+   * Parse YOLO label lines into `rect` annotations; blank and `#` lines are ignored
+   */
+  deserialize(data: string, context: AnnotationSerializerContext): Annotation[] {
+    const { width, height } = requireImageData(context, this.format).naturalSize;
+    const annotations: Annotation[] = [];
+
+    data.split(/\r?\n/).forEach((rawLine, index) => {
+      const text = rawLine.trim();
+      if (text === '' || text.startsWith('#')) return;
+
+      const line = index + 1;
+      const tokens = text.split(/\s+/);
+      if (tokens.length !== 5) {
+        throw this.createError(`Invalid YOLO line ${line}: expected 5 values, got ${tokens.length}`, line, text);
+      }
+
+      const classIndex = Number(tokens[0]);
+      if (!Number.isInteger(classIndex) || classIndex < 0) {
+        throw this.createError(`Invalid YOLO line ${line}: class must be a non-negative integer, got "${tokens[0]}"`, line, tokens[0]);
+      }
+
+      const [cx, cy, w, h] = tokens.slice(1).map(token => {
+        const value = Number(token);
+        if (!Number.isFinite(value) || value < 0 || value > 1) {
+          throw this.createError(`Invalid YOLO line ${line}: "${token}" is not a normalized coordinate`, line, token);
+        }
+        return value;
+      }) as [number, number, number, number];
+
+      annotations.push({
+        id: `yolo-${annotations.length + 1}`,
+        type: 'rect',
+        points: [
+          { x: (cx - w / 2) * width, y: (cy - h / 2) * height },
+          { x: (cx + w / 2) * width, y: (cy + h / 2) * height }
+        ],
+        style: { ...context.defaultStyle },
+        data: { category: this.classes[classIndex] ?? String(classIndex) }
+      });
+    });
+
+    return annotations;
+  }
+
+  /**
+   * Class index from the class list; without a list, numeric categories are
+   * used as-is and names are numbered in order of first appearance
+   */
+  private getClassIndex(category: string, seenCategories: string[]): number {
+    if (this.classes.length > 0) {
+      const index = this.classes.indexOf(category);
+      if (index === -1) {
+        throw this.createError(`Category "${category}" is not in the YOLO class list`, undefined, category);
+      }
+      return index;
+    }
+
+    if (/^\d+$/.test(category)) {
+      return Number(category);
+    }
+
+    if (!seenCategories.includes(category)) {
+      seenCategories.push(category);
+    }
+    return seenCategories.indexOf(category);
+  }
+
+  /**
+   * Numeric categories are used as class indices and names are numbered from
+   * 0, so a mix of both could give two categories the same index. Boxes
+   * without a category would be numbered under the default name, so they
+   * are rejected next to numeric categories too.
+   */
+  private checkCategories(boxes: Annotation[]): void {
+    const categories = boxes.map(getCategoryName);
+    const numeric = categories.find(category => /^\d+$/.test(category));
+    const uncategorized = boxes.find(annotation => annotation.data?.category === undefined);
+    if (numeric !== undefined && uncategorized) {
+      throw this.createError(
+        `Annotation "${uncategorized.id}" has no category; set data.category to a class index like the other boxes or pass a YOLO class list`,
+        undefined,
+        uncategorized.id
+      );
+    }
+
+    const named = categories.find(category => !/^\d+$/.test(category));
+    if (numeric !== undefined && named !== undefined) {
+      throw this.createError(
+        `Cannot mix numeric category "${numeric}" with named category "${named}" without a YOLO class list`,
+        undefined,
+        [numeric, named]
+      );
+    }
+  }
+
+  private createError(message: string, line: number | undefined, value: unknown): CanvasLensError {
+    return ErrorHandler.createError(ErrorType.ANNOTATION, message, {
+      format: this.format,
+      ...(line !== undefined && { line }),
+      value
+    });
+  }
+}
+
+/**
+ * Six decimals, the precision used by common YOLO tooling
+ */
+function formatValue(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
@@ -0,0 +1,5 @@
+// Annotation format serializers
+export { CocoSerializer } from './CocoSerializer';
+export { VocSerializer } from './VocSerializer';
+export { YoloSerializer } from './YoloSerializer';
+export { WebAnnotationSerializer } from './WebAnnotationSerializer';
@@ -0,0 +1,55 @@
+import type { Annotation, AnnotationSerializerContext, CustomImageData, Rectangle } from '../../../types';
+import { ErrorType } from '../../../types';
+import { ErrorHandler } from '../../../utils/core/error-handler';
+
+/** Category used for annotations without `data.category` */
+export const DEFAULT_CATEGORY = 'default';
+
+/**
+ * Get the loaded image or throw, for formats that need the image size
+ */
+export function requireImageData(context: AnnotationSerializerContext, format: string): CustomImageData {
+  if (!context.imageData) {
+    throw ErrorHandler.createError(
+      ErrorType.ANNOTATION,
+      `${format.toUpperCase()} format requires a loaded image`,
+      { format }
+    );
+  }
+  return context.imageData;
+}
+
+/**
+ * Get the category name of an annotation
+ */
+export function getCategoryName(annotation: Annotation): string {
+  return annotation.data?.category !== undefined ? String(annotation.data.category) : DEFAULT_CATEGORY;
+}
+
+/**
+ * Get the normalized box of a `rect` annotation (null for other types)
+ */
+export function getRectBox(annotation: Annotation): Rectangle | null {
+  if (annotation.type !== 'rect' || annotation.points.length < 2) return null;
+
+  const start = annotation.points[0]!;
+  const end = annotation.points[1]!;
+  return {
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y)
+  };
+}
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
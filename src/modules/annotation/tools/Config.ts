@@ -16,9 +16,14 @@ export class AnnotationToolsConfig {
       arrow: false,
       text: false,
       circle: false,
-      line: false
+      line: false,
+      freehand: false,
+      highlighter: false,
+      polygon: false,
+      polyline: false
     },
-    comparison: false
+    comparison: false,
+    navigator: false
   };
 
   /**
@@ -63,15 +68,24 @@ export class AnnotationToolsConfig {
         arrow: !!userConfig.annotation.arrow,
         text: !!userConfig.annotation.text,
         circle: !!userConfig.annotation.circle,
-        line: !!userConfig.annotation.line
+        line: !!userConfig.annotation.line,
+        freehand: !!userConfig.annotation.freehand,
+        highlighter: !!userConfig.annotation.highlighter,
+        polygon: !!userConfig.annotation.polygon,
+        polyline: !!userConfig.annotation.polyline
       } : {
         rect: false,
         arrow: false,
         text: false,
         circle: false,
-        line: false
+        line: false,
+        freehand: false,
+        highlighter: false,
+        polygon: false,
+        polyline: false
       },
-      comparison: !!userConfig.comparison
+      comparison: !!userConfig.comparison,
+      navigator: !!userConfig.navigator
     };
   }
 
@@ -91,7 +105,11 @@ export class AnnotationToolsConfig {
       config.annotation.arrow ||
       config.annotation.text ||
       config.annotation.circle ||
-      config.annotation.line
+      config.annotation.line ||
+      config.annotation.freehand ||
+      config.annotation.highlighter ||
+      config.annotation.polygon ||
+      config.annotation.polyline
     ));
   }
 
@@ -101,4 +119,11 @@ export class AnnotationToolsConfig {
   static hasComparison(config: ToolConfig): boolean {
     return !!config.comparison;
   }
+
+  /**
+   * Check if the navigator is enabled
+   */
+  static hasNavigator(config: ToolConfig): boolean {
+    return !!config.navigator;
+  }
 }
@@ -5,7 +5,11 @@ import type { AnnotationRenderer } from '../Renderer';
 import { ArrowTool } from './components/ArrowTool';
 import { BaseTool } from './components/BaseTool';
 import { CircleTool } from './components/CircleTool';
+import { FreehandTool } from './components/FreehandTool';
+import { HighlighterTool } from './components/HighlighterTool';
 import { LineTool } from './components/LineTool';
+import { PolygonTool } from './components/PolygonTool';
+import { PolylineTool } from './components/PolylineTool';
 import { RectangleTool } from './components/RectangleTool';
 import { TextTool } from './components/TextTool';
 
@@ -42,6 +46,10 @@ export class AnnotationToolsController {
     this.tools.set('text', new TextTool(this.options.canvas, this.options.renderer, toolOptions));
     this.tools.set('circle', new CircleTool(this.options.canvas, this.options.renderer, toolOptions));
     this.tools.set('line', new LineTool(this.options.canvas, this.options.renderer, toolOptions));
+    this.tools.set('freehand', new FreehandTool(this.options.canvas, this.options.renderer, toolOptions));
+    this.tools.set('highlighter', new HighlighterTool(this.options.canvas, this.options.renderer, toolOptions));
+    this.tools.set('polygon', new PolygonTool(this.options.canvas, this.options.renderer, toolOptions));
+    this.tools.set('polyline', new PolylineTool(this.options.canvas, this.options.renderer, toolOptions));
 
     // Set default tool to rectangle
     this.currentTool = this.tools.get('rect') || null;
@@ -136,13 +144,17 @@ export class AnnotationToolsController {
   /**
    * Get current tool configuration
    */
-  getToolConfig(): { rect: boolean; arrow: boolean; text: boolean; circle: boolean; line: boolean } {
+  getToolConfig(): { rect: boolean; arrow: boolean; text: boolean; circle: boolean; line: boolean; freehand: boolean; highlighter: boolean; polygon: boolean; polyline: boolean } {
     return {
       rect: this.tools.has('rect'),
       arrow: this.tools.has('arrow'),
       text: this.tools.has('text'),
       circle: this.tools.has('circle'),
-      line: this.tools.has('line')
+      line: this.tools.has('line'),
+      freehand: this.tools.has('freehand'),
+      highlighter: this.tools.has('highlighter'),
+      polygon: this.tools.has('polygon'),
+      polyline: this.tools.has('polyline')
     };
   }
 
@@ -194,12 +206,16 @@ export class AnnotationToolsController {
     const tool = this.currentTool;
     if (tool && 'getPreviewPoints' in tool && typeof tool.getPreviewPoints === 'function') {
       const points = (tool as { getPreviewPoints: () => Point[] }).getPreviewPoints();
+      const data = 'getPreviewData' in tool && typeof tool.getPreviewData === 'function'
+        ? (tool as { getPreviewData: () => Record<string, unknown> }).getPreviewData()
+        : undefined;
       if (points.length > 0) {
         // Render preview (no need to apply view transform since points are in world coordinates)
         this.options.renderer.renderPreview(
           this.currentTool.getType(),
           points,
-          this.options.defaultStyle
+          this.options.defaultStyle,
+          data
         );
       }
     }
@@ -1,6 +1,8 @@
 import type { Renderer } from '../../../core/Renderer';
-import type { EventHandlerOptions } from '../../../types';
+import type { Annotation, EventHandlerOptions } from '../../../types';
 import type { ImageViewer } from '../../image-viewer/Viewer';
+import { Keymap } from '../../keyboard/Keymap';
+import { isEditableTarget } from '../../keyboard/utils';
 import type { AnnotationManager } from '../Manager';
 import type { AnnotationRenderer } from '../Renderer';
 import type { BaseTool } from './components/BaseTool';
@@ -27,20 +29,23 @@ function isComparisonModeActive(imageViewer: unknown): boolean {
 export class AnnotationToolsEventHandler {
   private options: TypedEventHandlerOptions;
 
-  private boundMouseDown: (event: MouseEvent) => void;
-  private boundMouseMove: (event: MouseEvent) => void;
-  private boundMouseUp: (event: MouseEvent) => void;
-  private boundMouseLeave: (event: MouseEvent) => void;
+  private boundPointerDown: (event: PointerEvent) => void;
+  private boundPointerMove: (event: PointerEvent) => void;
+  private boundPointerUp: (event: PointerEvent) => void;
+  private boundPointerLeave: (event: PointerEvent) => void;
+  private boundDoubleClick: (event: MouseEvent) => void;
   private boundKeyDown: (event: KeyboardEvent) => void;
   private boundAnnotationCreated: (event: CustomEvent) => void;
+  private defaultKeymap: Keymap | null = null;
 
   constructor(options: TypedEventHandlerOptions) {
     this.options = options;
 
-    this.boundMouseDown = this.handleMouseDown.bind(this);
-    this.boundMouseMove = this.handleMouseMove.bind(this);
-    this.boundMouseUp = this.handleMouseUp.bind(this);
-    this.boundMouseLeave = this.handleMouseLeave.bind(this);
+    this.boundPointerDown = this.handlePointerDown.bind(this);
+    this.boundPointerMove = this.handlePointerMove.bind(this);
+    this.boundPointerUp = this.handlePointerUp.bind(this);
+    this.boundPointerLeave = this.handlePointerLeave.bind(this);
+    this.boundDoubleClick = this.handleDoubleClick.bind(this);
     this.boundKeyDown = this.handleKeyDown.bind(this);
     this.boundAnnotationCreated = this.handleAnnotationCreated.bind(this);
   }
@@ -50,29 +55,30 @@ export class AnnotationToolsEventHandler {
    */
   setupEventListeners(): void {
     const canvas = this.options.canvas;
-    canvas.addEventListener('mousedown', this.boundMouseDown as EventListener, true);
-    canvas.addEventListener('mousemove', this.boundMouseMove as EventListener);
-    canvas.addEventListener('mouseup', this.boundMouseUp as EventListener);
-    canvas.addEventListener('mouseleave', this.boundMouseLeave as EventListener);
-
-    document.addEventListener('mousemove', this.boundMouseMove as EventListener);
-    document.addEventListener('mouseup', this.boundMouseUp as EventListener);
+    // Pointer events cover mouse, pen and touch; the pointer is captured while drawing
+    canvas.addEventListener('pointerdown', this.boundPointerDown as EventListener, true);
+    canvas.addEventListener('pointermove', this.boundPointerMove as EventListener);
+    canvas.addEventListener('pointerup', this.boundPointerUp as EventListener);
+    canvas.addEventListener('pointerleave', this.boundPointerLeave as EventListener);
+    canvas.addEventListener('pointercancel', this.boundPointerLeave as EventListener);
+    // Capture so closing a polygon runs before (and stops) double-click view reset
+    canvas.addEventListener('dblclick', this.boundDoubleClick as EventListener, true);
 
     canvas.getElement().addEventListener('annotationCreated', this.boundAnnotationCreated as EventListener);
 
-    document.addEventListener('keydown', this.boundKeyDown, true);
+    this.getKeyTarget().addEventListener('keydown', this.boundKeyDown, true);
 
     // Set initial cursor
     this.updateCursor();
   }
 
   /**
-   * Handle mouse down event
+   * Handle pointer down event
    */
-  private handleMouseDown(event: MouseEvent): void {
+  private handlePointerDown(event: PointerEvent): void {
     const currentTool = this.options.currentTool;
-    if (!currentTool || event.button !== 0) {
-      return; // Only left mouse button
+    if (!currentTool || event.button !== 0 || !event.isPrimary) {
+      return; // Only left mouse button or the first finger
     }
 
     if (!this.options.activeToolType) {
@@ -101,37 +107,65 @@ export class AnnotationToolsEventHandler {
     const point = canvas.getMousePosition(event);
     const worldPoint = this.options.onScreenToWorld(point);
 
-    if (!this.options.onIsPointInImageBounds(worldPoint)) {
+    // Shapes must start inside the image; further vertices are clamped to it
+    const isAddingPoint = currentTool.isMultiStep() && currentTool.isCurrentlyDrawing();
+    if (!isAddingPoint && !this.options.onIsPointInImageBounds(worldPoint)) {
       return;
     }
 
-    const annotation = currentTool.startDrawing(worldPoint);
+    const annotation = currentTool.startDrawing(this.options.onClampPointToImageBounds(worldPoint));
+    canvas.capturePointer(event);
 
     if (canvas.annotationManager) {
       canvas.annotationManager.selectAnnotation(null);
     }
 
     if (annotation) {
-      if (this.options.onMeetsMinimumSize(annotation)) {
-        if (this.options.onAnnotationCreate) {
-          this.options.onAnnotationCreate(annotation);
-        }
+      this.commitAnnotation(annotation);
+    }
+  }
 
-        if (this.options.annotationManager) {
-          this.options.annotationManager.selectAnnotation(annotation);
-        }
-      } else {
-        // Annotation doesn't meet minimum size requirements
-      }
+  /**
+   * Handle double-click to close a multi-step shape
+   */
+  private handleDoubleClick(event: MouseEvent): void {
+    const currentTool = this.options.currentTool;
+    if (!currentTool || !currentTool.isMultiStep() || !currentTool.isCurrentlyDrawing()) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    event.stopImmediatePropagation();
+
+    const annotation = currentTool.completeDrawing();
+    if (annotation) {
+      this.commitAnnotation(annotation);
     }
+    this.options.canvas.getElement().dispatchEvent(new CustomEvent('viewStateChange'));
   }
 
   /**
-   * Handle mouse move event
+   * Create the annotation if it meets minimum size requirements and select it
    */
-  private handleMouseMove(event: MouseEvent): void {
+  private commitAnnotation(annotation: Annotation): void {
+    if (!this.options.onMeetsMinimumSize(annotation)) {
+      return;
+    }
+
+    if (this.options.onAnnotationCreate) {
+      this.options.onAnnotationCreate(annotation);
+    }
+
+    if (this.options.annotationManager) {
+      this.options.annotationManager.selectAnnotation(annotation);
+    }
+  }
+
+  /**
+   * Handle pointer move event
+   */
+  private handlePointerMove(event: PointerEvent): void {
     const currentTool = this.options.currentTool;
-    if (!currentTool || !currentTool.isCurrentlyDrawing()) return;
+    if (!currentTool || !currentTool.isCurrentlyDrawing() || !event.isPrimary) return;
 
     event.preventDefault();
     event.stopPropagation();
@@ -149,11 +183,11 @@ export class AnnotationToolsEventHandler {
   }
 
   /**
-   * Handle mouse up event
+   * Handle pointer up event
    */
-  private handleMouseUp(event: MouseEvent): void {
+  private handlePointerUp(event: PointerEvent): void {
     const currentTool = this.options.currentTool;
-    if (!currentTool || !currentTool.isCurrentlyDrawing()) return;
+    if (!currentTool || !currentTool.isCurrentlyDrawing() || !event.isPrimary) return;
 
     event.preventDefault();
     event.stopPropagation();
@@ -168,27 +202,22 @@ export class AnnotationToolsEventHandler {
     const annotation = currentTool.finishDrawing(clampedPoint);
 
     if (annotation) {
-      if (this.options.onMeetsMinimumSize(annotation)) {
-        if (this.options.onAnnotationCreate) {
-          this.options.onAnnotationCreate(annotation);
-        }
-
-        if (this.options.annotationManager) {
-          this.options.annotationManager.selectAnnotation(annotation);
-        }
-      } else {
-        // Annotation doesn't meet minimum size requirements
-      }
+      this.commitAnnotation(annotation);
     }
   }
 
   /**
-   * Handle mouse leave event
+   * Handle pointer leave/cancel event (a captured pointer only leaves once released)
    */
-  private handleMouseLeave(_event: MouseEvent): void {
+  private handlePointerLeave(event: PointerEvent): void {
+    if (!event.isPrimary) return;
+
     const currentTool = this.options.currentTool;
     if (!currentTool) return;
 
+    // Multi-step shapes survive the pointer leaving the canvas between clicks
+    if (currentTool.isMultiStep()) return;
+
     currentTool.cancelDrawing();
   }
 
@@ -203,23 +232,50 @@ export class AnnotationToolsEventHandler {
   }
 
   /**
-   * Handle keyboard shortcuts
+   * Handle keyboard shortcuts bound in the keymap
    */
   private handleKeyDown(event: KeyboardEvent): void {
+    const action = this.getKeymap().resolve(event);
 
-    if (event.key === 'Delete' || event.key === 'Backspace') {
-      const annotationManager = this.options.annotationManager;
-      if (annotationManager) {
-        const selectedAnnotation = annotationManager.getSelectedAnnotation();
-        if (selectedAnnotation) {
-          annotationManager.removeAnnotation(selectedAnnotation.id);
+    if (action === 'undo' || action === 'redo') {
+      this.handleHistoryShortcut(event, action === 'redo');
+      return;
+    }
+
+    const drawingTool = this.options.currentTool;
+    if (drawingTool && drawingTool.isMultiStep() && drawingTool.isCurrentlyDrawing() && !isEditableTarget(event)) {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        const annotation = drawingTool.completeDrawing();
+        if (annotation) {
+          this.commitAnnotation(annotation);
         }
+        this.options.canvas.getElement().dispatchEvent(new CustomEvent('viewStateChange'));
+        return;
+      }
+
+      if (event.key === 'Backspace') {
         event.preventDefault();
+        drawingTool.removeLastPoint();
+        this.options.canvas.getElement().dispatchEvent(new CustomEvent('viewStateChange'));
         return;
       }
     }
 
-    if (event.key === 'Escape') {
+    if (typeof action !== 'string' || isEditableTarget(event)) {
+      return;
+    }
+
+    if (action === 'deleteSelection') {
+      const annotationManager = this.options.annotationManager;
+      if (annotationManager) {
+        annotationManager.removeSelectedAnnotations();
+        event.preventDefault();
+      }
+      return;
+    }
+
+    if (action === 'cancel') {
       const currentTool = this.options.currentTool;
       if (currentTool && this.options.toolManagerDrawing) {
         currentTool.cancelDrawing();
@@ -232,35 +288,74 @@ export class AnnotationToolsEventHandler {
       return;
     }
 
-    if (event.altKey) {
-      // Don't allow tool activation when comparison mode is active
-      const canvas = this.options.canvas;
-      if (canvas.imageViewer && isComparisonModeActive(canvas.imageViewer)) {
-        return; // Block tool activation when comparison mode is active
-      }
+    if (action.startsWith('tool:')) {
+      this.toggleTool(event, action.slice('tool:'.length));
+    }
+  }
 
-      const keyToToolMap: Record<string, string> = {
-        'r': 'rect',
-        'a': 'arrow',
-        't': 'text',
-        'c': 'circle',
-        'l': 'line'
-      };
+  /**
+   * Activate a tool from its shortcut, or deactivate it if already active
+   */
+  private toggleTool(event: KeyboardEvent, toolType: string): void {
+    // Don't allow tool activation when comparison mode is active
+    const canvas = this.options.canvas;
+    if (canvas.imageViewer && isComparisonModeActive(canvas.imageViewer)) {
+      return; // Block tool activation when comparison mode is active
+    }
 
-      const toolType = keyToToolMap[event.key.toLowerCase()];
-      if (toolType) {
-        event.preventDefault();
-        if (this.options.activeToolType === toolType) {
-          this.options.onDeactivateTool();
-          this.updateCursor();
-        } else {
-          this.options.onActivateTool(toolType);
-          // Options will be updated by Manager's updateEventHandlerOptions callback
-          // But we need to ensure flag is set immediately for the next click
-          // So we read it directly from the controller if possible
-          this.updateCursor();
-        }
-      }
+    event.preventDefault();
+    if (this.options.activeToolType === toolType) {
+      this.options.onDeactivateTool();
+      this.updateCursor();
+    } else {
+      this.options.onActivateTool(toolType);
+      // Options will be updated by Manager's updateEventHandlerOptions callback
+      // But we need to ensure flag is set immediately for the next click
+      // So we read it directly from the controller if possible
+      this.updateCursor();
+    }
+  }
+
+  /**
+   * Element receiving shortcuts: the viewer container, so keys only apply
+   * while focus is inside it, or the canvas itself when used on its own
+   */
+  private getKeyTarget(): HTMLElement {
+    const imageViewer = this.options.canvas.imageViewer;
+    return imageViewer ? imageViewer.getContainer() : this.options.canvas.getElement();
+  }
+
+  /**
+   * Key bindings of the viewer, or the defaults for a canvas used on its own
+   */
+  private getKeymap(): Keymap {
+    const imageViewer = this.options.canvas.imageViewer;
+    if (imageViewer) {
+      return imageViewer.getKeymap();
+    }
+    this.defaultKeymap ??= new Keymap();
+    return this.defaultKeymap;
+  }
+
+  /**
+   * Handle Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) and Ctrl+Y
+   */
+  private handleHistoryShortcut(event: KeyboardEvent, isRedo: boolean): void {
+    const annotationManager = this.options.annotationManager;
+    if (!annotationManager || isEditableTarget(event)) {
+      return; // Let native text undo work inside inputs
+    }
+
+    const currentTool = this.options.currentTool;
+    if (currentTool && currentTool.isCurrentlyDrawing()) {
+      return;
+    }
+
+    event.preventDefault();
+    if (isRedo) {
+      annotationManager.redo();
+    } else {
+      annotationManager.undo();
     }
   }
 
@@ -289,7 +384,11 @@ export class AnnotationToolsEventHandler {
         'rect': 'crosshair',
         'arrow': 'crosshair',
         'circle': 'crosshair',
-        'line': 'crosshair'
+        'line': 'crosshair',
+        'freehand': 'crosshair',
+        'highlighter': 'crosshair',
+        'polygon': 'crosshair',
+        'polyline': 'crosshair'
       };
 
       const cursor = cursorMap[this.options.activeToolType] || 'crosshair';
@@ -317,15 +416,14 @@ export class AnnotationToolsEventHandler {
    */
   destroy(): void {
     const canvas = this.options.canvas;
-    canvas.removeEventListener('mousedown', this.boundMouseDown as EventListener, true);
-    canvas.removeEventListener('mousemove', this.boundMouseMove as EventListener);
-    canvas.removeEventListener('mouseup', this.boundMouseUp as EventListener);
-    canvas.removeEventListener('mouseleave', this.boundMouseLeave as EventListener);
-
-    document.removeEventListener('mousemove', this.boundMouseMove as EventListener);
-    document.removeEventListener('mouseup', this.boundMouseUp as EventListener);
-
-    document.removeEventListener('keydown', this.boundKeyDown, true);
+    canvas.removeEventListener('pointerdown', this.boundPointerDown as EventListener, true);
+    canvas.removeEventListener('pointermove', this.boundPointerMove as EventListener);
+    canvas.removeEventListener('pointerup', this.boundPointerUp as EventListener);
+    canvas.removeEventListener('pointerleave', this.boundPointerLeave as EventListener);
+    canvas.removeEventListener('pointercancel', this.boundPointerLeave as EventListener);
+    canvas.removeEventListener('dblclick', this.boundDoubleClick as EventListener, true);
+
+    this.getKeyTarget().removeEventListener('keydown', this.boundKeyDown, true);
 
     canvas.getElement().removeEventListener('annotationCreated', this.boundAnnotationCreated as EventListener);
   }
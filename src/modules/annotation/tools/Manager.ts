@@ -28,12 +28,15 @@ export class AnnotationToolsManager {
   private utils: AnnotationToolsUtils;
   private onAnnotationCreate?: (annotation: Annotation) => void;
   private toolManagerDrawing = false; // Track if we're currently drawing
+  private lastActiveToolType: string | null = null;
+  private canvas: Renderer;
 
   constructor(
     canvas: Renderer,
     renderer: AnnotationRenderer,
     options: TypedToolManagerOptions
   ) {
+    this.canvas = canvas;
     this.utils = new AnnotationToolsUtils(canvas);
 
     const controllerOptions: TypedControllerOptions = {
@@ -83,9 +86,16 @@ export class AnnotationToolsManager {
    * Update event handler options when internal state changes
    */
   private updateEventHandlerOptions(): void {
+    const activeToolType = this.controller.getActiveToolType();
+    if (activeToolType !== this.lastActiveToolType) {
+      this.lastActiveToolType = activeToolType;
+      // Lets listeners such as screen reader announcements follow tool changes
+      this.canvas.getElement().dispatchEvent(new CustomEvent('toolchange', { detail: activeToolType }));
+    }
+
     const updateOptions: Partial<TypedEventHandlerOptions> = {
       currentTool: this.controller.getCurrentTool(),
-      activeToolType: this.controller.getActiveToolType(),
+      activeToolType,
       toolActivatedByKeyboard: this.controller.getToolActivatedByKeyboard(),
       toolManagerDrawing: this.toolManagerDrawing
     };
@@ -211,7 +221,7 @@ export class AnnotationToolsManager {
   /**
    * Get current tool configuration
    */
-  getToolConfig(): { rect: boolean; arrow: boolean; text: boolean; circle: boolean; line: boolean } {
+  getToolConfig(): { rect: boolean; arrow: boolean; text: boolean; circle: boolean; line: boolean; freehand: boolean; highlighter: boolean; polygon: boolean; polyline: boolean } {
     return this.controller.getToolConfig();
   }
 
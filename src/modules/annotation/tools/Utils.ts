@@ -1,5 +1,6 @@
 import { Renderer } from '../../../core/Renderer';
 import type { Point, Annotation, Rectangle } from '../../../types';
+import { screenToWorld } from '../../../utils/geometry/coordinate';
 
 export class AnnotationToolsUtils {
   private canvas: Renderer;
@@ -12,11 +13,7 @@ export class AnnotationToolsUtils {
    * Convert screen coordinates to world coordinates
    */
   screenToWorld(screenPoint: Point): Point {
-    const viewState = this.canvas.getViewState();
-    return {
-      x: (screenPoint.x - viewState.offsetX) / viewState.scale,
-      y: (screenPoint.y - viewState.offsetY) / viewState.scale
-    };
+    return screenToWorld(screenPoint, this.canvas.getViewState());
   }
 
   /**
@@ -57,6 +54,10 @@ export class AnnotationToolsUtils {
       circle: 10,  // Minimum 10px radius
       line: 8,     // Minimum 8px length
       arrow: 8,    // Minimum 8px length
+      freehand: 5, // Minimum 5px stroke extent
+      highlighter: 5,
+      polygon: 5,
+      polyline: 5,
       text: 0      // Text doesn't have size constraint
     };
 
@@ -94,6 +95,16 @@ export class AnnotationToolsUtils {
         return length >= minSize;
       }
 
+      case 'freehand':
+      case 'polygon':
+      case 'polyline': {
+        if (annotation.points.length < 2) return false;
+        const xs = annotation.points.map(point => point.x);
+        const ys = annotation.points.map(point => point.y);
+        const extent = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+        return extent >= minSize;
+      }
+
       case 'text':
         return true; // Text doesn't have size constraint
 
@@ -40,6 +40,27 @@ export abstract class BaseTool {
     this.startPoint = null;
   }
 
+  /**
+   * Finish a multi-step drawing (e.g. polygon on double-click or Enter)
+   */
+  completeDrawing(): Annotation | null {
+    return null;
+  }
+
+  /**
+   * Remove the last placed point of a multi-step drawing
+   */
+  removeLastPoint(): boolean {
+    return false;
+  }
+
+  /**
+   * Check if the tool builds its shape over several clicks
+   */
+  isMultiStep(): boolean {
+    return false;
+  }
+
   /**
    * Check if currently drawing
    */
@@ -0,0 +1,94 @@
+import type { Annotation, Point } from '../../../../types';
+import { simplifyPath } from '../../../../utils/geometry/path';
+import { BaseTool } from './BaseTool';
+
+export class FreehandTool extends BaseTool {
+  /** Simplification tolerance in screen pixels */
+  private static readonly SIMPLIFY_TOLERANCE = 1.5;
+  /** Minimum distance between recorded points in screen pixels */
+  private static readonly MIN_POINT_DISTANCE = 2;
+
+  /**
+   * Start drawing stroke
+   */
+  startDrawing(point: Point): Annotation | null {
+    this.isDrawing = true;
+    this.startPoint = { ...point };
+    this.currentPoints = [this.startPoint];
+
+    // Stroke is created on finish, once the point stream is simplified
+    return null;
+  }
+
+  /**
+   * Continue drawing stroke (record point stream)
+   */
+  continueDrawing(point: Point): void {
+    if (!this.isDrawing) return;
+
+    const lastPoint = this.currentPoints[this.currentPoints.length - 1];
+    const minDistance = FreehandTool.MIN_POINT_DISTANCE / this.getScale();
+    if (lastPoint && Math.hypot(point.x - lastPoint.x, point.y - lastPoint.y) < minDistance) {
+      return;
+    }
+
+    this.currentPoints.push({ ...point });
+  }
+
+  /**
+   * Finish drawing stroke
+   */
+  finishDrawing(point: Point): Annotation | null {
+    if (!this.isDrawing || this.currentPoints.length === 0) return null;
+
+    this.continueDrawing(point);
+
+    const tolerance = FreehandTool.SIMPLIFY_TOLERANCE / this.getScale();
+    const points = simplifyPath(this.currentPoints, tolerance);
+
+    // A stroke needs at least two distinct points
+    if (points.length < 2) {
+      this.cancelDrawing();
+      return null;
+    }
+
+    const finalAnnotation = this.createAnnotation(points, this.getStrokeData());
+
+    // Reset state
+    this.cancelDrawing();
+
+    return finalAnnotation;
+  }
+
+  /**
+   * Get current preview points for rendering
+   */
+  getPreviewPoints(): Point[] {
+    return this.currentPoints;
+  }
+
+  /**
+   * Get annotation data for preview rendering
+   */
+  getPreviewData(): Record<string, unknown> {
+    return this.getStrokeData();
+  }
+
+  /**
+   * Get annotation data stored on created strokes
+   */
+  protected getStrokeData(): Record<string, unknown> {
+    return {};
+  }
+
+  private getScale(): number {
+    return this.canvas.getViewState().scale || 1;
+  }
+
+  /**
+   * Get tool type
+   */
+  getType(): Annotation['type'] {
+    return 'freehand';
+  }
+}
@@ -0,0 +1,10 @@
+import { FreehandTool } from './FreehandTool';
+
+export class HighlighterTool extends FreehandTool {
+  /**
+   * Mark strokes as highlighter (rendered wide and semi-transparent)
+   */
+  protected getStrokeData(): Record<string, unknown> {
+    return { highlighter: true };
+  }
+}
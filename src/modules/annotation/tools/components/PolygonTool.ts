@@ -0,0 +1,116 @@
+import type { Annotation, Point } from '../../../../types';
+import { BaseTool } from './BaseTool';
+
+export class PolygonTool extends BaseTool {
+  /** Vertices closer than this (screen pixels) are merged, e.g. the clicks of a double-click */
+  private static readonly MIN_VERTEX_DISTANCE = 3;
+
+  private hoverPoint: Point | null = null;
+
+  /**
+   * Start drawing polygon or add a vertex to the current one
+   */
+  startDrawing(point: Point): Annotation | null {
+    if (!this.isDrawing) {
+      this.isDrawing = true;
+      this.startPoint = { ...point };
+      this.currentPoints = [this.startPoint];
+      this.hoverPoint = null;
+      return null;
+    }
+
+    const lastPoint = this.currentPoints[this.currentPoints.length - 1];
+    if (!lastPoint || !this.isSamePoint(lastPoint, point)) {
+      this.currentPoints.push({ ...point });
+    }
+
+    // Shape is created once closed (double-click or Enter)
+    return null;
+  }
+
+  /**
+   * Continue drawing (track pointer for the preview edge)
+   */
+  continueDrawing(point: Point): void {
+    if (!this.isDrawing) return;
+
+    this.hoverPoint = { ...point };
+  }
+
+  /**
+   * Mouse up does not finish a polygon
+   */
+  finishDrawing(_point: Point): Annotation | null {
+    return null;
+  }
+
+  /**
+   * Close the shape if it has enough vertices
+   */
+  completeDrawing(): Annotation | null {
+    if (!this.isDrawing || this.currentPoints.length < this.getMinVertices()) return null;
+
+    const finalAnnotation = this.createAnnotation(this.currentPoints.map(point => ({ ...point })));
+
+    // Reset state
+    this.cancelDrawing();
+
+    return finalAnnotation;
+  }
+
+  /**
+   * Remove the last placed vertex; cancels drawing when none is left
+   */
+  removeLastPoint(): boolean {
+    if (!this.isDrawing) return false;
+
+    this.currentPoints.pop();
+    if (this.currentPoints.length === 0) {
+      this.cancelDrawing();
+    }
+
+    return true;
+  }
+
+  /**
+   * Polygon is built over several clicks
+   */
+  isMultiStep(): boolean {
+    return true;
+  }
+
+  /**
+   * Get current preview points for rendering (vertices plus pointer position)
+   */
+  getPreviewPoints(): Point[] {
+    if (!this.hoverPoint) return this.currentPoints;
+    return [...this.currentPoints, this.hoverPoint];
+  }
+
+  /**
+   * Cancel current drawing
+   */
+  cancelDrawing(): void {
+    super.cancelDrawing();
+    this.hoverPoint = null;
+  }
+
+  /**
+   * Minimum number of vertices for a valid shape
+   */
+  protected getMinVertices(): number {
+    return 3;
+  }
+
+  private isSamePoint(a: Point, b: Point): boolean {
+    const minDistance = PolygonTool.MIN_VERTEX_DISTANCE / (this.canvas.getViewState().scale || 1);
+    return Math.hypot(a.x - b.x, a.y - b.y) < minDistance;
+  }
+
+  /**
+   * Get tool type
+   */
+  getType(): Annotation['type'] {
+    return 'polygon';
+  }
+}
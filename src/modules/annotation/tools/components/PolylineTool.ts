@@ -0,0 +1,18 @@
+import type { Annotation } from '../../../../types';
+import { PolygonTool } from './PolygonTool';
+
+export class PolylineTool extends PolygonTool {
+  /**
+   * An open path needs only two vertices
+   */
+  protected getMinVertices(): number {
+    return 2;
+  }
+
+  /**
+   * Get tool type
+   */
+  getType(): Annotation['type'] {
+    return 'polyline';
+  }
+}
@@ -4,3 +4,7 @@ export { ArrowTool } from './ArrowTool';
 export { TextTool } from './TextTool';
 export { CircleTool } from './CircleTool';
 export { LineTool } from './LineTool';
+export { FreehandTool } from './FreehandTool';
+export { HighlighterTool } from './HighlighterTool';
+export { PolygonTool } from './PolygonTool';
+export { PolylineTool } from './PolylineTool';
@@ -13,4 +13,8 @@ export {
   TextTool,
   CircleTool,
   LineTool,
+  FreehandTool,
+  HighlighterTool,
+  PolygonTool,
+  PolylineTool,
 } from './components';
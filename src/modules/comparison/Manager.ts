@@ -9,9 +9,9 @@ export class ComparisonManager {
   private state: ComparisonState;
   private eventHandlers: EventHandlers;
   private boundHandlers: {
-    handleMouseDown: (event: MouseEvent) => void;
-    handleMouseMove: (event: MouseEvent) => void;
-    handleMouseUp: (event: MouseEvent) => void;
+    handlePointerDown: (event: PointerEvent) => void;
+    handlePointerMove: (event: PointerEvent) => void;
+    handlePointerUp: (event: PointerEvent) => void;
   };
   private isCursorNearSlider = false; // Track cursor state to prevent flickering
 
@@ -40,9 +40,9 @@ export class ComparisonManager {
 
     // Bind event handlers to maintain proper context
     this.boundHandlers = {
-      handleMouseDown: this.handleMouseDown.bind(this),
-      handleMouseMove: this.handleMouseMove.bind(this),
-      handleMouseUp: this.handleMouseUp.bind(this)
+      handlePointerDown: this.handlePointerDown.bind(this),
+      handlePointerMove: this.handlePointerMove.bind(this),
+      handlePointerUp: this.handlePointerUp.bind(this)
     };
 
     this.setupEventListeners();
@@ -55,18 +55,18 @@ export class ComparisonManager {
     const canvasElement = this.canvas.getElement();
 
     // Use capture phase to handle events before zoom/pan
-    canvasElement.addEventListener('mousedown', this.boundHandlers.handleMouseDown as EventListener, true);
-    canvasElement.addEventListener('mousemove', this.boundHandlers.handleMouseMove as EventListener, true);
-    canvasElement.addEventListener('mouseup', this.boundHandlers.handleMouseUp as EventListener, true);
-    canvasElement.addEventListener('mouseleave', this.boundHandlers.handleMouseUp as EventListener, true);
+    canvasElement.addEventListener('pointerdown', this.boundHandlers.handlePointerDown as EventListener, true);
+    canvasElement.addEventListener('pointermove', this.boundHandlers.handlePointerMove as EventListener, true);
+    canvasElement.addEventListener('pointerup', this.boundHandlers.handlePointerUp as EventListener, true);
+    canvasElement.addEventListener('pointercancel', this.boundHandlers.handlePointerUp as EventListener, true);
   }
 
   /**
-   * Handle mouse down for slider dragging
+   * Handle pointer down for slider dragging
    */
-  private handleMouseDown(event: MouseEvent): void {
-    // Only handle comparison mode
-    if (!this.state.comparisonMode) return;
+  private handlePointerDown(event: PointerEvent): void {
+    // Only handle comparison mode; further fingers are left to pinch zoom
+    if (!this.state.comparisonMode || !event.isPrimary) return;
 
     const mousePos = this.canvas.getMousePosition(event);
 
@@ -76,7 +76,8 @@ export class ComparisonManager {
 
     // Calculate slider position relative to image bounds
     const sliderX = imageBounds.x + (imageBounds.width * this.state.sliderPosition) / 100;
-    const tolerance = 50; // Increased tolerance for easier interaction
+    // Fingers are less precise than a mouse
+    const tolerance = event.pointerType === 'touch' ? 60 : 50;
 
     // Check if click is near the slider and within image bounds
     if (Math.abs(mousePos.x - sliderX) <= tolerance &&
@@ -85,16 +86,18 @@ export class ComparisonManager {
       this.state.isDragging = true;
       this.isCursorNearSlider = true;
       this.canvas.getElement().style.cursor = 'ew-resize';
+      // Keep dragging when the pointer leaves the canvas
+      this.canvas.capturePointer(event);
       event.preventDefault();
       event.stopPropagation(); // Prevent zoom/pan from handling this event
     }
   }
 
   /**
-   * Handle mouse move for slider dragging
+   * Handle pointer move for slider dragging
    */
-  private handleMouseMove(event: MouseEvent): void {
-    if (!this.state.comparisonMode) return;
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.state.comparisonMode || !event.isPrimary) return;
 
     const mousePos = this.canvas.getMousePosition(event);
     const canvasSize = this.canvas.getSize();
@@ -166,12 +169,12 @@ export class ComparisonManager {
   }
 
   /**
-   * Handle mouse up to stop dragging
+   * Handle pointer up/cancel to stop dragging
    */
-  private handleMouseUp(event: MouseEvent): void {
-    if (this.state.isDragging) {
+  private handlePointerUp(event: PointerEvent): void {
+    if (this.state.isDragging && event.isPrimary) {
       this.state.isDragging = false;
-      // Reset cursor state - will be updated by mousemove handler
+      // Reset cursor state - will be updated by pointermove handler
       this.isCursorNearSlider = false;
       event.preventDefault();
       event.stopPropagation(); // Prevent zoom/pan from handling this event
@@ -526,10 +529,10 @@ export class ComparisonManager {
    */
   destroy(): void {
     // Remove event listeners with same options as when added
-    this.canvas.getElement().removeEventListener('mousedown', this.boundHandlers.handleMouseDown as EventListener, true);
-    this.canvas.getElement().removeEventListener('mousemove', this.boundHandlers.handleMouseMove as EventListener, true);
-    this.canvas.getElement().removeEventListener('mouseup', this.boundHandlers.handleMouseUp as EventListener, true);
-    this.canvas.getElement().removeEventListener('mouseleave', this.boundHandlers.handleMouseUp as EventListener, true);
+    this.canvas.getElement().removeEventListener('pointerdown', this.boundHandlers.handlePointerDown as EventListener, true);
+    this.canvas.getElement().removeEventListener('pointermove', this.boundHandlers.handlePointerMove as EventListener, true);
+    this.canvas.getElement().removeEventListener('pointerup', this.boundHandlers.handlePointerUp as EventListener, true);
+    this.canvas.getElement().removeEventListener('pointercancel', this.boundHandlers.handlePointerUp as EventListener, true);
 
     // Clear state
     this.state = {
@@ -0,0 +1,654 @@
+import type { Renderer } from '../../core/Renderer';
+import type {
+  Annotation,
+  AnnotationHandleType,
+  CropAspectRatio,
+  CropOptions,
+  CropResult,
+  EventHandlers,
+  Point,
+  Rectangle
+} from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import { imageToWorld, screenToWorld, worldToImage } from '../../utils/geometry/coordinate';
+import { clipPath, clipPolygon, clipSegment } from '../../utils/geometry/path';
+import { loadImage } from '../../utils/image/utils';
+import { AnnotationToolsUtils } from '../annotation/tools/Utils';
+
+/** Handle size in screen pixels */
+const HANDLE_SIZE = 8;
+
+/** Encoder quality of cropped JPEG and WebP images */
+const CROP_QUALITY = 0.95;
+
+const ENCODABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const ASPECT_RATIO_PRESETS: Record<string, number> = {
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '3:2': 3 / 2,
+  '16:9': 16 / 9
+};
+
+type CropHandleType = Extract<AnnotationHandleType, 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w'>;
+
+const HANDLE_CURSORS: Record<CropHandleType, string> = {
+  nw: 'nwse-resize',
+  n: 'ns-resize',
+  ne: 'nesw-resize',
+  e: 'ew-resize',
+  se: 'nwse-resize',
+  s: 'ns-resize',
+  sw: 'nesw-resize',
+  w: 'ew-resize'
+};
+
+/** A drag resizes from a fixed anchor, along one or both axes */
+interface CropDrag {
+  anchor: Point;
+  axes: 'both' | 'x' | 'y';
+  start: Rectangle;
+}
+
+/** A drag inside the crop rectangle moves it */
+interface CropMove {
+  pointer: Point;
+  start: Rectangle;
+}
+
+/**
+ * Move an annotation (in natural image pixels) into the coordinate space of
+ * a crop of the image, clipping its shape to the cropped image. Returns null
+ * when it lies outside the crop, or when an open path would be cut into
+ * several pieces. Circles are moved but not clipped, and text is kept only
+ * when its anchor is inside the crop.
+ */
+export function cropAnnotation(annotation: Annotation, rect: Rectangle): Annotation | null {
+  const [first] = annotation.points;
+  if (!first) return null;
+
+  const moved = annotation.points.map(point => ({ x: point.x - rect.x, y: point.y - rect.y }));
+  const inside = (point: Point) => point.x >= 0 && point.y >= 0 && point.x <= rect.width && point.y <= rect.height;
+
+  if (annotation.type === 'text') {
+    return moved[0] && inside(moved[0]) ? { ...annotation, points: moved } : null;
+  }
+
+  let bounds: Rectangle;
+  if (annotation.type === 'circle' && moved.length >= 2) {
+    const [center, edge] = moved as [Point, Point];
+    const radius = Math.hypot(edge.x - center.x, edge.y - center.y);
+    bounds = { x: center.x - radius, y: center.y - radius, width: radius * 2, height: radius * 2 };
+  } else {
+    const xs = moved.map(point => point.x);
+    const ys = moved.map(point => point.y);
+    bounds = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  }
+
+  const overlaps = bounds.x < rect.width && bounds.y < rect.height &&
+    bounds.x + bounds.width > 0 && bounds.y + bounds.height > 0;
+  if (!overlaps) return null;
+
+  if (moved.length === 1) {
+    return { ...annotation, points: moved };
+  }
+
+  const cropped: Rectangle = { x: 0, y: 0, width: rect.width, height: rect.height };
+  switch (annotation.type) {
+    case 'circle':
+      return { ...annotation, points: moved };
+
+    case 'line':
+    case 'arrow': {
+      const [start, end] = moved;
+      const segment = start && end ? clipSegment(start, end, cropped) : null;
+      return segment ? { ...annotation, points: segment } : null;
+    }
+
+    case 'polyline':
+    case 'freehand': {
+      const runs = clipPath(moved, cropped);
+      return runs.length === 1 ? { ...annotation, points: runs[0]! } : null;
+    }
+
+    case 'polygon': {
+      const points = clipPolygon(moved, cropped);
+      return points.length >= 3 ? { ...annotation, points } : null;
+    }
+
+    default:
+      // The box of a rectangle clipped to the crop is its corners clamped
+      return {
+        ...annotation,
+        points: moved.map(point => ({
+          x: Math.max(0, Math.min(rect.width, point.x)),
+          y: Math.max(0, Math.min(rect.height, point.y))
+        }))
+      };
+  }
+}
+
+/**
+ * Crop mode: a draggable crop rectangle over the image, kept inside the image
+ * bounds and optionally to an aspect ratio. Applying it replaces the image
+ * with the cropped bitmap and moves the annotations along; cancelling leaves
+ * the image as it was. While cropping, dragging on the canvas edits the
+ * rectangle instead of panning or drawing.
+ */
+export class CropManager {
+  private container: HTMLElement;
+  private canvas: Renderer;
+  private utils: AnnotationToolsUtils;
+  private eventHandlers: EventHandlers;
+  private cropping = false;
+  /** Crop rectangle in world coordinates */
+  private rect: Rectangle | null = null;
+  private aspectRatio: number | null = null;
+  private drag: CropDrag | null = null;
+  private move: CropMove | null = null;
+  /** Annotation tool to restore when crop mode ends */
+  private previousToolType: string | null = null;
+
+  private boundHandlePointerDown: EventListener;
+  private boundHandlePointerMove: EventListener;
+  private boundHandlePointerUp: EventListener;
+  private boundHandleKeyDown: EventListener;
+
+  constructor(container: HTMLElement, canvas: Renderer, eventHandlers: EventHandlers = {}) {
+    this.container = container;
+    this.canvas = canvas;
+    this.utils = new AnnotationToolsUtils(canvas);
+    this.eventHandlers = eventHandlers;
+
+    this.boundHandlePointerDown = this.handlePointerDown.bind(this) as EventListener;
+    this.boundHandlePointerMove = this.handlePointerMove.bind(this) as EventListener;
+    this.boundHandlePointerUp = this.handlePointerUp.bind(this) as EventListener;
+    this.boundHandleKeyDown = this.handleKeyDown.bind(this) as EventListener;
+
+    // Listen on the container in the capture phase so crop drags never reach
+    // the annotation tools or the pan handler on the canvas
+    container.addEventListener('pointerdown', this.boundHandlePointerDown, true);
+    container.addEventListener('pointermove', this.boundHandlePointerMove, true);
+    container.addEventListener('pointerup', this.boundHandlePointerUp, true);
+    container.addEventListener('pointercancel', this.boundHandlePointerUp, true);
+    container.addEventListener('keydown', this.boundHandleKeyDown, true);
+  }
+
+  /**
+   * Set event handlers
+   */
+  setEventHandlers(handlers: EventHandlers): void {
+    this.eventHandlers = { ...this.eventHandlers, ...handlers };
+  }
+
+  /**
+   * Enter crop mode; the active annotation tool is put aside until it ends
+   */
+  start(options: CropOptions = {}): void {
+    const bounds = this.getBounds();
+    if (!bounds) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Cannot crop: no image loaded');
+    }
+    const imageData = this.canvas.imageViewer?.getImageData();
+    if (imageData && imageData.element.naturalWidth !== imageData.naturalSize.width) {
+      // Remote tile sources only have a preview in memory
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Cannot crop: the full resolution image is not loaded');
+    }
+
+    const annotationManager = this.canvas.annotationManager;
+    if (!this.cropping && annotationManager) {
+      this.previousToolType = annotationManager.getActiveToolType();
+      annotationManager.deactivateTool();
+    }
+
+    this.cropping = true;
+    this.aspectRatio = this.resolveAspectRatio(options.aspectRatio ?? 'free');
+    this.rect = bounds;
+
+    if (options.rect) {
+      this.setRect(options.rect);
+    } else {
+      this.rect = this.fitAspectRatio(bounds);
+      this.redraw();
+    }
+  }
+
+  /**
+   * Leave crop mode without changing the image
+   */
+  cancel(): void {
+    if (!this.cropping) return;
+    this.finish();
+  }
+
+  /**
+   * Check whether crop mode is on
+   */
+  isCropping(): boolean {
+    return this.cropping;
+  }
+
+  /**
+   * Change the aspect ratio; the crop rectangle shrinks around its center to match
+   */
+  setAspectRatio(aspectRatio: CropAspectRatio): void {
+    this.aspectRatio = this.resolveAspectRatio(aspectRatio);
+    if (this.rect) {
+      this.rect = this.fitAspectRatio(this.rect);
+      this.redraw();
+    }
+  }
+
+  /**
+   * Get the crop rectangle in natural image pixels, rounded outwards to whole pixels
+   */
+  getRect(): Rectangle | null {
+    const imageData = this.canvas.imageViewer?.getImageData();
+    if (!this.rect || !imageData) return null;
+
+    const topLeft = worldToImage({ x: this.rect.x, y: this.rect.y }, imageData);
+    const bottomRight = worldToImage({ x: this.rect.x + this.rect.width, y: this.rect.y + this.rect.height }, imageData);
+    const x = Math.max(0, Math.floor(topLeft.x));
+    const y = Math.max(0, Math.floor(topLeft.y));
+    const right = Math.min(imageData.naturalSize.width, Math.ceil(bottomRight.x));
+    const bottom = Math.min(imageData.naturalSize.height, Math.ceil(bottomRight.y));
+
+    return { x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) };
+  }
+
+  /**
+   * Set the crop rectangle in natural image pixels; it is clamped to the
+   * image and shrunk to the aspect ratio
+   */
+  setRect(rect: Rectangle): void {
+    const imageData = this.canvas.imageViewer?.getImageData();
+    const bounds = this.getBounds();
+    if (!this.cropping || !imageData || !bounds) return;
+
+    const topLeft = imageToWorld({ x: rect.x, y: rect.y }, imageData);
+    const bottomRight = imageToWorld({ x: rect.x + rect.width, y: rect.y + rect.height }, imageData);
+    const x = Math.max(bounds.x, Math.min(topLeft.x, bottomRight.x));
+    const y = Math.max(bounds.y, Math.min(topLeft.y, bottomRight.y));
+    const right = Math.min(bounds.x + bounds.width, Math.max(topLeft.x, bottomRight.x));
+    const bottom = Math.min(bounds.y + bounds.height, Math.max(topLeft.y, bottomRight.y));
+
+    this.rect = this.fitAspectRatio({ x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) });
+    this.redraw();
+  }
+
+  /**
+   * Replace the image with the cropped region, move the annotations into its
+   * coordinate space and leave crop mode
+   */
+  async apply(): Promise<CropResult> {
+    const viewer = this.canvas.imageViewer;
+    const imageData = viewer?.getImageData();
+    const region = this.getRect();
+
+    if (!this.cropping || !viewer || !imageData || !region) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Cannot crop: crop mode is not active');
+    }
+    if (region.width < 1 || region.height < 1) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Cannot crop: the crop rectangle is empty', { region });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = region.width;
+    canvas.height = region.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Failed to get 2D context for crop canvas');
+    }
+
+    ctx.drawImage(imageData.element, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+
+    const type = imageData.type && ENCODABLE_TYPES.includes(imageData.type) ? imageData.type : 'image/png';
+    let dataURL: string;
+    try {
+      dataURL = canvas.toDataURL(type, CROP_QUALITY);
+    } catch (err) {
+      // A cross-origin image without CORS headers taints the canvas
+      throw ErrorHandler.createError(
+        ErrorType.RENDERING,
+        `Failed to crop image${err instanceof Error ? `: ${err.message}` : ''}`,
+        { originalError: err }
+      );
+    }
+
+    const image = await loadImage(dataURL);
+    if (!this.cropping) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Crop was cancelled');
+    }
+
+    // Leave crop mode first so the cropped image is drawn without the overlay
+    this.finish();
+    viewer.loadImageElement(image, type, imageData.fileName, imageData.metadata);
+    const removedAnnotationIds = this.cropAnnotations(region);
+
+    const result: CropResult = {
+      rect: region,
+      imageData: viewer.getImageData() ?? imageData,
+      removedAnnotationIds
+    };
+    if (this.eventHandlers.onCrop) {
+      this.eventHandlers.onCrop(result);
+    }
+    return result;
+  }
+
+  /**
+   * Draw the crop overlay; expects the view transform to be applied
+   */
+  render(ctx: CanvasRenderingContext2D): void {
+    const bounds = this.getBounds();
+    if (!this.cropping || !this.rect || !bounds) return;
+
+    const rect = this.rect;
+    const scale = this.canvas.getViewState().scale || 1;
+    const size = HANDLE_SIZE / scale;
+
+    ctx.save();
+    ctx.setLineDash([]);
+
+    // Dim the parts of the image that are cropped away
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.beginPath();
+    ctx.rect(bounds.x, bounds.y, bounds.width, bounds.height);
+    ctx.rect(rect.x, rect.y, rect.width, rect.height);
+    ctx.fill('evenodd');
+
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1 / scale;
+    ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.strokeStyle = '#000000';
+    this.getHandles().forEach(handle => {
+      ctx.fillRect(handle.position.x - size / 2, handle.position.y - size / 2, size, size);
+      ctx.strokeRect(handle.position.x - size / 2, handle.position.y - size / 2, size, size);
+    });
+
+    ctx.restore();
+  }
+
+  /**
+   * Remove event listeners
+   */
+  destroy(): void {
+    this.container.removeEventListener('pointerdown', this.boundHandlePointerDown, true);
+    this.container.removeEventListener('pointermove', this.boundHandlePointerMove, true);
+    this.container.removeEventListener('pointerup', this.boundHandlePointerUp, true);
+    this.container.removeEventListener('pointercancel', this.boundHandlePointerUp, true);
+    this.container.removeEventListener('keydown', this.boundHandleKeyDown, true);
+    this.cropping = false;
+    this.rect = null;
+  }
+
+  private finish(): void {
+    this.cropping = false;
+    this.rect = null;
+    this.drag = null;
+    this.move = null;
+
+    const annotationManager = this.canvas.annotationManager;
+    if (annotationManager && this.previousToolType) {
+      annotationManager.activateTool(this.previousToolType);
+    }
+    this.previousToolType = null;
+
+    this.canvas.getElement().style.cursor = '';
+    this.canvas.imageViewer?.getZoomPanHandler()?.updateCursorState();
+    this.redraw();
+  }
+
+  /**
+   * Crop the annotations as one history step; the history is then dropped
+   * since undoing would put annotations back onto the uncropped image
+   */
+  private cropAnnotations(region: Rectangle): string[] {
+    const annotationManager = this.canvas.annotationManager;
+    if (!annotationManager) return [];
+
+    const removed: string[] = [];
+    annotationManager.batchChanges('crop', () => {
+      annotationManager.getAllAnnotations().forEach(annotation => {
+        const cropped = cropAnnotation(annotation, region);
+        if (cropped) {
+          annotationManager.updateAnnotation(annotation.id, cropped);
+        } else {
+          annotationManager.removeAnnotation(annotation.id);
+          removed.push(annotation.id);
+        }
+      });
+    });
+    annotationManager.clearHistory();
+
+    return removed;
+  }
+
+  private getBounds(): Rectangle | null {
+    return this.utils.getImageBounds() ?? this.canvas.imageViewer?.getImageBounds() ?? null;
+  }
+
+  private resolveAspectRatio(aspectRatio: CropAspectRatio): number | null {
+    if (typeof aspectRatio === 'number') {
+      if (!Number.isFinite(aspectRatio) || aspectRatio <= 0) {
+        throw ErrorHandler.createError(
+          ErrorType.RENDERING,
+          `Crop aspect ratio must be a positive number, got ${aspectRatio}`,
+          { aspectRatio }
+        );
+      }
+      return aspectRatio;
+    }
+    if (aspectRatio === 'original') {
+      const imageData = this.canvas.imageViewer?.getImageData();
+      return imageData ? imageData.naturalSize.width / imageData.naturalSize.height : null;
+    }
+    return ASPECT_RATIO_PRESETS[aspectRatio] ?? null;
+  }
+
+  /**
+   * Largest rectangle of the aspect ratio centered in the given one
+   */
+  private fitAspectRatio(rect: Rectangle): Rectangle {
+    if (!this.aspectRatio || rect.width === 0 || rect.height === 0) return rect;
+
+    const width = Math.min(rect.width, rect.height * this.aspectRatio);
+    const height = width / this.aspectRatio;
+    return {
+      x: rect.x + (rect.width - width) / 2,
+      y: rect.y + (rect.height - height) / 2,
+      width,
+      height
+    };
+  }
+
+  private getHandles(): Array<{ type: CropHandleType; position: Point }> {
+    if (!this.rect) return [];
+
+    const { x, y, width, height } = this.rect;
+    const right = x + width;
+    const bottom = y + height;
+    const midX = x + width / 2;
+    const midY = y + height / 2;
+
+    return [
+      { type: 'nw', position: { x, y } },
+      { type: 'n', position: { x: midX, y } },
+      { type: 'ne', position: { x: right, y } },
+      { type: 'e', position: { x: right, y: midY } },
+      { type: 'se', position: { x: right, y: bottom } },
+      { type: 's', position: { x: midX, y: bottom } },
+      { type: 'sw', position: { x, y: bottom } },
+      { type: 'w', position: { x, y: midY } }
+    ];
+  }
+
+  private getHandleAt(point: Point): CropHandleType | null {
+    const tolerance = HANDLE_SIZE / (this.canvas.getViewState().scale || 1);
+    const handle = this.getHandles().find(candidate =>
+      Math.abs(point.x - candidate.position.x) <= tolerance &&
+      Math.abs(point.y - candidate.position.y) <= tolerance
+    );
+    return handle ? handle.type : null;
+  }
+
+  private isInsideRect(point: Point): boolean {
+    const rect = this.rect;
+    return !!rect && point.x >= rect.x && point.x <= rect.x + rect.width &&
+      point.y >= rect.y && point.y <= rect.y + rect.height;
+  }
+
+  /**
+   * Crop drags start on the canvas; other elements in the container, such as
+   * the navigator, keep working
+   */
+  private isCanvasEvent(event: PointerEvent): boolean {
+    return this.cropping && event.isPrimary && event.target === this.canvas.getElement();
+  }
+
+  private getWorldPoint(event: PointerEvent): Point {
+    return screenToWorld(this.canvas.getMousePosition(event), this.canvas.getViewState());
+  }
+
+  private handlePointerDown(event: PointerEvent): void {
+    if (!this.isCanvasEvent(event) || event.button !== 0 || !this.rect) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.canvas.getElement().focus({ preventScroll: true });
+    this.canvas.capturePointer(event);
+
+    const point = this.getWorldPoint(event);
+    const rect = this.rect;
+    const handle = this.getHandleAt(point);
+
+    if (handle) {
+      const anchor = {
+        x: handle.includes('w') ? rect.x + rect.width : rect.x,
+        y: handle.includes('n') ? rect.y + rect.height : rect.y
+      };
+      const axes = handle.length === 2 ? 'both' : handle === 'e' || handle === 'w' ? 'x' : 'y';
+      this.drag = { anchor, axes, start: { ...rect } };
+    } else if (this.isInsideRect(point)) {
+      this.move = { pointer: point, start: { ...rect } };
+    } else {
+      // Draw a new rectangle from the pressed point
+      this.drag = { anchor: this.utils.clampPointToImageBounds(point), axes: 'both', start: { ...rect } };
+    }
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.isCanvasEvent(event)) return;
+    event.stopPropagation();
+
+    const point = this.getWorldPoint(event);
+
+    if (this.drag) {
+      this.rect = this.getDraggedRect(this.drag, point);
+      this.redraw();
+    } else if (this.move) {
+      this.rect = this.getMovedRect(this.move, point);
+      this.redraw();
+    } else {
+      const handle = this.getHandleAt(point);
+      this.canvas.getElement().style.cursor = handle
+        ? HANDLE_CURSORS[handle]
+        : this.isInsideRect(point) ? 'move' : 'crosshair';
+    }
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (!this.isCanvasEvent(event) || (!this.drag && !this.move)) return;
+
+    event.stopPropagation();
+    this.drag = null;
+    this.move = null;
+  }
+
+  /**
+   * Enter applies the crop and Escape cancels it
+   */
+  private handleKeyDown(event: KeyboardEvent): void {
+    if (!this.cropping || (event.key !== 'Enter' && event.key !== 'Escape')) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (event.key === 'Escape') {
+      this.cancel();
+    } else {
+      this.apply().catch((err: Error) => ErrorHandler.handleError(err));
+    }
+  }
+
+  /**
+   * Rectangle spanned from the drag anchor to the pointer, kept inside the
+   * image and to the aspect ratio. Edge drags keep the other axis, or center
+   * it when the aspect ratio changes it.
+   */
+  private getDraggedRect(drag: CropDrag, point: Point): Rectangle {
+    const bounds = this.getBounds() ?? drag.start;
+    const { anchor, axes, start } = drag;
+    const pointer = this.utils.clampPointToImageBounds(point);
+    const ratio = this.aspectRatio;
+
+    const directionX = pointer.x >= anchor.x ? 1 : -1;
+    const directionY = pointer.y >= anchor.y ? 1 : -1;
+    const centerX = start.x + start.width / 2;
+    const centerY = start.y + start.height / 2;
+
+    let width = axes === 'y' ? start.width : Math.abs(pointer.x - anchor.x);
+    let height = axes === 'x' ? start.height : Math.abs(pointer.y - anchor.y);
+    if (ratio) {
+      if (axes === 'x' || (axes === 'both' && width / ratio >= height)) {
+        height = width / ratio;
+      } else {
+        width = height * ratio;
+      }
+    }
+
+    // Room from the anchor, or around the center, to the image edges
+    const room = (anchorValue: number, center: number, direction: number, min: number, max: number, centered: boolean) => {
+      if (centered) return 2 * Math.min(center - min, max - center);
+      return direction > 0 ? max - anchorValue : anchorValue - min;
+    };
+    const roomX = room(anchor.x, centerX, directionX, bounds.x, bounds.x + bounds.width, axes === 'y');
+    const roomY = room(anchor.y, centerY, directionY, bounds.y, bounds.y + bounds.height, axes === 'x');
+
+    if (ratio) {
+      const fit = Math.min(1, width > 0 ? roomX / width : 1, height > 0 ? roomY / height : 1);
+      width *= fit;
+      height *= fit;
+    } else {
+      width = Math.min(width, roomX);
+      height = Math.min(height, roomY);
+    }
+
+    return {
+      x: axes === 'y' ? centerX - width / 2 : directionX > 0 ? anchor.x : anchor.x - width,
+      y: axes === 'x' ? centerY - height / 2 : directionY > 0 ? anchor.y : anchor.y - height,
+      width,
+      height
+    };
+  }
+
+  private getMovedRect(move: CropMove, point: Point): Rectangle {
+    const bounds = this.getBounds() ?? move.start;
+    const { start } = move;
+    const x = start.x + point.x - move.pointer.x;
+    const y = start.y + point.y - move.pointer.y;
+
+    return {
+      ...start,
+      x: Math.max(bounds.x, Math.min(bounds.x + bounds.width - start.width, x)),
+      y: Math.max(bounds.y, Math.min(bounds.y + bounds.height - start.height, y))
+    };
+  }
+
+  private redraw(): void {
+    this.canvas.imageViewer?.render();
+  }
+}
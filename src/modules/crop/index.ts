@@ -0,0 +1,2 @@
+// Crop module exports
+export { CropManager, cropAnnotation } from './Manager';
@@ -0,0 +1,168 @@
+import type { ImageAdjustments } from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import { warn } from '../../utils/core/logger';
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  gamma: 1,
+  invert: false,
+  grayscale: false
+};
+
+/** Rec. 601 luma weights */
+const LUMA_RED = 0.299;
+const LUMA_GREEN = 0.587;
+const LUMA_BLUE = 0.114;
+
+/**
+ * Map every channel value through a function on the 0-1 range
+ */
+function buildLookupTable(map: (value: number) => number): Uint8ClampedArray {
+  const table = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = map(i / 255) * 255;
+  }
+  return table;
+}
+
+/**
+ * Apply adjustments to RGBA pixel data in place: brightness and contrast
+ * first, then saturation, then gamma and inversion. Alpha is left as is.
+ */
+export function applyAdjustments(data: Uint8ClampedArray, adjustments: ImageAdjustments): void {
+  const { brightness, contrast, gamma, invert } = adjustments;
+  const saturation = adjustments.grayscale ? 0 : adjustments.saturation;
+
+  const tone = buildLookupTable(value => (value * brightness - 0.5) * contrast + 0.5);
+  const output = buildLookupTable(value => {
+    const corrected = Math.pow(value, 1 / gamma);
+    return invert ? 1 - corrected : corrected;
+  });
+
+  for (let i = 0; i < data.length; i += 4) {
+    const red = tone[data[i] ?? 0] ?? 0;
+    const green = tone[data[i + 1] ?? 0] ?? 0;
+    const blue = tone[data[i + 2] ?? 0] ?? 0;
+    const gray = red * LUMA_RED + green * LUMA_GREEN + blue * LUMA_BLUE;
+
+    // Assigning clamps and rounds to a channel value, which indexes the output table
+    data[i] = gray + (red - gray) * saturation;
+    data[i + 1] = gray + (green - gray) * saturation;
+    data[i + 2] = gray + (blue - gray) * saturation;
+    data[i] = output[data[i] ?? 0] ?? 0;
+    data[i + 1] = output[data[i + 1] ?? 0] ?? 0;
+    data[i + 2] = output[data[i + 2] ?? 0] ?? 0;
+  }
+}
+
+/**
+ * Holds the brightness, contrast, saturation, gamma, invert and grayscale
+ * settings of the viewer. The adjusted image is rendered once at natural
+ * size and reused while zooming and panning; the source image and the
+ * annotations are never modified.
+ */
+export class ImageAdjuster {
+  private adjustments: ImageAdjustments = { ...DEFAULT_ADJUSTMENTS };
+  private cachedImage: HTMLImageElement | null = null;
+  private cache: CanvasImageSource | null = null;
+
+  /**
+   * Get the current adjustments
+   */
+  getAdjustments(): ImageAdjustments {
+    return { ...this.adjustments };
+  }
+
+  /**
+   * Change some of the adjustments, keeping the others
+   */
+  setAdjustments(adjustments: Partial<ImageAdjustments>): void {
+    for (const key of ['brightness', 'contrast', 'saturation', 'gamma'] as const) {
+      const value = adjustments[key];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0 || (key === 'gamma' && value === 0))) {
+        throw ErrorHandler.createError(
+          ErrorType.RENDERING,
+          `Adjustment ${key} must be a ${key === 'gamma' ? 'positive' : 'non-negative'} number, got ${value}`,
+          { [key]: value }
+        );
+      }
+    }
+
+    this.adjustments = { ...this.adjustments, ...adjustments };
+    this.invalidate();
+  }
+
+  /**
+   * Restore the unadjusted image
+   */
+  reset(): void {
+    this.adjustments = { ...DEFAULT_ADJUSTMENTS };
+    this.invalidate();
+  }
+
+  /**
+   * Whether the adjustments leave the image unchanged
+   */
+  isIdentity(): boolean {
+    return (Object.keys(DEFAULT_ADJUSTMENTS) as Array<keyof ImageAdjustments>)
+      .every(key => this.adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+  }
+
+  /**
+   * Get the image with the adjustments applied, at natural size
+   */
+  getImage(image: HTMLImageElement): CanvasImageSource {
+    if (this.isIdentity()) {
+      return image;
+    }
+    if (this.cache && this.cachedImage === image) {
+      return this.cache;
+    }
+
+    this.cachedImage = image;
+    this.cache = this.adjustImage(image, image.naturalWidth || image.width, image.naturalHeight || image.height);
+    return this.cache;
+  }
+
+  /**
+   * Draw any image with the adjustments applied, without caching; used for
+   * the tiles of tiled images
+   */
+  adjustImage(source: CanvasImageSource, width: number, height: number): CanvasImageSource {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return source;
+    }
+
+    try {
+      ctx.drawImage(source, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height);
+      applyAdjustments(pixels.data, this.adjustments);
+      ctx.putImageData(pixels, 0, 0);
+      return canvas;
+    } catch (err) {
+      // Cross-origin images without CORS headers cannot be read back
+      warn('Failed to apply image adjustments:', err);
+      return source;
+    }
+  }
+
+  /**
+   * Release the adjusted image
+   */
+  destroy(): void {
+    this.invalidate();
+  }
+
+  private invalidate(): void {
+    this.cachedImage = null;
+    this.cache = null;
+  }
+}
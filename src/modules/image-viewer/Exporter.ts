@@ -0,0 +1,164 @@
+import type { CustomImageData, ImageExportFormat, ImageExportOptions, Rectangle } from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import type { AnnotationManager } from '../annotation';
+
+const MIME_TYPES: Record<ImageExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+/**
+ * Draws the exported region of the image, given in natural pixels, at the
+ * export scale; used for tiled images, which are too large to draw in one piece
+ */
+export type ExportRegionRenderer = (region: Rectangle, scale: number) => Promise<CanvasImageSource>;
+
+/**
+ * Renders the image and its annotations into an offscreen canvas at natural resolution.
+ * The result does not depend on the current zoom/pan or devicePixelRatio.
+ */
+export class ImageExporter {
+  /**
+   * Export image as a Blob or data URL, drawing `image` (e.g. the adjusted
+   * image, or a renderer of the tiles of the region) in place of the loaded
+   * element when given
+   */
+  static export(
+    imageData: CustomImageData,
+    annotationManager: AnnotationManager | null,
+    options: ImageExportOptions = {},
+    image: CanvasImageSource | ExportRegionRenderer = imageData.element
+  ): Promise<Blob | string> {
+    const format = options.format ?? 'png';
+    const scale = options.scale ?? 1;
+    const mimeType = MIME_TYPES[format];
+
+    if (!mimeType) {
+      return Promise.reject(ErrorHandler.createError(
+        ErrorType.RENDERING,
+        `Unsupported export format: ${format}`,
+        { format }
+      ));
+    }
+
+    if (!Number.isFinite(scale) || scale <= 0) {
+      return Promise.reject(ErrorHandler.createError(
+        ErrorType.RENDERING,
+        `Export scale must be a positive number, got ${scale}`,
+        { scale }
+      ));
+    }
+
+    const region = this.getRegion(imageData, options.region);
+    if (!region) {
+      return Promise.reject(ErrorHandler.createError(
+        ErrorType.RENDERING,
+        'Export region does not intersect the image',
+        { region: options.region, naturalSize: imageData.naturalSize }
+      ));
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(region.width * scale));
+    canvas.height = Math.max(1, Math.round(region.height * scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return Promise.reject(ErrorHandler.createError(
+        ErrorType.RENDERING,
+        'Failed to get 2D context for export canvas'
+      ));
+    }
+
+    // A renderer draws just the region, the image covers all of it
+    const source = typeof image === 'function'
+      ? image(region, scale).then(drawn => ({ drawn, target: region }))
+      : Promise.resolve({ drawn: image, target: { x: 0, y: 0, ...imageData.naturalSize } });
+
+    return source.then(({ drawn, target }): Promise<Blob | string> => {
+      // JPEG has no alpha channel, so transparent pixels would turn black
+      if (format === 'jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+
+      ctx.save();
+      ctx.scale(scale, scale);
+      ctx.translate(-region.x, -region.y);
+      ctx.drawImage(drawn, target.x, target.y, target.width, target.height);
+
+      if (options.includeAnnotations !== false && annotationManager) {
+        // Annotations are stored relative to the displayed image, map them onto natural pixels
+        ctx.scale(
+          imageData.naturalSize.width / imageData.displaySize.width,
+          imageData.naturalSize.height / imageData.displaySize.height
+        );
+        ctx.translate(-imageData.position.x, -imageData.position.y);
+        annotationManager.renderToContext(ctx);
+      }
+      ctx.restore();
+
+      return options.output === 'dataURL'
+        ? this.toDataURL(canvas, mimeType, options.quality)
+        : this.toBlob(canvas, mimeType, options.quality);
+    });
+  }
+
+  /**
+   * Clamp requested region to the natural image bounds
+   */
+  private static getRegion(imageData: CustomImageData, region?: Rectangle): Rectangle | null {
+    const { width, height } = imageData.naturalSize;
+    if (!region) {
+      return { x: 0, y: 0, width, height };
+    }
+
+    const x = Math.max(0, region.x);
+    const y = Math.max(0, region.y);
+    const right = Math.min(width, region.x + region.width);
+    const bottom = Math.min(height, region.y + region.height);
+
+    if (right <= x || bottom <= y) {
+      return null;
+    }
+
+    return { x, y, width: right - x, height: bottom - y };
+  }
+
+  private static toDataURL(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<string> {
+    try {
+      return Promise.resolve(canvas.toDataURL(mimeType, quality));
+    } catch (err) {
+      return Promise.reject(this.createEncodeError(err));
+    }
+  }
+
+  private static toBlob(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      try {
+        canvas.toBlob(blob => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(this.createEncodeError(null));
+          }
+        }, mimeType, quality);
+      } catch (err) {
+        reject(this.createEncodeError(err));
+      }
+    });
+  }
+
+  /**
+   * Encoding fails e.g. when a cross-origin image without CORS headers tainted the canvas
+   */
+  private static createEncodeError(err: unknown): Error {
+    return ErrorHandler.createError(
+      ErrorType.RENDERING,
+      `Failed to encode exported image${err instanceof Error ? `: ${err.message}` : ''}`,
+      { originalError: err }
+    );
+  }
+}
@@ -1,12 +1,22 @@
 import { Renderer } from '../../core/Renderer';
-import type { EventHandlers, Size, ZoomPanOptions, AnnotationManagerOptions, ComparisonOptions, Point, CustomImageData, Rectangle } from '../../types';
+import type { EventHandlers, Size, ZoomPanOptions, AnnotationManagerOptions, ComparisonOptions, CropOptions, NavigatorOptions, Point, CustomImageData, ImageAdjustments, ImageExportOptions, ImageMetadata, Rectangle, SvgExportOptions, TileSource } from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
 import { error } from '../../utils/core/logger';
 import { loadImage, getImageData, getCustomImageDataOverlay } from '../../utils/image/utils';
-import { AnnotationManager } from '../annotation';
+import { AccessibilityLayer } from '../accessibility';
+import { AnnotationManager, AnnotationSvgExporter } from '../annotation';
 import { ComparisonManager } from '../comparison';
+import { CropManager } from '../crop';
+import { KeyboardHandler, Keymap } from '../keyboard';
+import { NavigatorPanel } from '../navigator';
+import { TiledImageLayer } from '../tiles';
 import { ZoomPanHandler } from '../zoom-pan';
+import { ImageAdjuster } from './Adjustments';
+import { ImageExporter } from './Exporter';
 
 export class ImageViewer {
+  private container: HTMLElement;
   private canvas: Renderer;
   private customImageData: CustomImageData | null = null;
   private originalCustomImageData: CustomImageData | null = null; // Store original image for comparison
@@ -14,7 +24,16 @@ export class ImageViewer {
   private zoomPanHandler: ZoomPanHandler | null = null;
   private annotationManager: AnnotationManager | null = null;
   private comparisonManager: ComparisonManager | null = null;
+  private navigatorPanel: NavigatorPanel | null = null;
+  private keymap: Keymap;
+  private keyboardHandler: KeyboardHandler;
+  private accessibilityLayer: AccessibilityLayer;
+  private imageAdjuster = new ImageAdjuster();
+  private cropManager: CropManager;
+  private tiledImageLayer: TiledImageLayer;
   private previousImage: HTMLImageElement | null = null;
+  /** Counts image loads so a slow URL load cannot replace a newer image */
+  private loadRequest = 0;
   private backgroundColor: string;
 
   constructor(
@@ -24,8 +43,10 @@ export class ImageViewer {
     zoomPanOptions?: ZoomPanOptions,
     annotationOptions?: AnnotationManagerOptions,
     comparisonOptions?: ComparisonOptions,
-    backgroundColor?: string
+    backgroundColor?: string,
+    navigatorOptions?: NavigatorOptions
   ) {
+    this.container = container;
     this.canvas = new Renderer(container, size);
     this.eventHandlers = eventHandlers;
     this.backgroundColor = backgroundColor || '#f0f0f0';
@@ -72,6 +93,16 @@ export class ImageViewer {
       );
     }
 
+    if (navigatorOptions) {
+      this.navigatorPanel = new NavigatorPanel(container, this.canvas, navigatorOptions);
+    }
+
+    this.keymap = new Keymap();
+    this.keyboardHandler = new KeyboardHandler(container, this.canvas, this.keymap);
+    this.accessibilityLayer = new AccessibilityLayer(container, this.canvas);
+    this.cropManager = new CropManager(container, this.canvas, eventHandlers);
+    this.tiledImageLayer = new TiledImageLayer(this.canvas);
+
     // Render initial background
     this.render();
   }
@@ -80,16 +111,20 @@ export class ImageViewer {
    * Load and display image from URL
    */
   async loadImage(url: string, type?: string, fileName?: string): Promise<void> {
+    const request = ++this.loadRequest;
     try {
+      const image = await loadImage(url);
+      // Another image was loaded while this one downloaded
+      if (request !== this.loadRequest) return;
+
       // Dispose previous image to free memory
       this.disposePreviousImage();
 
       // Clear previous original image data
       this.originalCustomImageData = null;
 
-      const image = await loadImage(url);
       const canvasSize = this.canvas.getSize();
-      this.customImageData = getImageData(image, canvasSize, type, fileName);
+      this.customImageData = getImageData(image, canvasSize, type, fileName, undefined, this.tiledImageLayer.createPyramid(image));
 
       // Store original image data for comparison mode (shallow copy to avoid memory issues)
       this.originalCustomImageData = {
@@ -108,8 +143,10 @@ export class ImageViewer {
 
       // Reset zoom/pan to initial state to show image properly fitted
       if (this.zoomPanHandler) {
+        // A new image starts upright
+        this.zoomPanHandler.setOrientation({ rotation: 0, flipX: false, flipY: false });
         // Reset to initial state (scale=1, offset=0,0) since getImageData already calculated proper fit
-        this.zoomPanHandler.reset();
+        this.zoomPanHandler.reset(false);
         // Update initial view state after reset
         this.zoomPanHandler.updateInitialViewState(this.canvas.getViewState());
         this.zoomPanHandler.updateCursorState();
@@ -139,9 +176,30 @@ export class ImageViewer {
   }
 
   /**
- * Load and display image from HTMLImageElement
+   * Load and display a tiled image; only the tiles in view are loaded
+   */
+  async loadTileSource(source: TileSource, fileName?: string): Promise<void> {
+    let preview: HTMLImageElement;
+    try {
+      preview = await source.loadPreview();
+    } catch (err) {
+      error('Failed to load tile source preview:', err);
+      if (this.eventHandlers.onImageLoadError) {
+        this.eventHandlers.onImageLoadError(err as Error);
+      }
+      throw err;
+    }
+
+    this.loadImageElement(preview, undefined, fileName, undefined, source);
+  }
+
+  /**
+ * Load and display image from HTMLImageElement; images above the tiling
+ * threshold are drawn from an in-memory tile pyramid
  */
-  loadImageElement(image: HTMLImageElement, type?: string, fileName?: string): void {
+  loadImageElement(image: HTMLImageElement, type?: string, fileName?: string, metadata?: ImageMetadata, tileSource?: TileSource): void {
+    // Supersedes an image still loading from a URL
+    this.loadRequest++;
     try {
       if (!image || !image.complete || image.naturalWidth === 0) {
         throw new Error('Invalid image element provided');
@@ -149,14 +207,23 @@ export class ImageViewer {
 
       const canvasSize = this.canvas.getSize();
 
-      this.customImageData = getImageData(image, canvasSize, type, fileName);
+      this.customImageData = getImageData(
+        image,
+        canvasSize,
+        type,
+        fileName,
+        metadata,
+        tileSource ?? this.tiledImageLayer.createPyramid(image)
+      );
 
       this.render();
 
       // Reset zoom/pan to initial state if zoom/pan is enabled
       if (this.zoomPanHandler && this.customImageData) {
+        // A new image starts upright
+        this.zoomPanHandler.setOrientation({ rotation: 0, flipX: false, flipY: false });
         // Reset to initial state (scale=1, offset=0,0) since getImageData already calculated proper fit
-        this.zoomPanHandler.reset();
+        this.zoomPanHandler.reset(false);
         // Update initial view state after reset
         this.zoomPanHandler.updateInitialViewState(this.canvas.getViewState());
         this.zoomPanHandler.updateCursorState();
@@ -177,7 +244,7 @@ export class ImageViewer {
   /**
    * Load and display image from HTMLImageElement for overlay mode (allows scaling up)
    */
-  loadImageElementOverlay(image: HTMLImageElement, type?: string, fileName?: string): void {
+  loadImageElementOverlay(image: HTMLImageElement, type?: string, fileName?: string, metadata?: ImageMetadata): void {
     try {
       if (!image || !image.complete || image.naturalWidth === 0) {
         throw new Error('Invalid image element provided');
@@ -190,7 +257,7 @@ export class ImageViewer {
         height: (window.innerHeight * 0.9) - 60
       };
 
-      this.customImageData = getCustomImageDataOverlay(image, overlaySize, type, fileName);
+      this.customImageData = getCustomImageDataOverlay(image, overlaySize, type, fileName, metadata);
 
       this.render();
 
@@ -224,6 +291,14 @@ export class ImageViewer {
    * Render the image on canvas
    */
   render(): void {
+    // The navigator only reads the view state and image, so it can be drawn first
+    if (this.navigatorPanel) {
+      this.navigatorPanel.render();
+    }
+
+    // Drops the tiles of a previous image
+    this.tiledImageLayer.setSource(this.customImageData?.tileSource ?? null);
+
     if (!this.customImageData) {
       // Render background even when no image is loaded
       this.renderBackground();
@@ -246,13 +321,7 @@ export class ImageViewer {
 
     // Draw image
     try {
-      ctx.drawImage(
-        this.customImageData.element,
-        this.customImageData.position.x,
-        this.customImageData.position.y,
-        this.customImageData.displaySize.width,
-        this.customImageData.displaySize.height
-      );
+      this.drawImage(ctx, this.customImageData);
     } catch (err) {
       error('Error drawing image:', err);
     }
@@ -264,10 +333,31 @@ export class ImageViewer {
       this.annotationManager.render();
     }
 
+    // The crop overlay covers the image and annotations
+    this.cropManager.render(ctx);
+
     // Restore transformations after drawing everything
     this.canvas.restoreViewTransform();
   }
 
+  /**
+   * Draw the adjusted image, tile by tile for tiled images
+   */
+  private drawImage(ctx: CanvasRenderingContext2D, imageData: CustomImageData): void {
+    if (imageData.tileSource) {
+      this.tiledImageLayer.render(ctx, imageData, this.imageAdjuster);
+      return;
+    }
+
+    ctx.drawImage(
+      this.imageAdjuster.getImage(imageData.element),
+      imageData.position.x,
+      imageData.position.y,
+      imageData.displaySize.width,
+      imageData.displaySize.height
+    );
+  }
+
   /**
    * Render comparison mode
    */
@@ -325,13 +415,7 @@ export class ImageViewer {
     ctx.clip();
 
     // Draw current image with annotations (only in clipped region)
-    ctx.drawImage(
-      this.customImageData.element,
-      this.customImageData.position.x,
-      this.customImageData.position.y,
-      this.customImageData.displaySize.width,
-      this.customImageData.displaySize.height
-    );
+    this.drawImage(ctx, this.customImageData);
 
     // Draw annotations if annotation manager is available
     if (this.annotationManager) {
@@ -412,11 +496,12 @@ export class ImageViewer {
 
     // Recalculate image dimensions if image is loaded
     if (this.customImageData) {
-      this.customImageData = getImageData(this.customImageData.element, size, this.customImageData.type, this.customImageData.fileName);
+      const { element, type, fileName, metadata, tileSource } = this.customImageData;
+      this.customImageData = getImageData(element, size, type, fileName, metadata, tileSource);
 
       // Reset zoom/pan to initial state after resize since getImageData already calculated proper fit
       if (this.zoomPanHandler) {
-        this.zoomPanHandler.reset();
+        this.zoomPanHandler.reset(false);
         // Update initial view state after reset
         this.zoomPanHandler.updateInitialViewState(this.canvas.getViewState());
       }
@@ -453,6 +538,101 @@ export class ImageViewer {
     return this.annotationManager;
   }
 
+  /**
+   * Get navigator panel
+   */
+  getNavigatorPanel(): NavigatorPanel | null {
+    return this.navigatorPanel;
+  }
+
+  /**
+   * Show or remove the navigator panel
+   */
+  setNavigatorEnabled(enabled: boolean, options: NavigatorOptions = {}): void {
+    if (enabled && !this.navigatorPanel) {
+      this.navigatorPanel = new NavigatorPanel(this.container, this.canvas, options);
+      this.navigatorPanel.render();
+    } else if (!enabled && this.navigatorPanel) {
+      this.navigatorPanel.destroy();
+      this.navigatorPanel = null;
+    }
+  }
+
+  /**
+   * Get the element the viewer is rendered into
+   */
+  getContainer(): HTMLElement {
+    return this.container;
+  }
+
+  /**
+   * Get the key bindings shared by keyboard navigation and annotation shortcuts
+   */
+  getKeymap(): Keymap {
+    return this.keymap;
+  }
+
+  /**
+   * Get keyboard handler
+   */
+  getKeyboardHandler(): KeyboardHandler {
+    return this.keyboardHandler;
+  }
+
+  /**
+   * Get the screen reader annotation list and announcements
+   */
+  getAccessibilityLayer(): AccessibilityLayer {
+    return this.accessibilityLayer;
+  }
+
+  /**
+   * Get the brightness, contrast and other image adjustments
+   */
+  getImageAdjuster(): ImageAdjuster {
+    return this.imageAdjuster;
+  }
+
+  /**
+   * Change some of the image adjustments and redraw
+   */
+  setAdjustments(adjustments: Partial<ImageAdjustments>): void {
+    this.imageAdjuster.setAdjustments(adjustments);
+    this.render();
+  }
+
+  /**
+   * Show the unadjusted image
+   */
+  resetAdjustments(): void {
+    this.imageAdjuster.reset();
+    this.render();
+  }
+
+  /**
+   * Get the layer drawing tiled images
+   */
+  getTiledImageLayer(): TiledImageLayer {
+    return this.tiledImageLayer;
+  }
+
+  /**
+   * Get the crop mode
+   */
+  getCropManager(): CropManager {
+    return this.cropManager;
+  }
+
+  /**
+   * Enter crop mode, leaving comparison mode since the overlay needs the plain view
+   */
+  startCrop(options: CropOptions = {}): void {
+    if (this.isComparisonMode()) {
+      this.setComparisonMode(false);
+    }
+    this.cropManager.start(options);
+  }
+
   /**
    * Get comparison manager
    */
@@ -460,6 +640,48 @@ export class ImageViewer {
     return this.comparisonManager;
   }
 
+  /**
+   * Export image (and annotations) at natural resolution
+   */
+  exportImage(options: ImageExportOptions = {}): Promise<Blob | string> {
+    if (!this.customImageData) {
+      return Promise.reject(ErrorHandler.createError(
+        ErrorType.RENDERING,
+        'Cannot export: no image loaded',
+        { options }
+      ));
+    }
+
+    if (this.customImageData.tileSource) {
+      // The element may only be a preview, and adjusting a tiled image as a
+      // whole is too costly, so the export is drawn from its tiles
+      const adjuster = options.includeAdjustments ? this.imageAdjuster : null;
+      return ImageExporter.export(this.customImageData, this.annotationManager, options,
+        (region, scale) => this.tiledImageLayer.renderRegion(region, scale, adjuster));
+    }
+
+    const image = options.includeAdjustments
+      ? this.imageAdjuster.getImage(this.customImageData.element)
+      : this.customImageData.element;
+    return ImageExporter.export(this.customImageData, this.annotationManager, options, image);
+  }
+
+  /**
+   * Export annotations as SVG document in natural image coordinates
+   */
+  exportAnnotationsAsSVG(options: SvgExportOptions = {}): string {
+    if (!this.customImageData) {
+      throw ErrorHandler.createError(
+        ErrorType.RENDERING,
+        'Cannot export: no image loaded',
+        { options }
+      );
+    }
+
+    const annotations = this.annotationManager ? this.annotationManager.getAllAnnotations() : [];
+    return new AnnotationSvgExporter(this.customImageData).export(annotations, options);
+  }
+
   /**
    * Check if image is loaded
    */
@@ -584,5 +806,7 @@ export class ImageViewer {
     if (this.comparisonManager) {
       this.comparisonManager.setEventHandlers(this.eventHandlers);
     }
+
+    this.cropManager.setEventHandlers(this.eventHandlers);
   }
 }
@@ -1,2 +1,4 @@
 // Image viewer module exports
 export { ImageViewer } from './Viewer';
+export { ImageExporter } from './Exporter';
+export { ImageAdjuster, applyAdjustments } from './Adjustments';
@@ -1,7 +1,16 @@
+// Accessibility module
+export { AccessibilityLayer } from './accessibility';
+
 // Annotation module
 export {
   AnnotationManager,
+  AnnotationHistory,
   AnnotationRenderer,
+  AnnotationSvgExporter,
+  CocoSerializer,
+  VocSerializer,
+  WebAnnotationSerializer,
+  YoloSerializer,
 } from './annotation';
 
 export {
@@ -16,6 +25,10 @@ export {
   TextTool,
   CircleTool,
   LineTool,
+  FreehandTool,
+  HighlighterTool,
+  PolygonTool,
+  PolylineTool,
 } from './annotation/tools';
 
 // Comparison module
@@ -24,8 +37,26 @@ export {
   ComparisonViewer,
 } from './comparison';
 
+// Crop module
+export { CropManager, cropAnnotation } from './crop';
+
 // Image viewer module
-export { ImageViewer } from './image-viewer';
+export { ImageViewer, ImageExporter, ImageAdjuster, applyAdjustments } from './image-viewer';
+
+// Keyboard module
+export { KeyboardHandler, Keymap } from './keyboard';
+
+// Navigator module
+export { NavigatorPanel } from './navigator';
+
+// Tiles module
+export {
+  DeepZoomTileSource,
+  IiifTileSource,
+  PyramidTileSource,
+  TileCache,
+  TiledImageLayer,
+} from './tiles';
 
 // Zoom-pan module
 export { ZoomPanHandler } from './zoom-pan';
@@ -0,0 +1,154 @@
+import type { Renderer } from '../../core/Renderer';
+import type { ImageNavigator, KeyAction, Point } from '../../types';
+import type { Keymap } from './Keymap';
+import { isEditableTarget } from './utils';
+
+/** Pan distance of a move key in screen pixels, and with Shift held */
+const PAN_STEP = 50;
+const FAST_PAN_STEP = 200;
+/** Nudge distance of a move key in image pixels, and with Shift held */
+const NUDGE_STEP = 1;
+const FAST_NUDGE_STEP = 10;
+
+type MoveDirection = Point & { fast: boolean };
+
+const MOVE_DIRECTIONS: Partial<Record<KeyAction, MoveDirection>> = {
+  moveLeft: { x: -1, y: 0, fast: false },
+  moveRight: { x: 1, y: 0, fast: false },
+  moveUp: { x: 0, y: -1, fast: false },
+  moveDown: { x: 0, y: 1, fast: false },
+  moveLeftFast: { x: -1, y: 0, fast: true },
+  moveRightFast: { x: 1, y: 0, fast: true },
+  moveUpFast: { x: 0, y: -1, fast: true },
+  moveDownFast: { x: 0, y: 1, fast: true }
+};
+
+/**
+ * Keyboard control of the viewer while it has focus: zooming, panning,
+ * nudging the selected annotations, cycling the selection, switching gallery
+ * images and custom shortcuts. Tool and history shortcuts are handled by
+ * AnnotationToolsEventHandler through the same keymap.
+ */
+export class KeyboardHandler {
+  private container: HTMLElement;
+  private canvas: Renderer;
+  private keymap: Keymap;
+  private imageNavigator: ImageNavigator | null = null;
+  private boundHandleKeyDown: EventListener;
+  private boundHandlePointerDown: EventListener;
+
+  constructor(container: HTMLElement, canvas: Renderer, keymap: Keymap) {
+    this.container = container;
+    this.canvas = canvas;
+    this.keymap = keymap;
+    this.boundHandleKeyDown = this.handleKeyDown.bind(this) as EventListener;
+    this.boundHandlePointerDown = this.handlePointerDown.bind(this) as EventListener;
+
+    // Make the canvas reachable with Tab so it can receive key events
+    canvas.getElement().tabIndex = 0;
+    // Keys are only handled while focus is inside this viewer, not page-wide
+    container.addEventListener('keydown', this.boundHandleKeyDown);
+    container.addEventListener('pointerdown', this.boundHandlePointerDown, true);
+  }
+
+  /**
+   * Remove the event listeners and make the canvas unfocusable again
+   */
+  destroy(): void {
+    this.container.removeEventListener('keydown', this.boundHandleKeyDown);
+    this.container.removeEventListener('pointerdown', this.boundHandlePointerDown, true);
+    this.canvas.getElement().removeAttribute('tabindex');
+  }
+
+  /**
+   * Set what the image actions switch between, e.g. the images of a gallery
+   */
+  setImageNavigator(navigator: ImageNavigator | null): void {
+    this.imageNavigator = navigator;
+  }
+
+  private handleKeyDown(event: KeyboardEvent): void {
+    const action = this.keymap.resolve(event);
+    if (!action || isEditableTarget(event)) return;
+
+    if (typeof action === 'function') {
+      event.preventDefault();
+      action(event);
+    } else if (this.runAction(action)) {
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Focus the canvas when the viewer is clicked; pointer handlers prevent the
+   * default focus change
+   */
+  private handlePointerDown(event: PointerEvent): void {
+    if (isEditableTarget(event)) return;
+    this.canvas.getElement().focus({ preventScroll: true });
+  }
+
+  /**
+   * Run a navigation action; returns false if it does not apply so the key
+   * keeps its default behavior
+   */
+  private runAction(action: KeyAction): boolean {
+    const viewer = this.canvas.imageViewer;
+    const zoomPanHandler = viewer?.getZoomPanHandler();
+
+    switch (action) {
+      case 'zoomIn':
+      case 'zoomOut':
+        if (!zoomPanHandler?.getOptions().enableZoom) return false;
+        if (action === 'zoomIn') {
+          zoomPanHandler.zoomIn();
+        } else {
+          zoomPanHandler.zoomOut();
+        }
+        return true;
+      case 'resetView':
+        if (!viewer || !zoomPanHandler) return false;
+        viewer.resetView();
+        return true;
+      case 'selectNext':
+      case 'selectPrevious':
+        return this.cycleSelection(action === 'selectPrevious');
+      case 'nextImage':
+      case 'previousImage':
+        return this.imageNavigator ? this.imageNavigator(action === 'nextImage' ? 1 : -1) : false;
+      default: {
+        const direction = MOVE_DIRECTIONS[action];
+        return direction ? this.move(direction) : false;
+      }
+    }
+  }
+
+  /**
+   * Nudge the selected annotations, or pan the view when nothing is selected
+   */
+  private move(direction: MoveDirection): boolean {
+    const annotationManager = this.canvas.annotationManager;
+    if (annotationManager?.hasSelectedAnnotation()) {
+      const step = direction.fast ? FAST_NUDGE_STEP : NUDGE_STEP;
+      return annotationManager.nudgeSelectedAnnotations(direction.x * step, direction.y * step);
+    }
+
+    const zoomPanHandler = this.canvas.imageViewer?.getZoomPanHandler();
+    if (!zoomPanHandler?.getOptions().enablePan) return false;
+
+    // Like scrolling, the view moves towards the arrow so the image moves the other way
+    const step = direction.fast ? FAST_PAN_STEP : PAN_STEP;
+    zoomPanHandler.panBy(-direction.x * step, -direction.y * step);
+    return true;
+  }
+
+  /**
+   * Select the next or previous annotation. Past either end the selection is
+   * cleared and the key is left to move focus out of the canvas
+   */
+  private cycleSelection(reverse: boolean): boolean {
+    const annotationManager = this.canvas.annotationManager;
+    if (!annotationManager) return false;
+    return annotationManager.selectAdjacentAnnotation(reverse) !== null;
+  }
+}
@@ -0,0 +1,178 @@
+import { DEFAULT_KEYMAP } from '../../constants';
+import type { KeymapBindings, RegisterShortcutOptions, ShortcutAction } from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import { warn } from '../../utils/core/logger';
+
+type Modifier = 'ctrl' | 'alt' | 'shift' | 'meta';
+
+/** Modifier names accepted in combinations; 'mod' depends on the platform */
+const MODIFIER_ALIASES: Record<string, Modifier | 'mod'> = {
+  ctrl: 'ctrl',
+  control: 'ctrl',
+  alt: 'alt',
+  option: 'alt',
+  shift: 'shift',
+  meta: 'meta',
+  cmd: 'meta',
+  command: 'meta',
+  mod: 'mod'
+};
+const MODIFIER_ORDER: Modifier[] = ['ctrl', 'alt', 'shift', 'meta'];
+
+/** Key names that cannot be written literally in a combination */
+const KEY_ALIASES: Record<string, string> = {
+  space: ' ',
+  plus: '+'
+};
+
+function isApplePlatform(): boolean {
+  return typeof window !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(window.navigator.platform);
+}
+
+/**
+ * Single characters other than letters: Shift is part of typing them on many
+ * layouts, so it is ignored when matching
+ */
+function isSymbolKey(key: string): boolean {
+  return key.length === 1 && !/[a-z]/.test(key);
+}
+
+function formatCombo(modifiers: Set<Modifier>, key: string): string {
+  const used = MODIFIER_ORDER.filter(modifier => modifiers.has(modifier) && !(modifier === 'shift' && isSymbolKey(key)));
+  return [...used, key].join('+');
+}
+
+/**
+ * Normalize a combination like 'Mod+Shift+Z' to the form produced by
+ * getKeyCombo, e.g. 'ctrl+shift+z' (or 'shift+meta+z' on macOS)
+ */
+export function normalizeKeyCombo(combo: string): string {
+  const parts = combo.split('+').map(part => part.trim());
+  let key = parts.pop() ?? '';
+  // 'Mod++' splits into an empty part before the '+' key
+  if (key === '' && parts[parts.length - 1] === '') {
+    key = '+';
+    parts.pop();
+  }
+
+  if (!key) {
+    throw ErrorHandler.createError(ErrorType.SHORTCUT, `Shortcut "${combo}" has no key`, { combo });
+  }
+
+  const modifiers = new Set<Modifier>();
+  parts.forEach(part => {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) {
+      throw ErrorHandler.createError(ErrorType.SHORTCUT, `Unknown modifier "${part}" in shortcut "${combo}"`, { combo });
+    }
+    modifiers.add(modifier === 'mod' ? (isApplePlatform() ? 'meta' : 'ctrl') : modifier);
+  });
+
+  key = key.toLowerCase();
+  return formatCombo(modifiers, KEY_ALIASES[key] ?? key);
+}
+
+/**
+ * Key combination of a keyboard event, e.g. 'ctrl+shift+z'
+ */
+export function getKeyCombo(event: KeyboardEvent): string {
+  let key = event.key.toLowerCase();
+  // Alt changes the typed character on macOS (Alt+R gives '®'), so use the physical key
+  if (event.altKey && /^(Key[A-Z]|Digit[0-9])$/.test(event.code)) {
+    key = event.code.slice(-1).toLowerCase();
+  }
+
+  const modifiers = new Set<Modifier>();
+  if (event.ctrlKey) modifiers.add('ctrl');
+  if (event.altKey) modifiers.add('alt');
+  if (event.shiftKey) modifiers.add('shift');
+  if (event.metaKey) modifiers.add('meta');
+  return formatCombo(modifiers, key);
+}
+
+function describeAction(action: ShortcutAction): string {
+  return typeof action === 'string' ? `"${action}"` : 'a custom handler';
+}
+
+/**
+ * Registry of keyboard shortcuts, starting from DEFAULT_KEYMAP
+ */
+export class Keymap {
+  private bindings = new Map<string, ShortcutAction>();
+
+  constructor(bindings: KeymapBindings = {}) {
+    this.update(DEFAULT_KEYMAP);
+    this.update(bindings);
+  }
+
+  /**
+   * Bind an action to a key combination. Throws if the combination is already
+   * bound to a different action, unless `replace` is set
+   */
+  register(combo: string, action: ShortcutAction, options: RegisterShortcutOptions = {}): void {
+    const normalized = normalizeKeyCombo(combo);
+    const existing = this.bindings.get(normalized);
+    if (existing && existing !== action && !options.replace) {
+      throw ErrorHandler.createError(
+        ErrorType.SHORTCUT,
+        `Shortcut "${combo}" is already bound to ${describeAction(existing)}`,
+        { combo, normalized }
+      );
+    }
+    this.bindings.set(normalized, action);
+  }
+
+  /**
+   * Remove the binding of a key combination
+   */
+  unregister(combo: string): boolean {
+    return this.bindings.delete(normalizeKeyCombo(combo));
+  }
+
+  /**
+   * Apply overrides: a null action removes the binding. Invalid combinations
+   * and different spellings of one combination with different actions are
+   * reported and skipped
+   */
+  update(bindings: KeymapBindings): void {
+    const applied = new Map<string, string>();
+
+    Object.entries(bindings).forEach(([combo, action]) => {
+      let normalized: string;
+      try {
+        normalized = normalizeKeyCombo(combo);
+      } catch (err) {
+        warn((err as Error).message);
+        return;
+      }
+
+      const previous = applied.get(normalized);
+      if (previous !== undefined && bindings[previous] !== action) {
+        warn(`Shortcut "${combo}" conflicts with "${previous}"; keeping "${previous}"`);
+        return;
+      }
+      applied.set(normalized, combo);
+
+      if (action) {
+        this.bindings.set(normalized, action);
+      } else {
+        this.bindings.delete(normalized);
+      }
+    });
+  }
+
+  /**
+   * Get the action bound to the key combination of an event
+   */
+  resolve(event: KeyboardEvent): ShortcutAction | null {
+    return this.bindings.get(getKeyCombo(event)) ?? null;
+  }
+
+  /**
+   * Get the current bindings keyed by normalized combination
+   */
+  getBindings(): Record<string, ShortcutAction> {
+    return Object.fromEntries(this.bindings);
+  }
+}
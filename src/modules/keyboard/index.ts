@@ -0,0 +1,4 @@
+// Keyboard module exports
+export { KeyboardHandler } from './Handler';
+export { Keymap, getKeyCombo, normalizeKeyCombo } from './Keymap';
+export { isEditableTarget } from './utils';
@@ -0,0 +1,11 @@
+/**
+ * Check if a key event comes from a text field, where shortcuts must not
+ * interfere with typing (including inside shadow DOM)
+ */
+export function isEditableTarget(event: Event): boolean {
+  const target = (event.composedPath ? event.composedPath()[0] : event.target) as HTMLElement | null;
+  if (!target || !target.tagName) {
+    return false;
+  }
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+}
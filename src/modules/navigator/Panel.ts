@@ -0,0 +1,327 @@
+import type { Renderer } from '../../core/Renderer';
+import type { CustomImageData, NavigatorOptions, Point, Rectangle, Size } from '../../types';
+import { clamp, screenRectToWorld } from '../../utils/geometry/coordinate';
+import { isPointInRect } from '../../utils/image/utils';
+
+/** Distance between the panel and the container edges in pixels */
+const PANEL_MARGIN = 10;
+
+/** Scaled down and adjusted image, and what it was drawn from */
+interface Thumbnail {
+  image: CanvasImageSource;
+  source: CanvasImageSource;
+  key: string;
+}
+
+/**
+ * Minimap showing the whole image with its annotations and a rectangle for the
+ * part visible in the main view. Clicking or dragging it pans the main view.
+ */
+export class NavigatorPanel {
+  private canvas: Renderer;
+  private element: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private options: Required<NavigatorOptions>;
+  /** Grabbed point relative to the viewport center while dragging, in thumbnail pixels */
+  private dragOffset: Point | null = null;
+  private thumbnail: Thumbnail | null = null;
+
+  private boundHandlePointerDown: EventListener;
+  private boundHandlePointerMove: EventListener;
+  private boundHandlePointerUp: EventListener;
+
+  constructor(container: HTMLElement, canvas: Renderer, options: NavigatorOptions = {}) {
+    this.canvas = canvas;
+    this.options = {
+      width: 160,
+      position: 'bottom-right',
+      viewportColor: '#ff4757',
+      ...options
+    };
+
+    this.element = document.createElement('canvas');
+    const context = this.element.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to get 2D context from navigator canvas');
+    }
+    this.ctx = context;
+
+    const [vertical, horizontal] = this.options.position.split('-');
+    this.element.style.cssText = `
+      position: absolute;
+      ${vertical}: ${PANEL_MARGIN}px;
+      ${horizontal}: ${PANEL_MARGIN}px;
+      display: none;
+      border: 1px solid rgba(255, 255, 255, 0.8);
+      box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);
+      background: rgba(0, 0, 0, 0.5);
+      cursor: pointer;
+      touch-action: none;
+      user-select: none;
+      z-index: 10;
+    `;
+
+    this.boundHandlePointerDown = this.handlePointerDown.bind(this) as EventListener;
+    this.boundHandlePointerMove = this.handlePointerMove.bind(this) as EventListener;
+    this.boundHandlePointerUp = this.handlePointerUp.bind(this) as EventListener;
+
+    this.element.addEventListener('pointerdown', this.boundHandlePointerDown);
+    this.element.addEventListener('pointermove', this.boundHandlePointerMove);
+    this.element.addEventListener('pointerup', this.boundHandlePointerUp);
+    this.element.addEventListener('pointercancel', this.boundHandlePointerUp);
+
+    container.appendChild(this.element);
+  }
+
+  /**
+   * Get the thumbnail canvas element
+   */
+  getElement(): HTMLCanvasElement {
+    return this.element;
+  }
+
+  /**
+   * Redraw the thumbnail and viewport rectangle; hidden while no image is loaded.
+   * The image is scaled down once and only rebuilt when it, its adjustments or
+   * the panel size change, so a frame only redraws annotations and the viewport.
+   */
+  render(): void {
+    const imageData = this.getImageData();
+    if (!imageData) {
+      this.element.style.display = 'none';
+      return;
+    }
+
+    const size = this.getThumbnailSize(imageData);
+    this.resizeThumbnail(size);
+    this.element.style.display = 'block';
+
+    const dpr = window.devicePixelRatio || 1;
+    const ctx = this.ctx;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+    const thumbnail = this.getThumbnail(imageData, size);
+    if (thumbnail) {
+      ctx.drawImage(thumbnail, 0, 0, size.width, size.height);
+    }
+
+    const annotationManager = this.canvas.annotationManager;
+    if (annotationManager) {
+      const scale = size.width / imageData.displaySize.width;
+      ctx.save();
+      ctx.scale(scale, scale);
+      ctx.translate(-imageData.position.x, -imageData.position.y);
+      annotationManager.renderToContext(ctx);
+      ctx.restore();
+    }
+
+    const viewport = this.getViewportRect();
+    if (viewport) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.15)';
+      ctx.fillRect(viewport.x, viewport.y, viewport.width, viewport.height);
+      ctx.strokeStyle = this.options.viewportColor;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(viewport.x, viewport.y, viewport.width, viewport.height);
+    }
+  }
+
+  /**
+   * Part of the image visible in the main view, in thumbnail pixels
+   */
+  getViewportRect(): Rectangle | null {
+    const imageData = this.getImageData();
+    const bounds = this.getViewportBounds();
+    if (!imageData || !bounds) {
+      return null;
+    }
+
+    const size = this.getThumbnailSize(imageData);
+    const left = clamp(bounds.x, 0, size.width);
+    const top = clamp(bounds.y, 0, size.height);
+    return {
+      x: left,
+      y: top,
+      width: clamp(bounds.x + bounds.width, 0, size.width) - left,
+      height: clamp(bounds.y + bounds.height, 0, size.height) - top
+    };
+  }
+
+  /**
+   * Update options
+   */
+  updateOptions(newOptions: Partial<NavigatorOptions>): void {
+    this.options = { ...this.options, ...newOptions };
+    this.render();
+  }
+
+  /**
+   * Remove the panel and its event listeners
+   */
+  destroy(): void {
+    this.element.removeEventListener('pointerdown', this.boundHandlePointerDown);
+    this.element.removeEventListener('pointermove', this.boundHandlePointerMove);
+    this.element.removeEventListener('pointerup', this.boundHandlePointerUp);
+    this.element.removeEventListener('pointercancel', this.boundHandlePointerUp);
+    this.element.remove();
+    this.dragOffset = null;
+    this.thumbnail = null;
+  }
+
+  /**
+   * Click outside the viewport rectangle centers the view there; pressing
+   * inside it starts dragging it
+   */
+  private handlePointerDown(event: PointerEvent): void {
+    if (!event.isPrimary || event.button !== 0) return;
+
+    const viewport = this.getViewportRect();
+    const bounds = this.getViewportBounds();
+    if (!viewport || !bounds || !this.canvas.imageViewer?.getZoomPanHandler()) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const point = this.getPointerPosition(event);
+    if (isPointInRect(point, viewport)) {
+      this.dragOffset = {
+        x: point.x - (bounds.x + bounds.width / 2),
+        y: point.y - (bounds.y + bounds.height / 2)
+      };
+    } else {
+      this.dragOffset = { x: 0, y: 0 };
+      this.panTo(point, true);
+    }
+
+    try {
+      this.element.setPointerCapture?.(event.pointerId);
+    } catch {
+      // Synthetic events have no active pointer to capture
+    }
+  }
+
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.dragOffset || !event.isPrimary) return;
+
+    event.preventDefault();
+    const point = this.getPointerPosition(event);
+    this.panTo({ x: point.x - this.dragOffset.x, y: point.y - this.dragOffset.y }, false);
+  }
+
+  private handlePointerUp(event: PointerEvent): void {
+    if (!event.isPrimary) return;
+    this.dragOffset = null;
+  }
+
+  /**
+   * Center the main view on a thumbnail point
+   */
+  private panTo(point: Point, animate: boolean): void {
+    const imageData = this.getImageData();
+    const handler = this.canvas.imageViewer?.getZoomPanHandler();
+    if (!imageData || !handler) return;
+
+    const scale = imageData.displaySize.width / this.getThumbnailSize(imageData).width;
+    handler.centerOn({
+      x: imageData.position.x + point.x * scale,
+      y: imageData.position.y + point.y * scale
+    }, animate);
+  }
+
+  /**
+   * Visible area of the main view in thumbnail pixels, not clipped to the image
+   */
+  private getViewportBounds(): Rectangle | null {
+    const imageData = this.getImageData();
+    if (!imageData) return null;
+
+    const canvasSize = this.canvas.getSize();
+    // Bounding box of the visible area when the view is rotated
+    const visible = screenRectToWorld({ x: 0, y: 0, ...canvasSize }, this.canvas.getViewState());
+    const scale = this.getThumbnailSize(imageData).width / imageData.displaySize.width;
+
+    return {
+      x: (visible.x - imageData.position.x) * scale,
+      y: (visible.y - imageData.position.y) * scale,
+      width: visible.width * scale,
+      height: visible.height * scale
+    };
+  }
+
+  /**
+   * Scaled down image with the adjustments applied, rebuilt when needed
+   */
+  private getThumbnail(imageData: CustomImageData, size: Size): CanvasImageSource | null {
+    const source = this.getThumbnailSource(imageData);
+    if (!source) {
+      this.thumbnail = null;
+      return null;
+    }
+
+    const dpr = window.devicePixelRatio || 1;
+    const adjuster = this.canvas.imageViewer?.getImageAdjuster();
+    const key = `${size.width}x${size.height}@${dpr}:${JSON.stringify(adjuster?.getAdjustments() ?? {})}`;
+    if (this.thumbnail && this.thumbnail.source === source && this.thumbnail.key === key) {
+      return this.thumbnail.image;
+    }
+
+    const width = Math.round(size.width * dpr);
+    const height = Math.round(size.height * dpr);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return source;
+    }
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+    const image = adjuster && !adjuster.isIdentity() ? adjuster.adjustImage(canvas, width, height) : canvas;
+    this.thumbnail = { image, source, key };
+    return image;
+  }
+
+  /**
+   * Image to scale down: the loaded element, or for an in-memory pyramid,
+   * whose element is the full image, the single tile of its coarsest level
+   */
+  private getThumbnailSource(imageData: CustomImageData): CanvasImageSource | null {
+    const { element, naturalSize, tileSource } = imageData;
+    if (tileSource && element.naturalWidth === naturalSize.width) {
+      return this.canvas.imageViewer?.getTiledImageLayer().getCoarsestTile() ?? null;
+    }
+    return element;
+  }
+
+  private getThumbnailSize(imageData: CustomImageData): Size {
+    return {
+      width: this.options.width,
+      height: Math.round(this.options.width * imageData.naturalSize.height / imageData.naturalSize.width)
+    };
+  }
+
+  /**
+   * Match the thumbnail canvas to its CSS size, sharp on high-DPI screens
+   */
+  private resizeThumbnail(size: Size): void {
+    const dpr = window.devicePixelRatio || 1;
+    if (this.element.width !== size.width * dpr || this.element.height !== size.height * dpr) {
+      this.element.width = size.width * dpr;
+      this.element.height = size.height * dpr;
+      this.element.style.width = `${size.width}px`;
+      this.element.style.height = `${size.height}px`;
+    }
+  }
+
+  private getPointerPosition(event: PointerEvent): Point {
+    const rect = this.element.getBoundingClientRect();
+    return {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top
+    };
+  }
+
+  private getImageData(): CustomImageData | null {
+    return this.canvas.imageViewer ? this.canvas.imageViewer.getImageData() : null;
+  }
+}
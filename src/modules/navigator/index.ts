@@ -0,0 +1,2 @@
+// Navigator module exports
+export { NavigatorPanel } from './Panel';
@@ -0,0 +1,87 @@
+import type { TileImage } from '../../types';
+
+/**
+ * Decoded tiles by key, evicting the least recently used ones beyond a
+ * maximum count
+ */
+export class TileCache {
+  private tiles = new Map<string, TileImage>();
+  private maxSize: number;
+  private onEvict: ((key: string) => void) | undefined;
+
+  constructor(maxSize: number, onEvict?: (key: string) => void) {
+    this.maxSize = maxSize;
+    this.onEvict = onEvict;
+  }
+
+  /**
+   * Get a tile and mark it as recently used
+   */
+  get(key: string): TileImage | undefined {
+    const tile = this.tiles.get(key);
+    if (tile) {
+      // Map keeps insertion order, so re-inserting moves the tile to the end
+      this.tiles.delete(key);
+      this.tiles.set(key, tile);
+    }
+    return tile;
+  }
+
+  /**
+   * Check for a tile without marking it as used
+   */
+  has(key: string): boolean {
+    return this.tiles.has(key);
+  }
+
+  /**
+   * Add a tile, evicting the least recently used ones if the cache is full
+   */
+  set(key: string, tile: TileImage): void {
+    this.tiles.delete(key);
+    this.tiles.set(key, tile);
+    this.evictOverflow();
+  }
+
+  /**
+   * Change the maximum number of tiles
+   */
+  setMaxSize(maxSize: number): void {
+    this.maxSize = maxSize;
+    this.evictOverflow();
+  }
+
+  /**
+   * Number of cached tiles
+   */
+  get size(): number {
+    return this.tiles.size;
+  }
+
+  /**
+   * Remove all tiles
+   */
+  clear(): void {
+    Array.from(this.tiles.keys()).forEach(key => this.evict(key));
+  }
+
+  private evictOverflow(): void {
+    while (this.tiles.size > Math.max(0, this.maxSize)) {
+      const oldest = this.tiles.keys().next().value;
+      if (oldest === undefined) break;
+      this.evict(oldest);
+    }
+  }
+
+  private evict(key: string): void {
+    const tile = this.tiles.get(key);
+    this.tiles.delete(key);
+    // Bitmaps hold decoded pixels until closed
+    if (tile && 'close' in tile) {
+      tile.close();
+    }
+    if (this.onEvict) {
+      this.onEvict(key);
+    }
+  }
+}
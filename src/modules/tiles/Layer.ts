@@ -0,0 +1,490 @@
+import type { Renderer } from '../../core/Renderer';
+import type {
+  CullableObject,
+  CustomImageData,
+  Rectangle,
+  TileCoordinate,
+  TileImage,
+  TileSource,
+  TilingOptions,
+  ViewportInfo
+} from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import { warn } from '../../utils/core/logger';
+import { clamp, screenRectToWorld, worldToImage } from '../../utils/geometry/coordinate';
+import { RenderOptimizer } from '../../utils/performance/render-optimizer';
+import { ViewportCulling } from '../../utils/performance/viewport-culling';
+import type { ImageAdjuster } from '../image-viewer/Adjustments';
+import { TileCache } from './Cache';
+import { getLevelSize, PyramidTileSource } from './Sources';
+
+const DEFAULT_TILING_OPTIONS: Required<TilingOptions> = {
+  threshold: 8192,
+  tileSize: 512,
+  cacheSize: 256
+};
+
+/** Tiles loading at the same time; the others are requested as these arrive */
+const MAX_CONCURRENT_LOADS = 6;
+
+/** A tile with its bounds in natural image pixels */
+interface TileRegion extends CullableObject {
+  id: string;
+  coordinate: TileCoordinate;
+}
+
+function getTileKey(tile: TileCoordinate): string {
+  return `${tile.level}/${tile.column}/${tile.row}`;
+}
+
+function getTileImageSize(tile: TileImage): { width: number; height: number } {
+  return 'naturalWidth' in tile
+    ? { width: tile.naturalWidth || tile.width, height: tile.naturalHeight || tile.height }
+    : { width: tile.width, height: tile.height };
+}
+
+/**
+ * Draws an image from a tile source: only the tiles at the level matching
+ * the zoom that intersect the view are loaded, nearest to the view center
+ * first, and kept in a least recently used cache. Until a tile arrives, the
+ * nearest coarser cached tile stands in for it. Arrived tiles are tracked as
+ * dirty regions and trigger a redraw only when they are in view.
+ */
+export class TiledImageLayer {
+  private canvas: Renderer;
+  private options: Required<TilingOptions>;
+  private source: TileSource | null = null;
+  private cache: TileCache;
+  /** Regions of the cached tiles in natural image pixels; dirty until drawn */
+  private optimizer = new RenderOptimizer();
+  private dirtyTiles = new Set<string>();
+  private loading = new Set<string>();
+  private failed = new Set<string>();
+  /** Visible tiles that were not requested yet because enough were loading */
+  private waiting = 0;
+  private frame: number | null = null;
+  private adjustedTiles = new WeakMap<TileImage, CanvasImageSource>();
+  private adjustmentsKey = '';
+
+  constructor(canvas: Renderer, options: TilingOptions = {}) {
+    this.canvas = canvas;
+    this.options = { ...DEFAULT_TILING_OPTIONS, ...options };
+    this.cache = new TileCache(this.options.cacheSize, key => {
+      this.optimizer.removeRenderRegion(key);
+      this.dirtyTiles.delete(key);
+    });
+  }
+
+  /**
+   * Update options
+   */
+  updateOptions(options: TilingOptions): void {
+    this.options = { ...this.options, ...options };
+    this.cache.setMaxSize(this.options.cacheSize);
+  }
+
+  /**
+   * Get options
+   */
+  getOptions(): Required<TilingOptions> {
+    return { ...this.options };
+  }
+
+  /**
+   * In-memory pyramid for an image too large to draw in one piece, or
+   * undefined when the image is below the threshold
+   */
+  createPyramid(image: HTMLImageElement): PyramidTileSource | undefined {
+    const { threshold, tileSize } = this.options;
+    const size = Math.max(image.naturalWidth || image.width, image.naturalHeight || image.height);
+    return threshold > 0 && size > threshold ? new PyramidTileSource(image, tileSize) : undefined;
+  }
+
+  /**
+   * Get the tile source being drawn
+   */
+  getSource(): TileSource | null {
+    return this.source;
+  }
+
+  /**
+   * Switch to another tile source, dropping the tiles of the previous one
+   */
+  setSource(source: TileSource | null): void {
+    if (source === this.source) return;
+
+    this.source = source;
+    this.cache.clear();
+    this.optimizer.clear();
+    this.dirtyTiles.clear();
+    this.loading.clear();
+    this.failed.clear();
+    this.waiting = 0;
+    this.cancelRedraw();
+  }
+
+  /**
+   * The single tile of the coarsest level, once it has arrived
+   */
+  getCoarsestTile(): TileImage | null {
+    if (!this.source) return null;
+    return this.cache.get(getTileKey({ level: this.source.levelCount - 1, column: 0, row: 0 })) ?? null;
+  }
+
+  /**
+   * Number of tiles in memory
+   */
+  getCachedTileCount(): number {
+    return this.cache.size;
+  }
+
+  /**
+   * Level whose pixels are closest to, but not smaller than, screen pixels
+   */
+  getLevel(imageData: CustomImageData): number {
+    if (!this.source) return 0;
+
+    const dpr = window.devicePixelRatio || 1;
+    const screenPixelsPerImagePixel =
+      (imageData.displaySize.width / imageData.naturalSize.width) * this.canvas.getViewState().scale * dpr;
+    const level = Math.floor(Math.log2(1 / screenPixelsPerImagePixel));
+    return clamp(level, 0, this.source.levelCount - 1);
+  }
+
+  /**
+   * Tiles of a level that intersect the view, nearest to its center first
+   */
+  getVisibleTiles(imageData: CustomImageData, level: number): TileRegion[] {
+    const source = this.source;
+    if (!source) return [];
+
+    const viewport = this.getViewport(imageData);
+    const tiles: TileRegion[] = this.getTilesInRegion(source, level, viewport.bounds).map(coordinate => ({
+      id: getTileKey(coordinate),
+      coordinate,
+      bounds: this.getTileBounds(source, coordinate),
+      visible: true,
+      priority: 0,
+      type: 'tile'
+    }));
+
+    return ViewportCulling.getObjectsByDistance(ViewportCulling.cullObjects(tiles, viewport), viewport);
+  }
+
+  /**
+   * Draw a region of the source, in natural image pixels, at a scale from
+   * the tiles of the level matching it, e.g. for export. Tiles missing from
+   * the cache are loaded without being kept, and adjusted one by one when an
+   * adjuster is given.
+   */
+  async renderRegion(region: Rectangle, scale: number, adjuster: ImageAdjuster | null): Promise<HTMLCanvasElement> {
+    const source = this.source;
+    if (!source) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'No tile source to draw');
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(region.width * scale));
+    canvas.height = Math.max(1, Math.round(region.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Failed to get 2D context for tile canvas');
+    }
+
+    ctx.scale(scale, scale);
+    ctx.translate(-region.x, -region.y);
+
+    const level = clamp(Math.floor(Math.log2(1 / scale)), 0, source.levelCount - 1);
+    const tiles = this.getTilesInRegion(source, level, region);
+    for (let start = 0; start < tiles.length; start += MAX_CONCURRENT_LOADS) {
+      const batch = tiles.slice(start, start + MAX_CONCURRENT_LOADS);
+      const images = await Promise.all(batch.map(tile => this.cache.get(getTileKey(tile)) ?? source.loadTile(tile)));
+
+      batch.forEach((tile, index) => {
+        const image = images[index];
+        if (!image) return;
+
+        const size = getTileImageSize(image);
+        const adjusted = adjuster ? this.getAdjustedTile(image, size, adjuster) : image;
+        this.drawTileImage(ctx, source, tile, adjusted, size, this.getTileBounds(source, tile));
+      });
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Draw the visible tiles and request the missing ones; expects the view
+   * transform to be applied
+   */
+  render(ctx: CanvasRenderingContext2D, imageData: CustomImageData, adjuster: ImageAdjuster): void {
+    const source = this.source;
+    if (!source) return;
+
+    const tiles = this.getVisibleTiles(imageData, this.getLevel(imageData));
+    const missing = tiles.filter(tile => !this.cache.has(tile.id));
+
+    // Stand-ins for missing tiles, drawn coarse to fine below the sharp tiles
+    const fallbacks = new Map<string, TileCoordinate>();
+    missing.forEach(tile => {
+      const parent = this.findCachedParent(tile.coordinate);
+      if (parent) {
+        fallbacks.set(getTileKey(parent), parent);
+      }
+    });
+    Array.from(fallbacks.values())
+      .sort((a, b) => b.level - a.level)
+      .forEach(coordinate => this.drawTile(ctx, imageData, coordinate, adjuster));
+    tiles.forEach(tile => this.drawTile(ctx, imageData, tile.coordinate, adjuster));
+
+    this.requestTiles(source, missing);
+
+    this.dirtyTiles.forEach(key => this.optimizer.markClean(key));
+    this.dirtyTiles.clear();
+  }
+
+  /**
+   * Stop loading and drop all tiles
+   */
+  destroy(): void {
+    this.setSource(null);
+  }
+
+  private getViewport(imageData: CustomImageData): ViewportInfo {
+    const viewState = this.canvas.getViewState();
+    const size = this.canvas.getSize();
+    const world = screenRectToWorld({ x: 0, y: 0, ...size }, viewState);
+    const topLeft = worldToImage({ x: world.x, y: world.y }, imageData);
+    const bottomRight = worldToImage({ x: world.x + world.width, y: world.y + world.height }, imageData);
+
+    return {
+      position: topLeft,
+      size,
+      bounds: { x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y },
+      zoom: viewState.scale
+    };
+  }
+
+  /**
+   * Tiles of a level that intersect a region in natural image pixels. Only
+   * the columns and rows spanned by the region are considered, so fine levels
+   * with many thousands of tiles stay cheap
+   */
+  private getTilesInRegion(source: TileSource, level: number, region: Rectangle): TileCoordinate[] {
+    const levelSize = getLevelSize(source, level);
+    const tileWidth = source.tileSize * (source.width / levelSize.width);
+    const tileHeight = source.tileSize * (source.height / levelSize.height);
+    const columns = Math.ceil(levelSize.width / source.tileSize);
+    const rows = Math.ceil(levelSize.height / source.tileSize);
+
+    const firstColumn = clamp(Math.floor(region.x / tileWidth), 0, columns - 1);
+    const lastColumn = clamp(Math.floor((region.x + region.width) / tileWidth), 0, columns - 1);
+    const firstRow = clamp(Math.floor(region.y / tileHeight), 0, rows - 1);
+    const lastRow = clamp(Math.floor((region.y + region.height) / tileHeight), 0, rows - 1);
+
+    const tiles: TileCoordinate[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        tiles.push({ level, column, row });
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Area of a tile in natural image pixels, not counting overlap
+   */
+  private getTileBounds(source: TileSource, tile: TileCoordinate): Rectangle {
+    const levelSize = getLevelSize(source, tile.level);
+    const scaleX = source.width / levelSize.width;
+    const scaleY = source.height / levelSize.height;
+    const x = tile.column * source.tileSize;
+    const y = tile.row * source.tileSize;
+
+    return {
+      x: x * scaleX,
+      y: y * scaleY,
+      width: Math.min(source.tileSize, levelSize.width - x) * scaleX,
+      height: Math.min(source.tileSize, levelSize.height - y) * scaleY
+    };
+  }
+
+  private findCachedParent(tile: TileCoordinate): TileCoordinate | null {
+    const levelCount = this.source?.levelCount ?? 0;
+    for (let level = tile.level + 1; level < levelCount; level++) {
+      const shift = level - tile.level;
+      const parent = { level, column: tile.column >> shift, row: tile.row >> shift };
+      if (this.cache.has(getTileKey(parent))) {
+        return parent;
+      }
+    }
+    return null;
+  }
+
+  private drawTile(
+    ctx: CanvasRenderingContext2D,
+    imageData: CustomImageData,
+    coordinate: TileCoordinate,
+    adjuster: ImageAdjuster
+  ): void {
+    const source = this.source;
+    const tile = this.cache.get(getTileKey(coordinate));
+    if (!source || !tile) return;
+
+    const bounds = this.getTileBounds(source, coordinate);
+    const size = getTileImageSize(tile);
+    const scaleX = imageData.displaySize.width / imageData.naturalSize.width;
+    const scaleY = imageData.displaySize.height / imageData.naturalSize.height;
+
+    this.drawTileImage(ctx, source, coordinate, this.getAdjustedTile(tile, size, adjuster), size, {
+      x: imageData.position.x + bounds.x * scaleX,
+      y: imageData.position.y + bounds.y * scaleY,
+      width: bounds.width * scaleX,
+      height: bounds.height * scaleY
+    });
+  }
+
+  /**
+   * Draw the pixels of a tile without its overlap into a target rectangle
+   */
+  private drawTileImage(
+    ctx: CanvasRenderingContext2D,
+    source: TileSource,
+    coordinate: TileCoordinate,
+    image: CanvasImageSource,
+    size: { width: number; height: number },
+    target: Rectangle
+  ): void {
+    const levelSize = getLevelSize(source, coordinate.level);
+    const lastColumn = Math.ceil(levelSize.width / source.tileSize) - 1;
+    const lastRow = Math.ceil(levelSize.height / source.tileSize) - 1;
+
+    // Overlap is only on edges shared with another tile
+    const left = coordinate.column > 0 ? source.overlap : 0;
+    const top = coordinate.row > 0 ? source.overlap : 0;
+    const right = coordinate.column < lastColumn ? source.overlap : 0;
+    const bottom = coordinate.row < lastRow ? source.overlap : 0;
+
+    ctx.drawImage(
+      image,
+      left,
+      top,
+      size.width - left - right,
+      size.height - top - bottom,
+      target.x,
+      target.y,
+      target.width,
+      target.height
+    );
+  }
+
+  /**
+   * Tiles are adjusted one by one as they are drawn, since a tiled image is
+   * too large to adjust as a whole
+   */
+  private getAdjustedTile(
+    tile: TileImage,
+    size: { width: number; height: number },
+    adjuster: ImageAdjuster
+  ): CanvasImageSource {
+    if (adjuster.isIdentity()) {
+      return tile;
+    }
+
+    const adjustmentsKey = JSON.stringify(adjuster.getAdjustments());
+    if (adjustmentsKey !== this.adjustmentsKey) {
+      this.adjustmentsKey = adjustmentsKey;
+      this.adjustedTiles = new WeakMap();
+    }
+
+    let adjusted = this.adjustedTiles.get(tile);
+    if (!adjusted) {
+      adjusted = adjuster.adjustImage(tile, size.width, size.height);
+      this.adjustedTiles.set(tile, adjusted);
+    }
+    return adjusted;
+  }
+
+  /**
+   * Load missing tiles, starting with the single tile of the coarsest level
+   * that backs every other one
+   */
+  private requestTiles(source: TileSource, missing: TileRegion[]): void {
+    const coarsest = { level: source.levelCount - 1, column: 0, row: 0 };
+    this.waiting = 0;
+
+    [coarsest, ...missing.map(tile => tile.coordinate)].forEach(tile => {
+      const key = getTileKey(tile);
+      if (this.cache.has(key) || this.loading.has(key) || this.failed.has(key)) return;
+
+      if (this.loading.size >= MAX_CONCURRENT_LOADS) {
+        this.waiting++;
+        return;
+      }
+
+      this.loading.add(key);
+      source.loadTile(tile)
+        .then(image => {
+          if (source !== this.source) return;
+
+          this.cache.set(key, image);
+          // Finer levels are sharper and go first
+          this.optimizer.addRenderRegion(key, this.getTileBounds(source, tile), source.levelCount - tile.level);
+          this.dirtyTiles.add(key);
+        })
+        .catch(err => {
+          if (source !== this.source) return;
+
+          warn(`Failed to load tile ${key}:`, err);
+          this.failed.add(key);
+        })
+        .finally(() => {
+          if (source !== this.source) return;
+
+          this.loading.delete(key);
+          this.scheduleRedraw();
+        });
+    });
+  }
+
+  private scheduleRedraw(): void {
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(() => this.flush());
+    }
+  }
+
+  private cancelRedraw(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  /**
+   * Redraw once per frame if tiles arrived in view; otherwise only request
+   * the tiles that waited for others to finish loading
+   */
+  private flush(): void {
+    this.frame = null;
+
+    const source = this.source;
+    const imageData = this.canvas.imageViewer?.getImageData();
+    if (!source || !imageData) return;
+
+    const arrivedInView = this.optimizer.getRegionsToRender(this.getViewport(imageData), { cullingMargin: 0 });
+    if (arrivedInView.length > 0) {
+      this.canvas.imageViewer?.render();
+      return;
+    }
+
+    // Tiles that arrived out of view need no redraw
+    this.dirtyTiles.forEach(key => this.optimizer.markClean(key));
+    this.dirtyTiles.clear();
+
+    if (this.waiting > 0) {
+      const tiles = this.getVisibleTiles(imageData, this.getLevel(imageData));
+      this.requestTiles(source, tiles.filter(tile => !this.cache.has(tile.id)));
+    }
+  }
+}
@@ -0,0 +1,270 @@
+import type {
+  DeepZoomTileSourceOptions,
+  IiifTileSourceOptions,
+  Size,
+  TileCoordinate,
+  TileImage,
+  TileSource
+} from '../../types';
+import { ErrorType } from '../../types';
+import { ErrorHandler } from '../../utils/core/error-handler';
+import { loadImage } from '../../utils/image/utils';
+
+/**
+ * Number of levels needed until the whole image fits into a single tile
+ */
+export function getLevelCount(width: number, height: number, tileSize: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(width, height) / tileSize)) + 1);
+}
+
+/**
+ * Size of a level in pixels
+ */
+export function getLevelSize(source: Pick<TileSource, 'width' | 'height'>, level: number): Size {
+  const scale = 2 ** level;
+  return {
+    width: Math.ceil(source.width / scale),
+    height: Math.ceil(source.height / scale)
+  };
+}
+
+function validateSource(width: number, height: number, tileSize: number, context: Record<string, unknown>): void {
+  if (!(width > 0) || !(height > 0) || !(tileSize > 0)) {
+    throw ErrorHandler.createError(
+      ErrorType.IMAGE_LOAD,
+      'Tile source needs a positive width, height and tile size',
+      { ...context, width, height, tileSize }
+    );
+  }
+}
+
+async function fetchDescriptor(url: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw ErrorHandler.createError(
+      ErrorType.IMAGE_LOAD,
+      `Failed to load tile source descriptor: ${response.status} ${response.statusText}`,
+      { url }
+    );
+  }
+  return response;
+}
+
+/**
+ * Tiles laid out as a Deep Zoom image (DZI): `<tilesUrl><level>/<column>_<row>.<format>`,
+ * where Deep Zoom numbers its levels from a 1x1 pixel image up to full resolution
+ */
+export class DeepZoomTileSource implements TileSource {
+  readonly width: number;
+  readonly height: number;
+  readonly tileSize: number;
+  readonly overlap: number;
+  readonly levelCount: number;
+  private tilesUrl: string;
+  private format: string;
+  private maxLevel: number;
+
+  constructor(options: DeepZoomTileSourceOptions) {
+    const tileSize = options.tileSize ?? 254;
+    validateSource(options.width, options.height, tileSize, { tilesUrl: options.tilesUrl });
+
+    this.width = options.width;
+    this.height = options.height;
+    this.tileSize = tileSize;
+    this.overlap = options.overlap ?? 1;
+    this.format = options.format ?? 'jpg';
+    this.tilesUrl = options.tilesUrl.endsWith('/') ? options.tilesUrl : `${options.tilesUrl}/`;
+    this.levelCount = getLevelCount(this.width, this.height, this.tileSize);
+    this.maxLevel = Math.ceil(Math.log2(Math.max(this.width, this.height)));
+  }
+
+  /**
+   * Create a source from the XML of a .dzi file
+   */
+  static fromXml(xml: string, tilesUrl: string): DeepZoomTileSource {
+    const descriptor = new DOMParser().parseFromString(xml, 'application/xml');
+    const image = descriptor.getElementsByTagName('Image')[0];
+    const size = descriptor.getElementsByTagName('Size')[0];
+    if (!image || !size) {
+      throw ErrorHandler.createError(ErrorType.IMAGE_LOAD, 'Invalid Deep Zoom descriptor', { tilesUrl });
+    }
+
+    return new DeepZoomTileSource({
+      tilesUrl,
+      width: Number(size.getAttribute('Width')),
+      height: Number(size.getAttribute('Height')),
+      tileSize: Number(image.getAttribute('TileSize')),
+      overlap: Number(image.getAttribute('Overlap') ?? 0),
+      format: image.getAttribute('Format') ?? 'jpg'
+    });
+  }
+
+  /**
+   * Fetch a .dzi file; its tiles are in the `_files` folder next to it
+   */
+  static async load(url: string): Promise<DeepZoomTileSource> {
+    const response = await fetchDescriptor(url);
+    const tilesUrl = `${url.replace(/\.[^./?#]*([?#].*)?$/, '')}_files/`;
+    return DeepZoomTileSource.fromXml(await response.text(), tilesUrl);
+  }
+
+  /**
+   * URL of a tile
+   */
+  getTileUrl(tile: TileCoordinate): string {
+    return `${this.tilesUrl}${this.maxLevel - tile.level}/${tile.column}_${tile.row}.${this.format}`;
+  }
+
+  loadTile(tile: TileCoordinate): Promise<TileImage> {
+    return loadImage(this.getTileUrl(tile));
+  }
+
+  loadPreview(): Promise<HTMLImageElement> {
+    return loadImage(this.getTileUrl({ level: this.levelCount - 1, column: 0, row: 0 }));
+  }
+}
+
+/**
+ * Tiles requested from an IIIF Image API service as
+ * `<id>/<region>/<size>/0/default.<format>`
+ */
+export class IiifTileSource implements TileSource {
+  readonly width: number;
+  readonly height: number;
+  readonly tileSize: number;
+  readonly overlap = 0;
+  readonly levelCount: number;
+  private id: string;
+  private format: string;
+
+  constructor(options: IiifTileSourceOptions) {
+    const tileSize = options.tileSize ?? 512;
+    validateSource(options.width, options.height, tileSize, { id: options.id });
+
+    this.id = options.id.replace(/\/+$/, '');
+    this.width = options.width;
+    this.height = options.height;
+    this.tileSize = tileSize;
+    this.format = options.format ?? 'jpg';
+
+    const levelCount = getLevelCount(this.width, this.height, this.tileSize);
+    this.levelCount = options.levelCount ? Math.max(1, Math.min(levelCount, options.levelCount)) : levelCount;
+  }
+
+  /**
+   * Create a source from the info.json of an image service (version 2 or 3)
+   */
+  static fromInfo(info: unknown): IiifTileSource {
+    const data = (info ?? {}) as {
+      id?: unknown;
+      '@id'?: unknown;
+      width?: number;
+      height?: number;
+      tiles?: Array<{ width?: number; scaleFactors?: number[] }>;
+      preferredFormats?: string[];
+    };
+    const id = data.id ?? data['@id'];
+    if (typeof id !== 'string' || !data.width || !data.height) {
+      throw ErrorHandler.createError(ErrorType.IMAGE_LOAD, 'Invalid IIIF image information', { id });
+    }
+
+    const tiles = data.tiles?.[0];
+    const scaleFactors = tiles?.scaleFactors ?? [];
+    const format = data.preferredFormats?.[0];
+
+    return new IiifTileSource({
+      id,
+      width: data.width,
+      height: data.height,
+      ...(tiles?.width && { tileSize: tiles.width }),
+      // Scale factors are powers of two, one per level
+      ...(scaleFactors.length > 0 && { levelCount: Math.round(Math.log2(Math.max(...scaleFactors))) + 1 }),
+      ...(format && { format })
+    });
+  }
+
+  /**
+   * Fetch the info.json of an image service
+   */
+  static async load(url: string): Promise<IiifTileSource> {
+    const response = await fetchDescriptor(url);
+    return IiifTileSource.fromInfo(await response.json());
+  }
+
+  /**
+   * URL of a tile
+   */
+  getTileUrl(tile: TileCoordinate): string {
+    const scale = 2 ** tile.level;
+    const regionSize = this.tileSize * scale;
+    const x = tile.column * regionSize;
+    const y = tile.row * regionSize;
+    const width = Math.min(regionSize, this.width - x);
+    const height = Math.min(regionSize, this.height - y);
+
+    return `${this.id}/${x},${y},${width},${height}/${Math.ceil(width / scale)},${Math.ceil(height / scale)}/0/default.${this.format}`;
+  }
+
+  loadTile(tile: TileCoordinate): Promise<TileImage> {
+    return loadImage(this.getTileUrl(tile));
+  }
+
+  loadPreview(): Promise<HTMLImageElement> {
+    const { width, height } = getLevelSize(this, this.levelCount - 1);
+    return loadImage(`${this.id}/full/${width},${height}/0/default.${this.format}`);
+  }
+}
+
+/**
+ * Tiles cut on demand from an image that is already in memory, e.g. a large
+ * local file, so the view only ever draws tile-sized pieces of it
+ */
+export class PyramidTileSource implements TileSource {
+  readonly width: number;
+  readonly height: number;
+  readonly tileSize: number;
+  readonly overlap = 0;
+  readonly levelCount: number;
+  private image: HTMLImageElement;
+
+  constructor(image: HTMLImageElement, tileSize: number = 512) {
+    this.image = image;
+    this.width = image.naturalWidth || image.width;
+    this.height = image.naturalHeight || image.height;
+    this.tileSize = tileSize;
+    validateSource(this.width, this.height, tileSize, {});
+    this.levelCount = getLevelCount(this.width, this.height, tileSize);
+  }
+
+  async loadTile(tile: TileCoordinate): Promise<TileImage> {
+    // Cut each tile in its own task so a view needing many stays responsive
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const levelSize = getLevelSize(this, tile.level);
+    const x = tile.column * this.tileSize;
+    const y = tile.row * this.tileSize;
+    const width = Math.min(this.tileSize, levelSize.width - x);
+    const height = Math.min(this.tileSize, levelSize.height - y);
+    if (width <= 0 || height <= 0) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Tile is outside the image', { tile });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw ErrorHandler.createError(ErrorType.RENDERING, 'Failed to get 2D context for tile canvas');
+    }
+
+    const scaleX = this.width / levelSize.width;
+    const scaleY = this.height / levelSize.height;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(this.image, x * scaleX, y * scaleY, width * scaleX, height * scaleY, 0, 0, width, height);
+    return canvas;
+  }
+
+  loadPreview(): Promise<HTMLImageElement> {
+    return Promise.resolve(this.image);
+  }
+}
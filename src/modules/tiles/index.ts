@@ -0,0 +1,10 @@
+// Tiles module exports
+export { TileCache } from './Cache';
+export { TiledImageLayer } from './Layer';
+export {
+  DeepZoomTileSource,
+  IiifTileSource,
+  PyramidTileSource,
+  getLevelCount,
+  getLevelSize
+} from './Sources';
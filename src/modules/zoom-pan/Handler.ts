@@ -1,6 +1,103 @@
 import { Renderer } from '../../core/Renderer';
-import type { EventHandlers, Point, ViewState, ZoomPanOptions, Rectangle } from '../../types';
-import { clamp, screenToWorld } from '../../utils/geometry/coordinate';
+import type { EventHandlers, FlipAxis, Point, Rectangle, ViewOrientation, ViewState, ZoomPanEasing, ZoomPanOptions, ZoomToRectOptions } from '../../types';
+import {
+  centerPoint,
+  clamp,
+  getViewOrientation,
+  screenToWorld,
+  worldRectToScreen,
+  worldToScreen
+} from '../../utils/geometry/coordinate';
+
+/** Easing curves mapping transition progress (0-1) to eased progress */
+const EASINGS: Record<ZoomPanEasing, (t: number) => number> = {
+  linear: t => t,
+  'ease-out': t => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+/** Pixels per line for wheel events reported in lines (Firefox) */
+const WHEEL_LINE_HEIGHT = 33;
+/** Pan movement within this window (ms) before release sets the inertia velocity */
+const VELOCITY_WINDOW = 100;
+/** Pointer resting longer than this (ms) before release cancels inertia */
+const RELEASE_DELAY = 50;
+/** Inertia stops below this speed (px/ms) */
+const MIN_INERTIA_SPEED = 0.02;
+/** How stiff elastic overscroll feels; lower values stretch further */
+const ELASTIC_RESISTANCE = 0.55;
+
+const DEFAULT_VIEW_STATE: ViewState = { scale: 1, offsetX: 0, offsetY: 0, rotation: 0, flipX: false, flipY: false };
+
+/**
+ * Value outside an allowed range pulled back towards it with a resistance that
+ * grows with the distance, so the overscroll never exceeds `dimension`
+ */
+function rubberBand(value: number, [min, max]: [number, number], dimension: number): number {
+  if (value >= min && value <= max) {
+    return value;
+  }
+
+  const limit = value < min ? min : max;
+  const excess = Math.abs(value - limit);
+  const stretch = (1 - 1 / (excess * ELASTIC_RESISTANCE / dimension + 1)) * dimension;
+  return limit + Math.sign(value - limit) * stretch;
+}
+
+/**
+ * View state part way between two others. The scale changes geometrically so
+ * zooming feels even, and the offsets follow it so that the screen point shared
+ * by both states stays in place instead of drifting sideways.
+ */
+function interpolateViewState(from: ViewState, to: ViewState, t: number): ViewState {
+  if (Math.abs(from.scale - to.scale) < 1e-9) {
+    return {
+      ...to,
+      offsetX: from.offsetX + (to.offsetX - from.offsetX) * t,
+      offsetY: from.offsetY + (to.offsetY - from.offsetY) * t
+    };
+  }
+
+  const scale = from.scale * Math.pow(to.scale / from.scale, t);
+  const progress = (from.scale - scale) / (from.scale - to.scale);
+  return {
+    ...to,
+    scale,
+    offsetX: from.offsetX + (to.offsetX - from.offsetX) * progress,
+    offsetY: from.offsetY + (to.offsetY - from.offsetY) * progress
+  };
+}
+
+/**
+ * A view state with its offsets changed so a world point is shown at a
+ * screen point
+ */
+function anchorViewState(state: ViewState, worldPoint: Point, screenPoint: Point): ViewState {
+  const unshifted = worldToScreen(worldPoint, { ...state, offsetX: 0, offsetY: 0 });
+  return {
+    ...state,
+    offsetX: screenPoint.x - unshifted.x,
+    offsetY: screenPoint.y - unshifted.y
+  };
+}
+
+function isUpright(viewState: ViewState): boolean {
+  const { rotation, flipX, flipY } = getViewOrientation(viewState);
+  return rotation === 0 && !flipX && !flipY;
+}
+
+function isSameOrientation(a: ViewState, b: ViewState): boolean {
+  const first = getViewOrientation(a);
+  const second = getViewOrientation(b);
+  return first.rotation === second.rotation && first.flipX === second.flipX && first.flipY === second.flipY;
+}
+
+function isSameViewState(a: ViewState, b: ViewState): boolean {
+  return Math.abs(a.scale - b.scale) < 1e-9 &&
+    Math.abs(a.offsetX - b.offsetX) < 1e-6 &&
+    Math.abs(a.offsetY - b.offsetY) < 1e-6 &&
+    isSameOrientation(a, b);
+}
 
 export class ZoomPanHandler {
   private canvas: Renderer;
@@ -8,14 +105,24 @@ export class ZoomPanHandler {
   private eventHandlers: EventHandlers;
   private isPanning = false;
   private lastPanPoint: Point = { x: 0, y: 0 };
+  /** Offsets the current pan drag asks for, before constraints or elastic overscroll */
+  private panOffset: Point = { x: 0, y: 0 };
+  /** Positions of the pointers currently down on the canvas */
+  private pointers: Map<number, Point> = new Map();
+  /** Finger distance and midpoint at the last pinch update */
+  private pinch: { distance: number; midpoint: Point } | null = null;
   private initialViewState: ViewState | null = null;
-  private wheelTimeout: number | null = null;
-  private lastWheelTime = 0;
+  /** Frame of the running transition or inertia */
+  private animationFrame: number | null = null;
+  /** View state the running transition ends at */
+  private animationTarget: ViewState | null = null;
+  /** Recent pan positions, used for the velocity at release */
+  private panSamples: Array<{ point: Point; time: number }> = [];
 
   private boundHandleWheel: EventListener;
-  private boundHandleMouseDown: EventListener;
-  private boundHandleMouseMove: EventListener;
-  private boundHandleMouseUp: EventListener;
+  private boundHandlePointerDown: EventListener;
+  private boundHandlePointerMove: EventListener;
+  private boundHandlePointerUp: EventListener;
   private boundHandleDoubleClick: EventListener;
 
   constructor(
@@ -33,13 +140,20 @@ export class ZoomPanHandler {
       minZoom: 0.1,
       zoomSpeed: 0.1,
       panSpeed: 1,
+      animationDuration: 250,
+      animationEasing: 'ease-out',
+      inertia: true,
+      inertiaFriction: 0.95,
+      panConstraint: 'none',
+      minVisibleFraction: 0.2,
+      elasticOverscroll: true,
       ...options
     };
 
     this.boundHandleWheel = this.handleWheel.bind(this) as EventListener;
-    this.boundHandleMouseDown = this.handleMouseDown.bind(this) as EventListener;
-    this.boundHandleMouseMove = this.handleMouseMove.bind(this) as EventListener;
-    this.boundHandleMouseUp = this.handleMouseUp.bind(this) as EventListener;
+    this.boundHandlePointerDown = this.handlePointerDown.bind(this) as EventListener;
+    this.boundHandlePointerMove = this.handlePointerMove.bind(this) as EventListener;
+    this.boundHandlePointerUp = this.handlePointerUp.bind(this) as EventListener;
     this.boundHandleDoubleClick = this.handleDoubleClick.bind(this) as EventListener;
 
     this.setupEventListeners();
@@ -66,11 +180,13 @@ export class ZoomPanHandler {
       this.canvas.addEventListener('wheel', this.boundHandleWheel, { passive: false });
     }
 
-    if (this.options.enablePan) {
-      this.canvas.addEventListener('mousedown', this.boundHandleMouseDown);
-      this.canvas.addEventListener('mousemove', this.boundHandleMouseMove);
-      this.canvas.addEventListener('mouseup', this.boundHandleMouseUp);
-      this.canvas.addEventListener('mouseleave', this.boundHandleMouseUp);
+    // Pointers are tracked for panning and for pinch zoom
+    if (this.options.enablePan || this.options.enableZoom) {
+      this.canvas.addEventListener('pointerdown', this.boundHandlePointerDown);
+      this.canvas.addEventListener('pointermove', this.boundHandlePointerMove);
+      // Capture so released pointers are forgotten even if another handler stops the event
+      this.canvas.addEventListener('pointerup', this.boundHandlePointerUp, true);
+      this.canvas.addEventListener('pointercancel', this.boundHandlePointerUp, true);
     }
 
     this.canvas.addEventListener('dblclick', this.boundHandleDoubleClick);
@@ -81,10 +197,10 @@ export class ZoomPanHandler {
    */
   private removeEventListeners(): void {
     this.canvas.removeEventListener('wheel', this.boundHandleWheel);
-    this.canvas.removeEventListener('mousedown', this.boundHandleMouseDown);
-    this.canvas.removeEventListener('mousemove', this.boundHandleMouseMove);
-    this.canvas.removeEventListener('mouseup', this.boundHandleMouseUp);
-    this.canvas.removeEventListener('mouseleave', this.boundHandleMouseUp);
+    this.canvas.removeEventListener('pointerdown', this.boundHandlePointerDown);
+    this.canvas.removeEventListener('pointermove', this.boundHandlePointerMove);
+    this.canvas.removeEventListener('pointerup', this.boundHandlePointerUp, true);
+    this.canvas.removeEventListener('pointercancel', this.boundHandlePointerUp, true);
     this.canvas.removeEventListener('dblclick', this.boundHandleDoubleClick);
   }
 
@@ -124,7 +240,8 @@ export class ZoomPanHandler {
   }
 
   /**
-   * Handle mouse wheel for zooming with throttling
+   * Handle mouse wheel for zooming; the zoom is proportional to the scroll
+   * distance so trackpads zoom smoothly and wheels zoom in notches
    */
   private handleWheel(event: WheelEvent): void {
     if (!this.isImageLoaded()) {
@@ -136,17 +253,19 @@ export class ZoomPanHandler {
     }
 
     event.preventDefault();
-
-    const now = Date.now();
-    if (now - this.lastWheelTime < 16) {
-      return;
-    }
-    this.lastWheelTime = now;
+    this.stopAnimation();
 
     const currentViewState = this.canvas.getViewState();
     const mousePos = this.canvas.getMousePosition(event);
 
-    const zoomFactor = event.deltaY > 0 ? 1 - this.options.zoomSpeed : 1 + this.options.zoomSpeed;
+    let delta = event.deltaY;
+    if (event.deltaMode === 1) {
+      delta *= WHEEL_LINE_HEIGHT;
+    } else if (event.deltaMode === 2) {
+      delta *= this.canvas.getSize().height;
+    }
+
+    const zoomFactor = Math.exp(-delta * this.options.zoomSpeed / 100);
     const newScale = clamp(
       currentViewState.scale * zoomFactor,
       this.options.minZoom,
@@ -154,15 +273,12 @@ export class ZoomPanHandler {
     );
 
     const worldPos = screenToWorld(mousePos, currentViewState);
+    this.updateViewState(anchorViewState({ ...currentViewState, scale: newScale }, worldPos, mousePos));
 
-    const newOffsetX = mousePos.x - worldPos.x * newScale;
-    const newOffsetY = mousePos.y - worldPos.y * newScale;
-
-    this.updateViewState({
-      scale: newScale,
-      offsetX: newOffsetX,
-      offsetY: newOffsetY
-    });
+    // Zooming while dragging continues the drag from the new view
+    if (this.isPanning) {
+      this.panOffset = this.getPanOffset();
+    }
   }
 
   /**
@@ -174,62 +290,264 @@ export class ZoomPanHandler {
   }
 
   /**
-   * Handle mouse down for panning
+   * Handle pointer down: one pointer pans, a second one starts a pinch
    */
-  private handleMouseDown(event: MouseEvent): void {
-    if (event.button !== 0 || !this.options.enablePan || !this.isImageLoaded()) {
+  private handlePointerDown(event: PointerEvent): void {
+    if (event.button !== 0 || !this.isImageLoaded()) {
+      return;
+    }
+
+    // Grabbing the view stops a running transition or inertia
+    this.stopAnimation();
+
+    // A primary pointer starts a new gesture; drop pointers whose release was missed
+    if (event.isPrimary) {
+      this.pointers.clear();
+      this.pinch = null;
+    }
+    this.pointers.set(event.pointerId, this.canvas.getMousePosition(event));
+
+    if (this.pointers.size === 2 && this.options.enableZoom && !this.isAnnotationDrawing()) {
+      this.isPanning = false;
+      this.pinch = this.getPinchState();
+      this.canvas.capturePointer(event);
+      event.preventDefault();
+      return;
+    }
+
+    if (this.pointers.size > 1 || !this.options.enablePan) {
       return;
     }
 
     if (this.canvas.annotationManager) {
       if (this.canvas.annotationManager.isToolActive() ||
         this.canvas.annotationManager.isDrawing() ||
-        this.canvas.annotationManager.hasSelectedAnnotation()) {
+        this.canvas.annotationManager.hasSelectedAnnotation() ||
+        this.canvas.annotationManager.isMarqueeSelecting()) {
         return;
       }
     }
 
     this.isPanning = true;
     this.lastPanPoint = this.canvas.getMousePosition(event);
+    this.panOffset = this.getPanOffset();
+    this.panSamples = [{ point: this.lastPanPoint, time: performance.now() }];
+    this.canvas.capturePointer(event);
     this.updateCursor();
   }
 
   /**
-   * Handle mouse move for panning
+   * Handle pointer move for panning and pinch zoom
    */
-  private handleMouseMove(event: MouseEvent): void {
-    if (!this.options.enablePan) {
+  private handlePointerMove(event: PointerEvent): void {
+    if (!this.pointers.has(event.pointerId)) {
       return;
     }
 
-    if (this.isAnnotationDrawing()) {
+    const currentPos = this.canvas.getMousePosition(event);
+    this.pointers.set(event.pointerId, currentPos);
+
+    if (this.pinch) {
+      event.preventDefault();
+      this.updatePinch();
       return;
     }
 
-    if (!this.isPanning) return;
+    if (!this.options.enablePan || !this.isPanning || this.isAnnotationDrawing()) {
+      return;
+    }
 
-    const currentPos = this.canvas.getMousePosition(event);
     const currentViewState = this.canvas.getViewState();
 
-    const deltaX = (currentPos.x - this.lastPanPoint.x) * this.options.panSpeed;
-    const deltaY = (currentPos.y - this.lastPanPoint.y) * this.options.panSpeed;
+    this.panOffset = {
+      x: this.panOffset.x + (currentPos.x - this.lastPanPoint.x) * this.options.panSpeed,
+      y: this.panOffset.y + (currentPos.y - this.lastPanPoint.y) * this.options.panSpeed
+    };
+    const requested: ViewState = { ...currentViewState, offsetX: this.panOffset.x, offsetY: this.panOffset.y };
 
-    this.updateViewState({
-      offsetX: currentViewState.offsetX + deltaX,
-      offsetY: currentViewState.offsetY + deltaY
-    });
+    if (this.options.elasticOverscroll) {
+      // Dragging past the constraint stretches; the view snaps back on release
+      this.updateViewState(this.getElasticViewState(requested), false);
+    } else {
+      this.updateViewState(requested);
+      this.panOffset = this.getPanOffset();
+    }
 
     this.lastPanPoint = currentPos;
+
+    const now = performance.now();
+    this.panSamples.push({ point: currentPos, time: now });
+    this.panSamples = this.panSamples.filter(sample => now - sample.time <= VELOCITY_WINDOW);
   }
 
   /**
-   * Handle mouse up for panning
+   * Handle pointer up/cancel; lifting a finger ends the pinch without resuming the pan
    */
-  private handleMouseUp(_event: MouseEvent): void {
+  private handlePointerUp(event: PointerEvent): void {
+    const released = this.pointers.delete(event.pointerId);
+    if (this.pointers.size < 2) {
+      this.pinch = null;
+    }
+
+    if (released && this.isPanning) {
+      const currentState = this.canvas.getViewState();
+      const constrained = this.constrainViewState(currentState);
+
+      if (constrained.offsetX !== currentState.offsetX || constrained.offsetY !== currentState.offsetY) {
+        // Snap back from an elastic overscroll
+        this.animateTo(constrained, true);
+      } else if (event.type === 'pointerup') {
+        // A cancelled pointer (e.g. taken over by the browser) does not fling the view
+        this.startInertia();
+      }
+    }
+    this.panSamples = [];
+
     this.isPanning = false;
     this.updateCursor();
   }
 
+  /**
+   * Keep panning after release at the release velocity, slowing down by the
+   * inertia friction every frame
+   */
+  private startInertia(): void {
+    const first = this.panSamples[0];
+    const last = this.panSamples[this.panSamples.length - 1];
+    const now = performance.now();
+    if (!this.options.inertia || !first || !last || last.time === first.time || now - last.time > RELEASE_DELAY) {
+      return;
+    }
+
+    const elapsed = last.time - first.time;
+    let velocityX = (last.point.x - first.point.x) / elapsed * this.options.panSpeed;
+    let velocityY = (last.point.y - first.point.y) / elapsed * this.options.panSpeed;
+    let lastTime = now;
+
+    const step = (): void => {
+      const time = performance.now();
+      const frameTime = time - lastTime;
+      lastTime = time;
+
+      const decay = Math.pow(this.options.inertiaFriction, frameTime / 16);
+      velocityX *= decay;
+      velocityY *= decay;
+      if (Math.sqrt(velocityX * velocityX + velocityY * velocityY) < MIN_INERTIA_SPEED) {
+        this.animationFrame = null;
+        return;
+      }
+
+      const currentState = this.canvas.getViewState();
+      const offsetX = currentState.offsetX + velocityX * frameTime;
+      const offsetY = currentState.offsetY + velocityY * frameTime;
+      this.updateViewState({ offsetX, offsetY });
+
+      // Stop at the pan constraint instead of pushing against it
+      const constrained = this.canvas.getViewState();
+      if (constrained.offsetX !== offsetX) velocityX = 0;
+      if (constrained.offsetY !== offsetY) velocityY = 0;
+
+      this.animationFrame = requestAnimationFrame(step);
+    };
+
+    this.animationFrame = requestAnimationFrame(step);
+  }
+
+  /**
+   * Move to a view state, interpolated over the animation duration
+   */
+  private animateTo(requested: ViewState, animate: boolean): void {
+    this.stopAnimation();
+
+    const target = this.constrainViewState(requested);
+    const duration = this.options.animationDuration;
+    if (!animate || duration <= 0) {
+      this.updateViewState(target);
+      return;
+    }
+
+    const from = this.canvas.getViewState();
+    const ease = EASINGS[this.options.animationEasing] ?? EASINGS['ease-out'];
+    const start = performance.now();
+    this.animationTarget = { ...target };
+
+    const step = (): void => {
+      const progress = Math.min((performance.now() - start) / duration, 1);
+      if (progress < 1) {
+        // Both ends are valid; in-between states may not be, e.g. while snapping back
+        this.updateViewState(interpolateViewState(from, target, ease(progress)), false);
+        this.animationFrame = requestAnimationFrame(step);
+      } else {
+        this.animationFrame = null;
+        this.animationTarget = null;
+        this.updateViewState(target);
+      }
+    };
+
+    this.animationFrame = requestAnimationFrame(step);
+  }
+
+  /**
+   * Stop a running transition or inertia where it is
+   */
+  stopAnimation(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    this.animationTarget = null;
+  }
+
+  /**
+   * Check if a transition or inertia is running
+   */
+  isAnimating(): boolean {
+    return this.animationFrame !== null;
+  }
+
+  /**
+   * View state that zoom steps build on: the end of a running transition, so
+   * repeated zoomIn calls add up, or else the current state
+   */
+  private getTargetViewState(): ViewState {
+    return this.animationTarget ? { ...this.animationTarget } : this.canvas.getViewState();
+  }
+
+  /**
+   * Distance and midpoint of the first two pointers
+   */
+  private getPinchState(): { distance: number; midpoint: Point } {
+    const [first, second] = Array.from(this.pointers.values()) as [Point, Point];
+    return {
+      distance: Math.sqrt(Math.pow(second.x - first.x, 2) + Math.pow(second.y - first.y, 2)),
+      midpoint: centerPoint(first, second)
+    };
+  }
+
+  /**
+   * Zoom by the change in finger distance, keeping the image point under the
+   * gesture midpoint beneath it (which also pans when both fingers move)
+   */
+  private updatePinch(): void {
+    const previous = this.pinch;
+    const current = this.getPinchState();
+    this.pinch = current;
+    if (!previous || previous.distance === 0) {
+      return;
+    }
+
+    const currentState = this.canvas.getViewState();
+    const newScale = clamp(
+      currentState.scale * (current.distance / previous.distance),
+      this.options.minZoom,
+      this.options.maxZoom
+    );
+
+    const anchor = this.options.enablePan ? previous.midpoint : current.midpoint;
+    const worldPos = screenToWorld(anchor, currentState);
+    this.updateViewState(anchorViewState({ ...currentState, scale: newScale }, worldPos, current.midpoint));
+  }
+
   /**
    * Handle double-click event to reset view
    */
@@ -243,6 +561,11 @@ export class ZoomPanHandler {
       return;
     }
 
+    // Double-click closes shapes (e.g. polygon) while drawing
+    if (this.isAnnotationDrawing()) {
+      return;
+    }
+
     event.preventDefault();
     event.stopPropagation();
 
@@ -250,11 +573,13 @@ export class ZoomPanHandler {
   }
 
   /**
-   * Update view state and trigger events
+   * Update view state and trigger events; the pan constraint is applied unless
+   * `constrain` is false
    */
-  private updateViewState(newState: Partial<ViewState>): void {
+  private updateViewState(newState: Partial<ViewState>, constrain: boolean = true): void {
     const oldState = this.canvas.getViewState();
-    this.canvas.setViewState(newState);
+    const requested = { ...oldState, ...newState };
+    this.canvas.setViewState(constrain ? this.constrainViewState(requested) : requested);
 
     const currentState = this.canvas.getViewState();
 
@@ -270,6 +595,10 @@ export class ZoomPanHandler {
       });
     }
 
+    if (!isSameOrientation(oldState, currentState) && this.eventHandlers.onRotationChange) {
+      this.eventHandlers.onRotationChange(this.getOrientation());
+    }
+
     const viewStateChangeEvent = new CustomEvent('viewStateChange', {
       detail: { viewState: currentState }
     });
@@ -277,141 +606,321 @@ export class ZoomPanHandler {
   }
 
   /**
-   * Zoom to a specific scale
+   * Move the offsets of a view state into the range allowed by the pan constraint
    */
-  zoomTo(scale: number, center?: Point): void {
-    // Don't zoom if no image is loaded
-    if (!this.isImageLoaded()) {
-      return;
+  private constrainViewState(state: ViewState): ViewState {
+    const ranges = this.getOffsetRanges(state);
+    if (!ranges) {
+      return state;
     }
 
-    const clampedScale = clamp(scale, this.options.minZoom, this.options.maxZoom);
-    const currentState = this.canvas.getViewState();
+    return {
+      ...state,
+      offsetX: clamp(state.offsetX, ranges.x[0], ranges.x[1]),
+      offsetY: clamp(state.offsetY, ranges.y[0], ranges.y[1])
+    };
+  }
+
+  /**
+   * View state with offsets outside the allowed range rubber-banded towards it
+   */
+  private getElasticViewState(state: ViewState): ViewState {
+    const ranges = this.getOffsetRanges(state);
+    if (!ranges) {
+      return state;
+    }
 
-    if (center) {
-      const worldPos = screenToWorld(center, currentState);
-      const newOffsetX = center.x - worldPos.x * clampedScale;
-      const newOffsetY = center.y - worldPos.y * clampedScale;
+    const canvasSize = this.canvas.getSize();
+    return {
+      ...state,
+      offsetX: rubberBand(state.offsetX, ranges.x, canvasSize.width),
+      offsetY: rubberBand(state.offsetY, ranges.y, canvasSize.height)
+    };
+  }
 
-      this.updateViewState({
-        scale: clampedScale,
-        offsetX: newOffsetX,
-        offsetY: newOffsetY
-      });
-    } else {
-      const canvasSize = this.canvas.getSize();
-      const centerPoint: Point = {
-        x: canvasSize.width / 2,
-        y: canvasSize.height / 2
-      };
+  /**
+   * Offsets allowed by the pan constraint at the scale and orientation of a
+   * view state, or null if panning is unconstrained
+   */
+  private getOffsetRanges(state: ViewState): { x: [number, number]; y: [number, number] } | null {
+    const imageBounds = this.canvas.imageViewer?.getImageBounds();
+    if (this.options.panConstraint === 'none' || !imageBounds) {
+      return null;
+    }
 
-      const worldPos = screenToWorld(centerPoint, currentState);
+    // A rotated image is constrained by its bounding box on screen
+    const bounds = worldRectToScreen(imageBounds, { ...state, offsetX: 0, offsetY: 0 });
+    const canvasSize = this.canvas.getSize();
+    return {
+      x: this.getOffsetRange(bounds.x, bounds.width, canvasSize.width),
+      y: this.getOffsetRange(bounds.y, bounds.height, canvasSize.height)
+    };
+  }
 
-      const newOffsetX = centerPoint.x - worldPos.x * clampedScale;
-      const newOffsetY = centerPoint.y - worldPos.y * clampedScale;
+  /**
+   * Allowed offsets along one axis for an image starting at `start` and `size`
+   * long (both scaled), shown in a view `viewSize` long
+   */
+  private getOffsetRange(start: number, size: number, viewSize: number): [number, number] {
+    if (this.options.panConstraint === 'contain') {
+      // An image smaller than the view is centered, a larger one must cover it
+      if (size <= viewSize) {
+        const centered = (viewSize - size) / 2 - start;
+        return [centered, centered];
+      }
+      return [viewSize - size - start, 0 - start];
+    }
 
-      this.updateViewState({
-        scale: clampedScale,
-        offsetX: newOffsetX,
-        offsetY: newOffsetY
-      });
+    // keep-visible: at least a fraction of the image (or the whole view) stays on screen
+    const visible = Math.min(size * clamp(this.options.minVisibleFraction, 0, 1), viewSize);
+    return [visible - size - start, viewSize - visible - start];
+  }
+
+  /**
+   * Zoom to a specific scale around a screen point (default: canvas center)
+   */
+  zoomTo(scale: number, center?: Point, animate: boolean = true): void {
+    // Don't zoom if no image is loaded
+    if (!this.isImageLoaded()) {
+      return;
     }
+
+    const clampedScale = clamp(scale, this.options.minZoom, this.options.maxZoom);
+    const targetState = this.getTargetViewState();
+
+    const canvasSize = this.canvas.getSize();
+    const anchor: Point = center ?? {
+      x: canvasSize.width / 2,
+      y: canvasSize.height / 2
+    };
+
+    const worldPos = screenToWorld(anchor, targetState);
+    this.animateTo(anchorViewState({ ...targetState, scale: clampedScale }, worldPos, anchor), animate);
   }
 
   /**
    * Zoom in by a factor
    */
-  zoomIn(factor: number = 1.2): void {
+  zoomIn(factor: number = 1.2, animate: boolean = true): void {
     // Don't zoom if no image is loaded
     if (!this.isImageLoaded()) {
       return;
     }
 
-    const currentState = this.canvas.getViewState();
-    this.zoomTo(currentState.scale * factor);
+    this.zoomTo(this.getTargetViewState().scale * factor, undefined, animate);
   }
 
   /**
    * Zoom out by a factor
    */
-  zoomOut(factor: number = 1.2): void {
+  zoomOut(factor: number = 1.2, animate: boolean = true): void {
     // Don't zoom if no image is loaded
     if (!this.isImageLoaded()) {
       return;
     }
 
-    const currentState = this.canvas.getViewState();
-    this.zoomTo(currentState.scale / factor);
+    this.zoomTo(this.getTargetViewState().scale / factor, undefined, animate);
   }
 
   /**
-   * Reset zoom and pan to initial state
+   * Zoom and pan so a world rectangle fills the canvas, keeping `padding`
+   * screen pixels around it
    */
-  reset(): void {
-    if (this.initialViewState) {
-      this.updateViewState(this.initialViewState);
-    } else {
-      this.updateViewState({
-        scale: 1,
-        offsetX: 0,
-        offsetY: 0
-      });
+  zoomToRect(rect: Rectangle, options: ZoomToRectOptions = {}): void {
+    // Don't zoom if no image is loaded
+    if (!this.isImageLoaded()) {
+      return;
     }
+
+    const { padding = 20, animate = true } = options;
+    const canvasSize = this.canvas.getSize();
+    const availableWidth = Math.max(canvasSize.width - padding * 2, 1);
+    const availableHeight = Math.max(canvasSize.height - padding * 2, 1);
+    const size = worldRectToScreen(rect, { ...this.getTargetViewState(), scale: 1, offsetX: 0, offsetY: 0 });
+
+    // A line only limits the scale along its length; a point keeps the current scale
+    const fitScale = Math.min(
+      size.width > 0 ? availableWidth / size.width : Infinity,
+      size.height > 0 ? availableHeight / size.height : Infinity
+    );
+    const scale = clamp(
+      Number.isFinite(fitScale) ? fitScale : this.getTargetViewState().scale,
+      this.options.minZoom,
+      this.options.maxZoom
+    );
+
+    this.animateTo(this.getCenteredViewState({
+      x: rect.x + rect.width / 2,
+      y: rect.y + rect.height / 2
+    }, scale), animate);
   }
 
   /**
-   * Fit image to view (if image bounds are available)
+   * Frame an annotation with zoomToRect
+   * @returns false if the annotation does not exist or no image is loaded
    */
-  fitToView(imageBounds: Rectangle): void {
-    // Don't fit to view if no image is loaded
+  zoomToAnnotation(id: string, options: ZoomToRectOptions = {}): boolean {
+    const bounds = this.canvas.annotationManager?.getAnnotationWorldBounds(id);
+    if (!bounds || !this.isImageLoaded()) {
+      return false;
+    }
+
+    this.zoomToRect(bounds, options);
+    return true;
+  }
+
+  /**
+   * Pan so a world point is at the canvas center, keeping the zoom level
+   */
+  centerOn(point: Point, animate: boolean = true): void {
+    // Don't pan if no image is loaded
     if (!this.isImageLoaded()) {
       return;
     }
 
-    const canvasSize = this.canvas.getSize();
+    this.animateTo(this.getCenteredViewState(point, this.getTargetViewState().scale), animate);
+  }
 
-    const scaleX = canvasSize.width / imageBounds.width;
-    const scaleY = canvasSize.height / imageBounds.height;
-    const scale = Math.min(scaleX, scaleY, 1);
+  /**
+   * Pan by a distance in screen pixels without changing the zoom level
+   */
+  panBy(dx: number, dy: number, animate: boolean = true): void {
+    // Don't pan if no image is loaded
+    if (!this.isImageLoaded()) {
+      return;
+    }
 
-    const scaledWidth = imageBounds.width * scale;
-    const scaledHeight = imageBounds.height * scale;
+    const target = this.getTargetViewState();
+    this.animateTo({ ...target, offsetX: target.offsetX + dx, offsetY: target.offsetY + dy }, animate);
+  }
 
-    const offsetX = (canvasSize.width - scaledWidth) / 2 - imageBounds.x * scale;
-    const offsetY = (canvasSize.height - scaledHeight) / 2 - imageBounds.y * scale;
+  /**
+   * Rotate the view clockwise by an angle in degrees
+   */
+  rotate(degrees: number): void {
+    this.setOrientation({ rotation: getViewOrientation(this.getTargetViewState()).rotation + degrees });
+  }
 
-    this.updateViewState({
-      scale,
-      offsetX,
-      offsetY
+  /**
+   * Mirror the view along a screen axis
+   */
+  flip(axis: FlipAxis): void {
+    const { rotation, flipX, flipY } = getViewOrientation(this.getTargetViewState());
+    // Mirroring the rotated image on screen mirrors it before rotating the other way
+    this.setOrientation({
+      rotation: -rotation,
+      ...(axis === 'x' ? { flipX: !flipX } : { flipY: !flipY })
     });
   }
 
   /**
-   * Fit image to view for overlay mode (allows scaling up)
+   * Rotate and mirror the view, keeping the image point at the canvas center
+   * in place. A view showing the whole image is refitted instead
    */
-  fitToViewOverlay(imageBounds: Rectangle): void {
-    // Don't fit to view if no image is loaded
+  setOrientation(orientation: Partial<ViewOrientation>): void {
+    // Don't rotate if no image is loaded
     if (!this.isImageLoaded()) {
       return;
     }
 
+    const current = this.getTargetViewState();
+    const rotation = orientation.rotation ?? getViewOrientation(current).rotation;
+    const next: ViewState = { ...current, ...orientation, rotation: (rotation % 360 + 360) % 360 };
+
+    if (isSameViewState(current, this.getResetViewState(current))) {
+      this.animateTo(this.getResetViewState(next), false);
+      return;
+    }
+
+    const canvasSize = this.canvas.getSize();
+    const center = { x: canvasSize.width / 2, y: canvasSize.height / 2 };
+    this.animateTo(anchorViewState(next, screenToWorld(center, current), center), false);
+  }
+
+  /**
+   * Get the current rotation and mirroring
+   */
+  getOrientation(): ViewOrientation {
+    return getViewOrientation(this.canvas.getViewState());
+  }
+
+  /**
+   * View state that shows a world point at the canvas center at the given scale
+   */
+  private getCenteredViewState(point: Point, scale: number): ViewState {
     const canvasSize = this.canvas.getSize();
+    return anchorViewState({ ...this.getTargetViewState(), scale }, point, {
+      x: canvasSize.width / 2,
+      y: canvasSize.height / 2
+    });
+  }
+
+  /**
+   * Reset zoom and pan to initial state, keeping the orientation
+   */
+  reset(animate: boolean = true): void {
+    this.animateTo(this.getResetViewState(this.getTargetViewState()), animate);
+  }
+
+  /**
+   * View state reset() moves to in an orientation: the initial view, or the
+   * image fitted in the canvas once it is rotated or mirrored
+   */
+  private getResetViewState(orientation: ViewState): ViewState {
+    const imageBounds = this.canvas.imageViewer?.getImageBounds();
+    if (isUpright(orientation) || !imageBounds) {
+      return { ...(this.initialViewState ?? DEFAULT_VIEW_STATE) };
+    }
+    return this.getFitViewState(imageBounds, false, orientation);
+  }
 
-    const scaleX = canvasSize.width / imageBounds.width;
-    const scaleY = canvasSize.height / imageBounds.height;
-    const scale = Math.min(scaleX, scaleY);
+  /**
+   * Fit image to view (if image bounds are available)
+   */
+  fitToView(imageBounds: Rectangle, animate: boolean = true): void {
+    // Don't fit to view if no image is loaded
+    if (!this.isImageLoaded()) {
+      return;
+    }
 
-    const scaledWidth = imageBounds.width * scale;
-    const scaledHeight = imageBounds.height * scale;
+    this.animateTo(this.getFitViewState(imageBounds, false), animate);
+  }
+
+  /**
+   * Fit image to view for overlay mode (allows scaling up)
+   */
+  fitToViewOverlay(imageBounds: Rectangle, animate: boolean = true): void {
+    // Don't fit to view if no image is loaded
+    if (!this.isImageLoaded()) {
+      return;
+    }
 
-    const offsetX = (canvasSize.width - scaledWidth) / 2 - imageBounds.x * scale;
-    const offsetY = (canvasSize.height - scaledHeight) / 2 - imageBounds.y * scale;
+    this.animateTo(this.getFitViewState(imageBounds, true), animate);
+  }
 
-    this.updateViewState({
-      scale,
-      offsetX,
-      offsetY
+  /**
+   * View state that centers the bounds in the canvas, scaled to fit, in the
+   * current orientation unless another one is given
+   */
+  private getFitViewState(
+    imageBounds: Rectangle,
+    allowUpscale: boolean,
+    orientation: ViewState = this.getTargetViewState()
+  ): ViewState {
+    const canvasSize = this.canvas.getSize();
+    const { rotation, flipX, flipY } = getViewOrientation(orientation);
+    const size = worldRectToScreen(imageBounds, { ...DEFAULT_VIEW_STATE, rotation, flipX, flipY });
+
+    const scaleX = canvasSize.width / size.width;
+    const scaleY = canvasSize.height / size.height;
+    const scale = allowUpscale ? Math.min(scaleX, scaleY) : Math.min(scaleX, scaleY, 1);
+
+    return anchorViewState({ ...DEFAULT_VIEW_STATE, scale, rotation, flipX, flipY }, {
+      x: imageBounds.x + imageBounds.width / 2,
+      y: imageBounds.y + imageBounds.height / 2
+    }, {
+      x: canvasSize.width / 2,
+      y: canvasSize.height / 2
     });
   }
 
@@ -430,6 +939,13 @@ export class ZoomPanHandler {
     return { x: state.offsetX, y: state.offsetY };
   }
 
+  /**
+   * Get current options
+   */
+  getOptions(): ZoomPanOptions {
+    return { ...this.options };
+  }
+
   /**
    * Update options
    */
@@ -437,6 +953,11 @@ export class ZoomPanHandler {
     const oldOptions = { ...this.options };
     this.options = { ...this.options, ...newOptions };
 
+    if (oldOptions.panConstraint !== this.options.panConstraint ||
+      oldOptions.minVisibleFraction !== this.options.minVisibleFraction) {
+      this.updateViewState({});
+    }
+
     if (oldOptions.enableZoom !== this.options.enableZoom ||
       oldOptions.enablePan !== this.options.enablePan) {
       this.updateEventListeners();
@@ -453,10 +974,13 @@ export class ZoomPanHandler {
   }
 
   /**
-   * Update initial view state (called when image is loaded)
+   * Update initial view state (called when image is loaded). Only upright
+   * views are kept, reset() fits a rotated image by itself
    */
   updateInitialViewState(viewState: ViewState): void {
-    this.initialViewState = { ...viewState };
+    if (isUpright(viewState)) {
+      this.initialViewState = { ...viewState };
+    }
   }
 
   /**
@@ -464,14 +988,13 @@ export class ZoomPanHandler {
    */
   destroy(): void {
     this.removeEventListeners();
-
-    if (this.wheelTimeout) {
-      clearTimeout(this.wheelTimeout);
-      this.wheelTimeout = null;
-    }
+    this.stopAnimation();
 
     this.isPanning = false;
     this.lastPanPoint = { x: 0, y: 0 };
+    this.pointers.clear();
+    this.pinch = null;
+    this.panSamples = [];
     this.initialViewState = null;
   }
 }
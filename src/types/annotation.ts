@@ -1,4 +1,4 @@
-import type { Point } from './geometry';
+import type { Point, Size } from './geometry';
 
 /**
  * Styling properties for annotations
@@ -35,8 +35,8 @@ export interface Annotation {
   /** Unique identifier for the annotation */
   id: string;
   /** Type of annotation */
-  type: 'rect' | 'arrow' | 'text' | 'circle' | 'line';
-  /** Array of points defining the annotation */
+  type: 'rect' | 'arrow' | 'text' | 'circle' | 'line' | 'freehand' | 'polygon' | 'polyline';
+  /** Array of points defining the annotation, in natural image pixels */
   points: Point[];
   /** Styling properties for the annotation */
   style: AnnotationStyle;
@@ -44,6 +44,40 @@ export interface Annotation {
   data?: Record<string, unknown>;
 }
 
+/**
+ * Identifies a selection handle: box handles (compass directions) for
+ * rect/circle, endpoint handles for line/arrow, vertex handles for polygon/polyline
+ */
+export type AnnotationHandleType = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'start' | 'end' | 'vertex';
+
+/**
+ * A draggable handle shown on the selected annotation
+ * @interface AnnotationHandle
+ */
+export interface AnnotationHandle {
+  /** Handle identifier */
+  type: AnnotationHandleType;
+  /** Handle position in world coordinates */
+  position: Point;
+  /** Index of the point moved by a vertex handle */
+  index?: number;
+  /** CSS cursor shown while hovering the handle */
+  cursor: string;
+}
+
+/**
+ * Geometry change of an edited annotation
+ * @interface AnnotationUpdate
+ */
+export interface AnnotationUpdate {
+  /** The annotation after the edit */
+  annotation: Annotation;
+  /** Points before the edit */
+  before: Point[];
+  /** Points after the edit */
+  after: Point[];
+}
+
 /**
  * Represents an available tool
  * @interface Tool
@@ -56,3 +90,60 @@ export interface Tool {
   /** Optional icon for the tool */
   icon?: string;
 }
+
+/**
+ * A single annotation mutation recorded in the history stack
+ * @interface AnnotationChange
+ */
+export interface AnnotationChange {
+  /** ID of the affected annotation */
+  id: string;
+  /** Snapshot before the mutation (null if the annotation did not exist) */
+  before: Annotation | null;
+  /** Snapshot after the mutation (null if the annotation was removed) */
+  after: Annotation | null;
+  /** Position of the annotation in the drawing order */
+  index: number;
+}
+
+/**
+ * An undoable step made of one or more annotation changes
+ * @interface AnnotationHistoryEntry
+ */
+export interface AnnotationHistoryEntry {
+  /** Short description of the operation (e.g. 'add', 'move', 'clear') */
+  label: string;
+  /** Changes applied by this step, in order */
+  changes: AnnotationChange[];
+}
+
+/**
+ * Serialized annotations as produced by `exportAnnotations()`.
+ * Older versions exported a plain array in display (world) coordinates.
+ * @interface AnnotationDocument
+ */
+export interface AnnotationDocument {
+  /** Format version */
+  version: number;
+  /** Coordinate space of all points */
+  coordinateSpace: 'image';
+  /** Natural size of the annotated image (if one was loaded) */
+  imageSize?: Size;
+  /** Annotations in drawing order */
+  annotations: Annotation[];
+}
+
+/**
+ * Current undo/redo availability
+ * @interface AnnotationHistoryState
+ */
+export interface AnnotationHistoryState {
+  /** Whether there is a step that can be undone */
+  canUndo: boolean;
+  /** Whether there is a step that can be redone */
+  canRedo: boolean;
+  /** Number of steps in the undo stack */
+  undoCount: number;
+  /** Number of steps in the redo stack */
+  redoCount: number;
+}
@@ -1,4 +1,6 @@
 import type { AnnotationStyle } from './annotation';
+import type { TilingOptions } from './image';
+import type { KeymapBindings, PanConstraint, ZoomPanEasing } from './modules';
 
 /**
  * Configuration for available tools and features
@@ -21,11 +23,21 @@ export interface ToolConfig {
     circle?: boolean;
     /** Enable line annotation tool */
     line?: boolean;
+    /** Enable freehand pen tool */
+    freehand?: boolean;
+    /** Enable highlighter tool (semi-transparent freehand strokes) */
+    highlighter?: boolean;
+    /** Enable polygon tool (closed outline) */
+    polygon?: boolean;
+    /** Enable polyline tool (open path) */
+    polyline?: boolean;
     /** Default annotation style */
     style?: AnnotationStyle;
   };
   /** Enable image comparison functionality */
   comparison?: boolean;
+  /** Show a navigator (minimap) with the whole image and the current viewport */
+  navigator?: boolean;
 }
 
 /**
@@ -47,4 +59,14 @@ export interface CanvasLensOptions {
   maxZoom?: number;
   /** Minimum zoom level (default: 0.1) */
   minZoom?: number;
+  /** Duration of animated zoom/fit/reset transitions in ms (0 = instant, default: 250) */
+  animationDuration?: number;
+  /** Easing of animated view transitions (default: 'ease-out') */
+  animationEasing?: ZoomPanEasing;
+  /** Limit panning so the image cannot be lost off-screen (default: 'none') */
+  panConstraint?: PanConstraint;
+  /** Overrides of the default key bindings; null removes a binding */
+  shortcuts?: KeymapBindings;
+  /** Tiled rendering of very large images */
+  tiling?: TilingOptions;
 }
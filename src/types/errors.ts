@@ -9,6 +9,7 @@ export enum ErrorType {
   TOOL_ACTIVATION = 'TOOL_ACTIVATION',
   OVERLAY = 'OVERLAY',
   ATTRIBUTE_PARSING = 'ATTRIBUTE_PARSING',
+  SHORTCUT = 'SHORTCUT',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -1,6 +1,7 @@
-import type { Annotation } from './annotation';
-import type { Point } from './geometry';
+import type { Annotation, AnnotationHistoryState, AnnotationUpdate } from './annotation';
+import type { Point, ViewOrientation } from './geometry';
 import type { CustomImageData } from './image';
+import type { CropResult } from './modules';
 
 /**
  * Event handler callbacks for CanvasLens
@@ -15,14 +16,22 @@ export interface EventHandlers {
   onZoomChange?: (scale: number) => void;
   /** Called when pan offset changes */
   onPanChange?: (offset: Point) => void;
+  /** Called when the view is rotated or mirrored */
+  onRotationChange?: (orientation: ViewOrientation) => void;
+  /** Called when a crop was applied and the cropped image is shown */
+  onCrop?: (result: CropResult) => void;
   /** Called when an annotation is added */
   onAnnotationAdd?: (annotation: Annotation) => void;
   /** Called when an annotation is removed */
   onAnnotationRemove?: (annotationId: string) => void;
+  /** Called when an annotation is moved, resized or reshaped */
+  onAnnotationUpdate?: (update: AnnotationUpdate) => void;
   /** Called when the active tool changes */
   onToolChange?: (toolType: string | null) => void;
   /** Called when comparison slider position changes */
   onComparisonChange?: (position: number) => void;
   /** Called when comparison mode is enabled/disabled */
   onComparisonModeChange?: (enabled: boolean) => void;
+  /** Called when the undo/redo history changes */
+  onHistoryChange?: (state: AnnotationHistoryState) => void;
 }
@@ -37,4 +37,20 @@ export interface ViewState {
   offsetX: number;
   /** Vertical pan offset in pixels */
   offsetY: number;
+  /** Clockwise rotation in degrees, from 0 up to 360 (default: 0) */
+  rotation?: number;
+  /** Mirror the image left to right (before rotating; default: false) */
+  flipX?: boolean;
+  /** Mirror the image top to bottom (before rotating; default: false) */
+  flipY?: boolean;
 }
+
+/**
+ * Rotation and mirroring of the view
+ */
+export type ViewOrientation = Required<Pick<ViewState, 'rotation' | 'flipX' | 'flipY'>>;
+
+/**
+ * Axis to mirror the view along: 'x' swaps left and right, 'y' top and bottom
+ */
+export type FlipAxis = 'x' | 'y';
@@ -1,4 +1,5 @@
-import type { Point, Size } from './geometry';
+import type { Annotation } from './annotation';
+import type { Point, Rectangle, Size } from './geometry';
 
 /**
  * Represents loaded image data and metadata
@@ -17,4 +18,201 @@ export interface CustomImageData {
   type?: string;
   /** Original file name (optional) */
   fileName?: string;
+  /** Metadata read from the file's EXIF data (optional) */
+  metadata?: ImageMetadata;
+  /** Source of the tiles the image is drawn from; `element` is then a preview unless the source is an in-memory pyramid (optional) */
+  tileSource?: TileSource;
+}
+
+/**
+ * Metadata read from an image file's EXIF data
+ * @interface ImageMetadata
+ */
+export interface ImageMetadata {
+  /** EXIF orientation of the file (1-8, 1 = upright); the loaded image is already turned upright */
+  orientation: number;
+  /** When the photo was taken, as 'YYYY-MM-DDTHH:mm:ss' in the camera's local time */
+  captureDate?: string;
+  /** Camera maker and model */
+  camera?: { make?: string; model?: string };
+  /** Where the photo was taken, in decimal degrees and meters above sea level */
+  gps?: { latitude: number; longitude: number; altitude?: number };
+  /** Horizontal and vertical resolution in dots per inch */
+  dpi?: { x: number; y: number };
+}
+
+/**
+ * Output format for image export
+ */
+export type ImageExportFormat = 'png' | 'jpeg' | 'webp';
+
+/**
+ * Options for exporting the (annotated) image
+ * @interface ImageExportOptions
+ */
+export interface ImageExportOptions {
+  /** Output format (default: 'png') */
+  format?: ImageExportFormat;
+  /** Encoder quality between 0 and 1 for 'jpeg' and 'webp' */
+  quality?: number;
+  /** Multiplier applied to the natural image resolution (default: 1) */
+  scale?: number;
+  /** Draw annotations on top of the image (default: true) */
+  includeAnnotations?: boolean;
+  /** Part of the image to export, in natural image pixels (default: whole image) */
+  region?: Rectangle;
+  /** Resolve a Blob or a data URL string (default: 'blob') */
+  output?: 'blob' | 'dataURL';
+  /** Bake the current image adjustments into the exported pixels (default: false) */
+  includeAdjustments?: boolean;
+}
+
+/**
+ * Non-destructive display adjustments of the image
+ * @interface ImageAdjustments
+ */
+export interface ImageAdjustments {
+  /** Brightness multiplier; 0 is black (default: 1) */
+  brightness: number;
+  /** Contrast multiplier around mid-gray; 0 is flat gray (default: 1) */
+  contrast: number;
+  /** Saturation multiplier; 0 is gray (default: 1) */
+  saturation: number;
+  /** Gamma correction; values above 1 brighten the mid-tones (default: 1) */
+  gamma: number;
+  /** Invert the colors (default: false) */
+  invert: boolean;
+  /** Show the image in grayscale (default: false) */
+  grayscale: boolean;
+}
+
+/**
+ * Position of a tile in a tile pyramid
+ * @interface TileCoordinate
+ */
+export interface TileCoordinate {
+  /** Resolution level; 0 is full resolution and each next level halves it */
+  level: number;
+  /** Tile column at that level, from the left */
+  column: number;
+  /** Tile row at that level, from the top */
+  row: number;
+}
+
+/**
+ * Decoded tile pixels
+ */
+export type TileImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/**
+ * Multi-resolution image that is drawn tile by tile. Level 0 is full
+ * resolution, level n is scaled by 1 / 2^n and measures
+ * ceil(width / 2^n) by ceil(height / 2^n) pixels, split into tiles of
+ * `tileSize` pixels from the top left.
+ * @interface TileSource
+ */
+export interface TileSource {
+  /** Full resolution width in pixels */
+  readonly width: number;
+  /** Full resolution height in pixels */
+  readonly height: number;
+  /** Width and height of a tile, not counting overlap */
+  readonly tileSize: number;
+  /** Pixels each tile repeats of its neighbours on inner edges, as in Deep Zoom (0 = none) */
+  readonly overlap: number;
+  /** Number of levels; the last one fits into a single tile */
+  readonly levelCount: number;
+  /** Load the pixels of one tile */
+  loadTile(tile: TileCoordinate): Promise<TileImage>;
+  /** Load an image of the whole source, used by the navigator, comparison mode and export */
+  loadPreview(): Promise<HTMLImageElement>;
+}
+
+/**
+ * Options of a Deep Zoom (DZI) tile source
+ * @interface DeepZoomTileSourceOptions
+ */
+export interface DeepZoomTileSourceOptions {
+  /** URL of the tile folder, e.g. 'https://example.com/scan_files/' */
+  tilesUrl: string;
+  /** Full resolution width in pixels */
+  width: number;
+  /** Full resolution height in pixels */
+  height: number;
+  /** Tile size (default: 254) */
+  tileSize?: number;
+  /** Tile overlap (default: 1) */
+  overlap?: number;
+  /** Tile file extension (default: 'jpg') */
+  format?: string;
+}
+
+/**
+ * Options of an IIIF Image API tile source
+ * @interface IiifTileSourceOptions
+ */
+export interface IiifTileSourceOptions {
+  /** Base URI of the image service, without a trailing slash */
+  id: string;
+  /** Full resolution width in pixels */
+  width: number;
+  /** Full resolution height in pixels */
+  height: number;
+  /** Tile size (default: 512) */
+  tileSize?: number;
+  /** Number of levels the service offers (default: down to a single tile) */
+  levelCount?: number;
+  /** Image format (default: 'jpg') */
+  format?: string;
+}
+
+/**
+ * Options of tiled rendering
+ * @interface TilingOptions
+ */
+export interface TilingOptions {
+  /** Images wider or taller than this many pixels are drawn from an in-memory tile pyramid (default: 8192, 0 = never) */
+  threshold?: number;
+  /** Tile size of the in-memory pyramid (default: 512) */
+  tileSize?: number;
+  /** Number of tiles kept in memory (default: 256) */
+  cacheSize?: number;
+}
+
+/**
+ * Image of a gallery
+ * @interface GalleryItem
+ */
+export interface GalleryItem {
+  /** Image URL; also the key of the image's annotation set */
+  src: string;
+  /** Smaller image shown in the filmstrip (default: src) */
+  thumbnail?: string;
+  /** File name for display purposes */
+  fileName?: string;
+  /** Image MIME type */
+  type?: string;
+  /** Annotations to start with, in natural image pixels */
+  annotations?: Annotation[];
+}
+
+/**
+ * Detail of the imagechange event
+ * @interface ImageChangeDetail
+ */
+export interface ImageChangeDetail {
+  /** Index of the shown image */
+  index: number;
+  /** Index of the image shown before, or null for the first one */
+  previousIndex: number | null;
+  item: GalleryItem;
+}
+
+/**
+ * Options for exporting annotations as SVG
+ * @interface SvgExportOptions
+ */
+export interface SvgExportOptions {
+  /** Embed the image as a base64 `<image>` below the annotations (default: false) */
+  includeImage?: boolean;
 }
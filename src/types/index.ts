@@ -1,11 +1,37 @@
 // Geometry types
-export type { Point, Size, Rectangle, ViewState } from './geometry';
+export type { Point, Size, Rectangle, ViewState, ViewOrientation, FlipAxis } from './geometry';
 
 // Image types
-export type { CustomImageData } from './image';
+export type {
+  CustomImageData,
+  DeepZoomTileSourceOptions,
+  GalleryItem,
+  IiifTileSourceOptions,
+  ImageAdjustments,
+  ImageChangeDetail,
+  ImageExportFormat,
+  ImageExportOptions,
+  ImageMetadata,
+  SvgExportOptions,
+  TileCoordinate,
+  TileImage,
+  TileSource,
+  TilingOptions
+} from './image';
 
 // Annotation types
-export type { Annotation, AnnotationStyle, Tool } from './annotation';
+export type {
+  Annotation,
+  AnnotationStyle,
+  Tool,
+  AnnotationHandle,
+  AnnotationHandleType,
+  AnnotationUpdate,
+  AnnotationChange,
+  AnnotationHistoryEntry,
+  AnnotationHistoryState,
+  AnnotationDocument
+} from './annotation';
 
 // Configuration types
 export type { ToolConfig, CanvasLensOptions } from './config';
@@ -21,7 +47,22 @@ export type {
   ToolManagerOptions,
   ComparisonOptions,
   ComparisonState,
-  ZoomPanOptions
+  ZoomPanOptions,
+  ZoomPanEasing,
+  ZoomToRectOptions,
+  NavigatorOptions,
+  PanConstraint,
+  CropAspectRatio,
+  CropOptions,
+  CropResult,
+  KeyAction,
+  KeymapBindings,
+  ImageNavigator,
+  RegisterShortcutOptions,
+  ShortcutAction,
+  ShortcutHandler,
+  AnnotationSerializer,
+  AnnotationSerializerContext
 } from './modules';
 
 // Tool types
@@ -1,4 +1,4 @@
-import type { EventHandlers, AnnotationStyle, Tool, CustomImageData, Annotation, Point } from './index';
+import type { EventHandlers, AnnotationStyle, Tool, CustomImageData, Annotation, Point, Rectangle } from './index';
 
 /**
  * Options for configuring the annotation manager
@@ -9,6 +9,8 @@ export interface AnnotationManagerOptions {
   defaultStyle?: AnnotationStyle;
   availableTools?: Tool[];
   eventHandlers?: EventHandlers;
+  /** Maximum number of undo steps kept in history (default: 100) */
+  historyLimit?: number;
 }
 
 /**
@@ -89,6 +91,17 @@ export interface ComparisonState {
   comparisonMode: boolean;
 }
 
+/**
+ * Easing curve of animated view transitions
+ */
+export type ZoomPanEasing = 'linear' | 'ease-out' | 'ease-in-out';
+
+/**
+ * How far the image may be panned: freely, until only a fraction of it is
+ * visible, or never leaving empty space beside it
+ */
+export type PanConstraint = 'none' | 'keep-visible' | 'contain';
+
 /**
  * Options for configuring zoom and pan functionality
  * @interface ZoomPanOptions
@@ -98,6 +111,157 @@ export interface ZoomPanOptions {
   enablePan?: boolean;
   maxZoom?: number;
   minZoom?: number;
+  /** Wheel zoom per 100px of scrolling (one mouse wheel notch) */
   zoomSpeed?: number;
   panSpeed?: number;
-}
\ No newline at end of file
+  /** Duration of zoomIn/zoomOut/zoomTo/fitToView/reset transitions in ms (0 = instant, default: 250) */
+  animationDuration?: number;
+  /** Easing of view transitions (default: 'ease-out') */
+  animationEasing?: ZoomPanEasing;
+  /** Keep panning with decaying speed after a pan drag is released (default: true) */
+  inertia?: boolean;
+  /** Share of the pan speed kept per 16ms frame of inertia, 0-1 (default: 0.95) */
+  inertiaFriction?: number;
+  /** Limit panning so the image cannot be lost off-screen (default: 'none') */
+  panConstraint?: PanConstraint;
+  /** Share of the image width/height that 'keep-visible' keeps on screen, 0-1 (default: 0.2) */
+  minVisibleFraction?: number;
+  /** Let pan drags stretch past the constraint and snap back on release (default: true) */
+  elasticOverscroll?: boolean;
+}
+
+/**
+ * Options for framing a region with zoomToRect/zoomToAnnotation
+ * @interface ZoomToRectOptions
+ */
+export interface ZoomToRectOptions {
+  /** Space kept around the region in screen pixels (default: 20) */
+  padding?: number;
+  /** Animate the transition (default: true) */
+  animate?: boolean;
+}
+
+/**
+ * Options for configuring the navigator (minimap) panel
+ * @interface NavigatorOptions
+ */
+export interface NavigatorOptions {
+  /** Width of the thumbnail in pixels; the height follows the image aspect ratio (default: 160) */
+  width?: number;
+  /** Corner of the container the panel is placed in (default: 'bottom-right') */
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  /** Color of the current viewport rectangle (default: '#ff4757') */
+  viewportColor?: string;
+}
+
+/**
+ * Aspect ratio of the crop rectangle: a preset, width divided by height, or
+ * 'free' for none; 'original' keeps the aspect ratio of the image
+ */
+export type CropAspectRatio = 'free' | 'original' | '1:1' | '4:3' | '3:2' | '16:9' | number;
+
+/**
+ * Options for starting crop mode
+ * @interface CropOptions
+ */
+export interface CropOptions {
+  /** Aspect ratio of the crop rectangle (default: 'free') */
+  aspectRatio?: CropAspectRatio;
+  /** Initial crop rectangle in natural image pixels (default: the largest rectangle of the aspect ratio) */
+  rect?: Rectangle;
+}
+
+/**
+ * Outcome of applying a crop
+ * @interface CropResult
+ */
+export interface CropResult {
+  /** Cropped region, in natural pixels of the image before cropping */
+  rect: Rectangle;
+  /** The cropped image */
+  imageData: CustomImageData;
+  /** IDs of the annotations that lay outside the cropped region and were removed */
+  removedAnnotationIds: string[];
+}
+
+/**
+ * Command a key combination can be bound to; `tool:<type>` toggles an annotation tool.
+ * The move actions pan the view, or nudge the selected annotations when there are any,
+ * and the image actions switch gallery images
+ */
+export type KeyAction =
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'resetView'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveLeftFast'
+  | 'moveRightFast'
+  | 'moveUpFast'
+  | 'moveDownFast'
+  | 'selectNext'
+  | 'selectPrevious'
+  | 'nextImage'
+  | 'previousImage'
+  | 'deleteSelection'
+  | 'cancel'
+  | 'undo'
+  | 'redo'
+  | `tool:${string}`;
+
+/**
+ * Key combinations such as 'Alt+r' or 'Mod+Shift+z' mapped to actions;
+ * null removes a default binding
+ */
+export type KeymapBindings = Record<string, KeyAction | null>;
+
+/**
+ * Shows the image after (1) or before (-1) the shown one for the image key
+ * actions; returns false when there are no images to switch between
+ */
+export type ImageNavigator = (step: 1 | -1) => boolean;
+
+/**
+ * Callback run by a custom shortcut
+ */
+export type ShortcutHandler = (event: KeyboardEvent) => void;
+
+/**
+ * What a registered shortcut does: a built-in action or a callback
+ */
+export type ShortcutAction = KeyAction | ShortcutHandler;
+
+/**
+ * Options for registering a keyboard shortcut
+ * @interface RegisterShortcutOptions
+ */
+export interface RegisterShortcutOptions {
+  /** Replace an existing binding of the same combination instead of throwing (default: false) */
+  replace?: boolean;
+}
+
+/**
+ * Input available to annotation serializers
+ * @interface AnnotationSerializerContext
+ */
+export interface AnnotationSerializerContext {
+  /** Loaded image (natural size, file name, element) or null */
+  imageData: CustomImageData | null;
+  /** Style applied to imported annotations */
+  defaultStyle: AnnotationStyle;
+}
+
+/**
+ * Converts annotations (in natural image coordinates) to and from an external format
+ * @interface AnnotationSerializer
+ */
+export interface AnnotationSerializer {
+  /** Format name used to select the serializer (e.g. 'coco') */
+  readonly format: string;
+  /** Serialize annotations; throws CanvasLensError (ANNOTATION) if not possible */
+  serialize(annotations: Annotation[], context: AnnotationSerializerContext): string;
+  /** Parse annotations; throws CanvasLensError (ANNOTATION) on invalid input */
+  deserialize(data: string, context: AnnotationSerializerContext): Annotation[];
+}
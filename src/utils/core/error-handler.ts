@@ -270,6 +270,9 @@ export class ErrorHandler {
       case ErrorType.ATTRIBUTE_PARSING:
         return 'Configuration error. Please check your settings and try again.';
 
+      case ErrorType.SHORTCUT:
+        return 'Keyboard shortcut error. Please check the key combination.';
+
       default:
         return 'An unexpected error occurred. Please refresh the page and try again.';
     }
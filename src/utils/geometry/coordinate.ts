@@ -1,22 +1,128 @@
-import type { Point, ViewState } from '../../types';
+import type { CustomImageData, Point, Rectangle, ViewOrientation, ViewState } from '../../types';
+
+/**
+ * Rotation and mirroring of a view state, with the defaults of unset fields
+ */
+export function getViewOrientation(viewState: ViewState): ViewOrientation {
+  return {
+    rotation: viewState.rotation ?? 0,
+    flipX: viewState.flipX ?? false,
+    flipY: viewState.flipY ?? false
+  };
+}
+
+/** Cosine and sine of the rotation of a view state */
+function getRotation(viewState: ViewState): { cos: number; sin: number } {
+  const rotation = viewState.rotation ?? 0;
+  // Exact values for right angles keep coordinates free of rounding noise
+  if (rotation % 90 === 0) {
+    const quarter = ((rotation / 90) % 4 + 4) % 4;
+    return [{ cos: 1, sin: 0 }, { cos: 0, sin: 1 }, { cos: -1, sin: 0 }, { cos: 0, sin: -1 }][quarter] ?? { cos: 1, sin: 0 };
+  }
+
+  const angle = rotation * Math.PI / 180;
+  return { cos: Math.cos(angle), sin: Math.sin(angle) };
+}
+
+/**
+ * Flip a vector, then rotate it, by the orientation of a view state
+ */
+function orientVector(vector: Point, viewState: ViewState): Point {
+  const x = viewState.flipX ? -vector.x : vector.x;
+  const y = viewState.flipY ? -vector.y : vector.y;
+  const { cos, sin } = getRotation(viewState);
+  return {
+    x: x * cos - y * sin,
+    y: x * sin + y * cos
+  };
+}
+
+/**
+ * Undo orientVector
+ */
+function unorientVector(vector: Point, viewState: ViewState): Point {
+  const { cos, sin } = getRotation(viewState);
+  const x = vector.x * cos + vector.y * sin;
+  const y = -vector.x * sin + vector.y * cos;
+  return {
+    x: viewState.flipX ? -x : x,
+    y: viewState.flipY ? -y : y
+  };
+}
+
+/**
+ * Bounding box of a list of points
+ */
+function getBounds(points: Point[]): Rectangle {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function getCorners(rect: Rectangle): Point[] {
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ];
+}
 
 /**
  * Convert screen coordinates to world coordinates
  */
 export function screenToWorld(screenPoint: Point, viewState: ViewState): Point {
-  return {
+  return unorientVector({
     x: (screenPoint.x - viewState.offsetX) / viewState.scale,
     y: (screenPoint.y - viewState.offsetY) / viewState.scale
-  };
+  }, viewState);
 }
 
 /**
  * Convert world coordinates to screen coordinates
  */
 export function worldToScreen(worldPoint: Point, viewState: ViewState): Point {
+  const oriented = orientVector(worldPoint, viewState);
+  return {
+    x: oriented.x * viewState.scale + viewState.offsetX,
+    y: oriented.y * viewState.scale + viewState.offsetY
+  };
+}
+
+/**
+ * Screen bounding box of a world rectangle, which is larger than the
+ * rectangle itself when the view is rotated
+ */
+export function worldRectToScreen(rect: Rectangle, viewState: ViewState): Rectangle {
+  return getBounds(getCorners(rect).map(corner => worldToScreen(corner, viewState)));
+}
+
+/**
+ * World bounding box of a screen rectangle, e.g. the area visible in the canvas
+ */
+export function screenRectToWorld(rect: Rectangle, viewState: ViewState): Rectangle {
+  return getBounds(getCorners(rect).map(corner => screenToWorld(corner, viewState)));
+}
+
+/**
+ * Convert natural image coordinates to world coordinates of the fitted display image
+ */
+export function imageToWorld(imagePoint: Point, imageData: Pick<CustomImageData, 'naturalSize' | 'displaySize' | 'position'>): Point {
+  return {
+    x: imageData.position.x + imagePoint.x * (imageData.displaySize.width / imageData.naturalSize.width),
+    y: imageData.position.y + imagePoint.y * (imageData.displaySize.height / imageData.naturalSize.height)
+  };
+}
+
+/**
+ * Convert world coordinates of the fitted display image to natural image coordinates
+ */
+export function worldToImage(worldPoint: Point, imageData: Pick<CustomImageData, 'naturalSize' | 'displaySize' | 'position'>): Point {
   return {
-    x: worldPoint.x * viewState.scale + viewState.offsetX,
-    y: worldPoint.y * viewState.scale + viewState.offsetY
+    x: (worldPoint.x - imageData.position.x) * (imageData.naturalSize.width / imageData.displaySize.width),
+    y: (worldPoint.y - imageData.position.y) * (imageData.naturalSize.height / imageData.displaySize.height)
   };
 }
 
@@ -1,2 +1,3 @@
 // Geometry utilities exports
 export * from './coordinate';
+export * from './path';
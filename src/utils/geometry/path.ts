@@ -0,0 +1,167 @@
+import type { Point, Rectangle } from '../../types';
+
+/**
+ * Point at a fraction of a segment; the ends are returned exactly
+ */
+function pointAlong(start: Point, end: Point, t: number): Point {
+  if (t === 0) return { ...start };
+  if (t === 1) return { ...end };
+  return { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+}
+
+/**
+ * Calculate distance from a point to a line segment
+ */
+export function distanceToSegment(point: Point, segmentStart: Point, segmentEnd: Point): number {
+  const dx = segmentEnd.x - segmentStart.x;
+  const dy = segmentEnd.y - segmentStart.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  if (lengthSq === 0) {
+    return Math.sqrt(Math.pow(point.x - segmentStart.x, 2) + Math.pow(point.y - segmentStart.y, 2));
+  }
+
+  const t = Math.max(0, Math.min(1, ((point.x - segmentStart.x) * dx + (point.y - segmentStart.y) * dy) / lengthSq));
+  const projX = segmentStart.x + t * dx;
+  const projY = segmentStart.y + t * dy;
+
+  return Math.sqrt(Math.pow(point.x - projX, 2) + Math.pow(point.y - projY, 2));
+}
+
+/**
+ * Simplify a polyline with the Ramer–Douglas–Peucker algorithm.
+ * Points closer than `tolerance` to the simplified path are dropped;
+ * first and last points are always kept.
+ */
+export function simplifyPath(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2 || tolerance <= 0) {
+    return points.map(point => ({ ...point }));
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long strokes
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i]!, points[first]!, points[last]!);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_point, i) => keep[i]).map(point => ({ ...point }));
+}
+
+/**
+ * Clip a segment to a rectangle with the Liang–Barsky algorithm. Returns
+ * null when no part of it (longer than a point) lies inside.
+ */
+export function clipSegment(start: Point, end: Point, rect: Rectangle): [Point, Point] | null {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  // p < 0 where the segment enters the edge's inner side, q is the distance inside it
+  const edges: Array<[number, number]> = [
+    [-dx, start.x - rect.x],
+    [dx, rect.x + rect.width - start.x],
+    [-dy, start.y - rect.y],
+    [dy, rect.y + rect.height - start.y]
+  ];
+
+  let t0 = 0;
+  let t1 = 1;
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+
+    const t = q / p;
+    if (p < 0) {
+      t0 = Math.max(t0, t);
+    } else {
+      t1 = Math.min(t1, t);
+    }
+  }
+
+  const isPoint = dx === 0 && dy === 0;
+  if (isPoint ? t0 > t1 : t0 >= t1) return null;
+  return [pointAlong(start, end, t0), pointAlong(start, end, t1)];
+}
+
+/**
+ * Clip an open path to a rectangle, segment by segment. Returns the runs of
+ * the path inside it, split where the path leaves the rectangle.
+ */
+export function clipPath(points: Point[], rect: Rectangle): Point[][] {
+  const runs: Point[][] = [];
+  let run: Point[] | null = null;
+
+  for (let i = 1; i < points.length; i++) {
+    const clipped = clipSegment(points[i - 1]!, points[i]!, rect);
+    if (!clipped) {
+      run = null;
+      continue;
+    }
+
+    const [start, end] = clipped;
+    const last = run?.[run.length - 1];
+    if (run && last && last.x === start.x && last.y === start.y) {
+      run.push(end);
+    } else {
+      run = [start, end];
+      runs.push(run);
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Clip a closed polygon to a rectangle with the Sutherland–Hodgman
+ * algorithm. Repeated points are dropped; fewer than three points are left
+ * when the polygon lies outside.
+ */
+export function clipPolygon(points: Point[], rect: Rectangle): Point[] {
+  const edges: Array<{ axis: 'x' | 'y'; value: number; isMin: boolean }> = [
+    { axis: 'x', value: rect.x, isMin: true },
+    { axis: 'x', value: rect.x + rect.width, isMin: false },
+    { axis: 'y', value: rect.y, isMin: true },
+    { axis: 'y', value: rect.y + rect.height, isMin: false }
+  ];
+
+  const clipped = edges.reduce<Point[]>((input, { axis, value, isMin }) => {
+    const inside = (point: Point) => isMin ? point[axis] >= value : point[axis] <= value;
+    const crossing = (from: Point, to: Point) => pointAlong(from, to, (value - from[axis]) / (to[axis] - from[axis]));
+
+    const output: Point[] = [];
+    input.forEach((current, i) => {
+      const previous = input[(i + input.length - 1) % input.length]!;
+      if (inside(current)) {
+        if (!inside(previous)) output.push(crossing(previous, current));
+        output.push({ ...current });
+      } else if (inside(previous)) {
+        output.push(crossing(previous, current));
+      }
+    });
+    return output;
+  }, points);
+
+  return clipped.filter((point, i) => {
+    const previous = clipped[(i + clipped.length - 1) % clipped.length]!;
+    return clipped.length === 1 || point.x !== previous.x || point.y !== previous.y;
+  });
+}
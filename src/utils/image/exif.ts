@@ -0,0 +1,264 @@
+import type { ImageMetadata } from '../../types';
+import { warn } from '../core/logger';
+
+/** EXIF data sits in the first segments of a JPEG, well within this many bytes */
+const METADATA_READ_LENGTH = 128 * 1024;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_X_RESOLUTION = 0x011a;
+const TAG_Y_RESOLUTION = 0x011b;
+const TAG_RESOLUTION_UNIT = 0x0128;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+
+/** Centimeters per inch, for resolutions given per centimeter */
+const CM_PER_INCH = 2.54;
+
+type TagValue = number | number[] | string;
+
+/**
+ * Reader for the TIFF structure inside an EXIF segment
+ */
+class TiffReader {
+  private view: DataView;
+  private start: number;
+  private littleEndian: boolean;
+
+  constructor(view: DataView, start: number) {
+    this.view = view;
+    this.start = start;
+    this.littleEndian = view.getUint16(start) === 0x4949;
+  }
+
+  isValid(): boolean {
+    const byteOrder = this.view.getUint16(this.start);
+    return (byteOrder === 0x4949 || byteOrder === 0x4d4d) && this.getUint16(2) === 42;
+  }
+
+  /**
+   * Offset of the first image file directory
+   */
+  getFirstIfdOffset(): number {
+    return this.getUint32(4);
+  }
+
+  /**
+   * Read the tags of an image file directory
+   */
+  readIfd(offset: number): Map<number, TagValue> {
+    const tags = new Map<number, TagValue>();
+    const count = this.getUint16(offset);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const value = this.readValue(entry);
+      if (value !== null) {
+        tags.set(this.getUint16(entry), value);
+      }
+    }
+    return tags;
+  }
+
+  private readValue(entry: number): TagValue | null {
+    const type = this.getUint16(entry + 2);
+    const count = this.getUint32(entry + 4);
+
+    switch (type) {
+      case 1: // BYTE
+        return this.view.getUint8(this.start + entry + 8);
+      case 2: { // ASCII, stored inline up to 4 bytes
+        const offset = count <= 4 ? entry + 8 : this.getUint32(entry + 8);
+        let text = '';
+        for (let i = 0; i < count; i++) {
+          const code = this.view.getUint8(this.start + offset + i);
+          if (code === 0) break;
+          text += String.fromCharCode(code);
+        }
+        return text.trim();
+      }
+      case 3: // SHORT
+        return this.getUint16(entry + 8);
+      case 4: // LONG
+        return this.getUint32(entry + 8);
+      case 5: // RATIONAL
+      case 10: { // SRATIONAL
+        const offset = this.getUint32(entry + 8);
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) {
+          const position = this.start + offset + i * 8;
+          const numerator = type === 5
+            ? this.view.getUint32(position, this.littleEndian)
+            : this.view.getInt32(position, this.littleEndian);
+          const denominator = type === 5
+            ? this.view.getUint32(position + 4, this.littleEndian)
+            : this.view.getInt32(position + 4, this.littleEndian);
+          values.push(denominator === 0 ? 0 : numerator / denominator);
+        }
+        return values;
+      }
+      default:
+        return null;
+    }
+  }
+
+  private getUint16(offset: number): number {
+    return this.view.getUint16(this.start + offset, this.littleEndian);
+  }
+
+  private getUint32(offset: number): number {
+    return this.view.getUint32(this.start + offset, this.littleEndian);
+  }
+}
+
+function asNumber(value: TagValue | undefined): number | undefined {
+  if (typeof value === 'number') return value;
+  if (Array.isArray(value)) return value[0];
+  return undefined;
+}
+
+function asString(value: TagValue | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
+
+/**
+ * 'YYYY:MM:DD HH:MM:SS' as 'YYYY-MM-DDTHH:MM:SS'
+ */
+function parseExifDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+}
+
+/**
+ * Degrees, minutes and seconds as signed decimal degrees
+ */
+function parseCoordinate(value: TagValue | undefined, ref: string | undefined, negativeRef: string): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const [degrees = 0, minutes = 0, seconds = 0] = value;
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === negativeRef ? -decimal : decimal;
+}
+
+function applyTiffTags(tiff: TiffReader, metadata: ImageMetadata): void {
+  const ifd0 = tiff.readIfd(tiff.getFirstIfdOffset());
+
+  const orientation = asNumber(ifd0.get(TAG_ORIENTATION));
+  if (orientation !== undefined && orientation >= 1 && orientation <= 8) {
+    metadata.orientation = orientation;
+  }
+
+  const make = asString(ifd0.get(TAG_MAKE));
+  const model = asString(ifd0.get(TAG_MODEL));
+  if (make || model) {
+    metadata.camera = { ...(make ? { make } : {}), ...(model ? { model } : {}) };
+  }
+
+  const xResolution = asNumber(ifd0.get(TAG_X_RESOLUTION));
+  const yResolution = asNumber(ifd0.get(TAG_Y_RESOLUTION));
+  if (xResolution && yResolution) {
+    const perInch = asNumber(ifd0.get(TAG_RESOLUTION_UNIT)) === 3 ? CM_PER_INCH : 1;
+    metadata.dpi = { x: xResolution * perInch, y: yResolution * perInch };
+  }
+
+  const exifOffset = asNumber(ifd0.get(TAG_EXIF_IFD));
+  const exifIfd = exifOffset ? tiff.readIfd(exifOffset) : null;
+  const captureDate = parseExifDate(asString(exifIfd?.get(TAG_DATE_TIME_ORIGINAL)) ?? asString(ifd0.get(TAG_DATE_TIME)));
+  if (captureDate) {
+    metadata.captureDate = captureDate;
+  }
+
+  const gpsOffset = asNumber(ifd0.get(TAG_GPS_IFD));
+  if (gpsOffset) {
+    const gps = tiff.readIfd(gpsOffset);
+    const latitude = parseCoordinate(gps.get(TAG_GPS_LATITUDE), asString(gps.get(TAG_GPS_LATITUDE_REF)), 'S');
+    const longitude = parseCoordinate(gps.get(TAG_GPS_LONGITUDE), asString(gps.get(TAG_GPS_LONGITUDE_REF)), 'W');
+    const altitude = asNumber(gps.get(TAG_GPS_ALTITUDE));
+
+    if (latitude !== undefined && longitude !== undefined) {
+      metadata.gps = { latitude, longitude };
+      if (altitude !== undefined) {
+        // Altitude reference 1 means below sea level
+        metadata.gps.altitude = asNumber(gps.get(TAG_GPS_ALTITUDE_REF)) === 1 ? -altitude : altitude;
+      }
+    }
+  }
+}
+
+/**
+ * Read EXIF orientation, capture date, camera, GPS position and resolution
+ * from the start of a JPEG file. Other formats and files without EXIF data
+ * give an upright orientation and nothing else.
+ */
+export function parseExif(buffer: ArrayBuffer): ImageMetadata {
+  const metadata: ImageMetadata = { orientation: 1 };
+  const view = new DataView(buffer);
+
+  // JPEG files start with the SOI marker
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return metadata;
+  }
+
+  try {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+      const marker = view.getUint8(offset + 1);
+      // Image data starts at SOS; no metadata segments follow
+      if (marker === 0xda || marker === 0xd9) break;
+
+      const length = view.getUint16(offset + 2);
+      const segment = offset + 4;
+
+      if (marker === 0xe0 && readAscii(view, segment, 5) === 'JFIF\0' && !metadata.dpi) {
+        // JFIF density: unit 1 is dots per inch, 2 dots per centimeter
+        const unit = view.getUint8(segment + 7);
+        const x = view.getUint16(segment + 8);
+        const y = view.getUint16(segment + 10);
+        if ((unit === 1 || unit === 2) && x && y) {
+          const perInch = unit === 2 ? CM_PER_INCH : 1;
+          metadata.dpi = { x: x * perInch, y: y * perInch };
+        }
+      } else if (marker === 0xe1 && readAscii(view, segment, 6) === 'Exif\0\0') {
+        const tiff = new TiffReader(view, segment + 6);
+        if (tiff.isValid()) {
+          applyTiffTags(tiff, metadata);
+        }
+      }
+
+      offset += 2 + length;
+    }
+  } catch (err) {
+    // Truncated or malformed metadata; keep what was read
+    warn('Failed to read EXIF metadata:', err);
+  }
+
+  return metadata;
+}
+
+/**
+ * Read the metadata of an image file; see parseExif
+ */
+export function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(parseExif(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(new Error('Failed to read image metadata'));
+    reader.readAsArrayBuffer(file.slice(0, METADATA_READ_LENGTH));
+  });
+}
@@ -1,3 +1,4 @@
 // Image utilities exports
 export { ImageLoader } from './loader';
+export { parseExif, readImageMetadata } from './exif';
 export * from './utils';
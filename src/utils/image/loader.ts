@@ -1,6 +1,8 @@
-import type { CustomImageData, ImageLoadOptions, LazyLoadOptions, Size } from '../../types';
+import type { CustomImageData, ImageLoadOptions, ImageMetadata, LazyLoadOptions, Size } from '../../types';
 import { ErrorHandler } from '../core/error-handler';
 import { warn } from '../core/logger';
+import { readImageMetadata } from './exif';
+import { orientImage } from './utils';
 
 export class ImageLoader {
   private static readonly DEFAULT_MAX_SIZE = 2 * 1024 * 1024; // 2MB
@@ -241,56 +243,45 @@ export class ImageLoader {
     quality: number,
     preferWebP: boolean
   ): Promise<CustomImageData> {
+    const { image: img, metadata } = await this.loadUprightImage(file);
+
     return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        const img = new Image();
-        
-        img.onload = () => {
-          // Create canvas for compression
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            reject(new Error('Failed to get canvas context'));
-            return;
-          }
-
-          // Set canvas size
-          canvas.width = img.naturalWidth;
-          canvas.height = img.naturalHeight;
-
-          // Draw image to canvas
-          ctx.drawImage(img, 0, 0);
-
-          // Compress and convert
-          const outputFormat = preferWebP && this.supportsWebP() ? 'image/webp' : 'image/jpeg';
-          const compressedDataUrl = canvas.toDataURL(outputFormat, quality);
-
-          // Create new image from compressed data
-          const compressedImg = new Image();
-          compressedImg.onload = () => {
-            const customImageData: CustomImageData = {
-              element: compressedImg,
-              naturalSize: { width: compressedImg.naturalWidth, height: compressedImg.naturalHeight },
-              displaySize: { width: compressedImg.width, height: compressedImg.height },
-              position: { x: 0, y: 0 },
-              type: outputFormat,
-              fileName: file.name
-            };
-            resolve(customImageData);
-          };
-          compressedImg.onerror = () => reject(new Error('Failed to load compressed image'));
-          compressedImg.src = compressedDataUrl;
-        };
+      // Create canvas for compression
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
 
-        img.onerror = () => reject(new Error('Failed to load image from file'));
-        img.src = e.target?.result as string;
-      };
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
 
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsDataURL(file);
+      // Set canvas size
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+
+      // Draw image to canvas
+      ctx.drawImage(img, 0, 0);
+
+      // Compress and convert
+      const outputFormat = preferWebP && this.supportsWebP() ? 'image/webp' : 'image/jpeg';
+      const compressedDataUrl = canvas.toDataURL(outputFormat, quality);
+
+      // Create new image from compressed data
+      const compressedImg = new Image();
+      compressedImg.onload = () => {
+        const customImageData: CustomImageData = {
+          element: compressedImg,
+          naturalSize: { width: compressedImg.naturalWidth, height: compressedImg.naturalHeight },
+          displaySize: { width: compressedImg.width, height: compressedImg.height },
+          position: { x: 0, y: 0 },
+          type: outputFormat,
+          fileName: file.name,
+          metadata
+        };
+        resolve(customImageData);
+      };
+      compressedImg.onerror = () => reject(new Error('Failed to load compressed image'));
+      compressedImg.src = compressedDataUrl;
     });
   }
 
@@ -298,24 +289,38 @@ export class ImageLoader {
    * Load file directly without compression
    */
   private static async loadFileDirectly(file: File): Promise<CustomImageData> {
+    const { image: img, metadata } = await this.loadUprightImage(file);
+
+    return {
+      element: img,
+      naturalSize: { width: img.naturalWidth, height: img.naturalHeight },
+      displaySize: { width: img.width, height: img.height },
+      position: { x: 0, y: 0 },
+      type: file.type,
+      fileName: file.name,
+      metadata
+    };
+  }
+
+  /**
+   * Load the image in a file, turned upright by its EXIF orientation, along
+   * with the file's metadata
+   */
+  private static async loadUprightImage(file: File): Promise<{ image: HTMLImageElement; metadata: ImageMetadata }> {
+    const [image, metadata] = await Promise.all([this.readFileAsImage(file), readImageMetadata(file)]);
+    return { image: await orientImage(image, metadata.orientation), metadata };
+  }
+
+  /**
+   * Read a file into an image element
+   */
+  private static readFileAsImage(file: File): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       
       reader.onload = (e) => {
         const img = new Image();
-        
-        img.onload = () => {
-          const customImageData: CustomImageData = {
-            element: img,
-            naturalSize: { width: img.naturalWidth, height: img.naturalHeight },
-            displaySize: { width: img.width, height: img.height },
-            position: { x: 0, y: 0 },
-            type: file.type,
-            fileName: file.name
-          };
-          resolve(customImageData);
-        };
-
+        img.onload = () => resolve(img);
         img.onerror = () => reject(new Error('Failed to load image from file'));
         img.src = e.target?.result as string;
       };
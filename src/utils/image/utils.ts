@@ -1,4 +1,4 @@
-import type { Size, Point, CustomImageData, Rectangle } from '../../types';
+import type { Size, Point, CustomImageData, ImageMetadata, Rectangle, TileSource } from '../../types';
 
 /**
  * Calculate aspect ratio preserving dimensions to fit within container
@@ -83,6 +83,66 @@ export function loadImage(url: string): Promise<HTMLImageElement> {
   });
 }
 
+/** Whether the browser already turns images upright by their EXIF orientation */
+let appliesExifOrientation: boolean | null = null;
+
+function browserAppliesExifOrientation(): boolean {
+  if (appliesExifOrientation === null) {
+    const probe = document.createElement('img');
+    document.body.appendChild(probe);
+    appliesExifOrientation = window.getComputedStyle(probe).getPropertyValue('image-orientation') === 'from-image';
+    probe.remove();
+  }
+  return appliesExifOrientation;
+}
+
+/**
+ * Canvas transform drawing an image with the given EXIF orientation upright,
+ * as [a, b, c, d, e, f] for an image of width w and height h
+ */
+function getOrientationTransform(orientation: number, w: number, h: number): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, w, 0];
+    case 3: return [-1, 0, 0, -1, w, h];
+    case 4: return [1, 0, 0, -1, 0, h];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, h, 0];
+    case 7: return [0, -1, -1, 0, h, w];
+    case 8: return [0, -1, 1, 0, 0, w];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+/**
+ * Turn an image upright according to its EXIF orientation. Resolves the
+ * image itself when it is upright already or the browser applied the
+ * orientation while decoding.
+ */
+export async function orientImage(image: HTMLImageElement, orientation: number): Promise<HTMLImageElement> {
+  if (orientation <= 1 || orientation > 8 || browserAppliesExifOrientation()) {
+    return image;
+  }
+
+  const width = image.naturalWidth || image.width;
+  const height = image.naturalHeight || image.height;
+  // Orientations 5 to 8 swap width and height
+  const swapped = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapped ? height : width;
+  canvas.height = swapped ? width : height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return image;
+  }
+
+  ctx.setTransform(...getOrientationTransform(orientation, width, height));
+  ctx.drawImage(image, 0, 0, width, height);
+
+  return loadImage(canvas.toDataURL('image/jpeg', 0.95));
+}
+
 /**
  * Get image data from loaded image
  */
@@ -90,12 +150,14 @@ export function getImageData(
   image: HTMLImageElement,
   containerSize: Size,
   type?: string,
-  fileName?: string
+  fileName?: string,
+  metadata?: ImageMetadata,
+  tileSource?: TileSource
 ): CustomImageData {
-  const naturalSize: Size = {
-    width: image.naturalWidth,
-    height: image.naturalHeight
-  };
+  // A tiled image is as large as its source; the element is only a preview
+  const naturalSize: Size = tileSource
+    ? { width: tileSource.width, height: tileSource.height }
+    : { width: image.naturalWidth, height: image.naturalHeight };
 
   const { displaySize, position } = calculateFitDimensions(
     naturalSize,
@@ -117,6 +179,14 @@ export function getImageData(
     customImageData.fileName = fileName;
   }
 
+  if (metadata) {
+    customImageData.metadata = metadata;
+  }
+
+  if (tileSource) {
+    customImageData.tileSource = tileSource;
+  }
+
   return customImageData;
 }
 
@@ -127,7 +197,8 @@ export function getCustomImageDataOverlay(
   image: HTMLImageElement,
   containerSize: Size,
   type?: string,
-  fileName?: string
+  fileName?: string,
+  metadata?: ImageMetadata
 ): CustomImageData {
   const naturalSize: Size = {
     width: image.naturalWidth,
@@ -154,6 +225,10 @@ export function getCustomImageDataOverlay(
     customImageData.fileName = fileName;
   }
 
+  if (metadata) {
+    customImageData.metadata = metadata;
+  }
+
   return customImageData;
 }
 
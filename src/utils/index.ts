@@ -27,20 +27,31 @@ export { ViewportCulling } from './performance/viewport-culling';
 
 // Image utilities
 export { ImageLoader } from './image/loader';
+export { parseExif, readImageMetadata } from './image/exif';
 export { 
   loadImage, 
   getImageData, 
   getCustomImageDataOverlay,
   calculateFitDimensions,
   calculateFitDimensionsOverlay,
-  isPointInRect
+  isPointInRect,
+  orientImage
 } from './image/utils';
 
 // Geometry utilities
 export { 
   screenToWorld, 
   worldToScreen, 
+  worldRectToScreen,
+  screenRectToWorld,
+  imageToWorld,
+  worldToImage,
   distance, 
   centerPoint, 
   clamp 
 } from './geometry/coordinate';
+
+export {
+  simplifyPath,
+  distanceToSegment
+} from './geometry/path';